@@ -31,8 +31,16 @@ export default defineConfig({
             { text: 'TransactionFormModal', link: '/components/TransactionFormModal' },
             { text: 'RecurringTransactions', link: '/components/RecurringTransactions' },
             { text: 'RecurringTransactionFormModal', link: '/components/RecurringTransactionFormModal' },
+            { text: 'RRuleBuilder', link: '/components/RRuleBuilder' },
+            { text: 'DueTransactionsPreviewModal', link: '/components/DueTransactionsPreviewModal' },
+            { text: 'RecurringAlertsPanel', link: '/components/RecurringAlertsPanel' },
+            { text: 'CashFlowSummary', link: '/components/CashFlowSummary' },
+            { text: 'BulkActionsBar', link: '/components/BulkActionsBar' },
+            { text: 'LoanFormModal', link: '/components/LoanFormModal' },
             { text: 'Notification', link: '/components/Notification' },
+            { text: 'ConfirmDialog', link: '/components/ConfirmDialog' },
             { text: 'CategoryManager', link: '/components/CategoryManager' },
+            { text: 'RulesManager', link: '/components/RulesManager' },
             { text: 'SkeletonLoader', link: '/components/SkeletonLoader' }
           ]
         }
@@ -44,7 +52,8 @@ export default defineConfig({
             { text: 'Introduction', link: '/guide/' },
             { text: 'Getting Started', link: '/guide/getting-started' },
             { text: 'Configuration', link: '/guide/configuration' },
-            { text: 'Recurring Transactions', link: '/guide/recurring-transactions' }
+            { text: 'Recurring Transactions', link: '/guide/recurring-transactions' },
+            { text: 'Loans', link: '/guide/loans' }
           ]
         }
       ]
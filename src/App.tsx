@@ -2,6 +2,8 @@ import { Routes, Route, Navigate } from 'react-router-dom'
 import Layout from './components/Layout'
 import Dashboard from './pages/Dashboard'
 import Transactions from './pages/Transactions'
+import Calendar from './pages/Calendar'
+import Loans from './pages/Loans'
 import Budget from './pages/Budget'
 import Reports from './pages/Reports'
 import Settings from './pages/Settings'
@@ -10,7 +12,7 @@ import Settings from './pages/Settings'
  * Main application component that sets up routing
  * 
  * Configures all application routes within the main Layout component.
- * Includes routes for Dashboard, Transactions, Budget, Reports, and Settings.
+ * Includes routes for Dashboard, Transactions, Calendar, Loans, Budget, Reports, and Settings.
  * Redirects invalid routes to the Dashboard.
  * 
  * @returns {JSX.Element} The rendered application with routing
@@ -21,6 +23,8 @@ function App() {
       <Route element={<Layout />}>
         <Route path="/" element={<Dashboard />} />
         <Route path="/transactions" element={<Transactions />} />
+        <Route path="/calendar" element={<Calendar />} />
+        <Route path="/loans" element={<Loans />} />
         <Route path="/budget" element={<Budget />} />
         <Route path="/reports" element={<Reports />} />
         <Route path="/settings" element={<Settings />} />
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react'
+import { financeStore } from '../lib/store'
+import { CategoryData } from '../lib/types'
+import { BulkEdit } from '../lib/bulkEdit'
+
+/**
+ * Props for the BulkActionsBar component
+ * @interface BulkActionsBarProps
+ */
+interface BulkActionsBarProps {
+  selectedCount: number
+  accounts: string[]
+  isWorking: boolean
+  onApply: (edit: BulkEdit) => void
+  onDelete: () => void
+  onClearSelection: () => void
+}
+
+/** Kinds of bulk edit offered, with their display names */
+const EDIT_TYPES: Record<BulkEdit['type'], string> = {
+  category: 'Set category',
+  account: 'Set account',
+  note: 'Append note',
+  tag: 'Add tag'
+}
+
+/**
+ * Bar of actions applied to every selected transaction at once
+ *
+ * Features:
+ * - Sets the category and subcategory, or the account, of the selected transactions
+ * - Appends a note or adds a tag to them
+ * - Deletes them
+ *
+ * @param {BulkActionsBarProps} props - Component props
+ * @returns {JSX.Element} The bar
+ */
+function BulkActionsBar({
+  selectedCount,
+  accounts,
+  isWorking,
+  onApply,
+  onDelete,
+  onClearSelection
+}: BulkActionsBarProps) {
+  const [editType, setEditType] = useState<BulkEdit['type']>('category')
+  const [category, setCategory] = useState('')
+  const [subcategory, setSubcategory] = useState('')
+  const [account, setAccount] = useState('')
+  const [text, setText] = useState('')
+  const [categoryData, setCategoryData] = useState<CategoryData>({
+    categories: [],
+    subcategories: {},
+    allSubcategories: []
+  })
+
+  useEffect(() => {
+    financeStore.fetchCategoryData()
+      .then(setCategoryData)
+      .catch(err => console.error('Error fetching categories:', err))
+  }, [])
+
+  /**
+   * Builds the edit from the current inputs
+   * @returns {BulkEdit|null} The edit, or null while a required input is empty
+   */
+  const getEdit = (): BulkEdit | null => {
+    switch (editType) {
+      case 'category':
+        return category ? { type: 'category', category, subcategory } : null
+      case 'account':
+        return account ? { type: 'account', account } : null
+      case 'note':
+        return text.trim() ? { type: 'note', note: text } : null
+      case 'tag':
+        return text.trim() ? { type: 'tag', tag: text } : null
+    }
+  }
+
+  /**
+   * Applies the edit and clears the text input for the next one
+   */
+  const handleApply = () => {
+    const edit = getEdit()
+    if (!edit) return
+    onApply(edit)
+    setText('')
+  }
+
+  const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+  return (
+    <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4 flex flex-wrap items-center gap-3">
+      <span className="text-sm font-medium text-green-800">
+        {selectedCount} selected
+      </span>
+
+      <select
+        aria-label="Bulk action"
+        value={editType}
+        onChange={(e) => setEditType(e.target.value as BulkEdit['type'])}
+        className={inputClassName}
+      >
+        {Object.entries(EDIT_TYPES).map(([type, label]) => (
+          <option key={type} value={type}>{label}</option>
+        ))}
+      </select>
+
+      {editType === 'category' && (
+        <>
+          <select
+            aria-label="Category"
+            value={category}
+            onChange={(e) => {
+              setCategory(e.target.value)
+              setSubcategory('')
+            }}
+            className={inputClassName}
+          >
+            <option value="">Select a category</option>
+            {categoryData.categories.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Subcategory"
+            value={subcategory}
+            onChange={(e) => setSubcategory(e.target.value)}
+            disabled={!category}
+            className={inputClassName}
+          >
+            <option value="">No subcategory</option>
+            {(categoryData.subcategories[category] || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      {editType === 'account' && (
+        <select
+          aria-label="Account"
+          value={account}
+          onChange={(e) => setAccount(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">Select an account</option>
+          {accounts.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )}
+
+      {(editType === 'note' || editType === 'tag') && (
+        <input
+          type="text"
+          aria-label={editType === 'note' ? 'Note' : 'Tag'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleApply()
+          }}
+          className={inputClassName}
+          placeholder={editType === 'note' ? 'Note to append' : 'e.g. tax-deductible'}
+        />
+      )}
+
+      <button
+        onClick={handleApply}
+        disabled={isWorking || !getEdit()}
+        className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:bg-green-300"
+      >
+        Apply
+      </button>
+
+      <div className="ml-auto flex items-center gap-2">
+        <button
+          onClick={onDelete}
+          disabled={isWorking}
+          className="text-sm px-3 py-2 rounded-md text-red-700 hover:bg-red-100 disabled:opacity-50"
+        >
+          Delete selected
+        </button>
+        <button
+          onClick={onClearSelection}
+          disabled={isWorking}
+          className="text-sm px-3 py-2 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          Clear selection
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default BulkActionsBar
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { CashFlow } from '../lib/cashFlow'
+
+/**
+ * Props for the CashFlowSummary component
+ * @interface CashFlowSummaryProps
+ */
+interface CashFlowSummaryProps {
+  cashFlow: CashFlow
+  /** Period the totals cover, shown after each title */
+  periodLabel?: string
+  /** Extra line shown under the expenses */
+  expensesNote?: string
+}
+
+/**
+ * Cards showing the income, expenses and net of a set of transactions
+ *
+ * Transfers between accounts count as neither income nor expenses, and refunds are
+ * taken off the expenses.
+ *
+ * @param {CashFlowSummaryProps} props - Component props
+ * @returns {JSX.Element} The summary cards
+ */
+function CashFlowSummary({ cashFlow, periodLabel, expensesNote }: CashFlowSummaryProps) {
+  /**
+   * Formats a number as a currency string in EUR
+   * @param {number} amount - The amount to format
+   * @returns {string} Formatted currency string
+   */
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'EUR',
+      minimumFractionDigits: 2
+    }).format(amount)
+  }
+
+  const suffix = periodLabel ? ` (${periodLabel})` : ''
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-sm font-medium text-gray-500 mb-1">Income{suffix}</h2>
+        <p className="text-3xl font-bold text-green-600">{formatCurrency(cashFlow.income)}</p>
+      </div>
+      
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-sm font-medium text-gray-500 mb-1">Expenses{suffix}</h2>
+        <p className="text-3xl font-bold text-gray-900">{formatCurrency(cashFlow.expenses)}</p>
+        {expensesNote && <p className="mt-1 text-sm text-gray-500">{expensesNote}</p>}
+      </div>
+      
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-sm font-medium text-gray-500 mb-1">Net{suffix}</h2>
+        <p className={`text-3xl font-bold ${cashFlow.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {formatCurrency(cashFlow.net)}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default CashFlowSummary
\ No newline at end of file
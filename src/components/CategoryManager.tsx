@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { googleSheets } from '../lib/googleSheets'
+import { financeStore } from '../lib/store'
 import Skeleton from 'react-loading-skeleton'
 
 /**
@@ -52,8 +52,8 @@ function CategoryManager() {
     setLoading(true)
     try {
       // Force refresh by invalidating cache first
-      googleSheets.invalidateCategoryCache()
-      const data = await googleSheets.fetchCategoryData()
+      financeStore.invalidateCategoryCache()
+      const data = await financeStore.fetchCategoryData()
       setCategoryData(data)
       
       // Set first category as active if available
@@ -0,0 +1,76 @@
+/**
+ * Props for the ConfirmDialog component
+ * @interface ConfirmDialogProps
+ */
+interface ConfirmDialogProps {
+  isOpen: boolean
+  title: string
+  message: string
+  confirmLabel?: string
+  isConfirming?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+/**
+ * Modal dialog asking the user to confirm a destructive action
+ *
+ * @param {ConfirmDialogProps} props - Component props
+ * @returns {JSX.Element|null} Rendered dialog or null when closed
+ */
+function ConfirmDialog({
+  isOpen,
+  title,
+  message,
+  confirmLabel = 'Delete',
+  isConfirming = false,
+  onConfirm,
+  onCancel
+}: ConfirmDialogProps) {
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="confirm-dialog-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onCancel}
+        ></div>
+
+        {/* Dialog panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="confirm-dialog-title">
+              {title}
+            </h3>
+            <p className="mt-2 text-sm text-gray-500">
+              {message}
+            </p>
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onConfirm}
+              disabled={isConfirming}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-red-300"
+            >
+              {isConfirming ? 'Working...' : confirmLabel}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isConfirming}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ConfirmDialog
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { financeStore } from '../lib/store'
+import { parseDate } from '../lib/recurrence'
+import { applyReviewedAmount } from '../lib/recurringProcessing'
+import type { DueOccurrence, ReviewAction, ReviewedOccurrence } from '../lib/recurringProcessing'
+
+/**
+ * Props for the DueTransactionsPreviewModal component
+ * @interface DueTransactionsPreviewModalProps
+ */
+interface DueTransactionsPreviewModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onProcessed: (count: number) => void
+  onError: (message: string) => void
+}
+
+/**
+ * A due occurrence in the review queue, with the values being edited
+ * @interface ReviewItem
+ */
+interface ReviewItem {
+  occurrence: DueOccurrence
+  action: ReviewAction
+  date: string
+  amount: string
+  notes: string
+  /** The expected amount, shown as a placeholder and used to tell whether an estimate was changed */
+  expectedAmount: string
+}
+
+/** Labels and colors of the review actions */
+const REVIEW_ACTIONS: { action: ReviewAction; label: string; activeClass: string }[] = [
+  { action: 'approve', label: 'Approve', activeClass: 'bg-green-600 text-white border-green-600' },
+  { action: 'skip', label: 'Skip', activeClass: 'bg-red-600 text-white border-red-600' },
+  { action: 'snooze', label: 'Snooze', activeClass: 'bg-yellow-500 text-white border-yellow-500' }
+]
+
+/**
+ * Returns the currency an occurrence is booked in, the one its template has an amount for
+ * @param {DueOccurrence} occurrence - The occurrence
+ * @returns {'EUR'|'USD'} The currency
+ */
+const getCurrency = (occurrence: DueOccurrence): 'EUR' | 'USD' =>
+  occurrence.transaction.amountEUR === undefined && occurrence.transaction.amountUSD !== undefined ? 'USD' : 'EUR'
+
+/**
+ * Review queue for the transactions that processing due recurring transactions will create
+ *
+ * Missed periods are caught up with one transaction per occurrence, so the queue
+ * can contain several rows per template. Each row's date, amount and notes can be
+ * edited, e.g. to enter the actual amount of a utility bill, and each row is
+ * approved, skipped or snoozed. Templates that ask for their amount start with an
+ * empty amount that must be entered; an estimate posted unchanged stays unconfirmed. Nothing is written until the user confirms; then
+ * the approved rows are posted in a single batch, skipped rows are never booked,
+ * and snoozed rows come back, still snoozed, the next time the queue is opened.
+ * Until then, processing without the queue leaves them unbooked as well.
+ *
+ * @param {DueTransactionsPreviewModalProps} props - Component props
+ * @returns {JSX.Element|null} Rendered modal or null when closed
+ */
+function DueTransactionsPreviewModal({ isOpen, onClose, onProcessed, onError }: DueTransactionsPreviewModalProps) {
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the queue whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setLoading(true)
+      setError(null)
+      financeStore.previewDueRecurringTransactions()
+        .then(data => setItems(data.map(occurrence => {
+          const amount = getCurrency(occurrence) === 'USD'
+            ? occurrence.transaction.amountUSD
+            : occurrence.transaction.amountEUR
+          const expectedAmount = amount === undefined ? '' : String(amount)
+          return {
+            occurrence,
+            action: (occurrence.template.snoozedDates?.includes(occurrence.scheduledDate) ? 'snooze' : 'approve') as ReviewAction,
+            date: occurrence.date,
+            amount: occurrence.template.amountMode === 'prompt' ? '' : expectedAmount,
+            notes: occurrence.transaction.notes || '',
+            expectedAmount
+          }
+        })))
+        .catch(err => {
+          console.error('Error previewing due recurring transactions:', err)
+          setError('Failed to load due recurring transactions')
+        })
+        .finally(() => setLoading(false))
+    }
+  }, [isOpen])
+
+  /**
+   * Updates one item of the queue
+   * @param {number} index - Position of the item
+   * @param {Partial<ReviewItem>} changes - The changed values
+   */
+  const updateItem = (index: number, changes: Partial<ReviewItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
+  /**
+   * Sets the same action on every item of the queue
+   * @param {ReviewAction} action - The action
+   */
+  const setAllActions = (action: ReviewAction) => {
+    setItems(prev => prev.map(item => ({ ...item, action })))
+  }
+
+  /**
+   * Posts the approved items and records the skipped ones as processed
+   * @async
+   */
+  const handleConfirm = async () => {
+    const invalid = items.find(item => item.action === 'approve' && !parseDate(item.date))
+    if (invalid) {
+      setError(`Please enter a valid date for ${invalid.occurrence.transaction.description}`)
+      return
+    }
+
+    const missingAmount = items.find(item =>
+      item.action === 'approve' && item.occurrence.template.amountMode === 'prompt' && item.amount === ''
+    )
+    if (missingAmount) {
+      setError(`Please enter the amount of ${missingAmount.occurrence.transaction.description}`)
+      return
+    }
+
+    const invalidAmount = items.find(item =>
+      item.action === 'approve' && item.amount !== '' && !Number.isFinite(parseFloat(item.amount))
+    )
+    if (invalidAmount) {
+      setError(`Please enter a valid amount for ${invalidAmount.occurrence.transaction.description}`)
+      return
+    }
+
+    // A cleared amount falls back to the expected one
+    const reviewed: ReviewedOccurrence[] = items.map(item => {
+      const transaction = applyReviewedAmount(
+        item.occurrence,
+        getCurrency(item.occurrence),
+        item.amount === '' ? undefined : parseFloat(item.amount)
+      )
+      return {
+        action: item.action,
+        occurrence: {
+          ...item.occurrence,
+          transaction: { ...transaction, date: item.date, notes: item.notes }
+        }
+      }
+    })
+
+    try {
+      setIsProcessing(true)
+      setError(null)
+      const count = await financeStore.processReviewedOccurrences(reviewed)
+      onProcessed(count)
+      onClose()
+    } catch (err) {
+      console.error('Error processing due recurring transactions:', err)
+      onError('Failed to process due recurring transactions')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  // Format date for display
+  const formatDate = (dateString: string) => {
+    const date = parseDate(dateString)
+    return date ? format(date, 'MMM dd, yyyy') : dateString
+  }
+
+  const approvedCount = items.filter(item => item.action === 'approve').length
+  const hasDecisions = items.some(item => item.action !== 'snooze')
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="due-preview-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-5xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="due-preview-title">
+              Process Due Transactions
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Review each transaction before it is posted. Adjust the date, amount or notes where the
+              actual charge differs, then approve it, skip it for good, or snooze it until next time.
+            </p>
+
+            {error && (
+              <div className="mt-2 p-2 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {items.length > 0 && (
+              <div className="mt-3 flex items-center space-x-2 text-sm text-gray-500">
+                <span>Set all to:</span>
+                {REVIEW_ACTIONS.map(({ action, label }) => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => setAllActions(action)}
+                    disabled={isProcessing}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-2 max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {loading ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">
+                        Loading due transactions...
+                      </td>
+                    </tr>
+                  ) : items.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">
+                        No recurring transactions are due.
+                      </td>
+                    </tr>
+                  ) : (
+                    items.map((item, index) => (
+                      <tr
+                        key={item.occurrence.transaction.id || `${item.occurrence.template.id}-${item.occurrence.scheduledDate}`}
+                        className={item.action === 'approve' ? '' : 'bg-gray-50 text-gray-400'}
+                      >
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                          <input
+                            type="date"
+                            value={item.date}
+                            onChange={(e) => updateItem(index, { date: e.target.value })}
+                            disabled={item.action !== 'approve' || isProcessing}
+                            aria-label="Date"
+                            className="block w-36 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100"
+                          />
+                          {item.occurrence.scheduledDate !== item.date && (
+                            <span className="block text-xs text-gray-400">
+                              Scheduled {formatDate(item.occurrence.scheduledDate)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.occurrence.transaction.description}
+                          <span className="block text-xs text-gray-500">
+                            {item.occurrence.transaction.account}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                          <div className="flex items-center">
+                            <span className="mr-1 text-gray-500">{getCurrency(item.occurrence) === 'USD' ? '$' : '€'}</span>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={item.amount}
+                              placeholder={item.expectedAmount}
+                              onChange={(e) => updateItem(index, { amount: e.target.value })}
+                              disabled={item.action !== 'approve' || isProcessing}
+                              aria-label="Amount"
+                              className="block w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100"
+                            />
+                          </div>
+                          {item.occurrence.template.amountMode === 'estimated' && item.amount === item.expectedAmount && (
+                            <span className="block text-xs text-gray-400">Estimate</span>
+                          )}
+                          {item.occurrence.template.amountMode === 'prompt' && (
+                            <span className="block text-xs text-gray-400">Enter the actual amount</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          <input
+                            type="text"
+                            value={item.notes}
+                            onChange={(e) => updateItem(index, { notes: e.target.value })}
+                            disabled={item.action !== 'approve' || isProcessing}
+                            aria-label="Notes"
+                            className="block w-full min-w-[10rem] px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100"
+                          />
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">
+                          <div className="inline-flex rounded-md shadow-sm" role="group">
+                            {REVIEW_ACTIONS.map(({ action, label, activeClass }, position) => (
+                              <button
+                                key={action}
+                                type="button"
+                                onClick={() => updateItem(index, { action })}
+                                disabled={isProcessing}
+                                aria-pressed={item.action === action}
+                                className={`px-2 py-1 text-xs font-medium border ${
+                                  position === 0 ? 'rounded-l-md' : position === REVIEW_ACTIONS.length - 1 ? 'rounded-r-md -ml-px' : '-ml-px'
+                                } ${item.action === action ? activeClass : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={loading || isProcessing || !hasDecisions}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-blue-300"
+            >
+              {isProcessing
+                ? 'Processing...'
+                : `Post ${approvedCount} Transaction${approvedCount === 1 ? '' : 's'}`}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isProcessing}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DueTransactionsPreviewModal
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Fragment, useState } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { Bars3Icon, XMarkIcon, HomeIcon, BanknotesIcon, ChartPieIcon, ClipboardDocumentListIcon, Cog6ToothIcon } from '@heroicons/react/24/outline'
+import { Bars3Icon, XMarkIcon, HomeIcon, BanknotesIcon, BuildingLibraryIcon, CalendarDaysIcon, ChartPieIcon, ClipboardDocumentListIcon, Cog6ToothIcon } from '@heroicons/react/24/outline'
 import { NavLink, Outlet } from 'react-router-dom'
 
 /**
@@ -10,6 +10,8 @@ import { NavLink, Outlet } from 'react-router-dom'
 const navigation = [
   { name: 'Dashboard', href: '/', icon: HomeIcon },
   { name: 'Transactions', href: '/transactions', icon: BanknotesIcon },
+  { name: 'Calendar', href: '/calendar', icon: CalendarDaysIcon },
+  { name: 'Loans', href: '/loans', icon: BuildingLibraryIcon },
   { name: 'Budget', href: '/budget', icon: ClipboardDocumentListIcon },
   { name: 'Reports', href: '/reports', icon: ChartPieIcon },
   { name: 'Settings', href: '/settings', icon: Cog6ToothIcon },
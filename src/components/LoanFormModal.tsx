@@ -0,0 +1,462 @@
+import { useState, useEffect, FormEvent } from 'react'
+import { format } from 'date-fns'
+import { financeStore } from '../lib/store'
+import { Loan, LoanFrequency, CategoryData } from '../lib/types'
+import { LOAN_FREQUENCIES, getInstallmentAmount } from '../lib/amortization'
+
+/**
+ * Props for the LoanFormModal component
+ * @interface LoanFormModalProps
+ */
+interface LoanFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onLoanSaved: () => void
+  loanToEdit?: Loan | null
+  accounts: string[]
+}
+
+/**
+ * Returns an empty loan for the add form
+ * @param {string[]} accounts - Known accounts, the first one is preselected
+ * @returns {Loan} The empty loan
+ */
+const emptyLoan = (accounts: string[]): Loan => ({
+  name: '',
+  principal: 0,
+  annualRate: 0,
+  term: 12,
+  frequency: 'monthly',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  currency: 'EUR',
+  account: accounts.length > 0 ? accounts[0] : '',
+  category: '',
+  subcategory: '',
+  notes: '',
+  active: true
+})
+
+/**
+ * Modal component for adding new loans and editing existing ones
+ *
+ * Provides a form with input fields for:
+ * - Name, principal, annual interest rate and number of installments
+ * - Installment frequency and date of the first installment
+ * - Currency and the account the installments are paid from
+ * - Categories of the principal and, optionally, a separate one for the interest
+ * - Notes
+ *
+ * The regular installment is shown as the terms are entered. Extra payments are
+ * added from the Loans page.
+ *
+ * @param {LoanFormModalProps} props - Component props
+ * @returns {JSX.Element|null} Rendered modal or null when closed
+ */
+function LoanFormModal({ isOpen, onClose, onLoanSaved, loanToEdit, accounts }: LoanFormModalProps) {
+  const isEditing = Boolean(loanToEdit)
+  const [loan, setLoan] = useState<Loan>(() => emptyLoan(accounts))
+  const [categoryData, setCategoryData] = useState<CategoryData>({
+    categories: [],
+    subcategories: {},
+    allSubcategories: []
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoadingCategories, setIsLoadingCategories] = useState(false)
+
+  // Fetch categories and subcategories when modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setIsLoadingCategories(true)
+      financeStore.fetchCategoryData()
+        .then(data => {
+          setCategoryData(data)
+        })
+        .catch(err => {
+          console.error('Error fetching categories:', err)
+        })
+        .finally(() => {
+          setIsLoadingCategories(false)
+        })
+    }
+  }, [isOpen])
+
+  // Reset form when modal is opened, pre-filling it in edit mode
+  useEffect(() => {
+    if (isOpen) {
+      setLoan(loanToEdit ? { ...loanToEdit } : emptyLoan(accounts))
+      setError(null)
+    }
+  }, [isOpen, accounts, loanToEdit])
+
+  /**
+   * Handles form field changes
+   * - Parses numeric values for the loan terms
+   * - Resets the subcategory when its category changes
+   *
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>} e - Change event
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+
+    if (name === 'principal' || name === 'annualRate') {
+      setLoan(prev => ({ ...prev, [name]: value === '' ? 0 : parseFloat(value) }))
+    } else if (name === 'term') {
+      setLoan(prev => ({ ...prev, term: value === '' ? 0 : parseInt(value, 10) }))
+    } else if (name === 'frequency') {
+      setLoan(prev => ({ ...prev, frequency: value as LoanFrequency }))
+    } else if (name === 'currency') {
+      setLoan(prev => ({ ...prev, currency: value as Loan['currency'] }))
+    } else if (name === 'category') {
+      setLoan(prev => ({ ...prev, category: value, subcategory: '' }))
+    } else if (name === 'interestCategory') {
+      setLoan(prev => ({ ...prev, interestCategory: value || undefined, interestSubcategory: undefined }))
+    } else if (name === 'interestSubcategory') {
+      setLoan(prev => ({ ...prev, interestSubcategory: value || undefined }))
+    } else {
+      setLoan(prev => ({ ...prev, [name]: value }))
+    }
+  }
+
+  /**
+   * Form submission handler
+   * - Validates required fields and loan terms
+   * - Adds or updates the loan
+   * - Handles success and error states
+   *
+   * @param {FormEvent} e - Form submission event
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    if (!loan.name || !loan.account || !loan.startDate) {
+      setError('Name, account, and first installment date are required')
+      setIsSubmitting(false)
+      return
+    }
+
+    if (!(loan.principal > 0) || !(loan.term > 0) || loan.annualRate < 0) {
+      setError('Principal and number of installments must be positive, and the rate cannot be negative')
+      setIsSubmitting(false)
+      return
+    }
+
+    try {
+      if (isEditing) {
+        await financeStore.updateLoan(loan)
+      } else {
+        await financeStore.addLoan(loan)
+      }
+      onLoanSaved()
+      onClose()
+    } catch (err: any) {
+      setError(err.message || `Failed to ${isEditing ? 'update' : 'add'} loan`)
+      console.error(`Error ${isEditing ? 'updating' : 'adding'} loan:`, err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const installment = loan.principal > 0 && loan.term > 0 ? getInstallmentAmount(loan) : 0
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+  const selectClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500'
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              {isEditing ? 'Edit Loan' : 'Add Loan'}
+            </h3>
+
+            {error && (
+              <div className="mt-2 p-2 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="mt-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="sm:col-span-2">
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    name="name"
+                    id="name"
+                    required
+                    value={loan.name}
+                    onChange={handleChange}
+                    className={inputClassName}
+                    placeholder="E.g., Car Loan, Mortgage"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="principal" className="block text-sm font-medium text-gray-700">
+                    Principal *
+                  </label>
+                  <input
+                    type="number"
+                    name="principal"
+                    id="principal"
+                    step="0.01"
+                    min="0"
+                    required
+                    value={loan.principal || ''}
+                    onChange={handleChange}
+                    className={inputClassName}
+                    placeholder="0.00"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="currency" className="block text-sm font-medium text-gray-700">
+                    Currency
+                  </label>
+                  <select
+                    name="currency"
+                    id="currency"
+                    value={loan.currency}
+                    onChange={handleChange}
+                    className={selectClassName}
+                  >
+                    <option value="EUR">EUR</option>
+                    <option value="USD">USD</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="annualRate" className="block text-sm font-medium text-gray-700">
+                    Annual Interest Rate (%)
+                  </label>
+                  <input
+                    type="number"
+                    name="annualRate"
+                    id="annualRate"
+                    step="0.001"
+                    min="0"
+                    value={loan.annualRate}
+                    onChange={handleChange}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="term" className="block text-sm font-medium text-gray-700">
+                    Number of Installments *
+                  </label>
+                  <input
+                    type="number"
+                    name="term"
+                    id="term"
+                    min="1"
+                    required
+                    value={loan.term || ''}
+                    onChange={handleChange}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="frequency" className="block text-sm font-medium text-gray-700">
+                    Installments
+                  </label>
+                  <select
+                    name="frequency"
+                    id="frequency"
+                    value={loan.frequency || 'monthly'}
+                    onChange={handleChange}
+                    className={selectClassName}
+                  >
+                    {Object.entries(LOAN_FREQUENCIES).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+                    First Installment *
+                  </label>
+                  <input
+                    type="date"
+                    name="startDate"
+                    id="startDate"
+                    required
+                    value={loan.startDate}
+                    onChange={handleChange}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="sm:col-span-2">
+                  <label htmlFor="account" className="block text-sm font-medium text-gray-700">
+                    Paid From Account *
+                  </label>
+                  <select
+                    name="account"
+                    id="account"
+                    required
+                    value={loan.account}
+                    onChange={handleChange}
+                    className={selectClassName}
+                  >
+                    {accounts.map(account => (
+                      <option key={account} value={account}>{account}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                    Category
+                  </label>
+                  <select
+                    name="category"
+                    id="category"
+                    value={loan.category || ''}
+                    onChange={handleChange}
+                    disabled={isLoadingCategories}
+                    className={selectClassName}
+                  >
+                    <option value="">Select Category</option>
+                    {categoryData.categories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="subcategory" className="block text-sm font-medium text-gray-700">
+                    Subcategory
+                  </label>
+                  <select
+                    name="subcategory"
+                    id="subcategory"
+                    value={loan.subcategory || ''}
+                    onChange={handleChange}
+                    disabled={isLoadingCategories || !loan.category}
+                    className={selectClassName}
+                  >
+                    <option value="">Select Subcategory</option>
+                    {loan.category && categoryData.subcategories[loan.category]?.map(subcategory => (
+                      <option key={subcategory} value={subcategory}>{subcategory}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="interestCategory" className="block text-sm font-medium text-gray-700">
+                    Interest Category
+                  </label>
+                  <select
+                    name="interestCategory"
+                    id="interestCategory"
+                    value={loan.interestCategory || ''}
+                    onChange={handleChange}
+                    disabled={isLoadingCategories}
+                    className={selectClassName}
+                  >
+                    <option value="">Same as principal</option>
+                    {categoryData.categories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="interestSubcategory" className="block text-sm font-medium text-gray-700">
+                    Interest Subcategory
+                  </label>
+                  <select
+                    name="interestSubcategory"
+                    id="interestSubcategory"
+                    value={loan.interestSubcategory || ''}
+                    onChange={handleChange}
+                    disabled={isLoadingCategories || !loan.interestCategory}
+                    className={selectClassName}
+                  >
+                    <option value="">Select Subcategory</option>
+                    {loan.interestCategory && categoryData.subcategories[loan.interestCategory]?.map(subcategory => (
+                      <option key={subcategory} value={subcategory}>{subcategory}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="sm:col-span-2">
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                    Notes
+                  </label>
+                  <textarea
+                    name="notes"
+                    id="notes"
+                    rows={2}
+                    value={loan.notes || ''}
+                    onChange={handleChange}
+                    className={inputClassName}
+                    placeholder="Lender, contract number, ..."
+                  ></textarea>
+                </div>
+
+                <label className="sm:col-span-2 flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={loan.active}
+                    onChange={(e) => setLoan(prev => ({ ...prev, active: e.target.checked }))}
+                    className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                  />
+                  <span className="ml-2">Post installments automatically</span>
+                </label>
+
+                {installment > 0 && (
+                  <div className="sm:col-span-2 bg-gray-50 p-3 rounded-md text-sm text-gray-700">
+                    Regular installment:{' '}
+                    <span className="font-medium text-gray-900">
+                      {new Intl.NumberFormat('en-US', { style: 'currency', currency: loan.currency, minimumFractionDigits: 2 }).format(installment)}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-green-300"
+                >
+                  {isSubmitting
+                    ? (isEditing ? 'Saving...' : 'Adding...')
+                    : (isEditing ? 'Save Changes' : 'Add Loan')}
+                </button>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:mt-0 sm:w-auto sm:text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LoanFormModal
\ No newline at end of file
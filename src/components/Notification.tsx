@@ -6,35 +6,55 @@ import { useState, useEffect } from 'react'
  */
 interface NotificationProps {
   message: string
-  type: 'success' | 'error'
+  type: 'success' | 'error' | 'info'
   isVisible: boolean
   onClose: () => void
   duration?: number
+  action?: NotificationAction
 }
 
 /**
- * Animated notification component for displaying success and error messages
+ * Button shown next to a notification's message, e.g. to undo what it reports
+ * @interface NotificationAction
+ */
+export interface NotificationAction {
+  label: string
+  onClick: () => void
+}
+
+/** Text and background colors of each notification type */
+const TYPE_STYLES = {
+  success: { container: 'bg-green-100 text-green-800', icon: 'text-green-400', button: 'text-green-500 hover:bg-green-200 focus:bg-green-200' },
+  error: { container: 'bg-red-100 text-red-800', icon: 'text-red-400', button: 'text-red-500 hover:bg-red-200 focus:bg-red-200' },
+  info: { container: 'bg-blue-100 text-blue-800', icon: 'text-blue-400', button: 'text-blue-500 hover:bg-blue-200 focus:bg-blue-200' }
+}
+
+/**
+ * Animated notification component for displaying success, error and progress messages
  * 
  * Features:
  * - Auto-dismisses after specified duration
  * - Smooth fade in/out animations
- * - Different styling for success and error states
+ * - Different styling for success, error and info (progress) states
+ * - Optional action button, e.g. to undo the change being reported
  * - Manual close button
  * 
  * @param {NotificationProps} props - Component props
  * @param {string} props.message - The notification message to display
- * @param {'success' | 'error'} props.type - Type of notification that determines styling
+ * @param {'success' | 'error' | 'info'} props.type - Type of notification that determines styling
  * @param {boolean} props.isVisible - Whether the notification should be visible
  * @param {() => void} props.onClose - Callback function when notification is closed
- * @param {number} [props.duration=3000] - Time in milliseconds before auto-dismissing
+ * @param {number} [props.duration=3000] - Time in milliseconds before auto-dismissing, 0 to stay until closed
+ * @param {NotificationAction} [props.action] - Button shown after the message
  * @returns {JSX.Element|null} The notification component or null when not visible
  */
-function Notification({ message, type, isVisible, onClose, duration = 3000 }: NotificationProps) {
+function Notification({ message, type, isVisible, onClose, duration = 3000, action }: NotificationProps) {
   const [isShowing, setIsShowing] = useState(false)
 
   useEffect(() => {
     if (isVisible) {
       setIsShowing(true)
+      if (duration === 0) return
       const timer = setTimeout(() => {
         setIsShowing(false)
         setTimeout(onClose, 300) // Wait for animation to complete before fully removing
@@ -50,13 +70,16 @@ function Notification({ message, type, isVisible, onClose, duration = 3000 }: No
     <div 
       className={`fixed top-5 right-5 z-[60] p-4 rounded-md shadow-md transition-all duration-300 ${
         isShowing ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'
-      } ${
-        type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-      }`}
+      } ${TYPE_STYLES[type].container}`}
     >
       <div className="flex items-start">
         <div className="flex-shrink-0">
-          {type === 'success' ? (
+          {type === 'info' ? (
+            <svg className={`h-5 w-5 animate-spin ${TYPE_STYLES.info.icon}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+          ) : type === 'success' ? (
             <svg className="h-5 w-5 text-green-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
             </svg>
@@ -69,15 +92,19 @@ function Notification({ message, type, isVisible, onClose, duration = 3000 }: No
         <div className="ml-3">
           <p className="text-sm font-medium">{message}</p>
         </div>
+        {action && (
+          <button
+            onClick={action.onClick}
+            className={`ml-4 text-sm font-semibold underline rounded-md px-1.5 ${TYPE_STYLES[type].button} focus:outline-none`}
+          >
+            {action.label}
+          </button>
+        )}
         <div className="ml-auto pl-3">
           <div className="-mx-1.5 -my-1.5">
             <button
               onClick={onClose}
-              className={`inline-flex rounded-md p-1.5 ${
-                type === 'success' 
-                  ? 'text-green-500 hover:bg-green-200 focus:bg-green-200' 
-                  : 'text-red-500 hover:bg-red-200 focus:bg-red-200'
-              } focus:outline-none`}
+              className={`inline-flex rounded-md p-1.5 ${TYPE_STYLES[type].button} focus:outline-none`}
             >
               <span className="sr-only">Dismiss</span>
               <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
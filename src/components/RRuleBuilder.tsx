@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react'
+import { describeRRule, formatOrdinal, formatRRule, parseRRule, RRULE_FREQUENCIES } from '../lib/rrule'
+import type { RRule, RRuleFrequency } from '../lib/rrule'
+
+/**
+ * Props for the RRuleBuilder component
+ * @interface RRuleBuilderProps
+ */
+interface RRuleBuilderProps {
+  value: string
+  onChange: (rrule: string) => void
+}
+
+/**
+ * Schedule choices the builder can express
+ * @interface BuilderFields
+ */
+interface BuilderFields {
+  freq: RRuleFrequency
+  interval: number
+  /** Days of week (0-6) for weekly rules */
+  weekdays: number[]
+  /** Month (1-12) for yearly rules */
+  month: number
+  /** Whether monthly and yearly rules fall on days of the month or on a position such as "the 2nd Tuesday" */
+  dayMode: 'days' | 'position'
+  /** Days of the month, -1 for the last day */
+  monthDays: number[]
+  /** Position within the month, -1 for the last */
+  position: number
+  /** 'day', 'weekday' or a day of week (0-6) */
+  positionDay: string
+  /** Parts the builder does not edit but keeps */
+  count?: number
+  until?: Date
+}
+
+const PERIOD_LABELS: Record<RRuleFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+  YEARLY: 'year(s)'
+}
+
+/** Weekdays in Monday-first display order */
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+]
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const POSITIONS = [1, 2, 3, 4, -1]
+
+const WORKWEEK = [1, 2, 3, 4, 5]
+
+/**
+ * Reads the builder fields from a rule
+ * @param {RRule} rule - The parsed rule
+ * @returns {BuilderFields|null} The fields, or null if the rule can only be edited as text
+ */
+const toFields = (rule: RRule): BuilderFields | null => {
+  const fields: BuilderFields = {
+    freq: rule.freq,
+    interval: rule.interval,
+    weekdays: [1],
+    month: 1,
+    dayMode: 'days',
+    monthDays: [],
+    position: 1,
+    positionDay: 'day',
+    count: rule.count,
+    until: rule.until
+  }
+  const { byDay, byMonthDay, byMonth, bySetPos } = rule
+
+  if (rule.weekStart !== 1) return null
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return byDay || byMonthDay || byMonth || bySetPos ? null : fields
+
+    case 'WEEKLY':
+      if (byMonthDay || byMonth || bySetPos || byDay?.some(day => day.ordinal !== undefined)) return null
+      return { ...fields, weekdays: byDay ? byDay.map(day => day.weekday) : [] }
+
+    case 'MONTHLY':
+    case 'YEARLY': {
+      if (rule.freq === 'MONTHLY' ? byMonth : byMonth?.length !== 1) return null
+      const withMonth = { ...fields, month: byMonth ? byMonth[0] : 1 }
+
+      // On days of the month, e.g. the 1st and 15th
+      if (!byDay && !bySetPos) {
+        return { ...withMonth, monthDays: byMonthDay || [] }
+      }
+
+      // On a position, e.g. the 2nd Tuesday
+      if (!byMonthDay && !bySetPos && byDay?.length === 1 && byDay[0].ordinal !== undefined &&
+          POSITIONS.includes(byDay[0].ordinal)) {
+        return { ...withMonth, dayMode: 'position', position: byDay[0].ordinal, positionDay: String(byDay[0].weekday) }
+      }
+
+      // On a weekday position, e.g. the last business day
+      if (!byMonthDay && bySetPos?.length === 1 && POSITIONS.includes(bySetPos[0]) && byDay?.length === 5 &&
+          byDay.every(day => day.ordinal === undefined && WORKWEEK.includes(day.weekday))) {
+        return { ...withMonth, dayMode: 'position', position: bySetPos[0], positionDay: 'weekday' }
+      }
+
+      return null
+    }
+  }
+}
+
+/**
+ * Builds the rule described by the builder fields
+ * @param {BuilderFields} fields - The builder fields
+ * @returns {RRule} The rule
+ */
+const toRule = (fields: BuilderFields): RRule => {
+  const rule: RRule = {
+    freq: fields.freq,
+    interval: fields.interval,
+    count: fields.count,
+    until: fields.until,
+    weekStart: 1
+  }
+
+  if (fields.freq === 'WEEKLY' && fields.weekdays.length > 0) {
+    rule.byDay = [...fields.weekdays]
+      .sort((a, b) => (a || 7) - (b || 7))
+      .map(weekday => ({ weekday }))
+  }
+
+  if (fields.freq === 'MONTHLY' || fields.freq === 'YEARLY') {
+    if (fields.freq === 'YEARLY') {
+      rule.byMonth = [fields.month]
+    }
+
+    if (fields.dayMode === 'days') {
+      // No days selected means the start date's day
+      if (fields.monthDays.length > 0) {
+        rule.byMonthDay = [...fields.monthDays].sort((a, b) => (a < 0 ? 32 : a) - (b < 0 ? 32 : b))
+      } else if (fields.freq === 'YEARLY') {
+        rule.byMonthDay = [1]
+      }
+    } else if (fields.positionDay === 'day') {
+      rule.byMonthDay = [fields.position]
+    } else if (fields.positionDay === 'weekday') {
+      rule.byDay = WORKWEEK.map(weekday => ({ weekday }))
+      rule.bySetPos = [fields.position]
+    } else {
+      rule.byDay = [{ weekday: parseInt(fields.positionDay, 10), ordinal: fields.position }]
+    }
+  }
+
+  return rule
+}
+
+/**
+ * Builder for iCalendar recurrence rules
+ *
+ * Offers common schedules such as "every 4 weeks", "the 1st and 15th", "the 2nd Tuesday"
+ * or "the last business day of the month", and shows the resulting RRULE, which can
+ * also be edited directly. Rules the builder cannot express are edited as text only.
+ *
+ * @param {RRuleBuilderProps} props - Component props
+ * @returns {JSX.Element} The rule builder
+ */
+function RRuleBuilder({ value, onChange }: RRuleBuilderProps) {
+  const [text, setText] = useState(value)
+
+  // Follow changes made through the builder controls or by the parent
+  useEffect(() => {
+    setText(prev => (prev === value ? prev : value))
+  }, [value])
+
+  let rule: RRule | null = null
+  let parseError: string | null = null
+  try {
+    rule = parseRRule(text)
+  } catch (err: any) {
+    parseError = err.message
+  }
+  const fields = rule ? toFields(rule) : null
+
+  /**
+   * Applies a change made through the builder controls
+   * @param {Partial<BuilderFields>} changes - The changed fields
+   */
+  const update = (changes: Partial<BuilderFields>) => {
+    if (!fields) return
+    onChange(formatRRule(toRule({ ...fields, ...changes })))
+  }
+
+  /**
+   * Adds or removes a value from a list
+   * @param {number[]} list - The list
+   * @param {number} item - The value to toggle
+   * @returns {number[]} The updated list
+   */
+  const toggle = (list: number[], item: number) =>
+    list.includes(item) ? list.filter(entry => entry !== item) : [...list, item]
+
+  const toggleClass = (selected: boolean) =>
+    `px-2 py-1 text-xs rounded border ${
+      selected ? 'bg-green-600 border-green-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+    }`
+
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded-md shadow-sm bg-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+  return (
+    <div className="space-y-3 bg-gray-50 p-3 rounded-md">
+      {fields && (
+        <>
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Repeat every</span>
+            <input
+              type="number"
+              min={1}
+              value={fields.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              aria-label="Interval"
+            />
+            <select
+              value={fields.freq}
+              onChange={(e) => update({ freq: e.target.value as RRuleFrequency })}
+              className={selectClass}
+              aria-label="Period"
+            >
+              {RRULE_FREQUENCIES.map(freq => (
+                <option key={freq} value={freq}>{PERIOD_LABELS[freq]}</option>
+              ))}
+            </select>
+            {fields.freq === 'YEARLY' && (
+              <>
+                <span>in</span>
+                <select
+                  value={fields.month}
+                  onChange={(e) => update({ month: parseInt(e.target.value, 10) })}
+                  className={selectClass}
+                  aria-label="Month"
+                >
+                  {MONTH_NAMES.map((name, index) => (
+                    <option key={name} value={index + 1}>{name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+
+          {fields.freq === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(day => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => update({ weekdays: toggle(fields.weekdays, day.value) })}
+                  className={toggleClass(fields.weekdays.includes(day.value))}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {(fields.freq === 'MONTHLY' || fields.freq === 'YEARLY') && (
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={fields.dayMode === 'days'}
+                  onChange={() => update({ dayMode: 'days' })}
+                  className="h-4 w-4 text-green-600 border-gray-300 focus:ring-green-500"
+                />
+                <span className="ml-2">On day(s) of the month</span>
+              </label>
+              {fields.dayMode === 'days' && (
+                <div className="ml-6 flex flex-wrap gap-1">
+                  {[...Array.from({ length: 31 }, (_, index) => index + 1), -1].map(day => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => update({ monthDays: toggle(fields.monthDays, day) })}
+                      className={toggleClass(fields.monthDays.includes(day))}
+                    >
+                      {day === -1 ? 'Last' : day}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={fields.dayMode === 'position'}
+                  onChange={() => update({ dayMode: 'position' })}
+                  className="h-4 w-4 text-green-600 border-gray-300 focus:ring-green-500"
+                />
+                <span className="ml-2">On the</span>
+                <select
+                  value={fields.position}
+                  onChange={(e) => update({ dayMode: 'position', position: parseInt(e.target.value, 10) })}
+                  className={`ml-2 ${selectClass}`}
+                  aria-label="Position"
+                >
+                  {POSITIONS.map(position => (
+                    <option key={position} value={position}>{formatOrdinal(position)}</option>
+                  ))}
+                </select>
+                <select
+                  value={fields.positionDay}
+                  onChange={(e) => update({ dayMode: 'position', positionDay: e.target.value })}
+                  className={`ml-2 ${selectClass}`}
+                  aria-label="Day"
+                >
+                  <option value="day">day</option>
+                  <option value="weekday">business day (Mon-Fri)</option>
+                  {WEEKDAYS.map(day => (
+                    <option key={day.value} value={String(day.value)}>{WEEKDAY_NAMES[day.value]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {((fields.freq === 'WEEKLY' && fields.weekdays.length === 0) ||
+            (fields.freq === 'MONTHLY' && fields.dayMode === 'days' && fields.monthDays.length === 0)) && (
+            <p className="text-xs text-gray-500">Nothing selected: the start date's day is used.</p>
+          )}
+        </>
+      )}
+
+      <div>
+        <label htmlFor="rrule" className="block text-xs font-medium text-gray-500">
+          RRULE
+        </label>
+        <input
+          type="text"
+          id="rrule"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            onChange(e.target.value)
+          }}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          placeholder="FREQ=MONTHLY;BYMONTHDAY=1,15"
+        />
+        {parseError ? (
+          <p className="mt-1 text-xs text-red-600">{parseError}</p>
+        ) : rule && (
+          <p className="mt-1 text-xs text-gray-500">
+            {describeRRule(rule)}
+            {!fields && ' (this rule can only be edited as text)'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RRuleBuilder
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { parseDate } from '../lib/recurrence'
+import { RECURRING_ALERT_TYPES, RecurringAlert, RecurringAlertType } from '../lib/recurringAlerts'
+
+/**
+ * Props for the RecurringAlertsPanel component
+ * @interface RecurringAlertsPanelProps
+ */
+interface RecurringAlertsPanelProps {
+  alerts: RecurringAlert[]
+  /** Maximum number of alerts listed, the rest are counted */
+  limit?: number
+}
+
+/** Badge colors of the alert types */
+const ALERT_BADGE_CLASSES: Record<RecurringAlertType, string> = {
+  priceIncrease: 'bg-yellow-100 text-yellow-800',
+  missed: 'bg-red-100 text-red-800',
+  duplicate: 'bg-orange-100 text-orange-800'
+}
+
+/**
+ * Panel listing price increases, missed charges and duplicate charges of recurring transactions
+ *
+ * Clicking an alert opens its template in the Recurring Transactions tab.
+ *
+ * @param {RecurringAlertsPanelProps} props - Component props
+ * @returns {JSX.Element} The alerts panel
+ */
+function RecurringAlertsPanel({ alerts, limit = 5 }: RecurringAlertsPanelProps) {
+  const navigate = useNavigate()
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <ExclamationTriangleIcon className={`h-5 w-5 mr-2 ${alerts.length > 0 ? 'text-yellow-500' : 'text-gray-400'}`} />
+        <h2 className="text-lg font-medium text-gray-900">Recurring Alerts</h2>
+      </div>
+      {alerts.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">
+          No price increases, missed charges or duplicate charges in the last 90 days.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {alerts.slice(0, limit).map(alert => (
+            <li key={`${alert.type}-${alert.template.id}-${alert.date}`}>
+              <button
+                type="button"
+                onClick={() => navigate(`/transactions?tab=recurring&template=${encodeURIComponent(alert.template.id || '')}`)}
+                className="w-full text-left px-6 py-3 flex items-center justify-between hover:bg-gray-50"
+              >
+                <div className="text-sm">
+                  <div className="flex items-center">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ALERT_BADGE_CLASSES[alert.type]}`}>
+                      {RECURRING_ALERT_TYPES[alert.type]}
+                    </span>
+                    <span className="ml-2 font-medium text-gray-900">{alert.template.description}</span>
+                  </div>
+                  <div className="mt-1 text-gray-500">{alert.message}</div>
+                </div>
+                <span className="ml-4 flex-shrink-0 text-sm text-gray-500">
+                  {format(parseDate(alert.date) as Date, 'MMM dd')}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {alerts.length > limit && (
+        <div className="bg-gray-50 px-6 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-700">
+            {alerts.length - limit} more alerts are shown in the Recurring Transactions tab
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecurringAlertsPanel
\ No newline at end of file
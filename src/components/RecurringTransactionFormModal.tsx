@@ -1,6 +1,12 @@
 import { useState, useEffect, FormEvent } from 'react'
-import { googleSheets, RecurringTransaction, CategoryData } from '../lib/googleSheets'
-import { format, addDays, addWeeks, addMonths, addYears } from 'date-fns'
+import { financeStore } from '../lib/store'
+import { RecurringTransaction, CategoryData, BusinessDayAdjustment, HolidayCalendar, AmountMode } from '../lib/types'
+import { format, subDays } from 'date-fns'
+import { formatDate, frequencyForRule, getRecurrenceRule, occurrencesAfter, parseDate } from '../lib/recurrence'
+import { BUSINESS_DAY_ADJUSTMENTS, HOLIDAY_CALENDARS } from '../lib/holidays'
+import { AMOUNT_MODES, DEFAULT_ESTIMATE_COUNT, getPause } from '../lib/recurringProcessing'
+import { formatRRule, parseRRule } from '../lib/rrule'
+import RRuleBuilder from './RRuleBuilder'
 
 /**
  * Props for the RecurringTransactionFormModal component
@@ -10,19 +16,25 @@ interface RecurringTransactionFormModalProps {
   isOpen: boolean
   onClose: () => void
   onTransactionAdded: () => void
+  onTransactionUpdated?: () => void
+  recurringTransactionToEdit?: RecurringTransaction | null
   accounts: string[]
 }
 
 /**
- * Modal component for adding new recurring transactions
+ * Modal component for adding new recurring transactions and editing existing ones
+ * 
+ * Opens in edit mode, pre-filled from the template, when `recurringTransactionToEdit` is set.
+ * Edits can apply to all occurrences or to future occurrences from a chosen date only.
  * 
  * Provides a form with input fields for all recurring transaction data including:
  * - Description field
  * - Category and subcategory selectors
- * - Frequency selector with appropriate date pickers
+ * - Frequency selector with appropriate date pickers, or a custom RRULE schedule
  * - Amount fields for EUR and USD
  * - Account selector
  * - Notes textarea
+ * - Pause until a date, and skipped occurrences that can be restored
  * 
  * @param {RecurringTransactionFormModalProps} props - Component props
  * @returns {JSX.Element|null} Rendered modal or null when closed
@@ -31,8 +43,11 @@ function RecurringTransactionFormModal({
   isOpen, 
   onClose, 
   onTransactionAdded,
+  onTransactionUpdated,
+  recurringTransactionToEdit,
   accounts
 }: RecurringTransactionFormModalProps) {
+  const isEditing = Boolean(recurringTransactionToEdit)
   const [recurringTransaction, setRecurringTransaction] = useState<RecurringTransaction>({
     description: '',
     category: '',
@@ -54,13 +69,15 @@ function RecurringTransactionFormModal({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isLoadingCategories, setIsLoadingCategories] = useState(false)
-  const [previewDates, setPreviewDates] = useState<string[]>([])
+  const [previewDates, setPreviewDates] = useState<{ scheduled: string; due: string }[]>([])
+  const [applyTo, setApplyTo] = useState<'all' | 'future'>('all')
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), 'yyyy-MM-dd'))
 
   // Fetch categories and subcategories when modal is opened
   useEffect(() => {
     if (isOpen) {
       setIsLoadingCategories(true)
-      googleSheets.fetchCategoryData()
+      financeStore.fetchCategoryData()
         .then(data => {
           setCategoryData(data)
         })
@@ -73,9 +90,14 @@ function RecurringTransactionFormModal({
     }
   }, [isOpen])
 
-  // Reset form when modal is opened
+  // Reset form when modal is opened, pre-filling it in edit mode
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && recurringTransactionToEdit) {
+      setRecurringTransaction({ ...recurringTransactionToEdit })
+      setApplyTo('all')
+      setEffectiveDate(recurringTransactionToEdit.nextDue || format(new Date(), 'yyyy-MM-dd'))
+      setError(null)
+    } else if (isOpen) {
       const today = new Date()
       setRecurringTransaction({
         description: '',
@@ -92,156 +114,41 @@ function RecurringTransactionFormModal({
       })
       setError(null)
     }
-  }, [isOpen, accounts])
+  }, [isOpen, accounts, recurringTransactionToEdit])
 
-  // Generate preview dates when frequency or start date changes
+  // Generate preview dates whenever the schedule changes
   useEffect(() => {
     generatePreviewDates()
   }, [
     recurringTransaction.frequency, 
     recurringTransaction.startDate, 
+    recurringTransaction.endDate,
     recurringTransaction.dayOfMonth, 
-    recurringTransaction.dayOfWeek
+    recurringTransaction.dayOfWeek,
+    recurringTransaction.rrule,
+    recurringTransaction.businessDayAdjustment,
+    recurringTransaction.holidayCalendar,
+    recurringTransaction.pausedUntil,
+    recurringTransaction.exceptionDates
   ])
 
   /**
    * Generates preview dates for the recurring transaction
-   * Shows the next 5 occurrences based on the current settings
+   * Shows the first 5 occurrences from the start date, calculated by the same
+   * recurrence engine that processing uses, on their business-day adjusted due dates
    */
   const generatePreviewDates = () => {
-    try {
-      const { frequency, startDate, dayOfMonth, dayOfWeek } = recurringTransaction
-      const dates: string[] = []
-      let baseDate = new Date(startDate)
-      
-      // Validate base date
-      if (baseDate.toString() === 'Invalid Date') {
-        setPreviewDates([])
-        return
-      }
+    const start = parseDate(recurringTransaction.startDate)
+    const dates: { scheduled: string; due: string }[] = []
 
-      // Generate the next 5 occurrences
-      for (let i = 0; i < 5; i++) {
-        let nextDate: Date
-        
-        switch (frequency) {
-          case 'daily':
-            nextDate = i === 0 ? baseDate : addDays(dates[i - 1], 1)
-            break
-            
-          case 'weekly':
-            if (i === 0) {
-              nextDate = baseDate
-              // Adjust to the correct day of week if specified
-              if (dayOfWeek !== undefined) {
-                const currentDay = nextDate.getDay()
-                const daysToAdd = (dayOfWeek - currentDay + 7) % 7
-                nextDate = addDays(nextDate, daysToAdd)
-              }
-            } else {
-              nextDate = addWeeks(dates[i - 1], 1)
-            }
-            break
-            
-          case 'biweekly':
-            if (i === 0) {
-              nextDate = baseDate
-              // Adjust to the correct day of week if specified
-              if (dayOfWeek !== undefined) {
-                const currentDay = nextDate.getDay()
-                const daysToAdd = (dayOfWeek - currentDay + 7) % 7
-                nextDate = addDays(nextDate, daysToAdd)
-              }
-            } else {
-              nextDate = addWeeks(dates[i - 1], 2)
-            }
-            break
-            
-          case 'monthly':
-            if (i === 0) {
-              nextDate = baseDate
-              // Adjust to the correct day of month if specified
-              if (dayOfMonth !== undefined) {
-                nextDate.setDate(Math.min(
-                  dayOfMonth, 
-                  new Date(nextDate.getFullYear(), nextDate.getMonth() + 1, 0).getDate()
-                ))
-              }
-            } else {
-              nextDate = addMonths(dates[i - 1], 1)
-              // Ensure the correct day of the month
-              if (dayOfMonth !== undefined) {
-                const lastDayOfMonth = new Date(
-                  nextDate.getFullYear(), 
-                  nextDate.getMonth() + 1, 
-                  0
-                ).getDate()
-                nextDate.setDate(Math.min(dayOfMonth, lastDayOfMonth))
-              }
-            }
-            break
-            
-          case 'quarterly':
-            if (i === 0) {
-              nextDate = baseDate
-              // Adjust to the correct day of month if specified
-              if (dayOfMonth !== undefined) {
-                nextDate.setDate(Math.min(
-                  dayOfMonth, 
-                  new Date(nextDate.getFullYear(), nextDate.getMonth() + 1, 0).getDate()
-                ))
-              }
-            } else {
-              nextDate = addMonths(dates[i - 1], 3)
-              // Ensure the correct day of the month
-              if (dayOfMonth !== undefined) {
-                const lastDayOfMonth = new Date(
-                  nextDate.getFullYear(), 
-                  nextDate.getMonth() + 1, 
-                  0
-                ).getDate()
-                nextDate.setDate(Math.min(dayOfMonth, lastDayOfMonth))
-              }
-            }
-            break
-            
-          case 'yearly':
-            if (i === 0) {
-              nextDate = baseDate
-              // Adjust to the correct day of month if specified
-              if (dayOfMonth !== undefined) {
-                nextDate.setDate(Math.min(
-                  dayOfMonth, 
-                  new Date(nextDate.getFullYear(), nextDate.getMonth() + 1, 0).getDate()
-                ))
-              }
-            } else {
-              nextDate = addYears(dates[i - 1], 1)
-              // Ensure the correct day of the month
-              if (dayOfMonth !== undefined) {
-                const lastDayOfMonth = new Date(
-                  nextDate.getFullYear(), 
-                  nextDate.getMonth() + 1, 
-                  0
-                ).getDate()
-                nextDate.setDate(Math.min(dayOfMonth, lastDayOfMonth))
-              }
-            }
-            break
-            
-          default:
-            // Default to monthly
-            nextDate = i === 0 ? baseDate : addMonths(dates[i - 1], 1)
-        }
-        
-        dates.push(format(nextDate, 'yyyy-MM-dd'))
+    if (start) {
+      for (const occurrence of occurrencesAfter(recurringTransaction, subDays(start, 1))) {
+        dates.push({ scheduled: formatDate(occurrence.scheduled), due: formatDate(occurrence.due) })
+        if (dates.length === 5) break
       }
-      
-      setPreviewDates(dates)
-    } catch (error) {
-      console.error('Error generating preview dates:', error)
-      setPreviewDates([])
     }
+
+    setPreviewDates(dates)
   }
 
   /**
@@ -264,13 +171,41 @@ function RecurringTransactionFormModal({
       }))
     } 
     // Handle numeric inputs
-    else if (name === 'dayOfMonth' || name === 'dayOfWeek') {
+    else if (name === 'dayOfMonth' || name === 'dayOfWeek' || name === 'estimateCount') {
       const numericValue = value === '' ? undefined : parseInt(value, 10)
       setRecurringTransaction(prev => ({
         ...prev,
         [name]: numericValue
       }))
     }
+    // A fixed amount is the default and is not stored
+    else if (name === 'amountMode') {
+      setRecurringTransaction(prev => ({
+        ...prev,
+        amountMode: value === 'fixed' ? undefined : value as AmountMode
+      }))
+    }
+    // Business-day settings are stored only when they change anything
+    else if (name === 'businessDayAdjustment') {
+      setRecurringTransaction(prev => ({
+        ...prev,
+        businessDayAdjustment: value === 'none' ? undefined : value as BusinessDayAdjustment,
+        holidayCalendar: value === 'none' ? undefined : prev.holidayCalendar
+      }))
+    }
+    // A pause starts where processing would continue
+    else if (name === 'pausedUntil') {
+      setRecurringTransaction(prev => ({
+        ...prev,
+        ...getPause(prev, value || null)
+      }))
+    }
+    else if (name === 'holidayCalendar') {
+      setRecurringTransaction(prev => ({
+        ...prev,
+        holidayCalendar: value === '' ? undefined : value as HolidayCalendar
+      }))
+    }
     // Clear subcategory when category changes
     else if (name === 'category') {
       setRecurringTransaction(prev => ({
@@ -308,6 +243,49 @@ function RecurringTransactionFormModal({
     }
   }
 
+  /**
+   * Skips an occurrence, or restores a skipped one
+   * @param {string} scheduled - Scheduled date of the occurrence in YYYY-MM-DD format
+   * @param {boolean} skip - Whether to skip or restore it
+   */
+  const handleSkipOccurrence = (scheduled: string, skip: boolean) => {
+    setRecurringTransaction(prev => {
+      const exceptionDates = (prev.exceptionDates || []).filter(date => date !== scheduled)
+      if (skip) exceptionDates.push(scheduled)
+      return { ...prev, exceptionDates: exceptionDates.length > 0 ? exceptionDates.sort() : undefined }
+    })
+  }
+
+  /**
+   * Switches between a frequency and a custom RRULE schedule
+   * A new custom schedule starts from the rule equivalent to the current frequency.
+   * @param {boolean} useRule - Whether to use a custom schedule
+   */
+  const handleCustomScheduleChange = (useRule: boolean) => {
+    setRecurringTransaction(prev => {
+      if (!useRule) {
+        return { ...prev, rrule: undefined }
+      }
+
+      const schedule = getRecurrenceRule({ ...prev, rrule: undefined })
+      return { ...prev, rrule: schedule ? formatRRule(schedule.rule) : 'FREQ=MONTHLY' }
+    })
+  }
+
+  /**
+   * Handles changes to the custom schedule, keeping the frequency in line with it
+   * @param {string} rrule - The new rule, which may be invalid while it is being typed
+   */
+  const handleRRuleChange = (rrule: string) => {
+    setRecurringTransaction(prev => {
+      try {
+        return { ...prev, rrule, frequency: frequencyForRule(parseRRule(rrule)) }
+      } catch {
+        return { ...prev, rrule }
+      }
+    })
+  }
+
   /**
    * Form submission handler
    * - Validates required fields
@@ -328,14 +306,26 @@ function RecurringTransactionFormModal({
       return
     }
 
-    if (!recurringTransaction.amountEUR && !recurringTransaction.amountUSD) {
+    if (recurringTransaction.amountMode !== 'prompt' &&
+        !recurringTransaction.amountEUR && !recurringTransaction.amountUSD) {
       setError('At least one amount (EUR or USD) is required')
       setIsSubmitting(false)
       return
     }
 
+    if (recurringTransaction.rrule !== undefined) {
+      try {
+        parseRRule(recurringTransaction.rrule)
+      } catch (err: any) {
+        setError(`Invalid custom schedule: ${err.message}`)
+        setIsSubmitting(false)
+        return
+      }
+    }
+
     // Validate frequency-specific fields
-    if ((recurringTransaction.frequency === 'monthly' || 
+    if (!recurringTransaction.rrule &&
+        (recurringTransaction.frequency === 'monthly' || 
          recurringTransaction.frequency === 'quarterly' || 
          recurringTransaction.frequency === 'yearly') && 
         recurringTransaction.dayOfMonth === undefined) {
@@ -344,7 +334,8 @@ function RecurringTransactionFormModal({
       return
     }
 
-    if ((recurringTransaction.frequency === 'weekly' || 
+    if (!recurringTransaction.rrule &&
+        (recurringTransaction.frequency === 'weekly' || 
          recurringTransaction.frequency === 'biweekly') && 
         recurringTransaction.dayOfWeek === undefined) {
       setError('Day of week is required for weekly and biweekly frequencies')
@@ -352,13 +343,32 @@ function RecurringTransactionFormModal({
       return
     }
 
+    if (isEditing && applyTo === 'future' && !effectiveDate) {
+      setError('Choose the date from which the changes apply')
+      setIsSubmitting(false)
+      return
+    }
+
     try {
-      await googleSheets.addRecurringTransaction(recurringTransaction)
-      onTransactionAdded()
+      if (isEditing) {
+        if (applyTo === 'future') {
+          await financeStore.updateRecurringTransactionFrom(recurringTransaction, effectiveDate)
+        } else {
+          await financeStore.updateRecurringTransaction(recurringTransaction)
+        }
+        if (onTransactionUpdated) {
+          onTransactionUpdated()
+        } else {
+          onTransactionAdded()
+        }
+      } else {
+        await financeStore.addRecurringTransaction(recurringTransaction)
+        onTransactionAdded()
+      }
       onClose()
     } catch (err: any) {
-      setError(err.message || 'Failed to add recurring transaction')
-      console.error('Error adding recurring transaction:', err)
+      setError(err.message || `Failed to ${isEditing ? 'update' : 'add'} recurring transaction`)
+      console.error(`Error ${isEditing ? 'updating' : 'adding'} recurring transaction:`, err)
     } finally {
       setIsSubmitting(false)
     }
@@ -368,18 +378,15 @@ function RecurringTransactionFormModal({
 
   // Helper to format date for display
   const formatDateForDisplay = (dateString: string) => {
-    try {
-      return format(new Date(dateString), 'MMM d, yyyy')
-    } catch (e) {
-      return dateString
-    }
+    const date = parseDate(dateString)
+    return date ? format(date, 'MMM d, yyyy') : dateString
   }
 
   // Get appropriate day input based on frequency
   const renderDayInput = () => {
-    const { frequency } = recurringTransaction
+    const { frequency, rrule } = recurringTransaction
     
-    if (frequency === 'daily') {
+    if (frequency === 'daily' || rrule !== undefined) {
       return null // No day input needed for daily frequency
     }
     
@@ -465,7 +472,7 @@ function RecurringTransactionFormModal({
             <div className="sm:flex sm:items-start">
               <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
                 <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
-                  Add Recurring Transaction
+                  {isEditing ? 'Edit Recurring Transaction' : 'Add Recurring Transaction'}
                 </h3>
                 
                 {error && (
@@ -528,7 +535,8 @@ function RecurringTransactionFormModal({
                           required
                           value={recurringTransaction.frequency}
                           onChange={handleChange}
-                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                          disabled={recurringTransaction.rrule !== undefined}
+                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
                         >
                           <option value="daily">Daily</option>
                           <option value="weekly">Weekly</option>
@@ -562,6 +570,77 @@ function RecurringTransactionFormModal({
                     
                     {renderDayInput()}
                     
+                    <div className="sm:col-span-2">
+                      <label className="flex items-center text-sm font-medium text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={recurringTransaction.rrule !== undefined}
+                          onChange={(e) => handleCustomScheduleChange(e.target.checked)}
+                          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                        />
+                        <span className="ml-2">Custom schedule (RRULE)</span>
+                      </label>
+                      {recurringTransaction.rrule !== undefined && (
+                        <div className="mt-2">
+                          <RRuleBuilder
+                            value={recurringTransaction.rrule}
+                            onChange={handleRRuleChange}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    
+                    <div>
+                      <label htmlFor="businessDayAdjustment" className="block text-sm font-medium text-gray-700">
+                        Weekends & Holidays
+                      </label>
+                      <div className="relative mt-1">
+                        <select
+                          name="businessDayAdjustment"
+                          id="businessDayAdjustment"
+                          value={recurringTransaction.businessDayAdjustment || 'none'}
+                          onChange={handleChange}
+                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        >
+                          {Object.entries(BUSINESS_DAY_ADJUSTMENTS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                          <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                          </svg>
+                        </div>
+                      </div>
+                    </div>
+                    
+                    {recurringTransaction.businessDayAdjustment && (
+                      <div>
+                        <label htmlFor="holidayCalendar" className="block text-sm font-medium text-gray-700">
+                          Holiday Calendar
+                        </label>
+                        <div className="relative mt-1">
+                          <select
+                            name="holidayCalendar"
+                            id="holidayCalendar"
+                            value={recurringTransaction.holidayCalendar || ''}
+                            onChange={handleChange}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                          >
+                            <option value="">None (weekends only)</option>
+                            {Object.entries(HOLIDAY_CALENDARS).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                            <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                            </svg>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    
                     <div>
                       <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
                         End Date (Optional)
@@ -576,6 +655,20 @@ function RecurringTransactionFormModal({
                       />
                     </div>
                     
+                    <div>
+                      <label htmlFor="pausedUntil" className="block text-sm font-medium text-gray-700">
+                        Paused Until (Optional)
+                      </label>
+                      <input
+                        type="date"
+                        name="pausedUntil"
+                        id="pausedUntil"
+                        value={recurringTransaction.pausedUntil || ''}
+                        onChange={handleChange}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      />
+                    </div>
+                    
                     <div>
                       <label htmlFor="category" className="block text-sm font-medium text-gray-700">
                         Category
@@ -636,6 +729,62 @@ function RecurringTransactionFormModal({
                       </div>
                     </div>
                     
+                    <div>
+                      <label htmlFor="amountMode" className="block text-sm font-medium text-gray-700">
+                        Amount Mode
+                      </label>
+                      <div className="relative mt-1">
+                        <select
+                          name="amountMode"
+                          id="amountMode"
+                          value={recurringTransaction.amountMode || 'fixed'}
+                          onChange={handleChange}
+                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        >
+                          {Object.entries(AMOUNT_MODES).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                          <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                          </svg>
+                        </div>
+                      </div>
+                    </div>
+                    
+                    {recurringTransaction.amountMode === 'estimated' ? (
+                      <div>
+                        <label htmlFor="estimateCount" className="block text-sm font-medium text-gray-700">
+                          Average of Last
+                        </label>
+                        <div className="mt-1 flex items-center">
+                          <input
+                            type="number"
+                            name="estimateCount"
+                            id="estimateCount"
+                            min="1"
+                            max="24"
+                            value={recurringTransaction.estimateCount ?? ''}
+                            onChange={handleChange}
+                            placeholder={String(DEFAULT_ESTIMATE_COUNT)}
+                            className="block w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                          />
+                          <span className="ml-2 text-sm text-gray-500">transactions</span>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="hidden sm:block" />
+                    )}
+                    
+                    {recurringTransaction.amountMode && (
+                      <p className="sm:col-span-2 -mt-2 text-xs text-gray-500">
+                        {recurringTransaction.amountMode === 'estimated'
+                          ? 'Transactions are posted with the average of the most recent ones. The amount below is used until there are any.'
+                          : 'The amount is entered when the transaction is posted from the review queue. Forecasts use the average of recent transactions, or the amount below until there are any.'}
+                      </p>
+                    )}
+                    
                     <div>
                       <label htmlFor="amountEUR" className="block text-sm font-medium text-gray-700">
                         Amount (EUR)
@@ -693,6 +842,52 @@ function RecurringTransactionFormModal({
                       ></textarea>
                     </div>
                     
+                    {/* Scope of the changes, only when editing */}
+                    {isEditing && (
+                      <fieldset className="sm:col-span-2">
+                        <legend className="block text-sm font-medium text-gray-700">
+                          Apply Changes To
+                        </legend>
+                        <div className="mt-2 space-y-2">
+                          <label className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="applyTo"
+                              value="all"
+                              checked={applyTo === 'all'}
+                              onChange={() => setApplyTo('all')}
+                              className="h-4 w-4 text-green-600 border-gray-300 focus:ring-green-500"
+                            />
+                            <span className="ml-2">All occurrences</span>
+                          </label>
+                          <label className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="applyTo"
+                              value="future"
+                              checked={applyTo === 'future'}
+                              onChange={() => setApplyTo('future')}
+                              className="h-4 w-4 text-green-600 border-gray-300 focus:ring-green-500"
+                            />
+                            <span className="ml-2">Future occurrences from</span>
+                            <input
+                              type="date"
+                              name="effectiveDate"
+                              value={effectiveDate}
+                              onChange={(e) => setEffectiveDate(e.target.value)}
+                              disabled={applyTo !== 'future'}
+                              className="ml-2 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
+                            />
+                          </label>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Transactions that were already created are never changed. Applying changes to future
+                          occurrences ends this template the day before and continues with a new one, so
+                          earlier occurrences keep their original details.
+                        </p>
+                      </fieldset>
+                    )}
+                    
                     {/* Preview section */}
                     {previewDates.length > 0 && (
                       <div className="sm:col-span-2 bg-gray-50 p-3 rounded-md">
@@ -705,7 +900,40 @@ function RecurringTransactionFormModal({
                               <span className="w-6 h-6 flex items-center justify-center bg-green-100 text-green-800 rounded-full text-xs mr-2">
                                 {index + 1}
                               </span>
+                              {formatDateForDisplay(date.due)}
+                              {date.due !== date.scheduled && (
+                                <span className="ml-2 text-xs text-gray-400">
+                                  (moved from {formatDateForDisplay(date.scheduled)})
+                                </span>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => handleSkipOccurrence(date.scheduled, true)}
+                                className="ml-auto text-xs text-gray-500 hover:text-gray-700"
+                              >
+                                Skip
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    
+                    {/* Skipped occurrences (EXDATEs) */}
+                    {recurringTransaction.exceptionDates && recurringTransaction.exceptionDates.length > 0 && (
+                      <div className="sm:col-span-2">
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Skipped occurrences:</h4>
+                        <ul className="flex flex-wrap gap-2">
+                          {recurringTransaction.exceptionDates.map(date => (
+                            <li key={date} className="inline-flex items-center px-2 py-1 rounded-full bg-gray-100 text-xs text-gray-700">
                               {formatDateForDisplay(date)}
+                              <button
+                                type="button"
+                                onClick={() => handleSkipOccurrence(date, false)}
+                                className="ml-2 text-green-700 hover:text-green-900"
+                              >
+                                Restore
+                              </button>
                             </li>
                           ))}
                         </ul>
@@ -719,7 +947,9 @@ function RecurringTransactionFormModal({
                       disabled={isSubmitting}
                       className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-green-300"
                     >
-                      {isSubmitting ? 'Adding...' : 'Add Recurring Transaction'}
+                      {isSubmitting
+                        ? (isEditing ? 'Saving...' : 'Adding...')
+                        : (isEditing ? 'Save Changes' : 'Add Recurring Transaction')}
                     </button>
                     <button
                       type="button"
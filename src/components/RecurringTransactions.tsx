@@ -1,9 +1,33 @@
 import { useState, useEffect } from 'react'
-import { googleSheets, RecurringTransaction } from '../lib/googleSheets'
-import { format } from 'date-fns'
+import { financeStore } from '../lib/store'
+import { RecurringTransaction } from '../lib/types'
+import { addMonths, format } from 'date-fns'
+import { formatDate as formatStoredDate, parseDate } from '../lib/recurrence'
+import { describeRRule, parseRRule } from '../lib/rrule'
+import { getExpectedAmount, getNextOccurrence } from '../lib/recurringProcessing'
+import { buildRecurringCalendar } from '../lib/icalendar'
+import { detectRecurringTransactions, SuggestedRecurringTransaction } from '../lib/subscriptionDetector'
+import { getRecurringAlerts, RECURRING_ALERT_TYPES, RecurringAlert } from '../lib/recurringAlerts'
 import RecurringTransactionFormModal from './RecurringTransactionFormModal'
+import DueTransactionsPreviewModal from './DueTransactionsPreviewModal'
+import ConfirmDialog from './ConfirmDialog'
 import Notification from './Notification'
 
+/** localStorage key holding the keys of dismissed suggestions */
+const DISMISSED_SUGGESTIONS_KEY = 'penny-fincher.dismissed-suggestions'
+
+/**
+ * Reads the keys of the suggestions the user dismissed on this device
+ * @returns {string[]} The keys
+ */
+const loadDismissedSuggestions = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(DISMISSED_SUGGESTIONS_KEY) || '[]')
+  } catch (error) {
+    return []
+  }
+}
+
 /**
  * Props for the RecurringTransactions component
  * @interface RecurringTransactionsProps
@@ -11,6 +35,9 @@ import Notification from './Notification'
 interface RecurringTransactionsProps {
   accounts: string[]
   onProcessDue: () => void
+  /** ID of a template to open in the editor once it is loaded */
+  templateToOpen?: string
+  onTemplateOpened?: () => void
 }
 
 /**
@@ -19,22 +46,37 @@ interface RecurringTransactionsProps {
  * Features:
  * - Displays all recurring transactions in a table
  * - Allows adding new recurring transactions through a modal form
- * - Allows processing due recurring transactions
+ * - Allows editing, duplicating and deleting recurring transactions from the Actions column
+ * - Allows skipping the next occurrence and pausing a template until a date
+ * - Opens a requested template in the editor, e.g. when following a link from the calendar
+ * - Exports the active recurring transactions as an iCalendar (.ics) file
+ * - Suggests templates for regular payments found in the transaction history, created with one click
+ * - Flags templates with a recent price increase, missed charge or duplicate charge
+ * - Allows processing due recurring transactions after reviewing every missed occurrence
  * - Shows success/error notifications
  * 
  * @param {RecurringTransactionsProps} props - Component props
  * @returns {JSX.Element} The recurring transactions component
  */
-function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactionsProps) {
+function RecurringTransactions({ accounts, onProcessDue, templateToOpen, onTemplateOpened }: RecurringTransactionsProps) {
   const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([])
   const [loading, setLoading] = useState(true)
   const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingTransaction, setEditingTransaction] = useState<RecurringTransaction | null>(null)
+  const [deletingTransaction, setDeletingTransaction] = useState<RecurringTransaction | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
   const [notification, setNotification] = useState({
     message: '',
-    type: 'success' as const,
+    type: 'success' as 'success' | 'error',
     isVisible: false
   })
-  const [processingDue, setProcessingDue] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+  const [suggestions, setSuggestions] = useState<SuggestedRecurringTransaction[]>([])
+  const [alerts, setAlerts] = useState<RecurringAlert[]>([])
+  const [dismissedSuggestions, setDismissedSuggestions] = useState<string[]>(loadDismissedSuggestions)
+  const [creatingSuggestion, setCreatingSuggestion] = useState<string | null>(null)
+  const [pausingId, setPausingId] = useState<string | null>(null)
+  const [pauseUntil, setPauseUntil] = useState('')
 
   /**
    * Loads recurring transaction data
@@ -43,8 +85,13 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
   const loadData = async () => {
     try {
       setLoading(true)
-      const data = await googleSheets.getRecurringTransactions()
+      const [data, transactions] = await Promise.all([
+        financeStore.getRecurringTransactions(),
+        financeStore.getTransactions()
+      ])
       setRecurringTransactions(data)
+      setSuggestions(detectRecurringTransactions(transactions, data))
+      setAlerts(getRecurringAlerts(data, transactions))
     } catch (error) {
       console.error('Error loading recurring transactions:', error)
       setNotification({
@@ -80,32 +127,135 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
   }
 
   /**
-   * Processes due recurring transactions
+   * Handles the event when a recurring transaction is edited
+   * Reloads data and shows a success notification
+   * @async
+   */
+  const handleTransactionUpdated = async () => {
+    try {
+      await loadData()
+      setNotification({
+        message: 'Recurring transaction updated successfully!',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      setNotification({
+        message: 'Failed to refresh recurring transactions. Please try again.',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Creates a disabled copy of a recurring transaction and opens it for editing
+   * @async
+   * @param {RecurringTransaction} transaction - The recurring transaction to copy
+   */
+  const handleDuplicate = async (transaction: RecurringTransaction) => {
+    try {
+      const copy = await financeStore.duplicateRecurringTransaction(transaction.id || '')
+      await loadData()
+      setNotification({
+        message: 'Copy created. It stays disabled until you enable it.',
+        type: 'success',
+        isVisible: true
+      })
+      setEditingTransaction(copy)
+      setIsModalOpen(true)
+    } catch (error) {
+      console.error('Error duplicating recurring transaction:', error)
+      setNotification({
+        message: 'Failed to duplicate recurring transaction',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Deletes the recurring transaction awaiting confirmation
    * @async
    */
-  const handleProcessDue = async () => {
+  const handleDeleteConfirmed = async () => {
+    if (!deletingTransaction?.id) return
+
     try {
-      setProcessingDue(true)
-      const count = await googleSheets.processDueRecurringTransactions()
+      setIsDeleting(true)
+      await financeStore.deleteRecurringTransaction(deletingTransaction.id)
+      setDeletingTransaction(null)
+      await loadData()
       setNotification({
-        message: `Processed ${count} due recurring transactions`,
+        message: 'Recurring transaction deleted successfully',
         type: 'success',
         isVisible: true
       })
+    } catch (error) {
+      console.error('Error deleting recurring transaction:', error)
+      setDeletingTransaction(null)
+      setNotification({
+        message: 'Failed to delete recurring transaction',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  /**
+   * Handles the event when due recurring transactions were processed from the review queue
+   * @async
+   * @param {number} count - Number of transactions created
+   */
+  const handleProcessed = async (count: number) => {
+    setNotification({
+      message: `Processed ${count} due recurring transactions`,
+      type: 'success',
+      isVisible: true
+    })
+    await loadData()
+    onProcessDue()
+  }
+
+  /**
+   * Creates the template proposed by a suggestion as it is
+   * @async
+   * @param {SuggestedRecurringTransaction} suggestion - The suggestion
+   */
+  const handleCreateSuggestion = async (suggestion: SuggestedRecurringTransaction) => {
+    try {
+      setCreatingSuggestion(suggestion.key)
+      await financeStore.addRecurringTransaction(suggestion.template)
       await loadData()
-      onProcessDue()
+      setNotification({
+        message: `Recurring transaction "${suggestion.template.description}" created`,
+        type: 'success',
+        isVisible: true
+      })
     } catch (error) {
-      console.error('Error processing due recurring transactions:', error)
+      console.error('Error creating suggested recurring transaction:', error)
       setNotification({
-        message: 'Failed to process due recurring transactions',
+        message: 'Failed to create recurring transaction',
         type: 'error',
         isVisible: true
       })
     } finally {
-      setProcessingDue(false)
+      setCreatingSuggestion(null)
     }
   }
 
+  /**
+   * Hides a suggestion on this device
+   * @param {SuggestedRecurringTransaction} suggestion - The suggestion
+   */
+  const handleDismissSuggestion = (suggestion: SuggestedRecurringTransaction) => {
+    const dismissed = [...dismissedSuggestions, suggestion.key]
+    setDismissedSuggestions(dismissed)
+    localStorage.setItem(DISMISSED_SUGGESTIONS_KEY, JSON.stringify(dismissed))
+  }
+
   /**
    * Toggles the active status of a recurring transaction
    * @async
@@ -114,7 +264,7 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
    */
   const handleToggleActive = async (id: string, currentStatus: boolean) => {
     try {
-      await googleSheets.toggleRecurringTransactionStatus(id, !currentStatus)
+      await financeStore.toggleRecurringTransactionStatus(id, !currentStatus)
       await loadData()
       setNotification({
         message: `Recurring transaction ${!currentStatus ? 'activated' : 'deactivated'} successfully`,
@@ -131,19 +281,79 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
     }
   }
 
+  /**
+   * Skips the next occurrence of a recurring transaction by adding it to its exceptions
+   * @async
+   * @param {RecurringTransaction} transaction - The recurring transaction
+   */
+  const handleSkipNext = async (transaction: RecurringTransaction) => {
+    const next = getNextOccurrence(transaction)
+    if (!transaction.id || !next) return
+
+    try {
+      const skipped = formatStoredDate(next.scheduled)
+      await financeStore.setRecurringTransactionExceptions(transaction.id, [...(transaction.exceptionDates || []), skipped])
+      await loadData()
+      setNotification({
+        message: `Skipped the occurrence on ${formatDate(formatStoredDate(next.due))}`,
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error skipping occurrence:', error)
+      setNotification({
+        message: 'Failed to skip the next occurrence',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Pauses a recurring transaction until a date, or resumes it
+   * @async
+   * @param {string} id - ID of the recurring transaction
+   * @param {string|null} until - Date the schedule resumes on, or null to resume now
+   */
+  const handlePause = async (id: string, until: string | null) => {
+    try {
+      await financeStore.pauseRecurringTransaction(id, until)
+      setPausingId(null)
+      await loadData()
+      setNotification({
+        message: until ? `Recurring transaction paused until ${formatDate(until)}` : 'Recurring transaction resumed',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error pausing recurring transaction:', error)
+      setNotification({
+        message: 'Failed to pause recurring transaction',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
   useEffect(() => {
     loadData()
   }, [])
 
+  // Open the requested template once the templates are loaded
+  useEffect(() => {
+    const template = templateToOpen && recurringTransactions.find(rt => rt.id === templateToOpen)
+    if (template) {
+      setEditingTransaction(template)
+      setIsModalOpen(true)
+      onTemplateOpened?.()
+    }
+  }, [templateToOpen, recurringTransactions])
+
   // Format date for display
   const formatDate = (dateString?: string) => {
     if (!dateString) return '-'
-    try {
-      const date = new Date(dateString)
-      return format(date, 'MMM dd, yyyy')
-    } catch (e) {
-      return dateString // If parsing fails, return the original string
-    }
+    const date = parseDate(dateString)
+    return date ? format(date, 'MMM dd, yyyy') : dateString // If parsing fails, return the original string
   }
 
   // Format currency
@@ -170,17 +380,48 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
     }
   }
 
+  /**
+   * Downloads the active recurring transactions as an iCalendar file
+   */
+  const handleExportCalendar = () => {
+    const blob = new Blob([buildRecurringCalendar(recurringTransactions)], { type: 'text/calendar;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'penny-fincher-bills.ics'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Describe a custom RRULE schedule
+  const getScheduleLabel = (rrule: string) => {
+    try {
+      return describeRRule(parseRRule(rrule))
+    } catch (error) {
+      return `Invalid rule: ${rrule}`
+    }
+  }
+
+  const visibleSuggestions = suggestions.filter(suggestion => !dismissedSuggestions.includes(suggestion.key))
+
   return (
     <div className="mt-8">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-semibold text-gray-900">Recurring Transactions</h2>
         <div className="flex space-x-2">
           <button
-            onClick={handleProcessDue}
-            disabled={processingDue}
+            onClick={handleExportCalendar}
+            disabled={!recurringTransactions.some(rt => rt.active)}
+            title="Download the active recurring transactions for your calendar app"
+            className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:text-gray-400"
+          >
+            Export Calendar (.ics)
+          </button>
+          <button
+            onClick={() => setIsPreviewOpen(true)}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-blue-300"
           >
-            {processingDue ? 'Processing...' : 'Process Due Transactions'}
+            Process Due Transactions
           </button>
           <button
             onClick={() => setIsModalOpen(true)}
@@ -202,11 +443,93 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
       {/* Recurring Transaction Form Modal */}
       <RecurringTransactionFormModal
         isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
+        onClose={() => {
+          setIsModalOpen(false)
+          setEditingTransaction(null)
+        }}
         onTransactionAdded={handleTransactionAdded}
+        onTransactionUpdated={handleTransactionUpdated}
+        recurringTransactionToEdit={editingTransaction}
         accounts={accounts}
       />
       
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        isOpen={deletingTransaction !== null}
+        title="Delete Recurring Transaction"
+        message={deletingTransaction
+          ? `Delete the recurring transaction "${deletingTransaction.description}"? Transactions already created from it are kept.`
+          : ''}
+        isConfirming={isDeleting}
+        onConfirm={handleDeleteConfirmed}
+        onCancel={() => setDeletingTransaction(null)}
+      />
+      
+      {/* Due Transactions Preview */}
+      <DueTransactionsPreviewModal
+        isOpen={isPreviewOpen}
+        onClose={() => setIsPreviewOpen(false)}
+        onProcessed={handleProcessed}
+        onError={(message) => setNotification({ message, type: 'error', isVisible: true })}
+      />
+      
+      {/* Suggested recurring transactions detected in the history */}
+      {!loading && visibleSuggestions.length > 0 && (
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Suggested</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              These payments repeat at regular intervals in your transactions. Create a recurring transaction to book them automatically from the next one on.
+            </p>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {visibleSuggestions.map(suggestion => {
+              const { template, transactions } = suggestion
+              const lastTransaction = transactions[transactions.length - 1]
+
+              return (
+                <li key={suggestion.key} className="px-6 py-4 flex items-center justify-between">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">{template.description}</div>
+                    <div className="text-gray-500">
+                      {getFrequencyLabel(template.frequency)}
+                      {template.dayOfMonth ? ` (Day ${template.dayOfMonth})` : ''}
+                      {template.dayOfWeek !== undefined ? ` (${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][template.dayOfWeek]})` : ''}
+                      {' · '}
+                      {template.amountMode ? '~' : ''}
+                      {template.amountEUR !== undefined
+                        ? formatCurrency(template.amountEUR, 'EUR')
+                        : formatCurrency(template.amountUSD, 'USD')}
+                      {' · '}
+                      {template.account}
+                      {template.category ? ` · ${template.category}` : ''}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Found {transactions.length} transactions, last on {formatDate(lastTransaction.date)}
+                    </div>
+                  </div>
+                  <div className="flex-shrink-0 ml-4">
+                    <button
+                      onClick={() => handleDismissSuggestion(suggestion)}
+                      className="text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                    >
+                      Dismiss
+                    </button>
+                    <button
+                      onClick={() => handleCreateSuggestion(suggestion)}
+                      disabled={creatingSuggestion !== null}
+                      className="ml-1 text-sm px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300"
+                    >
+                      {creatingSuggestion === suggestion.key ? 'Creating...' : 'Create'}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Recurring Transactions Table */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="overflow-x-auto">
@@ -238,56 +561,171 @@ function RecurringTransactions({ accounts, onProcessDue }: RecurringTransactions
                   </td>
                 </tr>
               ) : (
-                recurringTransactions.map((transaction) => (
-                  <tr key={transaction.id} className={!transaction.active ? 'bg-gray-50' : ''}>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {transaction.description}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {getFrequencyLabel(transaction.frequency)}
-                      {transaction.frequency === 'monthly' && transaction.dayOfMonth ? 
-                        ` (Day ${transaction.dayOfMonth})` : ''}
-                      {(transaction.frequency === 'weekly' || transaction.frequency === 'biweekly') && 
-                       transaction.dayOfWeek !== undefined ? 
-                        ` (${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][transaction.dayOfWeek]})` : ''}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatDate(transaction.nextDue)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatCurrency(transaction.amountEUR, 'EUR')}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatCurrency(transaction.amountUSD, 'USD')}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {transaction.category || '-'}
-                      {transaction.subcategory ? ` / ${transaction.subcategory}` : ''}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {transaction.account}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        transaction.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {transaction.active ? 'Active' : 'Inactive'}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <button
-                        onClick={() => handleToggleActive(transaction.id || '', transaction.active)}
-                        className={`text-sm px-2 py-1 rounded ${
-                          transaction.active 
-                            ? 'text-gray-700 hover:bg-gray-100' 
-                            : 'text-green-700 hover:bg-green-100'
-                        }`}
-                      >
-                        {transaction.active ? 'Disable' : 'Enable'}
-                      </button>
-                    </td>
-                  </tr>
-                ))
+                recurringTransactions.map((transaction) => {
+                  const templateAlerts = alerts.filter(alert => alert.template.id === transaction.id)
+                  const pausedUntil = parseDate(transaction.pausedUntil)
+                  const isPaused = pausedUntil !== null && pausedUntil > new Date()
+
+                  return (
+                    <tr key={transaction.id} className={!transaction.active ? 'bg-gray-50' : ''}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {transaction.description}
+                        {templateAlerts.length > 0 && (
+                          <span
+                            title={templateAlerts.map(alert => `${RECURRING_ALERT_TYPES[alert.type]}: ${alert.message}`).join('\n')}
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                          >
+                            {templateAlerts.length === 1 ? RECURRING_ALERT_TYPES[templateAlerts[0].type] : `${templateAlerts.length} alerts`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {transaction.rrule ? getScheduleLabel(transaction.rrule) : (
+                          <>
+                            {getFrequencyLabel(transaction.frequency)}
+                            {transaction.frequency === 'monthly' && transaction.dayOfMonth ? 
+                              ` (Day ${transaction.dayOfMonth})` : ''}
+                            {(transaction.frequency === 'weekly' || transaction.frequency === 'biweekly') && 
+                             transaction.dayOfWeek !== undefined ? 
+                              ` (${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][transaction.dayOfWeek]})` : ''}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(transaction.nextDue)}
+                      </td>
+                      {(['amountEUR', 'amountUSD'] as const).map(field => {
+                        const amount = getExpectedAmount(transaction)[field]
+                        return (
+                          <td key={field} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {transaction.amountMode && amount !== undefined ? (
+                              <span title={transaction.amountMode === 'prompt' ? 'Estimate; the amount is asked when posting' : 'Estimated from recent transactions'}>
+                                ~{formatCurrency(amount, field === 'amountEUR' ? 'EUR' : 'USD')}
+                              </span>
+                            ) : formatCurrency(amount, field === 'amountEUR' ? 'EUR' : 'USD')}
+                          </td>
+                        )
+                      })}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {transaction.category || '-'}
+                        {transaction.subcategory ? ` / ${transaction.subcategory}` : ''}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {transaction.account}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {transaction.active && isPaused ? (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                            Paused until {formatDate(transaction.pausedUntil)}
+                          </span>
+                        ) : (
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            transaction.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {transaction.active ? 'Active' : 'Inactive'}
+                          </span>
+                        )}
+                        {transaction.exceptionDates && transaction.exceptionDates.length > 0 && (
+                          <span
+                            title={`Skipped: ${transaction.exceptionDates.map(date => formatDate(date)).join(', ')}`}
+                            className="ml-1 text-xs text-gray-500"
+                          >
+                            {transaction.exceptionDates.length} skipped
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <button
+                          onClick={() => {
+                            setEditingTransaction(transaction)
+                            setIsModalOpen(true)
+                          }}
+                          className="text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(transaction)}
+                          className="ml-1 text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(transaction.id || '', transaction.active)}
+                          className={`ml-1 text-sm px-2 py-1 rounded ${
+                            transaction.active 
+                              ? 'text-gray-700 hover:bg-gray-100' 
+                              : 'text-green-700 hover:bg-green-100'
+                          }`}
+                        >
+                          {transaction.active ? 'Disable' : 'Enable'}
+                        </button>
+                        <button
+                          onClick={() => setDeletingTransaction(transaction)}
+                          className="ml-1 text-sm px-2 py-1 rounded text-red-700 hover:bg-red-100"
+                        >
+                          Delete
+                        </button>
+                        {transaction.active && (
+                          <div className="mt-1">
+                            {pausingId === transaction.id ? (
+                              <span className="inline-flex items-center">
+                                <input
+                                  type="date"
+                                  value={pauseUntil}
+                                  onChange={(e) => setPauseUntil(e.target.value)}
+                                  aria-label="Pause until"
+                                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                />
+                                <button
+                                  onClick={() => handlePause(transaction.id || '', pauseUntil)}
+                                  disabled={!pauseUntil}
+                                  className="ml-1 text-sm px-2 py-1 rounded text-green-700 hover:bg-green-100 disabled:opacity-50"
+                                >
+                                  Pause
+                                </button>
+                                <button
+                                  onClick={() => setPausingId(null)}
+                                  className="ml-1 text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                                >
+                                  Cancel
+                                </button>
+                              </span>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => handleSkipNext(transaction)}
+                                  disabled={!transaction.nextDue}
+                                  className="text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                                >
+                                  Skip Next
+                                </button>
+                                {isPaused ? (
+                                  <button
+                                    onClick={() => handlePause(transaction.id || '', null)}
+                                    className="ml-1 text-sm px-2 py-1 rounded text-green-700 hover:bg-green-100"
+                                  >
+                                    Resume
+                                  </button>
+                                ) : (
+                                  <button
+                                    onClick={() => {
+                                      setPauseUntil(formatStoredDate(addMonths(new Date(), 1)))
+                                      setPausingId(transaction.id || null)
+                                    }}
+                                    className="ml-1 text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                                  >
+                                    Pause
+                                  </button>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })
               )}
             </tbody>
           </table>
@@ -0,0 +1,534 @@
+import { useState, useEffect, FormEvent } from 'react'
+import Skeleton from 'react-loading-skeleton'
+import { financeStore } from '../lib/store'
+import { CategorizationRule, CategoryData, RuleMatchType } from '../lib/types'
+import { isRuleMatchType, RULE_MATCH_TYPES, validateRule } from '../lib/rules'
+import { formatTags, parseTags } from '../lib/tags'
+import Notification from './Notification'
+import ConfirmDialog from './ConfirmDialog'
+
+/**
+ * Values of the rule form, kept as typed until the rule is saved
+ * @interface RuleForm
+ */
+interface RuleForm {
+  id?: string
+  name: string
+  descriptionPattern: string
+  matchType: RuleMatchType
+  account: string
+  minAmount: string
+  maxAmount: string
+  category: string
+  subcategory: string
+  tags: string
+  notes: string
+  priority: string
+  active: boolean
+}
+
+/**
+ * Fills the rule form, empty for a new rule
+ * @param {CategorizationRule|null} rule - The rule to edit, or null for a new one
+ * @param {number} nextPriority - Priority given to a new rule
+ * @returns {RuleForm} The form values
+ */
+const toForm = (rule: CategorizationRule | null, nextPriority: number): RuleForm => ({
+  id: rule?.id,
+  name: rule?.name || '',
+  descriptionPattern: rule?.descriptionPattern || '',
+  matchType: rule?.matchType || 'contains',
+  account: rule?.account || '',
+  minAmount: rule?.minAmount === undefined ? '' : String(rule.minAmount),
+  maxAmount: rule?.maxAmount === undefined ? '' : String(rule.maxAmount),
+  category: rule?.category || '',
+  subcategory: rule?.subcategory || '',
+  tags: formatTags(rule?.tags),
+  notes: rule?.notes || '',
+  priority: String(rule ? rule.priority : nextPriority),
+  active: rule ? rule.active : true
+})
+
+/**
+ * Reads a rule from the form
+ * @param {RuleForm} form - The form values
+ * @returns {CategorizationRule} The rule
+ */
+const fromForm = (form: RuleForm): CategorizationRule => {
+  const parseAmount = (value: string) => value.trim() === '' ? undefined : parseFloat(value)
+  const tags = parseTags(form.tags)
+
+  return {
+    id: form.id,
+    name: form.name.trim(),
+    descriptionPattern: form.descriptionPattern.trim() || undefined,
+    matchType: form.matchType,
+    account: form.account.trim() || undefined,
+    minAmount: parseAmount(form.minAmount),
+    maxAmount: parseAmount(form.maxAmount),
+    category: form.category || undefined,
+    subcategory: form.category ? form.subcategory || undefined : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    notes: form.notes.trim() || undefined,
+    priority: parseInt(form.priority, 10) || 0,
+    active: form.active
+  }
+}
+
+/**
+ * Summarizes the conditions of a rule
+ * @param {CategorizationRule} rule - The rule
+ * @returns {string} E.g. 'Description contains "ALBERT HEIJN" · Amount 5 to 200'
+ */
+const describeConditions = (rule: CategorizationRule): string => {
+  const conditions: string[] = []
+  if (rule.descriptionPattern) {
+    conditions.push(`Description ${RULE_MATCH_TYPES[rule.matchType || 'contains'].toLowerCase()} "${rule.descriptionPattern}"`)
+  }
+  if (rule.account) {
+    conditions.push(`Account is ${rule.account}`)
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+    conditions.push(`Amount ${rule.minAmount} to ${rule.maxAmount}`)
+  } else if (rule.minAmount !== undefined) {
+    conditions.push(`Amount at least ${rule.minAmount}`)
+  } else if (rule.maxAmount !== undefined) {
+    conditions.push(`Amount at most ${rule.maxAmount}`)
+  }
+  return conditions.join(' · ')
+}
+
+/**
+ * Summarizes what a rule applies
+ * @param {CategorizationRule} rule - The rule
+ * @returns {string} E.g. "Food & Dining / Groceries · Tags: weekly"
+ */
+const describeActions = (rule: CategorizationRule): string => {
+  const actions: string[] = []
+  if (rule.category) {
+    actions.push(rule.subcategory ? `${rule.category} / ${rule.subcategory}` : rule.category)
+  }
+  if (rule.tags?.length) {
+    actions.push(`Tags: ${formatTags(rule.tags)}`)
+  }
+  if (rule.notes) {
+    actions.push(`Notes: ${rule.notes}`)
+  }
+  return actions.join(' · ')
+}
+
+/**
+ * Component for managing the rules that categorize transactions automatically
+ *
+ * Features:
+ * - Lists the rules in the order they are tried
+ * - Adds, edits, enables, disables and deletes rules
+ * - Re-runs the rules on every transaction that has no category yet
+ *
+ * @returns {JSX.Element} The rules manager component
+ */
+function RulesManager() {
+  const [rules, setRules] = useState<CategorizationRule[]>([])
+  const [categoryData, setCategoryData] = useState<CategoryData>({
+    categories: [],
+    subcategories: {},
+    allSubcategories: []
+  })
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<RuleForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [deletingRule, setDeletingRule] = useState<CategorizationRule | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [notification, setNotification] = useState({
+    message: '',
+    type: 'success' as 'success' | 'error',
+    isVisible: false
+  })
+
+  useEffect(() => {
+    loadRules()
+    financeStore.fetchCategoryData()
+      .then(setCategoryData)
+      .catch(err => console.error('Error fetching categories:', err))
+  }, [])
+
+  /**
+   * Loads the rules, ordered by priority
+   * @async
+   */
+  const loadRules = async () => {
+    try {
+      setLoading(true)
+      const data = await financeStore.getRules()
+      setRules([...data].sort((a, b) => a.priority - b.priority))
+    } catch (error) {
+      console.error('Error loading rules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Opens the form for a new rule, or to edit an existing one
+   * @param {CategorizationRule|null} rule - The rule to edit, or null for a new one
+   */
+  const openForm = (rule: CategorizationRule | null) => {
+    const nextPriority = rules.reduce((highest, existing) => Math.max(highest, existing.priority), 0) + 10
+    setForm(toForm(rule, nextPriority))
+    setFormError(null)
+  }
+
+  /**
+   * Handles form field changes, resetting the subcategory when the category changes
+   * @param {React.ChangeEvent} e - The change event
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setForm(prev => {
+      if (!prev) return prev
+      if (name === 'active') return { ...prev, active: (e.target as HTMLInputElement).checked }
+      if (name === 'category') return { ...prev, category: value, subcategory: '' }
+      if (name === 'matchType') return { ...prev, matchType: isRuleMatchType(value) ? value : 'contains' }
+      return { ...prev, [name]: value }
+    })
+  }
+
+  /**
+   * Validates and saves the rule in the form
+   * @async
+   * @param {FormEvent} e - The form submit event
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+
+    const rule = fromForm(form)
+    if (!rule.name) {
+      setFormError('A rule needs a name')
+      return
+    }
+    try {
+      validateRule(rule)
+    } catch (err: any) {
+      setFormError(err.message)
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      if (rule.id) {
+        await financeStore.updateRule(rule)
+      } else {
+        await financeStore.addRule(rule)
+      }
+      setForm(null)
+      await loadRules()
+      setNotification({
+        message: rule.id ? 'Rule updated successfully!' : 'Rule added successfully!',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error: any) {
+      console.error('Error saving rule:', error)
+      setFormError(error.message || 'Failed to save rule')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Enables or disables a rule
+   * @async
+   * @param {CategorizationRule} rule - The rule
+   */
+  const handleToggleActive = async (rule: CategorizationRule) => {
+    try {
+      await financeStore.updateRule({ ...rule, active: !rule.active })
+      await loadRules()
+    } catch (error) {
+      console.error('Error updating rule:', error)
+      setNotification({
+        message: 'Failed to update rule',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Deletes the rule awaiting confirmation
+   * @async
+   */
+  const handleDeleteConfirmed = async () => {
+    if (!deletingRule?.id) return
+
+    try {
+      setIsDeleting(true)
+      await financeStore.deleteRule(deletingRule.id)
+      setDeletingRule(null)
+      await loadRules()
+      setNotification({
+        message: 'Rule deleted successfully',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error deleting rule:', error)
+      setDeletingRule(null)
+      setNotification({
+        message: 'Failed to delete rule',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  /**
+   * Applies the rules to every transaction that has no category yet
+   * @async
+   */
+  const handleApplyToUncategorized = async () => {
+    try {
+      setIsApplying(true)
+      const changed = await financeStore.applyRulesToUncategorized()
+      setNotification({
+        message: changed > 0
+          ? `Rules applied to ${changed} uncategorized transaction${changed === 1 ? '' : 's'}`
+          : 'No uncategorized transactions match a rule',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error applying rules:', error)
+      setNotification({
+        message: 'Failed to apply rules',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton height={40} />
+        <Skeleton height={120} />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <Notification
+        message={notification.message}
+        type={notification.type}
+        isVisible={notification.isVisible}
+        onClose={() => setNotification(prev => ({ ...prev, isVisible: false }))}
+      />
+
+      <ConfirmDialog
+        isOpen={deletingRule !== null}
+        title="Delete Rule"
+        message={deletingRule
+          ? `Delete the rule "${deletingRule.name}"? Transactions it already categorized keep their categories.`
+          : ''}
+        isConfirming={isDeleting}
+        onConfirm={handleDeleteConfirmed}
+        onCancel={() => setDeletingRule(null)}
+      />
+
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Categorization Rules</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Rules fill in the category, tags and notes of new transactions from their description, account and amount.
+            They are tried from the lowest priority up, and only the first matching rule applies.
+          </p>
+        </div>
+        {!form && (
+          <button
+            type="button"
+            onClick={() => openForm(null)}
+            className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+          >
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      {/* Rule Form */}
+      {form && (
+        <form onSubmit={handleSubmit} className="mt-4 border border-gray-200 rounded-md p-4">
+          <h4 className="text-base font-medium text-gray-900 mb-4">{form.id ? 'Edit Rule' : 'New Rule'}</h4>
+
+          {formError && (
+            <div className="mb-4 p-3 rounded-md bg-red-100 text-red-800 text-sm">
+              {formError}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div className="sm:col-span-3">
+              <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700">Name *</label>
+              <input type="text" name="name" id="rule-name" value={form.name} onChange={handleChange} className={inputClassName} placeholder="e.g. Groceries" />
+            </div>
+            <div>
+              <label htmlFor="rule-priority" className="block text-sm font-medium text-gray-700">Priority</label>
+              <input type="number" name="priority" id="rule-priority" value={form.priority} onChange={handleChange} className={inputClassName} />
+            </div>
+
+            <div>
+              <label htmlFor="rule-match-type" className="block text-sm font-medium text-gray-700">Description</label>
+              <select name="matchType" id="rule-match-type" value={form.matchType} onChange={handleChange} className={`${inputClassName} bg-white`}>
+                {Object.entries(RULE_MATCH_TYPES).map(([matchType, label]) => (
+                  <option key={matchType} value={matchType}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-3">
+              <label htmlFor="rule-description" className="block text-sm font-medium text-gray-700">Text</label>
+              <input type="text" name="descriptionPattern" id="rule-description" value={form.descriptionPattern} onChange={handleChange} className={inputClassName} placeholder="e.g. ALBERT HEIJN" />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label htmlFor="rule-account" className="block text-sm font-medium text-gray-700">Account</label>
+              <input type="text" name="account" id="rule-account" value={form.account} onChange={handleChange} className={inputClassName} placeholder="Any account" />
+            </div>
+            <div>
+              <label htmlFor="rule-min-amount" className="block text-sm font-medium text-gray-700">Min Amount</label>
+              <input type="number" step="0.01" min="0" name="minAmount" id="rule-min-amount" value={form.minAmount} onChange={handleChange} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="rule-max-amount" className="block text-sm font-medium text-gray-700">Max Amount</label>
+              <input type="number" step="0.01" min="0" name="maxAmount" id="rule-max-amount" value={form.maxAmount} onChange={handleChange} className={inputClassName} />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label htmlFor="rule-category" className="block text-sm font-medium text-gray-700">Category</label>
+              <select name="category" id="rule-category" value={form.category} onChange={handleChange} className={`${inputClassName} bg-white`}>
+                <option value="">Leave unchanged</option>
+                {categoryData.categories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="rule-subcategory" className="block text-sm font-medium text-gray-700">Subcategory</label>
+              <select name="subcategory" id="rule-subcategory" value={form.subcategory} onChange={handleChange} disabled={!form.category} className={`${inputClassName} bg-white disabled:bg-gray-100`}>
+                <option value="">No subcategory</option>
+                {(categoryData.subcategories[form.category] || []).map(subcategory => (
+                  <option key={subcategory} value={subcategory}>{subcategory}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="sm:col-span-2">
+              <label htmlFor="rule-tags" className="block text-sm font-medium text-gray-700">Tags</label>
+              <input type="text" name="tags" id="rule-tags" value={form.tags} onChange={handleChange} className={inputClassName} placeholder="e.g. groceries, weekly" />
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="rule-notes" className="block text-sm font-medium text-gray-700">Notes</label>
+              <input type="text" name="notes" id="rule-notes" value={form.notes} onChange={handleChange} className={inputClassName} placeholder="Used when a transaction has no notes" />
+            </div>
+
+            <div className="sm:col-span-4">
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input type="checkbox" name="active" checked={form.active} onChange={handleChange} className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded" />
+                <span className="ml-2">Active</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-green-300"
+            >
+              {isSubmitting ? 'Saving...' : form.id ? 'Save Rule' : 'Add Rule'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules List */}
+      <div className="mt-4 border border-gray-200 rounded-md overflow-hidden">
+        {rules.length === 0 ? (
+          <p className="text-gray-500 text-sm italic p-4">No rules yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {rules.map(rule => (
+              <li key={rule.id} className={`px-4 py-3 flex items-center justify-between ${rule.active ? '' : 'bg-gray-50'}`}>
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${rule.active ? 'text-gray-900' : 'text-gray-500'}`}>
+                    <span className="text-gray-400 mr-2">{rule.priority}</span>
+                    {rule.name}
+                    {!rule.active && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                        Inactive
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {describeConditions(rule)} → {describeActions(rule)}
+                  </p>
+                </div>
+                <div className="ml-4 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleActive(rule)}
+                    className="text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                  >
+                    {rule.active ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => openForm(rule)}
+                    className="ml-1 text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setDeletingRule(rule)}
+                    className="ml-1 text-sm px-2 py-1 rounded text-red-700 hover:bg-red-100"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <button
+          type="button"
+          onClick={handleApplyToUncategorized}
+          disabled={isApplying || rules.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+        >
+          {isApplying ? 'Applying Rules...' : 'Re-run Rules on Uncategorized'}
+        </button>
+        <p className="mt-2 text-sm text-gray-500">
+          Applies the rules to every transaction that has no category yet, for example after adding a rule.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default RulesManager
\ No newline at end of file
@@ -1,6 +1,11 @@
 import { useState, useEffect, FormEvent } from 'react'
-import { googleSheets } from '../lib/googleSheets'
-import { format } from 'date-fns'
+import { financeStore } from '../lib/store'
+import { format, isValid } from 'date-fns'
+import { TransactionDirection, TransactionSplit } from '../lib/types'
+import { getUnallocatedAmount, validateSplits } from '../lib/splits'
+import { validateTransfer } from '../lib/transfers'
+import { getTransactionDirection, TRANSACTION_DIRECTIONS } from '../lib/cashFlow'
+import { formatTags, parseTags } from '../lib/tags'
 
 /**
  * Transaction interface for the form data
@@ -16,8 +21,17 @@ interface Transaction {
   amountUSD?: number
   account: string
   notes?: string
+  tags?: string[]
+  recurringId?: string
+  amountConfirmed?: boolean
+  splits?: TransactionSplit[]
+  transferAccount?: string
+  direction?: TransactionDirection
 }
 
+/** Currency fields a split line can have an amount in */
+type SplitAmountField = 'amountEUR' | 'amountUSD'
+
 /**
  * Structure for category and subcategory data
  * @interface CategoryData
@@ -36,19 +50,36 @@ interface TransactionFormModalProps {
   isOpen: boolean
   onClose: () => void
   onTransactionAdded: () => void
+  onTransactionUpdated?: () => void
+  transactionToEdit?: Transaction | null
   accounts: string[]
 }
 
 /**
- * Modal component for adding new transactions
+ * Converts a stored transaction date into the yyyy-MM-dd format used by date inputs
+ * @param {string} dateString - Date as stored in the sheet
+ * @returns {string} Date formatted for a date input, or the original string if it cannot be parsed
+ */
+const toInputDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : dateString
+}
+
+/**
+ * Modal component for adding new transactions and editing existing ones
+ * 
+ * Opens in edit mode, pre-filled from the row, when `transactionToEdit` is set.
  * 
  * Provides a form with input fields for all transaction data including:
  * - Date picker
  * - Description field
  * - Category and subcategory selectors
  * - Amount fields for EUR and USD
+ * - Split lines, each with its own category, amount and note, that must add up to the amounts
+ * - A direction: expense, income, refund, or a transfer moving the amount from one account to another
  * - Account selector
  * - Notes textarea
+ * - Comma-separated tags
  * 
  * @param {TransactionFormModalProps} props - Component props
  * @returns {JSX.Element|null} Rendered modal or null when closed
@@ -57,8 +88,11 @@ function TransactionFormModal({
   isOpen, 
   onClose, 
   onTransactionAdded,
+  onTransactionUpdated,
+  transactionToEdit,
   accounts
 }: TransactionFormModalProps) {
+  const isEditing = Boolean(transactionToEdit)
   const [transaction, setTransaction] = useState<Transaction>({
     date: format(new Date(), 'yyyy-MM-dd'),
     description: '',
@@ -67,7 +101,8 @@ function TransactionFormModal({
     amountEUR: undefined,
     amountUSD: undefined,
     account: accounts.length > 0 ? accounts[0] : '',
-    notes: ''
+    notes: '',
+    direction: 'expense'
   })
   const [categoryData, setCategoryData] = useState<CategoryData>({
     categories: [],
@@ -77,12 +112,14 @@ function TransactionFormModal({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isLoadingCategories, setIsLoadingCategories] = useState(false)
+  const [tagsInput, setTagsInput] = useState('')
+  const isTransferMode = transaction.transferAccount !== undefined
 
   // Fetch categories and subcategories when modal is opened
   useEffect(() => {
     if (isOpen) {
       setIsLoadingCategories(true)
-      googleSheets.fetchCategoryData()
+      financeStore.fetchCategoryData()
         .then(data => {
           setCategoryData(data)
         })
@@ -95,9 +132,17 @@ function TransactionFormModal({
     }
   }, [isOpen])
 
-  // Reset form when modal is opened
+  // Reset form when modal is opened, pre-filling it in edit mode
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && transactionToEdit) {
+      setTransaction({
+        ...transactionToEdit,
+        date: toInputDate(transactionToEdit.date),
+        direction: getTransactionDirection(transactionToEdit)
+      })
+      setTagsInput(formatTags(transactionToEdit.tags))
+      setError(null)
+    } else if (isOpen) {
       setTransaction({
         date: format(new Date(), 'yyyy-MM-dd'),
         description: '',
@@ -106,15 +151,18 @@ function TransactionFormModal({
         amountEUR: undefined,
         amountUSD: undefined,
         account: accounts.length > 0 ? accounts[0] : '',
-        notes: ''
+        notes: '',
+        direction: 'expense'
       })
+      setTagsInput('')
       setError(null)
     }
-  }, [isOpen, accounts])
+  }, [isOpen, accounts, transactionToEdit])
 
   /**
    * Handles form field changes
    * - Parses numeric values for currency fields
+   * - Confirms an estimated amount once it is changed
    * - Resets subcategory when category changes
    * 
    * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>} e - Change event
@@ -127,7 +175,8 @@ function TransactionFormModal({
       const numericValue = value === '' ? undefined : parseFloat(value)
       setTransaction(prev => ({
         ...prev,
-        [name]: numericValue
+        [name]: numericValue,
+        amountConfirmed: prev.amountConfirmed === false ? true : prev.amountConfirmed
       }))
     } 
     // Clear subcategory when category changes
@@ -146,10 +195,120 @@ function TransactionFormModal({
     }
   }
 
+  /**
+   * Formats a number as a currency string
+   * @param {number} amount - The amount to format
+   * @param {string} currency - The currency code (EUR or USD)
+   * @returns {string} Formatted currency string
+   */
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 2
+    }).format(amount)
+  }
+
+  /**
+   * Sets the direction of the transaction, switching to or from a transfer between two accounts
+   * A transfer has no category, so the category and split lines are cleared.
+   * @param {TransactionDirection} direction - The direction
+   */
+  const setDirection = (direction: TransactionDirection) => {
+    setTransaction(prev => direction === 'transfer'
+      ? {
+          ...prev,
+          direction,
+          transferAccount: prev.transferAccount ?? (accounts.find(account => account !== prev.account) || ''),
+          category: '',
+          subcategory: '',
+          splits: undefined
+        }
+      : { ...prev, direction, transferAccount: undefined })
+  }
+
+  /**
+   * Returns the currencies the transaction has an amount in, which its split lines are entered in
+   * @returns {SplitAmountField[]} The currency fields, EUR when no amount is entered yet
+   */
+  const getSplitFields = (): SplitAmountField[] => {
+    const fields = (['amountEUR', 'amountUSD'] as const).filter(field => transaction[field] !== undefined)
+    return fields.length > 0 ? fields : ['amountEUR']
+  }
+
+  /**
+   * Splits the transaction into two lines, the first one taking its category and amounts,
+   * or turns a split transaction back into one with the category of its first line
+   */
+  const toggleSplit = () => {
+    setTransaction(prev => {
+      if (prev.splits) {
+        const [first] = prev.splits
+        return { ...prev, category: first?.category || '', subcategory: first?.subcategory || '', splits: undefined }
+      }
+      return {
+        ...prev,
+        splits: [
+          { category: prev.category, subcategory: prev.subcategory, amountEUR: prev.amountEUR, amountUSD: prev.amountUSD },
+          { category: '', subcategory: '' }
+        ],
+        category: '',
+        subcategory: ''
+      }
+    })
+  }
+
+  /**
+   * Handles changes to the fields of a split line
+   * - Parses numeric values for currency fields
+   * - Resets subcategory when category changes
+   *
+   * @param {number} index - Index of the line
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement>} e - Change event
+   */
+  const handleSplitChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    const changes: TransactionSplit = name === 'amountEUR' || name === 'amountUSD'
+      ? { [name]: value === '' ? undefined : parseFloat(value) }
+      : name === 'category'
+        ? { category: value, subcategory: '' }
+        : { [name]: value }
+
+    setTransaction(prev => ({
+      ...prev,
+      splits: (prev.splits || []).map((split, i) => i === index ? { ...split, ...changes } : split)
+    }))
+  }
+
+  /**
+   * Adds a split line holding whatever is not assigned to a line yet
+   */
+  const addSplitLine = () => {
+    setTransaction(prev => {
+      const line: TransactionSplit = { category: '', subcategory: '' }
+      getSplitFields().forEach(field => {
+        const unallocated = getUnallocatedAmount(prev, field)
+        if (unallocated > 0) line[field] = unallocated
+      })
+      return { ...prev, splits: [...(prev.splits || []), line] }
+    })
+  }
+
+  /**
+   * Removes a split line
+   * @param {number} index - Index of the line
+   */
+  const removeSplitLine = (index: number) => {
+    setTransaction(prev => ({
+      ...prev,
+      splits: (prev.splits || []).filter((_, i) => i !== index)
+    }))
+  }
+
   /**
    * Form submission handler
-   * - Validates required fields
-   * - Submits transaction to Google Sheets API
+   * - Validates required fields, that split lines add up to the amounts and that a transfer has two accounts
+   * - Adds the transaction, or updates it in edit mode
    * - Handles success and error states
    * 
    * @param {FormEvent} e - Form submission event
@@ -172,13 +331,35 @@ function TransactionFormModal({
       return
     }
 
+    if (transaction.splits || isTransferMode) {
+      try {
+        if (transaction.splits) validateSplits(transaction)
+        if (isTransferMode) validateTransfer(transaction)
+      } catch (err: any) {
+        setError(err.message)
+        setIsSubmitting(false)
+        return
+      }
+    }
+
+    const tags = parseTags(tagsInput)
+
     try {
-      await googleSheets.addTransaction(transaction)
-      onTransactionAdded()
+      if (isEditing) {
+        await financeStore.updateTransaction({ ...transaction, tags })
+        if (onTransactionUpdated) {
+          onTransactionUpdated()
+        } else {
+          onTransactionAdded()
+        }
+      } else {
+        await financeStore.addTransaction({ ...transaction, tags })
+        onTransactionAdded()
+      }
       onClose()
     } catch (err: any) {
-      setError(err.message || 'Failed to add transaction')
-      console.error('Error adding transaction:', err)
+      setError(err.message || `Failed to ${isEditing ? 'update' : 'add'} transaction`)
+      console.error(`Error ${isEditing ? 'updating' : 'adding'} transaction:`, err)
     } finally {
       setIsSubmitting(false)
     }
@@ -202,7 +383,7 @@ function TransactionFormModal({
             <div className="sm:flex sm:items-start">
               <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
                 <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
-                  Add New Transaction
+                  {isEditing ? 'Edit Transaction' : 'Add New Transaction'}
                 </h3>
                 
                 {error && (
@@ -212,6 +393,19 @@ function TransactionFormModal({
                 )}
                 
                 <form onSubmit={handleSubmit} className="mt-4">
+                  <div className="mb-4 inline-flex rounded-md shadow-sm" role="group" aria-label="Direction">
+                    {(Object.keys(TRANSACTION_DIRECTIONS) as TransactionDirection[]).map((direction, index, directions) => (
+                      <button
+                        key={direction}
+                        type="button"
+                        onClick={() => setDirection(direction)}
+                        className={`px-4 py-2 text-sm font-medium border ${index === 0 ? 'rounded-l-md' : '-ml-px'} ${index === directions.length - 1 ? 'rounded-r-md' : ''} ${transaction.direction === direction ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                      >
+                        {TRANSACTION_DIRECTIONS[direction]}
+                      </button>
+                    ))}
+                  </div>
+                  
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div>
                       <label htmlFor="date" className="block text-sm font-medium text-gray-700">
@@ -230,7 +424,7 @@ function TransactionFormModal({
                     
                     <div>
                       <label htmlFor="account" className="block text-sm font-medium text-gray-700">
-                        Account *
+                        {isTransferMode ? 'From Account *' : 'Account *'}
                       </label>
                       <div className="relative mt-1">
                         <select
@@ -253,6 +447,34 @@ function TransactionFormModal({
                       </div>
                     </div>
                     
+                    {isTransferMode && (
+                      <div className="sm:col-start-2">
+                        <label htmlFor="transferAccount" className="block text-sm font-medium text-gray-700">
+                          To Account *
+                        </label>
+                        <div className="relative mt-1">
+                          <select
+                            name="transferAccount"
+                            id="transferAccount"
+                            required
+                            value={transaction.transferAccount}
+                            onChange={handleChange}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                          >
+                            <option value="">Select Account</option>
+                            {accounts.filter(account => account !== transaction.account).map(account => (
+                              <option key={account} value={account}>{account}</option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                            <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                            </svg>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    
                     <div className="sm:col-span-2">
                       <label htmlFor="description" className="block text-sm font-medium text-gray-700">
                         Description *
@@ -265,69 +487,73 @@ function TransactionFormModal({
                         value={transaction.description}
                         onChange={handleChange}
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                        placeholder="E.g., Grocery shopping, Restaurant bill"
+                        placeholder={isTransferMode ? 'E.g., Savings top-up, Credit card payment' : 'E.g., Grocery shopping, Restaurant bill'}
                       />
                     </div>
                     
-                    <div>
-                      <label htmlFor="category" className="block text-sm font-medium text-gray-700">
-                        Category
-                      </label>
-                      <div className="relative mt-1">
-                        <select
-                          name="category"
-                          id="category"
-                          value={transaction.category || ''}
-                          onChange={handleChange}
-                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
-                          disabled={isLoadingCategories}
-                        >
-                          <option value="">Select Category</option>
-                          {isLoadingCategories ? (
-                            <option value="" disabled>Loading categories...</option>
-                          ) : (
-                            categoryData.categories.map(category => (
-                              <option key={category} value={category}>{category}</option>
-                            ))
-                          )}
-                        </select>
-                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
-                          <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-                          </svg>
+                    {!transaction.splits && !isTransferMode && (
+                      <>
+                        <div>
+                          <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                            Category
+                          </label>
+                          <div className="relative mt-1">
+                            <select
+                              name="category"
+                              id="category"
+                              value={transaction.category || ''}
+                              onChange={handleChange}
+                              className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
+                              disabled={isLoadingCategories}
+                            >
+                              <option value="">Select Category</option>
+                              {isLoadingCategories ? (
+                                <option value="" disabled>Loading categories...</option>
+                              ) : (
+                                categoryData.categories.map(category => (
+                                  <option key={category} value={category}>{category}</option>
+                                ))
+                              )}
+                            </select>
+                            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                              <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                              </svg>
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
                     
-                    <div>
-                      <label htmlFor="subcategory" className="block text-sm font-medium text-gray-700">
-                        Subcategory
-                      </label>
-                      <div className="relative mt-1">
-                        <select
-                          name="subcategory"
-                          id="subcategory"
-                          value={transaction.subcategory || ''}
-                          onChange={handleChange}
-                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
-                          disabled={isLoadingCategories || !transaction.category}
-                        >
-                          <option value="">Select Subcategory</option>
-                          {isLoadingCategories ? (
-                            <option value="" disabled>Loading subcategories...</option>
-                          ) : transaction.category ? (
-                            categoryData.subcategories[transaction.category]?.map(subcategory => (
-                              <option key={subcategory} value={subcategory}>{subcategory}</option>
-                            ))
-                          ) : null}
-                        </select>
-                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
-                          <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-                          </svg>
+                        <div>
+                          <label htmlFor="subcategory" className="block text-sm font-medium text-gray-700">
+                            Subcategory
+                          </label>
+                          <div className="relative mt-1">
+                            <select
+                              name="subcategory"
+                              id="subcategory"
+                              value={transaction.subcategory || ''}
+                              onChange={handleChange}
+                              className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-100 disabled:text-gray-500"
+                              disabled={isLoadingCategories || !transaction.category}
+                            >
+                              <option value="">Select Subcategory</option>
+                              {isLoadingCategories ? (
+                                <option value="" disabled>Loading subcategories...</option>
+                              ) : transaction.category ? (
+                                categoryData.subcategories[transaction.category]?.map(subcategory => (
+                                  <option key={subcategory} value={subcategory}>{subcategory}</option>
+                                ))
+                              ) : null}
+                            </select>
+                            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                              <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                              </svg>
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
+                      </>
+                    )}
                     
                     <div>
                       <label htmlFor="amountEUR" className="block text-sm font-medium text-gray-700">
@@ -371,6 +597,123 @@ function TransactionFormModal({
                       </div>
                     </div>
                     
+                    {!isTransferMode && (
+                      <div className="sm:col-span-2">
+                        {transaction.splits && (
+                          <div className="space-y-2 mb-2">
+                            {transaction.splits.map((split, index) => (
+                              <div key={index} className="p-3 border border-gray-200 rounded-md">
+                                <div className="grid grid-cols-2 gap-2">
+                                  <select
+                                    name="category"
+                                    aria-label={`Category of line ${index + 1}`}
+                                    value={split.category || ''}
+                                    onChange={(e) => handleSplitChange(index, e)}
+                                    disabled={isLoadingCategories}
+                                    className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+                                  >
+                                    <option value="">Select Category</option>
+                                    {categoryData.categories.map(category => (
+                                      <option key={category} value={category}>{category}</option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    name="subcategory"
+                                    aria-label={`Subcategory of line ${index + 1}`}
+                                    value={split.subcategory || ''}
+                                    onChange={(e) => handleSplitChange(index, e)}
+                                    disabled={isLoadingCategories || !split.category}
+                                    className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+                                  >
+                                    <option value="">Select Subcategory</option>
+                                    {split.category && categoryData.subcategories[split.category]?.map(subcategory => (
+                                      <option key={subcategory} value={subcategory}>{subcategory}</option>
+                                    ))}
+                                  </select>
+                                  {getSplitFields().map(field => (
+                                    <input
+                                      key={field}
+                                      type="number"
+                                      name={field}
+                                      step="0.01"
+                                      aria-label={`Amount of line ${index + 1} in ${field.slice(-3)}`}
+                                      value={split[field] === undefined ? '' : split[field]}
+                                      onChange={(e) => handleSplitChange(index, e)}
+                                      className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                                      placeholder={`Amount (${field.slice(-3)})`}
+                                    />
+                                  ))}
+                                  <input
+                                    type="text"
+                                    name="notes"
+                                    aria-label={`Note of line ${index + 1}`}
+                                    value={split.notes || ''}
+                                    onChange={(e) => handleSplitChange(index, e)}
+                                    className={`block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 ${getSplitFields().length > 1 ? 'col-span-2' : ''}`}
+                                    placeholder="Note"
+                                  />
+                                </div>
+                                {transaction.splits && transaction.splits.length > 2 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => removeSplitLine(index)}
+                                    className="mt-2 text-xs text-red-700 hover:text-red-800"
+                                  >
+                                    Remove line
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                            <div className="flex items-center justify-between text-sm">
+                              <button
+                                type="button"
+                                onClick={addSplitLine}
+                                className="text-green-700 hover:text-green-800"
+                              >
+                                + Add line
+                              </button>
+                              <span>
+                                {getSplitFields().map(field => {
+                                  const unallocated = getUnallocatedAmount(transaction, field)
+                                  return (
+                                    <span key={field} className={`ml-3 ${unallocated === 0 ? 'text-green-700' : 'text-red-700'}`}>
+                                      {unallocated === 0
+                                        ? `${field.slice(-3)} fully assigned`
+                                        : `${unallocated > 0 ? 'Left to assign' : 'Over by'}: ${formatCurrency(Math.abs(unallocated), field.slice(-3))}`}
+                                    </span>
+                                  )
+                                })}
+                              </span>
+                            </div>
+                          </div>
+                        )}
+                        <button
+                          type="button"
+                          onClick={toggleSplit}
+                          className="text-sm text-green-700 hover:text-green-800"
+                        >
+                          {transaction.splits ? 'Remove split' : 'Split across categories'}
+                        </button>
+                      </div>
+                    )}
+                    
+                    {transactionToEdit?.amountConfirmed === false && (
+                      <div className="sm:col-span-2">
+                        <label className="flex items-center text-sm font-medium text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={transaction.amountConfirmed === true}
+                            onChange={(e) => setTransaction(prev => ({ ...prev, amountConfirmed: e.target.checked }))}
+                            className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                          />
+                          <span className="ml-2">Amount confirmed</span>
+                        </label>
+                        <p className="mt-1 text-xs text-gray-500">
+                          This amount was estimated by its recurring template. Confirm it once it matches the actual charge.
+                        </p>
+                      </div>
+                    )}
+                    
                     <div className="sm:col-span-2">
                       <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
                         Notes
@@ -385,6 +728,21 @@ function TransactionFormModal({
                         placeholder="Additional details about this transaction"
                       ></textarea>
                     </div>
+                    
+                    <div className="sm:col-span-2">
+                      <label htmlFor="tags" className="block text-sm font-medium text-gray-700">
+                        Tags
+                      </label>
+                      <input
+                        type="text"
+                        name="tags"
+                        id="tags"
+                        value={tagsInput}
+                        onChange={(e) => setTagsInput(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        placeholder="e.g. vacation-2024, tax-deductible"
+                      />
+                    </div>
                   </div>
                   
                   <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
@@ -393,7 +751,9 @@ function TransactionFormModal({
                       disabled={isSubmitting}
                       className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-green-300"
                     >
-                      {isSubmitting ? 'Adding...' : 'Add Transaction'}
+                      {isSubmitting
+                        ? (isEditing ? 'Saving...' : 'Adding...')
+                        : (isEditing ? 'Save Changes' : 'Add Transaction')}
                     </button>
                     <button
                       type="button"
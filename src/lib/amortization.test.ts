@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildAmortizationSchedule, getDueLoanTransactions, getInstallmentAmount, getLoanSummary } from './amortization';
+import { getTransactionDirection } from './cashFlow';
+import type { Loan } from './types';
+
+const loan = (fields: Partial<Loan>): Loan => ({
+  id: 'car',
+  name: 'Car loan',
+  principal: 12000,
+  annualRate: 6,
+  term: 12,
+  startDate: '2024-01-31',
+  currency: 'EUR',
+  account: 'Bank',
+  category: 'Transportation',
+  subcategory: 'Car',
+  active: true,
+  ...fields
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('pays the loan off in equal installments, ending at exactly zero', () => {
+    const schedule = buildAmortizationSchedule(loan({}));
+
+    expect(getInstallmentAmount(loan({}))).toBe(1032.8);
+    expect(schedule).toHaveLength(12);
+    expect(schedule[0]).toMatchObject({ date: '2024-01-31', interest: 60, principal: 972.8, balance: 11027.2 });
+    expect(schedule[1].date).toBe('2024-02-29');
+    expect(schedule[11].balance).toBe(0);
+  });
+
+  it('divides an interest-free plan into equal parts', () => {
+    const schedule = buildAmortizationSchedule(loan({ annualRate: 0, principal: 900, term: 3, frequency: 'biweekly' }));
+
+    expect(schedule.map(row => [row.date, row.payment, row.interest])).toEqual([
+      ['2024-01-31', 300, 0],
+      ['2024-02-14', 300, 0],
+      ['2024-02-28', 300, 0]
+    ]);
+  });
+
+  it('pays off sooner with extra payments and reports the interest saved', () => {
+    const withExtra = loan({ extraPayments: [{ date: '2024-02-15', amount: 3000 }] });
+    const summary = getLoanSummary(withExtra, new Date(2024, 1, 20));
+
+    expect(summary.schedule[1].extra).toBe(3000);
+    expect(summary.schedule.length).toBeLessThan(12);
+    expect(summary.interestSaved).toBeGreaterThan(0);
+    expect(summary.remainingBalance).toBe(8027.2);
+  });
+});
+
+describe('getDueLoanTransactions', () => {
+  it('posts the principal as a transfer and the interest as an expense', () => {
+    const { transactions, lastDate } = getDueLoanTransactions(loan({}), new Date(2024, 0, 31));
+
+    expect(lastDate).toBe('2024-01-31');
+    expect(transactions.map(transaction => [transaction.id, transaction.amountEUR, getTransactionDirection(transaction)])).toEqual([
+      ['car@2024-01-31#principal', 972.8, 'transfer'],
+      ['car@2024-01-31#interest', 60, 'expense']
+    ]);
+  });
+
+  it('starts after the last processed installment', () => {
+    const { transactions } = getDueLoanTransactions(loan({ lastProcessed: '2024-01-31' }), new Date(2024, 1, 29));
+
+    expect(transactions.map(transaction => transaction.date)).toEqual(['2024-02-29', '2024-02-29']);
+  });
+
+  it('keeps the IDs of extra payments when another one is removed', () => {
+    const first = { date: '2024-01-10', amount: 500 };
+    const second = { date: '2024-01-10', amount: 250 };
+    const extraIds = (extraPayments: Loan['extraPayments']) =>
+      getDueLoanTransactions(loan({ extraPayments, lastProcessed: '2024-01-31' }), new Date(2024, 1, 1))
+        .transactions.map(transaction => transaction.id);
+
+    expect(extraIds([first, second])).toEqual(['car@2024-01-10#extra-500', 'car@2024-01-10#extra-250']);
+    expect(extraIds([second])).toEqual(['car@2024-01-10#extra-250']);
+    expect(extraIds([second, second])).toEqual(['car@2024-01-10#extra-250', 'car@2024-01-10#extra-250-2']);
+  });
+
+  it('posts nothing for inactive loans', () => {
+    expect(getDueLoanTransactions(loan({ active: false }), new Date(2024, 5, 1)).transactions).toEqual([]);
+  });
+});
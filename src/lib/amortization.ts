@@ -0,0 +1,321 @@
+/**
+ * Amortization of loans and installment plans shared by every FinanceStore implementation
+ *
+ * Loans are repaid in equal installments (an annuity), each made of the interest
+ * accrued since the previous one and the rest going to the principal. Extra payments
+ * go to the principal straight away; the installment stays the same, so the loan is
+ * paid off sooner. Amounts are rounded to cents at every step and the last
+ * installment pays off whatever is left.
+ */
+
+import { addMonths, addWeeks, startOfDay } from 'date-fns';
+import type { ExtraPayment, Loan, LoanFrequency, Transaction } from './types';
+import { formatDate, parseDate } from './recurrence';
+
+/**
+ * One installment of an amortization schedule
+ * @interface AmortizationRow
+ */
+export interface AmortizationRow {
+  /** Installment number, starting at 1 */
+  number: number;
+  /** Due date in YYYY-MM-DD format */
+  date: string;
+  /** Regular payment: principal plus interest */
+  payment: number;
+  /** Part of the payment that repays the principal */
+  principal: number;
+  /** Part of the payment that pays interest */
+  interest: number;
+  /** Extra payments made since the previous installment, up to this one */
+  extra: number;
+  /** Balance left after the payment and the extra payments */
+  balance: number;
+}
+
+/**
+ * State of a loan on a given day
+ * @interface LoanSummary
+ */
+export interface LoanSummary {
+  /** The schedule, including the effect of extra payments */
+  schedule: AmortizationRow[];
+  /** The regular installment */
+  installment: number;
+  /** Balance left after the installments and extra payments made so far */
+  remainingBalance: number;
+  /** Number of installments due so far */
+  paidInstallments: number;
+  /** The next installment, or undefined once the loan is paid off */
+  nextInstallment?: AmortizationRow;
+  /** Date of the last installment in YYYY-MM-DD format */
+  payoffDate?: string;
+  /** Interest paid over the whole schedule */
+  totalInterest: number;
+  /** Interest the extra payments save compared with the original schedule */
+  interestSaved: number;
+}
+
+/** Display names of the installment frequencies */
+export const LOAN_FREQUENCIES: Record<LoanFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  monthly: 'Monthly'
+};
+
+/** Installments per year of each frequency, to turn the annual rate into a periodic one */
+const PERIODS_PER_YEAR: Record<LoanFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12
+};
+
+/**
+ * Checks whether a value names an installment frequency
+ * @param {string} value - The value
+ * @returns {boolean} True for a known frequency
+ */
+export function isLoanFrequency(value: string): value is LoanFrequency {
+  return Object.prototype.hasOwnProperty.call(LOAN_FREQUENCIES, value);
+}
+
+/**
+ * Rounds an amount to cents
+ * @param {number} amount - The amount
+ * @returns {number} The rounded amount
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Returns the interest rate per installment period
+ * @param {Loan} loan - The loan
+ * @returns {number} The periodic rate as a fraction
+ */
+function getPeriodicRate(loan: Loan): number {
+  return loan.annualRate / 100 / PERIODS_PER_YEAR[loan.frequency || 'monthly'];
+}
+
+/**
+ * Returns the due date of an installment
+ * Monthly dates are counted from the start date, so installments on the 31st fall on
+ * the last day of shorter months and return to the 31st afterwards.
+ * @param {Loan} loan - The loan
+ * @param {Date} start - Parsed date of the first installment
+ * @param {number} index - Zero-based installment index
+ * @returns {Date} The due date
+ */
+function getInstallmentDate(loan: Loan, start: Date, index: number): Date {
+  switch (loan.frequency) {
+    case 'weekly':
+      return addWeeks(start, index);
+    case 'biweekly':
+      return addWeeks(start, index * 2);
+    default:
+      return addMonths(start, index);
+  }
+}
+
+/**
+ * Calculates the regular installment that repays a loan over its term
+ * @param {Loan} loan - The loan
+ * @returns {number} The installment, rounded to cents
+ */
+export function getInstallmentAmount(loan: Loan): number {
+  const rate = getPeriodicRate(loan);
+  if (loan.term <= 0) return 0;
+
+  return roundCents(rate === 0
+    ? loan.principal / loan.term
+    : loan.principal * rate / (1 - Math.pow(1 + rate, -loan.term)));
+}
+
+/**
+ * Builds a loan's amortization schedule
+ * Extra payments count towards the first installment on or after their date, and reduce
+ * the balance after it. Extra payments after the last installment are ignored.
+ * @param {Loan} loan - The loan
+ * @param {ExtraPayment[]} [extraPayments] - Extra payments, defaults to the loan's own
+ * @returns {AmortizationRow[]} The installments until the loan is paid off, empty without a valid start date
+ */
+export function buildAmortizationSchedule(loan: Loan, extraPayments: ExtraPayment[] = loan.extraPayments || []): AmortizationRow[] {
+  const start = parseDate(loan.startDate);
+  if (!start || loan.principal <= 0) return [];
+
+  const rate = getPeriodicRate(loan);
+  const installment = getInstallmentAmount(loan);
+  const extras = extraPayments
+    .map(payment => ({ date: parseDate(payment.date), amount: payment.amount }))
+    .filter((payment): payment is { date: Date; amount: number } => payment.date !== null && payment.amount > 0);
+
+  const schedule: AmortizationRow[] = [];
+  let balance = loan.principal;
+  let previousDate: Date | null = null;
+
+  for (let index = 0; index < loan.term && balance > 0; index++) {
+    const date = getInstallmentDate(loan, start, index);
+    const interest = roundCents(balance * rate);
+    // The last installment settles the rounding differences
+    const principal = index === loan.term - 1
+      ? balance
+      : Math.min(balance, Math.max(0, roundCents(installment - interest)));
+
+    const paidExtra = extras
+      .filter(payment => payment.date <= date && (!previousDate || payment.date > previousDate))
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const extra = roundCents(Math.min(paidExtra, balance - principal));
+
+    balance = roundCents(balance - principal - extra);
+    schedule.push({
+      number: index + 1,
+      date: formatDate(date),
+      payment: roundCents(principal + interest),
+      principal: roundCents(principal),
+      interest,
+      extra,
+      balance
+    });
+    previousDate = date;
+  }
+
+  return schedule;
+}
+
+/**
+ * Summarizes a loan on a given day
+ * @param {Loan} loan - The loan
+ * @param {Date} [asOf] - The day, defaults to today
+ * @returns {LoanSummary} The summary
+ */
+export function getLoanSummary(loan: Loan, asOf: Date = new Date()): LoanSummary {
+  const day = startOfDay(asOf);
+  const schedule = buildAmortizationSchedule(loan);
+  const paid = schedule.filter(row => (parseDate(row.date) as Date) <= day);
+  const totalInterest = roundCents(schedule.reduce((sum, row) => sum + row.interest, 0));
+  const originalInterest = roundCents(buildAmortizationSchedule(loan, []).reduce((sum, row) => sum + row.interest, 0));
+
+  // Extra payments made since the last installment already reduce the balance
+  const lastPaid = paid.length > 0 ? parseDate(paid[paid.length - 1].date) as Date : null;
+  const pendingExtra = (loan.extraPayments || [])
+    .filter(payment => {
+      const date = parseDate(payment.date);
+      return date && date <= day && (!lastPaid || date > lastPaid);
+    })
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const balance = paid.length > 0 ? paid[paid.length - 1].balance : loan.principal;
+
+  return {
+    schedule,
+    installment: getInstallmentAmount(loan),
+    remainingBalance: roundCents(Math.max(0, balance - pendingExtra)),
+    paidInstallments: paid.length,
+    nextInstallment: schedule[paid.length],
+    payoffDate: schedule.length > 0 ? schedule[schedule.length - 1].date : undefined,
+    totalInterest,
+    interestSaved: roundCents(Math.max(0, originalInterest - totalInterest))
+  };
+}
+
+/**
+ * Builds a stable ID for a transaction generated from a loan
+ * @param {string} loanId - ID of the loan
+ * @param {string} date - Date of the installment or extra payment in YYYY-MM-DD format
+ * @param {string} part - Which part of the payment: principal, interest, or extra with the amount paid
+ * @returns {string} The transaction ID
+ */
+export function getLoanTransactionId(loanId: string, date: string, part: string): string {
+  return `${loanId}@${date}#${part}`;
+}
+
+/**
+ * Lists the transactions to post for a loan's installments and extra payments due by a date
+ *
+ * Each installment after the last processed one becomes a principal and an interest
+ * transaction. Repaying principal only moves money from the account to the lender, so
+ * it is posted as a transfer, like extra payments; the interest is an expense, so
+ * reports show what the loan costs. The two parts are not posted as one split
+ * transaction because split lines share their transaction's direction and transfers
+ * cannot be split; their IDs share the `loanId@date` prefix instead. Extra payments
+ * are not tracked by the cursor; their IDs, made from their date and amount, keep
+ * them from being posted twice.
+ * @param {Loan} loan - The loan
+ * @param {Date} [asOf] - Processing date, defaults to today
+ * @returns {{transactions: Transaction[], lastDate?: string}} The transactions and the date of the last due installment
+ */
+export function getDueLoanTransactions(loan: Loan, asOf: Date = new Date()): { transactions: Transaction[]; lastDate?: string } {
+  if (!loan.active || !loan.id) {
+    return { transactions: [] };
+  }
+
+  const loanId = loan.id;
+  const day = startOfDay(asOf);
+  const lastProcessed = parseDate(loan.lastProcessed);
+  const schedule = buildAmortizationSchedule(loan);
+  const amountField = loan.currency === 'USD' ? 'amountUSD' : 'amountEUR';
+
+  const due = schedule.filter(row => {
+    const date = parseDate(row.date) as Date;
+    return date <= day && (!lastProcessed || date > lastProcessed);
+  });
+
+  const transactions: Transaction[] = due.flatMap(row => {
+    const notes = `Installment ${row.number} of ${schedule.length}`;
+    const parts: Transaction[] = [{
+      id: getLoanTransactionId(loanId, row.date, 'principal'),
+      date: row.date,
+      description: `${loan.name} principal`,
+      category: loan.category,
+      subcategory: loan.subcategory,
+      [amountField]: row.principal,
+      account: loan.account,
+      notes,
+      direction: 'transfer'
+    }];
+
+    if (row.interest > 0) {
+      parts.push({
+        id: getLoanTransactionId(loanId, row.date, 'interest'),
+        date: row.date,
+        description: `${loan.name} interest`,
+        category: loan.interestCategory || loan.category,
+        subcategory: loan.interestCategory ? loan.interestSubcategory : loan.subcategory,
+        [amountField]: row.interest,
+        account: loan.account,
+        notes,
+        direction: 'expense'
+      });
+    }
+
+    return parts;
+  });
+
+  const extraIds = new Map<string, number>();
+  (loan.extraPayments || [])
+    .filter(payment => {
+      const date = parseDate(payment.date);
+      return date && date <= day && payment.amount > 0;
+    })
+    .forEach(payment => {
+      // Identical payments on one day are numbered to keep their IDs apart
+      const part = `extra-${payment.amount}`;
+      const sequence = (extraIds.get(`${payment.date}#${part}`) || 0) + 1;
+      extraIds.set(`${payment.date}#${part}`, sequence);
+      transactions.push({
+        id: getLoanTransactionId(loanId, payment.date, sequence > 1 ? `${part}-${sequence}` : part),
+        date: payment.date,
+        description: `${loan.name} extra payment`,
+        category: loan.category,
+        subcategory: loan.subcategory,
+        [amountField]: payment.amount,
+        account: loan.account,
+        notes: 'Extra payment towards the principal',
+        direction: 'transfer'
+      });
+    });
+
+  return {
+    transactions,
+    lastDate: due.length > 0 ? due[due.length - 1].date : undefined
+  };
+}
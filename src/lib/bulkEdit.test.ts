@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { applyBulkEdit, getStoredTransactions } from './bulkEdit';
+import type { Transaction } from './types';
+import { buildTransaction } from '../test/fixtures';
+
+const stored: Transaction[] = [
+  buildTransaction({ id: 'coffee' }),
+  buildTransaction({ id: 'groceries#1', splitId: 'groceries', category: 'Food & Dining', subcategory: 'Groceries' }),
+  buildTransaction({ id: 'groceries#2', splitId: 'groceries', category: 'Household', subcategory: 'Supplies' }),
+  buildTransaction({ id: 'move#from', transferId: 'move', account: 'Bank', category: '', subcategory: '' }),
+  buildTransaction({ id: 'move#to', transferId: 'move', account: 'Savings', category: '', subcategory: '' }),
+  buildTransaction({ id: 'lunch', tags: ['Work'] })
+];
+
+describe('getStoredTransactions', () => {
+  it('picks every line of split transactions and both legs of transfers', () => {
+    expect(getStoredTransactions(stored, ['groceries', 'move']).map(picked => picked.id))
+      .toEqual(['groceries#1', 'groceries#2', 'move#from', 'move#to']);
+  });
+});
+
+describe('applyBulkEdit', () => {
+  it('leaves split transactions and transfers out of category edits and counts each once', () => {
+    const result = applyBulkEdit(stored, { type: 'category', category: 'Food & Dining', subcategory: 'Groceries' });
+
+    expect(result.updated.map(updated => updated.id)).toEqual(['coffee', 'lunch']);
+    expect(result.skipped).toBe(2);
+  });
+
+  it('leaves loan principal rows out of category and account edits', () => {
+    const principal = buildTransaction({ id: 'principal', direction: 'transfer', account: 'Bank', category: 'Transportation' });
+
+    expect(applyBulkEdit([principal], { type: 'category', category: 'Housing' })).toMatchObject({ updated: [], skipped: 1 });
+    expect(applyBulkEdit([principal], { type: 'account', account: 'Cash' })).toMatchObject({ updated: [], skipped: 1 });
+  });
+
+  it('keeps the transactions as they were to undo the edit', () => {
+    const result = applyBulkEdit(stored, { type: 'account', account: 'Cash' });
+
+    expect(result.updated.every(updated => updated.account === 'Cash')).toBe(true);
+    expect(result.previous.map(previous => previous.account)).toEqual(['Card', 'Card', 'Card', 'Card']);
+    expect(result.previous.map(previous => previous.id)).toEqual(result.updated.map(updated => updated.id));
+  });
+
+  it('appends notes and only writes tags that are new', () => {
+    const notes = applyBulkEdit([buildTransaction({ id: 'a', notes: 'paid by card' }), buildTransaction({ id: 'b' })], { type: 'note', note: ' refunded ' });
+    const tags = applyBulkEdit(stored.filter(picked => picked.id === 'coffee' || picked.id === 'lunch'), { type: 'tag', tag: 'work' });
+
+    expect(notes.updated.map(updated => updated.notes)).toEqual(['paid by card; refunded', 'refunded']);
+    expect(tags.updated).toEqual([{ ...stored[0], tags: ['work'] }]);
+  });
+
+  it('changes nothing for a blank note', () => {
+    expect(applyBulkEdit(stored, { type: 'note', note: '  ' }).updated).toEqual([]);
+  });
+});
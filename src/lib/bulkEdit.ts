@@ -0,0 +1,106 @@
+/**
+ * Bulk edits of transactions shared by every FinanceStore implementation
+ *
+ * Bulk edits apply to transactions as stored, so a split transaction is edited
+ * through every one of its lines and a transfer through both of its legs. A transfer
+ * has no category and moving one leg to the other's account would break it, so
+ * transfers are left out of category and account edits. The lines of a split
+ * transaction have categories of their own, so split transactions are left out of
+ * category edits.
+ */
+
+import type { Transaction } from './types';
+import { addTag } from './tags';
+import { isTransfer } from './transfers';
+
+/**
+ * A change made to every selected transaction at once
+ * @type {BulkEdit}
+ */
+export type BulkEdit =
+  | { type: 'category'; category: string; subcategory?: string }
+  | { type: 'account'; account: string }
+  | { type: 'note'; note: string }
+  | { type: 'tag'; tag: string };
+
+/**
+ * Outcome of applying a bulk edit
+ * @interface BulkEditResult
+ */
+export interface BulkEditResult {
+  /** Stored transactions that change, with the edit applied */
+  updated: Transaction[];
+  /** The same transactions as they were, to undo the edit */
+  previous: Transaction[];
+  /** Number of selected transactions the edit does not apply to */
+  skipped: number;
+}
+
+/**
+ * Collects the stored transactions behind transactions picked from a grouped list
+ * @param {Transaction[]} transactions - Transactions as stored
+ * @param {Iterable<string>} ids - IDs of the picked transactions, split transactions or transfers
+ * @returns {Transaction[]} The picked transactions, with every line or leg of split transactions and transfers
+ */
+export function getStoredTransactions(transactions: Transaction[], ids: Iterable<string>): Transaction[] {
+  const selected = new Set(ids);
+  return transactions.filter(transaction =>
+    selected.has(transaction.id || '') ||
+    selected.has(transaction.splitId || '') ||
+    selected.has(transaction.transferId || '')
+  );
+}
+
+/**
+ * Applies a bulk edit to one stored transaction
+ * @param {Transaction} transaction - The stored transaction
+ * @param {BulkEdit} edit - The edit
+ * @returns {Transaction|null|undefined} The edited transaction, undefined when it is already up to date, or null when the edit does not apply to it
+ */
+function applyEdit(transaction: Transaction, edit: BulkEdit): Transaction | null | undefined {
+  switch (edit.type) {
+    case 'category':
+      if (isTransfer(transaction) || transaction.splitId) return null;
+      if (transaction.category === edit.category && (transaction.subcategory || '') === (edit.subcategory || '')) return undefined;
+      return { ...transaction, category: edit.category, subcategory: edit.subcategory || '' };
+    case 'account':
+      if (isTransfer(transaction)) return null;
+      if (transaction.account === edit.account) return undefined;
+      return { ...transaction, account: edit.account };
+    case 'note': {
+      const note = edit.note.trim();
+      if (!note) return undefined;
+      return { ...transaction, notes: transaction.notes ? `${transaction.notes}; ${note}` : note };
+    }
+    case 'tag': {
+      const tags = transaction.tags || [];
+      const updated = addTag(tags, edit.tag);
+      return updated === tags ? undefined : { ...transaction, tags: updated };
+    }
+  }
+}
+
+/**
+ * Applies a bulk edit to stored transactions
+ * @param {Transaction[]} transactions - The stored transactions, as returned by getStoredTransactions
+ * @param {BulkEdit} edit - The edit
+ * @returns {BulkEditResult} The transactions that change, before and after the edit
+ */
+export function applyBulkEdit(transactions: Transaction[], edit: BulkEdit): BulkEditResult {
+  const result: BulkEditResult = { updated: [], previous: [], skipped: 0 };
+  // Skipped transfers and split transactions are counted once, not once per leg or line
+  const skippedIds = new Set<string>();
+
+  transactions.forEach(transaction => {
+    const updated = applyEdit(transaction, edit);
+    if (updated === null) {
+      skippedIds.add(transaction.transferId || transaction.splitId || transaction.id || '');
+    } else if (updated) {
+      result.updated.push(updated);
+      result.previous.push(transaction);
+    }
+  });
+
+  result.skipped = skippedIds.size;
+  return result;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getBalanceChange, getCashFlow, getExpenseAmount, getIncomeAmount, getTransactionDirection } from './cashFlow';
+import type { Transaction } from './types';
+
+type Amounts = Pick<Transaction, 'direction' | 'transferId' | 'transferAccount' | 'amountEUR' | 'amountUSD'>;
+
+describe('getTransactionDirection', () => {
+  it('follows the sign convention when a transaction has no direction', () => {
+    expect(getTransactionDirection({ amountEUR: 25 })).toBe('expense');
+    expect(getTransactionDirection({ amountEUR: -2000 })).toBe('income');
+    expect(getTransactionDirection({ amountUSD: -5 })).toBe('income');
+    expect(getTransactionDirection({})).toBe('expense');
+    expect(getTransactionDirection({ amountEUR: 500, transferId: 'savings' })).toBe('transfer');
+  });
+
+  it('prefers the stored direction', () => {
+    expect(getTransactionDirection({ amountEUR: 2000, direction: 'income' })).toBe('income');
+  });
+});
+
+describe('amounts by direction', () => {
+  const cases: [string, Amounts, number, number, number][] = [
+    // description, transaction, expense, income, balance change
+    ['expense', { amountEUR: 25 }, 25, 0, -25],
+    ['reversed expense', { amountEUR: -25, direction: 'expense' }, -25, 0, 25],
+    ['income entered as positive', { amountEUR: 2000, direction: 'income' }, 0, 2000, 2000],
+    ['income by sign', { amountEUR: -2000 }, 0, 2000, 2000],
+    ['refund', { amountEUR: 15, direction: 'refund' }, -15, 0, 15],
+    ['debit leg of a transfer', { amountEUR: 500, transferId: 'savings' }, 0, 0, -500],
+    ['credit leg of a transfer', { amountEUR: -500, transferId: 'savings' }, 0, 0, 500]
+  ];
+
+  it.each(cases)('counts a %s', (_, transaction, expense, income, balance) => {
+    expect(getExpenseAmount(transaction)).toBe(expense);
+    expect(getIncomeAmount(transaction)).toBe(income);
+    expect(getBalanceChange(transaction, 'amountEUR')).toBe(balance);
+  });
+});
+
+describe('getCashFlow', () => {
+  it('totals income and expenses, leaving out transfers and taking refunds off spending', () => {
+    expect(getCashFlow([
+      { amountEUR: -2000 },
+      { amountEUR: 1200.1 },
+      { amountEUR: 45.2 },
+      { amountEUR: 20.1, direction: 'refund' },
+      { amountEUR: 500, transferId: 'savings' },
+      { amountEUR: -500, transferId: 'savings' }
+    ])).toEqual({ income: 2000, expenses: 1225.2, net: 774.8 });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Income, expenses and net of transactions, shared by every page that totals them
+ *
+ * The direction of a transaction says how it counts. Expenses add to spending and
+ * refunds take their amount off it; income adds to income; transfers move money
+ * between accounts and count as neither. Transactions without a direction follow the
+ * sign convention of the Transactions sheet: negative amounts are income, positive
+ * amounts are expenses. Like the pages, a transaction counts with its EUR amount,
+ * or its USD amount when it has none.
+ */
+
+import type { Transaction, TransactionDirection } from './types';
+
+/** Fields a transaction's direction and amounts are read from */
+type CashFlowTransaction = Pick<Transaction, 'direction' | 'transferId' | 'transferAccount' | 'amountEUR' | 'amountUSD'>;
+
+/**
+ * Income, expenses and net of a set of transactions
+ * @interface CashFlow
+ */
+export interface CashFlow {
+  /** Money received */
+  income: number;
+  /** Money spent, less refunds */
+  expenses: number;
+  /** Income minus expenses */
+  net: number;
+}
+
+/** Display names of the transaction directions */
+export const TRANSACTION_DIRECTIONS: Record<TransactionDirection, string> = {
+  expense: 'Expense',
+  income: 'Income',
+  refund: 'Refund',
+  transfer: 'Transfer'
+};
+
+/**
+ * Rounds an amount to cents
+ * @param {number} amount - The amount
+ * @returns {number} The rounded amount
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Checks whether a value names a transaction direction
+ * @param {string} value - The value
+ * @returns {boolean} True for a known direction
+ */
+export function isTransactionDirection(value: string): value is TransactionDirection {
+  return Object.prototype.hasOwnProperty.call(TRANSACTION_DIRECTIONS, value);
+}
+
+/**
+ * Returns the direction of a transaction, working it out from the sign convention when it has none
+ * @param {CashFlowTransaction} transaction - The transaction
+ * @returns {TransactionDirection} The direction
+ */
+export function getTransactionDirection(transaction: CashFlowTransaction): TransactionDirection {
+  if (transaction.direction) return transaction.direction;
+  if (transaction.transferId || transaction.transferAccount) return 'transfer';
+  return (transaction.amountEUR || transaction.amountUSD || 0) < 0 ? 'income' : 'expense';
+}
+
+/**
+ * Returns how much a transaction adds to spending
+ * Refunds take their amount off spending, and an expense with a negative amount is a reversal.
+ * @param {CashFlowTransaction} transaction - The transaction
+ * @returns {number} The amount, negative for refunds and reversals, 0 for income and transfers
+ */
+export function getExpenseAmount(transaction: CashFlowTransaction): number {
+  const amount = transaction.amountEUR || transaction.amountUSD || 0;
+
+  switch (getTransactionDirection(transaction)) {
+    case 'expense':
+      return amount;
+    case 'refund':
+      return -Math.abs(amount);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Returns how much a transaction adds to income
+ * @param {CashFlowTransaction} transaction - The transaction
+ * @returns {number} The amount, 0 for anything but income
+ */
+export function getIncomeAmount(transaction: CashFlowTransaction): number {
+  return getTransactionDirection(transaction) === 'income'
+    ? Math.abs(transaction.amountEUR || transaction.amountUSD || 0)
+    : 0;
+}
+
+/**
+ * Returns how a transaction changes the balance of its account in one currency
+ * @param {CashFlowTransaction} transaction - The transaction
+ * @param {'amountEUR'|'amountUSD'} field - The currency field
+ * @returns {number} The change, positive when money comes in
+ */
+export function getBalanceChange(transaction: CashFlowTransaction, field: 'amountEUR' | 'amountUSD'): number {
+  const amount = transaction[field] || 0;
+
+  switch (getTransactionDirection(transaction)) {
+    case 'income':
+    case 'refund':
+      return Math.abs(amount);
+    default:
+      // Expenses and the debit leg of a transfer are positive, the credit leg negative
+      return -amount;
+  }
+}
+
+/**
+ * Totals the income and expenses of a set of transactions
+ * @param {CashFlowTransaction[]} transactions - The transactions
+ * @returns {CashFlow} Income, expenses and net
+ */
+export function getCashFlow(transactions: CashFlowTransaction[]): CashFlow {
+  const income = roundCents(transactions.reduce((sum, transaction) => sum + getIncomeAmount(transaction), 0));
+  const expenses = roundCents(transactions.reduce((sum, transaction) => sum + getExpenseAmount(transaction), 0));
+
+  return { income, expenses, net: roundCents(income - expenses) };
+}
@@ -0,0 +1,273 @@
+import type { Transaction, RecurringTransaction, CategoryData, Loan, CategorizationRule } from './types';
+import type { DueOccurrence, ReviewedOccurrence } from './recurringProcessing';
+
+/**
+ * Storage backend used by the application for all financial data
+ *
+ * Pages and components talk to this interface only, so the data can live in
+ * Google Sheets, in the browser (IndexedDB) or in memory.
+ * @interface FinanceStore
+ */
+export interface FinanceStore {
+  /**
+   * Fetches all transactions
+   * Transactions stored without a direction get the one their sign convention implies.
+   * @returns {Promise<Transaction[]>} Array of transactions sorted by date (newest first)
+   */
+  getTransactions(): Promise<Transaction[]>;
+
+  /**
+   * Counts the total number of transactions
+   * @returns {Promise<number>} Count of transactions
+   */
+  countTransactions(): Promise<number>;
+
+  /**
+   * Adds a new transaction
+   * Categorization rules fill in what it is missing. A split transaction is stored as one
+   * transaction per line, linked by their splitId, and a transfer as its two legs, linked
+   * by their transferId.
+   * @param {Transaction} transaction - The transaction to add
+   * @returns {Promise<void>}
+   */
+  addTransaction(transaction: Transaction): Promise<void>;
+
+  /**
+   * Replaces an existing transaction, matched by its ID
+   * The ID of a split transaction or transfer replaces all of its lines or legs.
+   * @param {Transaction} transaction - The transaction with updated fields
+   * @returns {Promise<void>}
+   */
+  updateTransaction(transaction: Transaction): Promise<void>;
+
+  /**
+   * Deletes a transaction, with every line or leg of a split transaction or transfer
+   * @param {string} transactionId - The ID of the transaction to delete
+   * @returns {Promise<void>}
+   */
+  deleteTransaction(transactionId: string): Promise<void>;
+
+  /**
+   * Adds several transactions at once, e.g. to import them or to restore deleted ones
+   * Split transactions and transfers are stored as in addTransaction.
+   * @param {Transaction[]} transactions - The transactions to add
+   * @param {boolean} [withRules=true] - Whether categorization rules fill in what they are missing; off to restore transactions as they were
+   * @returns {Promise<void>}
+   */
+  addTransactions(transactions: Transaction[], withRules?: boolean): Promise<void>;
+
+  /**
+   * Replaces several stored transactions at once, each matched by its own ID
+   * Unlike updateTransaction, the lines of a split transaction and the legs of a
+   * transfer are addressed one by one, as getTransactions returns them.
+   * @param {Transaction[]} transactions - The stored transactions with updated fields
+   * @returns {Promise<string[]>} The IDs the transactions are stored under now, in the same order
+   */
+  updateTransactions(transactions: Transaction[]): Promise<string[]>;
+
+  /**
+   * Deletes several transactions at once, with every line or leg of split transactions and transfers
+   * @param {string[]} transactionIds - The IDs of the transactions to delete
+   * @returns {Promise<void>}
+   */
+  deleteTransactions(transactionIds: string[]): Promise<void>;
+
+  /**
+   * Fetches category and subcategory data
+   * @returns {Promise<CategoryData>} Structured category data
+   */
+  fetchCategoryData(): Promise<CategoryData>;
+
+  /**
+   * Invalidates any cached category data
+   */
+  invalidateCategoryCache(): void;
+
+  /**
+   * Fetches all recurring transaction templates
+   * @returns {Promise<RecurringTransaction[]>} Array of recurring transactions
+   */
+  getRecurringTransactions(): Promise<RecurringTransaction[]>;
+
+  /**
+   * Adds a new recurring transaction template
+   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to add
+   * @returns {Promise<void>}
+   */
+  addRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void>;
+
+  /**
+   * Replaces a recurring template, located by its ID, for all of its occurrences
+   * Its Last Processed date is left untouched, and transactions that were already
+   * generated are not changed.
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction
+   * @returns {Promise<void>}
+   */
+  updateRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void>;
+
+  /**
+   * Applies changes to a recurring template from a date onwards only
+   * The template ends the day before the effective date and a new template with the
+   * changes takes over from it, so earlier occurrences keep their original details.
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction
+   * @param {string} effectiveDate - First day the changes apply to, in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   */
+  updateRecurringTransactionFrom(recurringTransaction: RecurringTransaction, effectiveDate: string): Promise<void>;
+
+  /**
+   * Creates a disabled copy of a recurring template
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to copy
+   * @returns {Promise<RecurringTransaction>} The new copy
+   */
+  duplicateRecurringTransaction(recurringTransactionId: string): Promise<RecurringTransaction>;
+
+  /**
+   * Deletes a recurring template
+   * Transactions generated from it are kept and still reference its ID.
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to delete
+   * @returns {Promise<void>}
+   */
+  deleteRecurringTransaction(recurringTransactionId: string): Promise<void>;
+
+  /**
+   * Lists the transactions that processing would create, without writing anything
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<DueOccurrence[]>} Due occurrences of all active templates, ordered by date
+   */
+  previewDueRecurringTransactions(asOf?: Date): Promise<DueOccurrence[]>;
+
+  /**
+   * Generates one transaction per missed occurrence of a recurring template and records it as processed
+   * Templates that ask for their amount when posting are left for the review queue, and
+   * categorization rules fill in what the generated transactions are missing.
+   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to process
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   */
+  processRecurringTransaction(recurringTransaction: RecurringTransaction, asOf?: Date): Promise<number>;
+
+  /**
+   * Processes all due recurring transactions, catching up on every missed occurrence
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   */
+  processDueRecurringTransactions(asOf?: Date): Promise<number>;
+
+  /**
+   * Posts the occurrences approved in the review queue as one batch and moves each
+   * template's Last Processed cursor past the approved and skipped ones
+   * Categorization rules fill in what the posted transactions are missing.
+   * @param {ReviewedOccurrence[]} reviewed - Every due occurrence of the reviewed templates, with its decision
+   * @returns {Promise<number>} Number of transactions created
+   */
+  processReviewedOccurrences(reviewed: ReviewedOccurrence[]): Promise<number>;
+
+  /**
+   * Sets the active status of a recurring transaction
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {boolean} activeStatus - The new active status
+   * @returns {Promise<void>}
+   */
+  toggleRecurringTransactionStatus(recurringTransactionId: string, activeStatus: boolean): Promise<void>;
+
+  /**
+   * Pauses a recurring transaction until a date, skipping the occurrences scheduled before it
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string|null} pausedUntil - Date the schedule resumes on in YYYY-MM-DD format, or null to resume now
+   * @returns {Promise<void>}
+   */
+  pauseRecurringTransaction(recurringTransactionId: string, pausedUntil: string | null): Promise<void>;
+
+  /**
+   * Replaces the skipped occurrences (EXDATEs) of a recurring transaction
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string[]} exceptionDates - Scheduled dates of the skipped occurrences in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   */
+  setRecurringTransactionExceptions(recurringTransactionId: string, exceptionDates: string[]): Promise<void>;
+
+  /**
+   * Invalidates any cached recurring transaction data
+   */
+  invalidateRecurringTransactionsCache(): void;
+
+  /**
+   * Fetches all loans
+   * @returns {Promise<Loan[]>} Array of loans
+   */
+  getLoans(): Promise<Loan[]>;
+
+  /**
+   * Adds a new loan
+   * @param {Loan} loan - The loan to add
+   * @returns {Promise<void>}
+   */
+  addLoan(loan: Loan): Promise<void>;
+
+  /**
+   * Replaces a loan, located by its ID
+   * Its Last Processed date is left untouched, and installments that were already
+   * posted are not changed.
+   * @param {Loan} loan - The updated loan
+   * @returns {Promise<void>}
+   */
+  updateLoan(loan: Loan): Promise<void>;
+
+  /**
+   * Deletes a loan
+   * Transactions posted for it are kept.
+   * @param {string} loanId - The ID of the loan to delete
+   * @returns {Promise<void>}
+   */
+  deleteLoan(loanId: string): Promise<void>;
+
+  /**
+   * Posts the installments and extra payments of all active loans that are due, as
+   * principal and interest transactions, and records the last installment as processed
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   */
+  processDueLoanPayments(asOf?: Date): Promise<number>;
+
+  /**
+   * Fetches all categorization rules
+   * @returns {Promise<CategorizationRule[]>} Array of rules
+   * @throws {Error} If the rules cannot be read
+   */
+  getRules(): Promise<CategorizationRule[]>;
+
+  /**
+   * Adds a new categorization rule
+   * @param {CategorizationRule} rule - The rule to add
+   * @returns {Promise<void>}
+   */
+  addRule(rule: CategorizationRule): Promise<void>;
+
+  /**
+   * Replaces a categorization rule, located by its ID
+   * Transactions it was already applied to are not changed.
+   * @param {CategorizationRule} rule - The updated rule
+   * @returns {Promise<void>}
+   */
+  updateRule(rule: CategorizationRule): Promise<void>;
+
+  /**
+   * Deletes a categorization rule
+   * @param {string} ruleId - The ID of the rule to delete
+   * @returns {Promise<void>}
+   */
+  deleteRule(ruleId: string): Promise<void>;
+
+  /**
+   * Applies the categorization rules to every transaction that has no category yet
+   * @returns {Promise<number>} Number of transactions changed
+   */
+  applyRulesToUncategorized(): Promise<number>;
+
+  /**
+   * Assigns a stable ID to every record that does not have one yet
+   * @returns {Promise<number>} Number of records that received an ID
+   */
+  backfillIds(): Promise<number>;
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleAuth } from './googleAuth';
+
+/**
+ * Minimal Web Storage backed by a map
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/** A token request as the fake token client received it */
+interface TokenRequest {
+  clientId: string;
+  prompt?: string;
+  loginHint?: string;
+}
+
+const SESSION_KEY = 'penny-fincher.google-session';
+
+describe('GoogleAuth', () => {
+  let requests: TokenRequest[];
+  let answer: Record<string, unknown>;
+
+  beforeEach(() => {
+    requests = [];
+    answer = { access_token: 'token', expires_in: 3599 };
+    vi.stubGlobal('sessionStorage', new MemoryStorage());
+    vi.stubGlobal('window', {
+      google: {
+        accounts: {
+          oauth2: {
+            initTokenClient: (config: { client_id: string; callback: (response: Record<string, unknown>) => void }) => ({
+              requestAccessToken: (overrides: { prompt?: string; login_hint?: string } = {}) => {
+                requests.push({ clientId: config.client_id, prompt: overrides.prompt, loginHint: overrides.login_hint });
+                setTimeout(() => config.callback(answer), 0);
+              }
+            })
+          }
+        }
+      }
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ email: 'user@example.com', name: 'User' }))
+    ));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores the access token and identity from sign-in in sessionStorage', async () => {
+    const auth = new GoogleAuth({ clientId: 'client' });
+
+    const session = await auth.signIn();
+
+    expect(requests).toEqual([{ clientId: 'client', prompt: 'select_account', loginHint: undefined }]);
+    expect(session.email).toBe('user@example.com');
+    expect(await auth.getAccessToken()).toBe('token');
+    expect(JSON.parse(sessionStorage.getItem(SESSION_KEY)!).accessToken).toBe('token');
+  });
+
+  it('rejects sign-in when Google returns no token', async () => {
+    const auth = new GoogleAuth({ clientId: 'client' });
+    answer = { error: 'access_denied' };
+
+    await expect(auth.signIn()).rejects.toThrow('Google sign-in failed: access_denied');
+    expect(auth.getSession()).toBeNull();
+  });
+
+  it('needs a client ID to sign in', async () => {
+    await expect(new GoogleAuth({}).signIn()).rejects.toThrow('VITE_GOOGLE_CLIENT_ID');
+  });
+
+  it('renews an expired token without consent before handing it out, once for concurrent requests', async () => {
+    const auth = new GoogleAuth({ clientId: 'client' });
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ accessToken: 'old', expiresAt: Date.now() + 1000, email: 'user@example.com' }));
+    answer = { access_token: 'renewed', expires_in: 3599 };
+
+    const tokens = await Promise.all([auth.getAccessToken(), auth.getAccessToken()]);
+
+    expect(tokens).toEqual(['renewed', 'renewed']);
+    expect(requests).toEqual([{ clientId: 'client', prompt: '', loginHint: 'user@example.com' }]);
+    expect(auth.getSession()).toMatchObject({ accessToken: 'renewed', email: 'user@example.com' });
+    expect(auth.getSession()!.expiresAt).toBeGreaterThan(Date.now() + 3500 * 1000);
+  });
+
+  it('signs out when the token cannot be renewed silently', async () => {
+    const auth = new GoogleAuth({ clientId: 'client' });
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ accessToken: 'old', expiresAt: Date.now() - 1000 }));
+    answer = { error: 'interaction_required' };
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await auth.getAccessToken()).toBeNull();
+    expect(auth.getSession()).toBeNull();
+    error.mockRestore();
+  });
+
+  it('has no token when signed out', async () => {
+    expect(await new GoogleAuth({ clientId: 'client' }).getAccessToken()).toBeNull();
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Google OAuth2 sign-in for the browser using the Google Identity Services token client
+ *
+ * API keys can only read public sheets, so every write to the spreadsheet needs
+ * the bearer token obtained here. Google Identity Services hands out short-lived
+ * access tokens without a client secret or refresh token. Before a token expires,
+ * a new one is requested silently, without showing the consent screen again, for
+ * as long as the user stays signed in to Google and keeps the app's access.
+ */
+
+/** Script that provides the Google Identity Services library */
+const CLIENT_LIBRARY_URL = 'https://accounts.google.com/gsi/client';
+/** OpenID Connect user info endpoint used to show the signed-in identity */
+const USERINFO_ENDPOINT = 'https://openidconnect.googleapis.com/v1/userinfo';
+/** Scopes requested during sign-in */
+const SCOPES = ['https://www.googleapis.com/auth/spreadsheets', 'openid', 'email', 'profile'];
+/** sessionStorage key holding the current session */
+const SESSION_KEY = 'penny-fincher.google-session';
+/** Tokens are renewed this many milliseconds before they expire */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Client settings for the OAuth2 flow
+ * @interface GoogleAuthConfig
+ */
+export interface GoogleAuthConfig {
+  /** OAuth2 client ID from the Google Cloud console */
+  clientId?: string;
+}
+
+/**
+ * Signed-in Google identity together with its tokens
+ * @interface GoogleSession
+ */
+export interface GoogleSession {
+  /** Bearer token attached to Sheets API requests */
+  accessToken: string;
+  /** Expiry of the access token as a Unix timestamp in milliseconds */
+  expiresAt: number;
+  /** Email address of the signed-in user */
+  email?: string;
+  /** Display name of the signed-in user */
+  name?: string;
+  /** Profile picture URL of the signed-in user */
+  picture?: string;
+}
+
+/**
+ * Response passed to the token client's callback
+ * @interface TokenResponse
+ */
+interface TokenResponse {
+  /** The access token, missing when Google reported an error */
+  access_token?: string;
+  /** Lifetime of the access token in seconds */
+  expires_in?: number | string;
+  /** OAuth2 error code */
+  error?: string;
+  /** Human-readable error */
+  error_description?: string;
+}
+
+/**
+ * Token client of the Google Identity Services library
+ * @interface TokenClient
+ */
+interface TokenClient {
+  /** Opens Google's popup to obtain an access token */
+  requestAccessToken(overrides?: { prompt?: string; login_hint?: string }): void;
+}
+
+/**
+ * The parts of the Google Identity Services library used here
+ * @interface GoogleIdentityServices
+ */
+interface GoogleIdentityServices {
+  accounts: {
+    oauth2: {
+      initTokenClient(config: {
+        client_id: string;
+        scope: string;
+        callback: (response: TokenResponse) => void;
+        error_callback?: (error: { type: string; message?: string }) => void;
+      }): TokenClient;
+    };
+  };
+}
+
+declare global {
+  interface Window {
+    /** Google Identity Services, once its script has loaded */
+    google?: GoogleIdentityServices;
+  }
+}
+
+/**
+ * Manages the Google OAuth2 session of the browser app
+ * @class GoogleAuth
+ */
+export class GoogleAuth {
+  /** OAuth2 client settings */
+  private config: GoogleAuthConfig;
+  /** Loading of the Google Identity Services script, started on first use */
+  private library: Promise<GoogleIdentityServices> | null = null;
+  /** Silent renewal in progress, shared by requests that need a token at the same time */
+  private renewal: Promise<GoogleSession | null> | null = null;
+
+  /**
+   * Creates the OAuth2 helper
+   * @constructor
+   * @param {GoogleAuthConfig} config - OAuth2 client settings
+   */
+  constructor(config: GoogleAuthConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Whether an OAuth2 client ID has been configured
+   * @returns {boolean} True if sign-in is possible
+   */
+  isConfigured(): boolean {
+    return Boolean(this.config.clientId);
+  }
+
+  /**
+   * Returns the stored session
+   * Its access token may have expired; getAccessToken renews it.
+   * @returns {GoogleSession|null} The session or null when signed out
+   */
+  getSession(): GoogleSession | null {
+    try {
+      const stored = sessionStorage.getItem(SESSION_KEY);
+      return stored ? JSON.parse(stored) as GoogleSession : null;
+    } catch (error) {
+      console.error('Error reading Google session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Signs in with Google's popup, letting the user pick an account and grant access
+   * @async
+   * @returns {Promise<GoogleSession>} The new session
+   * @throws {Error} If no OAuth2 client ID is configured, or Google reported an error
+   */
+  async signIn(): Promise<GoogleSession> {
+    const session = await this.withIdentity(await this.requestToken('select_account'));
+    this.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Returns a valid access token, renewing it first if it has expired
+   * @async
+   * @returns {Promise<string|null>} The access token, or null when not signed in or renewal failed
+   */
+  async getAccessToken(): Promise<string | null> {
+    const session = this.getSession();
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return session.accessToken;
+    }
+
+    if (!this.renewal) {
+      this.renewal = this.renew(session).finally(() => {
+        this.renewal = null;
+      });
+    }
+    const renewed = await this.renewal;
+    return renewed ? renewed.accessToken : null;
+  }
+
+  /**
+   * Signs out by forgetting the stored session
+   */
+  signOut(): void {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+
+  /**
+   * Requests a new access token without the consent screen and keeps the session's identity
+   * @private
+   * @async
+   * @param {GoogleSession} session - Session whose token has expired
+   * @returns {Promise<GoogleSession|null>} The renewed session, or null after signing out because Google needs the user again
+   */
+  private async renew(session: GoogleSession): Promise<GoogleSession | null> {
+    try {
+      const token = await this.requestToken('', session.email);
+      const renewed = { ...session, ...token };
+      this.saveSession(renewed);
+      return renewed;
+    } catch (error) {
+      console.error('Error renewing Google access token:', error);
+      this.signOut();
+      return null;
+    }
+  }
+
+  /**
+   * Asks the token client for an access token
+   * @private
+   * @async
+   * @param {string} prompt - Google's prompt setting; empty to skip consent that was already given
+   * @param {string} [loginHint] - Email address of the account to use
+   * @returns {Promise<GoogleSession>} Session holding the new token
+   * @throws {Error} If no OAuth2 client ID is configured, the popup was closed or Google reported an error
+   */
+  private async requestToken(prompt: string, loginHint?: string): Promise<GoogleSession> {
+    const clientId = this.config.clientId;
+    if (!clientId) {
+      throw new Error('Missing VITE_GOOGLE_CLIENT_ID environment variable');
+    }
+
+    const google = await this.loadLibrary();
+    return new Promise((resolve, reject) => {
+      const client = google.accounts.oauth2.initTokenClient({
+        client_id: clientId,
+        scope: SCOPES.join(' '),
+        callback: response => {
+          if (!response.access_token) {
+            reject(new Error(`Google sign-in failed: ${response.error_description || response.error || 'no access token'}`));
+            return;
+          }
+          resolve({
+            accessToken: response.access_token,
+            expiresAt: Date.now() + (Number(response.expires_in) || 3600) * 1000
+          });
+        },
+        error_callback: error => {
+          reject(new Error(`Google sign-in failed: ${error.message || error.type}`));
+        }
+      });
+      client.requestAccessToken(loginHint ? { prompt, login_hint: loginHint } : { prompt });
+    });
+  }
+
+  /**
+   * Loads the Google Identity Services script once
+   * @private
+   * @returns {Promise<GoogleIdentityServices>} The loaded library
+   * @throws {Error} If the script cannot be loaded
+   */
+  private loadLibrary(): Promise<GoogleIdentityServices> {
+    if (window.google?.accounts?.oauth2) {
+      return Promise.resolve(window.google);
+    }
+
+    if (!this.library) {
+      this.library = new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = CLIENT_LIBRARY_URL;
+        script.async = true;
+        script.onload = () => window.google ? resolve(window.google) : reject(new Error('Google sign-in is unavailable'));
+        script.onerror = () => {
+          this.library = null;
+          reject(new Error('Failed to load Google sign-in'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+    return this.library;
+  }
+
+  /**
+   * Adds the signed-in user's email, name and picture to a session
+   * @private
+   * @async
+   * @param {GoogleSession} session - Session with a valid access token
+   * @returns {Promise<GoogleSession>} The session including identity details when available
+   */
+  private async withIdentity(session: GoogleSession): Promise<GoogleSession> {
+    try {
+      const response = await fetch(USERINFO_ENDPOINT, {
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const profile = await response.json();
+      return { ...session, email: profile.email, name: profile.name, picture: profile.picture };
+    } catch (error) {
+      console.error('Error fetching Google identity:', error);
+      return session;
+    }
+  }
+
+  /**
+   * Keeps the session in sessionStorage, so it ends with the browser tab
+   * @private
+   * @param {GoogleSession} session - The session to store
+   */
+  private saveSession(session: GoogleSession): void {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  }
+}
@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleSheetsService } from './googleSheets';
+import { RECURRING_HEADERS, resolveRecurringColumns, toRecurringRow } from './recurringSheet';
+import type { RecurringField } from './recurringSheet';
+import type { RecurringTransaction } from './types';
+import { FakeSheetsApi } from '../test/fakeSheetsApi';
+import { buildRecurring, buildTransaction } from '../test/fixtures';
+
+const TRANSACTION_HEADERS = [
+  'Date', 'Description', 'Category Select', 'Category', 'Subcategory', 'Amount EUR', 'Amount USD', 'Account',
+  'Notes', 'ID', 'Recurring ID', 'Amount Confirmed', 'Split ID', 'Transfer ID', 'Direction', 'Tags'
+];
+
+const rent = buildRecurring();
+
+/**
+ * Creates a fake spreadsheet holding recurring templates and transaction rows
+ */
+const createSpreadsheet = (templates: RecurringTransaction[], transactions: string[][] = []): FakeSheetsApi => {
+  const recurringHeaders: string[] = Object.values(RECURRING_HEADERS);
+  const { columns } = resolveRecurringColumns(recurringHeaders);
+  return new FakeSheetsApi({
+    Transactions: [TRANSACTION_HEADERS, ...transactions],
+    Recurring: [recurringHeaders, ...templates.map(template => toRecurringRow(template, columns).map(value => String(value ?? '')))]
+  }).install();
+};
+
+const createService = () => new GoogleSheetsService({ spreadsheetId: 'spreadsheet', getAccessToken: async () => 'token' });
+
+const ID_INDEX = TRANSACTION_HEADERS.indexOf('ID');
+
+/**
+ * Builds a Transactions sheet row from values by header
+ */
+const transactionRow = (id: string, values: Record<string, string> = {}): string[] =>
+  TRANSACTION_HEADERS.map(header => header === 'ID' ? id : values[header] ?? '');
+
+const groceries = buildTransaction({
+  id: 'groceries',
+  description: 'Groceries',
+  category: '',
+  subcategory: '',
+  amountEUR: 60,
+  splits: [
+    { category: 'Food & Dining', subcategory: 'Groceries', amountEUR: 30 },
+    { category: 'Household', subcategory: 'Supplies', amountEUR: 20 },
+    { category: 'Personal Care', subcategory: 'Toiletries', amountEUR: 10 }
+  ]
+});
+
+/**
+ * Creates a fake spreadsheet with a transaction before and after a two-line split
+ */
+const createSplitSpreadsheet = (): FakeSheetsApi => createSpreadsheet([], [
+  transactionRow('coffee'),
+  transactionRow('groceries#1', { 'Split ID': 'groceries', 'Amount EUR': '40' }),
+  transactionRow('groceries#2', { 'Split ID': 'groceries', 'Amount EUR': '20' }),
+  transactionRow('lunch')
+]);
+
+describe('GoogleSheetsService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('when the Sheets API cannot be reached', () => {
+    const createService = () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+      return new GoogleSheetsService({ spreadsheetId: 'spreadsheet', getAccessToken: async () => 'token' });
+    };
+
+    it('still renders pages without recurring templates', async () => {
+      expect(await createService().getRecurringTransactions()).toEqual([]);
+    });
+
+    it('fails processing instead of reporting nothing due', async () => {
+      const service = createService();
+
+      await expect(service.processDueRecurringTransactions(new Date(2024, 0, 1))).rejects.toThrow('fetch failed');
+      await expect(service.previewDueRecurringTransactions(new Date(2024, 0, 1))).rejects.toThrow('fetch failed');
+    });
+
+    it('fails processing when no access token can be obtained', async () => {
+      const service = new GoogleSheetsService({
+        spreadsheetId: 'spreadsheet',
+        getAccessToken: () => Promise.reject(new Error('Token request failed'))
+      });
+
+      await expect(service.processDueRecurringTransactions()).rejects.toThrow('Token request failed');
+    });
+  });
+
+  describe('processing recurring transactions from several devices at once', () => {
+    it('books every occurrence exactly once', async () => {
+      const sheets = createSpreadsheet([rent]);
+      const asOf = new Date(2024, 2, 15);
+
+      const created = await Promise.all([
+        createService().processDueRecurringTransactions(asOf),
+        createService().processDueRecurringTransactions(asOf)
+      ]);
+
+      // Both devices appended, and one of them deleted its rows again
+      expect(sheets.requests.filter(request => request.path.includes(':append'))).toHaveLength(2);
+      const ids = sheets.rows('Transactions').map(row => row[ID_INDEX]);
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(3);
+      expect(created[0] + created[1]).toBe(3);
+    });
+
+    it('deletes the rows it appended when another device booked them first', async () => {
+      const sheets = createSpreadsheet([rent]);
+      sheets.beforeRequest = request => {
+        if (!request.path.includes(':append')) return;
+        // Another device appends the same occurrences just before this one
+        sheets.beforeRequest = undefined;
+        sheets.sheets.Transactions.push(...request.body.values.map((row: unknown[]) => row.map(String)));
+      };
+
+      const created = await createService().processDueRecurringTransactions(new Date(2024, 1, 15));
+
+      expect(created).toBe(0);
+      expect(sheets.rows('Transactions').map(row => row[0])).toEqual(['2024-01-01', '2024-02-01']);
+    });
+
+    it('skips occurrences booked after it first checked', async () => {
+      const sheets = createSpreadsheet([rent]);
+      const service = createService();
+      const [template] = await service.getRecurringTransactions();
+      const booked = await createService().previewDueRecurringTransactions(new Date(2024, 0, 15));
+      sheets.beforeRequest = request => {
+        if (request.path !== '/values/Transactions!J2:J' || sheets.rows('Transactions').length > 0) return;
+        // Another device books January between this device's checks
+        sheets.sheets.Transactions.push(booked.map(occurrence => {
+          const row = new Array(TRANSACTION_HEADERS.length).fill('');
+          row[0] = occurrence.date;
+          row[ID_INDEX] = occurrence.transaction.id;
+          return row;
+        })[0]);
+      };
+
+      const created = await service.processRecurringTransaction(template, new Date(2024, 1, 15));
+
+      expect(created).toBe(1);
+      expect(sheets.rows('Transactions').map(row => row[0])).toEqual(['2024-01-01', '2024-02-01']);
+      expect(sheets.requests.filter(request => request.path === ':batchUpdate')).toHaveLength(0);
+    });
+  });
+
+  describe('snoozing occurrences in the review queue', () => {
+    it('leaves snoozed occurrences to the next review when processing without the queue', async () => {
+      const sheets = createSpreadsheet([rent]);
+      const { columns } = resolveRecurringColumns(Object.values(RECURRING_HEADERS));
+      const recurringCell = (field: RecurringField) => sheets.rows('Recurring')[0][columns[field]];
+      const due = await createService().previewDueRecurringTransactions(new Date(2024, 2, 15));
+
+      await createService().processReviewedOccurrences(due.map(occurrence => ({
+        occurrence,
+        action: occurrence.scheduledDate === '2024-02-01' ? 'snooze' : 'approve'
+      })));
+      const created = await createService().processDueRecurringTransactions(new Date(2024, 3, 15));
+
+      expect(created).toBe(1);
+      expect(sheets.rows('Transactions').map(row => row[0])).toEqual(['2024-01-01', '2024-03-01', '2024-04-01']);
+      expect(recurringCell('snoozedDates')).toBe('2024-02-01');
+      expect(recurringCell('lastProcessed')).toBe('2024-01-01');
+
+      const [snoozed] = await createService().previewDueRecurringTransactions(new Date(2024, 3, 15));
+      await createService().processReviewedOccurrences([{ occurrence: snoozed, action: 'approve' }]);
+
+      expect(snoozed.scheduledDate).toBe('2024-02-01');
+      expect(recurringCell('snoozedDates')).toBe('');
+      expect(sheets.rows('Transactions')).toHaveLength(4);
+    });
+  });
+
+  describe('updating split transactions and transfers', () => {
+    const ids = (sheets: FakeSheetsApi) => sheets.rows('Transactions').map(row => row[ID_INDEX]);
+
+    it('replaces the lines in place, adding rows after the existing ones', async () => {
+      const sheets = createSplitSpreadsheet();
+
+      await createService().updateTransaction(groceries);
+
+      expect(ids(sheets)).toEqual(['coffee', 'groceries#1', 'groceries#2', 'groceries#3', 'lunch']);
+      expect(sheets.rows('Transactions').map(row => row[5])).toEqual(['', '30', '20', '10', '']);
+    });
+
+    it('deletes the rows no longer needed once the transaction is written', async () => {
+      const sheets = createSpreadsheet([], [
+        transactionRow('coffee'),
+        transactionRow('move#from', { 'Transfer ID': 'move', 'Amount EUR': '500', Account: 'Bank' }),
+        transactionRow('move#to', { 'Transfer ID': 'move', 'Amount EUR': '-500', Account: 'Savings' }),
+        transactionRow('lunch')
+      ]);
+
+      await createService().updateTransaction({
+        id: 'move',
+        date: '2024-01-15',
+        description: 'Rent',
+        category: 'Housing',
+        subcategory: 'Rent',
+        amountEUR: 500,
+        account: 'Bank'
+      });
+
+      expect(ids(sheets)).toEqual(['coffee', 'move', 'lunch']);
+      const writeIndex = sheets.requests.findIndex(request => request.path === '/values:batchUpdate');
+      const deleteIndex = sheets.requests.findIndex(request => request.path === ':batchUpdate');
+      expect(writeIndex).toBeLessThan(deleteIndex);
+    });
+
+    it('keeps the transaction when writing it fails', async () => {
+      const sheets = createSplitSpreadsheet();
+      const before = sheets.rows('Transactions');
+      sheets.beforeRequest = request => {
+        if (request.path === '/values:batchUpdate') {
+          throw new Error('Quota exceeded');
+        }
+      };
+
+      await expect(createService().updateTransaction(groceries)).rejects.toThrow('Quota exceeded');
+
+      expect(sheets.rows('Transactions')).toEqual(before);
+    });
+  });
+
+  describe('undoing bulk actions on rows without an ID', () => {
+    it('returns the IDs written, so the edit can be undone', async () => {
+      const sheets = createSpreadsheet([], [transactionRow('', { Description: 'Coffee', Account: 'Card' })]);
+      const service = createService();
+      const [stored] = await service.getTransactions();
+
+      const [id] = await service.updateTransactions([{ ...stored, account: 'Cash' }]);
+      await service.updateTransactions([{ ...stored, id }]);
+
+      expect(stored.id).toBe('row-2');
+      expect(sheets.rows('Transactions')[0][ID_INDEX]).toBe(id);
+      expect(sheets.rows('Transactions')[0][TRANSACTION_HEADERS.indexOf('Account')]).toBe('Card');
+    });
+
+    it('does not store legacy row IDs when restoring deleted rows', async () => {
+      const sheets = createSpreadsheet([], [transactionRow('', { Description: 'Coffee', Account: 'Card' })]);
+      const service = createService();
+      const deleted = await service.getTransactions();
+
+      await service.deleteTransactions(['row-2']);
+      await service.addTransactions(deleted, false);
+
+      const [restored] = sheets.rows('Transactions');
+      expect(restored[1]).toBe('Coffee');
+      expect(restored[ID_INDEX]).not.toMatch(/^row-/);
+      expect(restored[ID_INDEX]).not.toBe('');
+    });
+  });
+
+  describe('reading categorization rules', () => {
+    it('has no rules before the Rules sheet is created', async () => {
+      createSpreadsheet([]);
+
+      expect(await createService().getRules()).toEqual([]);
+    });
+
+    it('fails adding a transaction instead of skipping rules it cannot read', async () => {
+      const sheets = createSpreadsheet([]);
+      sheets.sheets.Rules = [['ID', 'Name']];
+      sheets.beforeRequest = request => {
+        if (request.path.startsWith('/values/Rules')) {
+          throw new TypeError('fetch failed');
+        }
+      };
+      const service = createService();
+
+      await expect(service.getRules()).rejects.toThrow('fetch failed');
+      await expect(service.addTransaction(buildTransaction())).rejects.toThrow('fetch failed');
+      expect(sheets.rows('Transactions')).toEqual([]);
+    });
+  });
+});
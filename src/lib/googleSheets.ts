@@ -1,111 +1,661 @@
-/**
- * Represents a financial transaction record
- * @interface Transaction
- */
-export interface Transaction {
-  /** Unique identifier for the transaction */
-  id?: string;
-  /** Date of the transaction (MM/DD/YYYY format) */
-  date: string;
-  /** Description of the transaction */
-  description: string;
-  /** Primary category of the transaction */
-  category?: string;
-  /** Subcategory of the transaction */
-  subcategory?: string;
-  /** Amount in Euros */
-  amountEUR?: number;
-  /** Amount in US Dollars */
-  amountUSD?: number;
-  /** Account associated with the transaction */
-  account: string;
-  /** Additional notes about the transaction */
-  notes?: string;
-  /** Optional reference to a recurring transaction that generated this transaction */
-  recurringId?: string;
-}
+import type { Transaction, RecurringTransaction, CategoryData, Loan, CategorizationRule } from './types';
+import type { FinanceStore } from './financeStore';
+import {
+  copyRecurringTransaction,
+  getDueOccurrences,
+  getNextDueDate,
+  getPause,
+  getReviewedCursors,
+  getReviewedSnoozes,
+  isAmountMode,
+  reviewWithoutQueue,
+  splitRecurringTransaction,
+  withAmountEstimates
+} from './recurringProcessing';
+import type { DueOccurrence, ReviewedOccurrence } from './recurringProcessing';
+import { columnLetter, formatExceptionDates, lastRecurringColumn, parseExceptionDates, resolveColumns, resolveRecurringColumns, toRecurringRow } from './recurringSheet';
+import type { RecurringColumns, RecurringField } from './recurringSheet';
+import { LOAN_HEADERS, lastLoanColumn, parseExtraPayments, toLoanRow } from './loanSheet';
+import type { LoanColumns, LoanField } from './loanSheet';
+import { parseDate } from './recurrence';
+import { isBusinessDayAdjustment, isHolidayCalendar } from './holidays';
+import { getDueLoanTransactions, isLoanFrequency } from './amortization';
+import { expandSplitTransaction } from './splits';
+import { expandTransfer } from './transfers';
+import { getTransactionDirection, isTransactionDirection } from './cashFlow';
+import { formatTags, parseTags } from './tags';
+import { RULE_HEADERS, lastRuleColumn, toRuleRow } from './ruleSheet';
+import type { RuleColumns, RuleField } from './ruleSheet';
+import { applyRules, isRuleMatchType, isUncategorized } from './rules';
 
 /**
- * Represents a recurring transaction template
- * @interface RecurringTransaction
+ * Zero-based index of the Transactions column holding the persisted record ID (column J)
+ * IDs are UUIDs so they survive rows being inserted, sorted or deleted.
  */
-export interface RecurringTransaction {
-  /** Unique identifier for the recurring transaction */
-  id?: string;
-  /** Description of the transaction */
-  description: string;
-  /** Primary category of the transaction */
-  category?: string;
-  /** Subcategory of the transaction */
-  subcategory?: string;
-  /** Amount in Euros */
-  amountEUR?: number;
-  /** Amount in US Dollars */
-  amountUSD?: number;
-  /** Account associated with the transaction */
-  account: string;
-  /** Additional notes about the transaction */
-  notes?: string;
-  /** Frequency of recurrence: daily, weekly, biweekly, monthly, quarterly, yearly */
-  frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
-  /** Day of month (1-31) for monthly/quarterly/yearly frequencies */
-  dayOfMonth?: number;
-  /** Day of week (0-6, 0 is Sunday) for weekly/biweekly frequencies */
-  dayOfWeek?: number;
-  /** Start date for the recurring transaction */
-  startDate: string;
-  /** Optional end date for the recurring transaction */
-  endDate?: string;
-  /** Date when this recurring transaction was last processed */
-  lastProcessed?: string;
-  /** Date when this recurring transaction is next due */
-  nextDue?: string;
-  /** Whether this recurring transaction is active */
-  active: boolean;
-}
+const TRANSACTION_ID_INDEX = 9;
+
+/** Zero-based index of the Transactions column linking a split line to its transaction (column M) */
+const SPLIT_ID_INDEX = 12;
+
+/** Zero-based index of the Transactions column linking the two legs of a transfer (column N) */
+const TRANSFER_ID_INDEX = 13;
+
+/** Zero-based index of the Transactions column holding the direction of the money (column O) */
+const DIRECTION_INDEX = 14;
+
+/** Zero-based index of the Transactions column holding a transaction's comma-separated tags (column P) */
+const TAGS_INDEX = 15;
+
+/** Sheets whose rows are addressed by a persisted ID */
+type IdentifiedSheet = 'Transactions' | 'Recurring' | 'Loans' | 'Rules';
+
+/** Row-number IDs handed out for rows that have not been backfilled yet */
+const LEGACY_ID_PATTERN = /^(?:row|recurring|loan|rule)-(\d+)$/;
 
 /**
- * Structure containing category and subcategory data
- * @interface CategoryData
+ * Connection settings for the Google Sheets backend
+ * @interface GoogleSheetsConfig
  */
-export interface CategoryData {
-  /** List of all available categories */
-  categories: string[];
-  /** Map of categories to their subcategories */
-  subcategories: Record<string, string[]>;
-  /** Flat list of all subcategories */
-  allSubcategories: string[];
+export interface GoogleSheetsConfig {
+  /** Google API key, used for read-only access when no access token is available */
+  apiKey?: string;
+  /** ID of the Google Spreadsheet containing financial data */
+  spreadsheetId: string;
+  /** Supplies an OAuth2 bearer token (browser sign-in or service-account JWT), or null when signed out */
+  getAccessToken?: () => Promise<string | null>;
 }
 
 /**
  * Service for interacting with Google Sheets API for financial data management
  * @class GoogleSheetsService
+ * @implements {FinanceStore}
  */
-export class GoogleSheetsService {
-  /** Google API key from environment variables */
-  private apiKey: string;
+export class GoogleSheetsService implements FinanceStore {
+  /** Google API key */
+  private apiKey?: string;
   /** ID of the Google Spreadsheet containing financial data */
   private spreadsheetId: string;
+  /** Supplies the OAuth2 bearer token attached to every request */
+  private getAccessToken?: () => Promise<string | null>;
   /** Cache for category data to reduce API calls */
   private categoryData: CategoryData | null = null;
+  /** Cache of numeric sheet IDs by sheet title, needed for structural batchUpdate requests */
+  private sheetIds: Record<string, number> | null = null;
+  /** Cache of the Recurring sheet's column layout, resolved from its header row */
+  private recurringColumns: RecurringColumns | null = null;
   /** Cache for recurring transactions to reduce API calls */
   private recurringTransactionsCache: RecurringTransaction[] | null = null;
+  /** Cache of the Loans sheet's column layout, resolved from its header row */
+  private loanColumns: LoanColumns | null = null;
+  /** Cache of the Rules sheet's column layout, resolved from its header row */
+  private ruleColumns: RuleColumns | null = null;
+  /** Cache for categorization rules, read before every transaction is added */
+  private rulesCache: CategorizationRule[] | null = null;
   
   /**
    * Initializes the Google Sheets service with API credentials
    * @constructor
-   * @throws {Error} If environment variables are missing
+   * @param {GoogleSheetsConfig} config - Spreadsheet ID and credentials
+   * @throws {Error} If the spreadsheet ID or both credentials are missing
    */
-  constructor() {
-    // Check for environment variables
-    this.apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
-    this.spreadsheetId = import.meta.env.VITE_SPREADSHEET_ID;
+  constructor(config: GoogleSheetsConfig) {
+    this.apiKey = config.apiKey;
+    this.spreadsheetId = config.spreadsheetId;
+    this.getAccessToken = config.getAccessToken;
     
-    if (!this.apiKey || !this.spreadsheetId) {
+    if (!this.spreadsheetId || (!this.apiKey && !this.getAccessToken)) {
       throw new Error('Missing Google Sheets environment variables');
     }
   }
 
+  /**
+   * Sends a request to the Sheets API for this spreadsheet
+   * Attaches the OAuth2 bearer token when signed in and falls back to the API key otherwise.
+   * @private
+   * @async
+   * @param {string} path - Path relative to the spreadsheet, including any query string
+   * @param {RequestInit} [init] - Fetch options
+   * @returns {Promise<Response>} The successful response
+   * @throws {Error} If the API responds with an error status
+   */
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(`https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}${path}`);
+    const headers = new Headers(init.headers);
+    const accessToken = this.getAccessToken ? await this.getAccessToken() : null;
+    
+    if (accessToken) {
+      headers.set('Authorization', `Bearer ${accessToken}`);
+    } else if (this.apiKey) {
+      url.searchParams.set('key', this.apiKey);
+    }
+    
+    const response = await fetch(url.toString(), { ...init, headers });
+    
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        accessToken
+          ? `API error: ${response.status}. Reconnect to Google Sheets in Settings.`
+          : `API error: ${response.status}. Sign in to Google Sheets in Settings to enable writes.`
+      );
+    }
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    return response;
+  }
+
+  /**
+   * Resolves the Recurring sheet's columns from its header row
+   * Headers missing from the sheet, e.g. after an upgrade, are appended to it.
+   * @private
+   * @async
+   * @returns {Promise<RecurringColumns>} Zero-based column index of every field
+   * @throws {Error} If API call fails
+   */
+  private async getRecurringColumns(): Promise<RecurringColumns> {
+    if (this.recurringColumns) {
+      return this.recurringColumns;
+    }
+    
+    const response = await this.request('/values/Recurring!1:1');
+    const data = await response.json();
+    const { columns, added } = resolveRecurringColumns((data.values || [])[0] || []);
+    
+    await this.writeHeaders('Recurring', added);
+    
+    this.recurringColumns = columns;
+    return columns;
+  }
+
+  /**
+   * Resolves the Loans sheet's columns from its header row
+   * Headers missing from the sheet, e.g. right after it was created, are appended to it.
+   * @private
+   * @async
+   * @returns {Promise<LoanColumns>} Zero-based column index of every field
+   * @throws {Error} If API call fails
+   */
+  private async getLoanColumns(): Promise<LoanColumns> {
+    if (this.loanColumns) {
+      return this.loanColumns;
+    }
+    
+    const response = await this.request('/values/Loans!1:1');
+    const data = await response.json();
+    const { columns, added } = resolveColumns(LOAN_HEADERS, (data.values || [])[0] || []);
+    
+    await this.writeHeaders('Loans', added);
+    
+    this.loanColumns = columns;
+    return columns;
+  }
+
+  /**
+   * Resolves the Rules sheet's columns from its header row
+   * Headers missing from the sheet, e.g. right after it was created, are appended to it.
+   * @private
+   * @async
+   * @returns {Promise<RuleColumns>} Zero-based column index of every field
+   * @throws {Error} If API call fails
+   */
+  private async getRuleColumns(): Promise<RuleColumns> {
+    if (this.ruleColumns) {
+      return this.ruleColumns;
+    }
+    
+    const response = await this.request('/values/Rules!1:1');
+    const data = await response.json();
+    const { columns, added } = resolveColumns(RULE_HEADERS, (data.values || [])[0] || []);
+    
+    await this.writeHeaders('Rules', added);
+    
+    this.ruleColumns = columns;
+    return columns;
+  }
+
+  /**
+   * Writes header cells of a sheet whose columns are located by header
+   * @private
+   * @async
+   * @param {string} sheet - The sheet title
+   * @param {{index: number, header: string}[]} headers - Zero-based column index and name of each header
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async writeHeaders(sheet: string, headers: { index: number; header: string }[]): Promise<void> {
+    if (headers.length === 0) {
+      return;
+    }
+    
+    await this.request('/values:batchUpdate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        valueInputOption: 'RAW',
+        data: headers.map(({ index, header }) => ({
+          range: `${sheet}!${columnLetter(index)}1`,
+          values: [[header]]
+        }))
+      })
+    });
+  }
+
+  /**
+   * Writes a single field of a recurring transaction's row
+   * @private
+   * @async
+   * @param {number} rowNumber - The 1-based row number
+   * @param {RecurringField} field - The field to write
+   * @param {string} value - The value to write
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async writeRecurringCell(rowNumber: number, field: RecurringField, value: string): Promise<void> {
+    const columns = await this.getRecurringColumns();
+    const cell = `${columnLetter(columns[field])}${rowNumber}`;
+    
+    await this.request(
+      `/values/Recurring!${cell}:${cell}?valueInputOption=USER_ENTERED`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          values: [[value]]
+        })
+      }
+    );
+  }
+
+  /**
+   * Returns the zero-based index of the column holding a sheet's record IDs
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet
+   * @returns {Promise<number>} Column index
+   */
+  private async getIdColumnIndex(sheet: IdentifiedSheet): Promise<number> {
+    if (sheet === 'Recurring') {
+      return (await this.getRecurringColumns()).id;
+    }
+    if (sheet === 'Rules') {
+      return (await this.getRuleColumns()).id;
+    }
+    return sheet === 'Loans' ? (await this.getLoanColumns()).id : TRANSACTION_ID_INDEX;
+  }
+
+  /**
+   * Reads the persisted IDs of every row of a sheet
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet
+   * @returns {Promise<string[]>} IDs in row order starting at row 2, empty for rows without an ID
+   * @throws {Error} If API call fails
+   */
+  private async readIds(sheet: IdentifiedSheet): Promise<string[]> {
+    const column = columnLetter(await this.getIdColumnIndex(sheet));
+    const response = await this.request(`/values/${sheet}!${column}2:${column}`);
+    const data = await response.json();
+    return (data.values || []).map((row: string[]) => row[0] || '');
+  }
+
+  /**
+   * Finds the current row number of a record from its persisted ID
+   * Rows without an ID yet are addressed by their legacy row-number ID until the backfill runs.
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet holding the record
+   * @param {string} id - The record ID
+   * @returns {Promise<number>} The 1-based row number
+   * @throws {Error} If no row has the ID
+   */
+  private async findRowNumber(sheet: IdentifiedSheet, id: string): Promise<number> {
+    return this.resolveRowNumber(sheet, await this.readIds(sheet), id);
+  }
+
+  /**
+   * Finds the row number of a record among IDs already read with readIds
+   * @private
+   * @param {IdentifiedSheet} sheet - The sheet holding the record
+   * @param {string[]} ids - The sheet's IDs in row order starting at row 2
+   * @param {string} id - The record ID
+   * @returns {number} The 1-based row number
+   * @throws {Error} If no row has the ID
+   */
+  private resolveRowNumber(sheet: IdentifiedSheet, ids: string[], id: string): number {
+    const index = ids.indexOf(id);
+    if (index !== -1) {
+      return index + 2;
+    }
+    
+    // A legacy ID is only trustworthy while its row still has no persisted ID
+    const legacyMatch = id.match(LEGACY_ID_PATTERN);
+    if (legacyMatch) {
+      const rowNumber = parseInt(legacyMatch[1], 10);
+      if (!ids[rowNumber - 2]) {
+        console.warn(`Resolving legacy ID ${id} by row number. Run the ID backfill to make it stable.`);
+        return rowNumber;
+      }
+    }
+    
+    throw new Error(`No ${sheet} row found with ID ${id}`);
+  }
+
+  /**
+   * Deletes a row, shifting the rows below it up
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet holding the row
+   * @param {number} rowNumber - The 1-based row number
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async deleteRow(sheet: IdentifiedSheet, rowNumber: number): Promise<void> {
+    await this.deleteRows(sheet, [rowNumber]);
+  }
+
+  /**
+   * Deletes several rows in a single request
+   * Rows are deleted from the bottom up so the earlier deletions do not shift the later ones.
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet holding the rows
+   * @param {number[]} rowNumbers - The 1-based row numbers
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async deleteRows(sheet: IdentifiedSheet, rowNumbers: number[]): Promise<void> {
+    const sheetId = await this.getSheetId(sheet);
+    
+    await this.request(':batchUpdate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        requests: [...rowNumbers].sort((a, b) => b - a).map(rowNumber => ({
+          deleteDimension: {
+            range: {
+              sheetId,
+              dimension: 'ROWS',
+              startIndex: rowNumber - 1,
+              endIndex: rowNumber
+            }
+          }
+        }))
+      })
+    });
+  }
+
+  /**
+   * Inserts empty rows, shifting the rows below them down
+   * @private
+   * @async
+   * @param {IdentifiedSheet} sheet - The sheet to insert into
+   * @param {number} afterRow - The 1-based row number the new rows follow
+   * @param {number} count - Number of rows to insert
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async insertRows(sheet: IdentifiedSheet, afterRow: number, count: number): Promise<void> {
+    const sheetId = await this.getSheetId(sheet);
+    
+    await this.request(':batchUpdate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        requests: [{
+          insertDimension: {
+            range: {
+              sheetId,
+              dimension: 'ROWS',
+              startIndex: afterRow,
+              endIndex: afterRow + count
+            },
+            inheritFromBefore: true
+          }
+        }]
+      })
+    });
+  }
+
+  /**
+   * Looks up the numeric sheet ID of a sheet by its title
+   * @private
+   * @async
+   * @param {string} title - The sheet title
+   * @returns {Promise<number>} The sheet ID
+   * @throws {Error} If the spreadsheet has no sheet with that title
+   */
+  private async getSheetId(title: string): Promise<number> {
+    const sheetIds = await this.getSheetIds();
+    
+    if (sheetIds[title] === undefined) {
+      throw new Error(`Sheet ${title} not found`);
+    }
+    
+    return sheetIds[title];
+  }
+
+  /**
+   * Loads the numeric sheet IDs of every sheet, keyed by title
+   * @private
+   * @async
+   * @returns {Promise<Record<string, number>>} Sheet IDs by title
+   * @throws {Error} If API call fails
+   */
+  private async getSheetIds(): Promise<Record<string, number>> {
+    if (!this.sheetIds) {
+      const response = await this.request('?fields=sheets.properties(sheetId,title)');
+      const data = await response.json();
+      const sheetIds: Record<string, number> = {};
+      (data.sheets || []).forEach((sheet: { properties: { sheetId: number; title: string } }) => {
+        sheetIds[sheet.properties.title] = sheet.properties.sheetId;
+      });
+      this.sheetIds = sheetIds;
+    }
+    
+    return this.sheetIds;
+  }
+
+  /**
+   * Creates a sheet unless the spreadsheet already has one with that title
+   * @private
+   * @async
+   * @param {string} title - The sheet title
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async ensureSheet(title: string): Promise<void> {
+    if ((await this.getSheetIds())[title] !== undefined) {
+      return;
+    }
+    
+    await this.request(':batchUpdate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        requests: [{
+          addSheet: {
+            properties: { title }
+          }
+        }]
+      })
+    });
+    
+    this.sheetIds = null;
+  }
+
+  /**
+   * Converts a transaction into a Transactions sheet row (columns A-P)
+   * @private
+   * @param {Transaction} transaction - The transaction to convert
+   * @param {string} id - The persisted ID written to the ID column
+   * @returns {(string|number)[]} Row values
+   */
+  private toTransactionRow(transaction: Transaction, id: string): (string | number)[] {
+    return [
+      transaction.date,
+      transaction.description,
+      '', // Skip Category Select
+      transaction.category || '',
+      transaction.subcategory || '',
+      transaction.amountEUR || '',
+      transaction.amountUSD || '',
+      transaction.account,
+      transaction.notes || '',
+      id,
+      transaction.recurringId || '',
+      transaction.amountConfirmed === undefined ? '' : transaction.amountConfirmed ? 'TRUE' : 'FALSE',
+      transaction.splitId || '',
+      transaction.transferId || '',
+      transaction.direction || '',
+      formatTags(transaction.tags)
+    ];
+  }
+
+  /**
+   * Appends transactions to the Transactions sheet in a single request
+   * @private
+   * @async
+   * @param {Transaction[]} transactions - The transactions to append
+   * @returns {Promise<number|null>} Row number of the first appended row, or null if the API did not report it
+   * @throws {Error} If API call fails
+   */
+  private async appendTransactions(transactions: Transaction[]): Promise<number | null> {
+    // A legacy row-number ID only addresses the row it was read from, so restored rows get a UUID
+    const values = transactions.map(transaction =>
+      this.toTransactionRow(
+        transaction,
+        transaction.id && !LEGACY_ID_PATTERN.test(transaction.id) ? transaction.id : crypto.randomUUID()
+      )
+    );
+    
+    const response = await this.request(
+      '/values/Transactions!A2:P:append?valueInputOption=USER_ENTERED',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          values: values
+        })
+      }
+    );
+    
+    // The updated range looks like Transactions!A15:P17
+    const data = await response.json().catch(() => ({}));
+    const match = String(data.updates?.updatedRange || '').match(/![A-Z]+(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  /**
+   * Replaces the rows of a stored transaction with the rows it is stored as now, in place
+   *
+   * The existing rows are overwritten in order, further lines or legs go into rows
+   * inserted after the last of them, and rows no longer needed are deleted last.
+   * Nothing is deleted before the new values are written, so a failed request never
+   * loses the transaction, and it keeps its position in the sheet.
+   * @private
+   * @async
+   * @param {number[]} rowNumbers - The 1-based row numbers the transaction is stored in
+   * @param {Transaction[]} transactions - The rows to store, each with its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  private async replaceTransactionRows(rowNumbers: number[], transactions: Transaction[]): Promise<void> {
+    const existingRows = [...rowNumbers].sort((a, b) => a - b);
+    const lastRow = existingRows[existingRows.length - 1];
+    const insertedRows = transactions.slice(existingRows.length).map((_, index) => lastRow + index + 1);
+    
+    if (insertedRows.length > 0) {
+      await this.insertRows('Transactions', lastRow, insertedRows.length);
+    }
+    
+    const targetRows = [...existingRows.slice(0, transactions.length), ...insertedRows];
+    const data = transactions.map((transaction, index) => {
+      // Null leaves the Category Select column untouched
+      const row: (string | number | null)[] = this.toTransactionRow(transaction, transaction.id || crypto.randomUUID());
+      row[2] = null;
+      
+      return { range: `Transactions!A${targetRows[index]}:P${targetRows[index]}`, values: [row] };
+    });
+    
+    try {
+      await this.request('/values:batchUpdate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          valueInputOption: 'USER_ENTERED',
+          data
+        })
+      });
+    } catch (error) {
+      // Remove the rows inserted for the write, so no empty transactions are left behind
+      if (insertedRows.length > 0) {
+        await this.deleteRows('Transactions', insertedRows)
+          .catch(deleteError => console.error('Error removing inserted rows:', deleteError));
+      }
+      throw error;
+    }
+    
+    if (existingRows.length > transactions.length) {
+      await this.deleteRows('Transactions', existingRows.slice(transactions.length));
+    }
+  }
+
+  /**
+   * Books generated transactions whose IDs are deterministic, such as recurring
+   * occurrences and loan payments, so that no ID is ever booked twice
+   *
+   * The booked IDs are read again immediately before the append, so transactions booked
+   * elsewhere in the meantime are skipped. Two runs can still append the same transaction
+   * at the same moment. Afterwards each run reads the IDs once more, and a run whose row is
+   * not the first one with its ID deletes that row again. Only the run that appended a
+   * losing row deletes it, so concurrent runs never delete each other's rows and exactly
+   * one row per ID remains.
+   * @private
+   * @async
+   * @param {Transaction[]} transactions - The transactions, each with its deterministic ID
+   * @returns {Promise<number>} Number of transactions this run booked
+   * @throws {Error} If API call fails
+   */
+  private async bookTransactions(transactions: Transaction[]): Promise<number> {
+    const bookedIds = new Set(await this.readIds('Transactions'));
+    const pending = transactions.filter(transaction => !bookedIds.has(transaction.id || ''));
+    if (pending.length === 0) {
+      return 0;
+    }
+    
+    const firstRow = await this.appendTransactions(pending);
+    if (firstRow === null) {
+      return pending.length;
+    }
+    
+    const ids = await this.readIds('Transactions');
+    const losingRows = pending
+      .map((transaction, index) => ({ id: transaction.id || '', rowNumber: firstRow + index }))
+      .filter(({ id, rowNumber }) => ids[rowNumber - 2] === id && ids.indexOf(id) < rowNumber - 2)
+      .map(({ rowNumber }) => rowNumber);
+    
+    if (losingRows.length > 0) {
+      await this.deleteRows('Transactions', losingRows);
+    }
+    return pending.length - losingRows.length;
+  }
+
   /**
    * Parses various currency formats into a normalized number value
    * @private
@@ -172,21 +722,15 @@ export class GoogleSheetsService {
    */
   async getTransactions(): Promise<Transaction[]> {
     try {
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Transactions!A2:I?key=${this.apiKey}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
+      const response = await this.request('/values/Transactions!A2:P');
       
       const data = await response.json();
-      const rows = data.values || [];
+      const rows: any[][] = data.values || [];
       
       // Debug first few rows for currency format inspection
       if (rows.length > 0) {
         // Log column indices for debugging
-        console.log('Column indices: Date=0, Desc=1, Cat=3, Subcat=4, EUR=5, USD=6, Account=7, Notes=8');
+        console.log('Column indices: Date=0, Desc=1, Cat=3, Subcat=4, EUR=5, USD=6, Account=7, Notes=8, ID=9, RecurringID=10, AmountConfirmed=11, SplitID=12, TransferID=13, Direction=14, Tags=15');
         
         // Log the first 3 rows to help diagnose format issues
         rows.slice(0, 3).forEach((row, idx) => {
@@ -218,7 +762,7 @@ export class GoogleSheetsService {
       }
       
       // Convert rows to transactions
-      const transactions = rows.map((row: any[], index: number) => {
+      const transactions: Transaction[] = rows.map((row: any[], index: number) => {
         // Parse currency values properly
         const amountEUR = this.parseCurrencyValue(row[5]);
         const amountUSD = this.parseCurrencyValue(row[6]);
@@ -228,8 +772,8 @@ export class GoogleSheetsService {
         const sanitizedAmountEUR = amountEUR && amountEUR > 100000 ? undefined : amountEUR;
         const sanitizedAmountUSD = amountUSD && amountUSD > 100000 ? undefined : amountUSD;
         
-        return {
-          id: `row-${index + 2}`,
+        const transaction: Transaction = {
+          id: row[9] || `row-${index + 2}`,
           date: row[0] || '',
           description: row[1] || '',
           // Skip index 2 which is Category Select
@@ -238,7 +782,19 @@ export class GoogleSheetsService {
           amountEUR: sanitizedAmountEUR,
           amountUSD: sanitizedAmountUSD,
           account: row[7] || '',
-          notes: row[8] || ''
+          notes: row[8] || '',
+          tags: row[TAGS_INDEX] ? parseTags(String(row[TAGS_INDEX])) : undefined,
+          recurringId: row[10] || undefined,
+          amountConfirmed: row[11] ? String(row[11]).toUpperCase() === 'TRUE' : undefined,
+          splitId: row[SPLIT_ID_INDEX] || undefined,
+          transferId: row[TRANSFER_ID_INDEX] || undefined
+        };
+        
+        // Rows without a direction follow the sign convention
+        const direction = String(row[DIRECTION_INDEX] || '').trim().toLowerCase();
+        return {
+          ...transaction,
+          direction: isTransactionDirection(direction) ? direction : getTransactionDirection(transaction)
         };
       });
       
@@ -263,13 +819,7 @@ export class GoogleSheetsService {
    */
   async countTransactions(): Promise<number> {
     try {
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Transactions!A2:A?key=${this.apiKey}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
+      const response = await this.request('/values/Transactions!A2:A');
       
       const data = await response.json();
       return (data.values || []).length;
@@ -279,51 +829,194 @@ export class GoogleSheetsService {
     }
   }
 
+  /**
+   * Finds the rows of transactions, including every line of split transactions and leg of transfers
+   * @private
+   * @async
+   * @param {string[]} transactionIds - The transaction IDs
+   * @returns {Promise<number[]>} The 1-based row numbers
+   * @throws {Error} If no row has one of the IDs
+   */
+  private async findTransactionRowNumbers(transactionIds: string[]): Promise<number[]> {
+    const idColumn = columnLetter(TRANSACTION_ID_INDEX);
+    const transferIdColumn = columnLetter(TRANSFER_ID_INDEX);
+    const response = await this.request(`/values/Transactions!${idColumn}2:${transferIdColumn}`);
+    const rows: string[][] = (await response.json()).values || [];
+    const ids = rows.map(row => row[0] || '');
+    
+    const rowNumbers = new Set<number>();
+    transactionIds.forEach(id => {
+      const matches = rows.flatMap((row, index) =>
+        row[0] === id ||
+        row[SPLIT_ID_INDEX - TRANSACTION_ID_INDEX] === id ||
+        row[TRANSFER_ID_INDEX - TRANSACTION_ID_INDEX] === id ? [index + 2] : []
+      );
+      (matches.length > 0 ? matches : [this.resolveRowNumber('Transactions', ids, id)])
+        .forEach(rowNumber => rowNumbers.add(rowNumber));
+    });
+    
+    return Array.from(rowNumbers);
+  }
+
   /**
    * Adds a new transaction to the Google Sheets document
+   * Categorization rules fill in what it is missing. A split transaction is added as one
+   * row per line, and a transfer as one row per leg, in a single request.
    * @async
    * @param {Transaction} transaction - The transaction to add
    * @returns {Promise<void>}
-   * @throws {Error} If API call fails
+   * @throws {Error} If a split transaction or transfer is not valid, or the API call fails
    */
   async addTransaction(transaction: Transaction): Promise<void> {
     try {
-      const values = [
-        [
-          transaction.date,
-          transaction.description,
-          '', // Skip Category Select
-          transaction.category || '',
-          transaction.subcategory || '',
-          transaction.amountEUR || '',
-          transaction.amountUSD || '',
-          transaction.account,
-          transaction.notes || ''
-        ]
-      ];
-      
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Transactions!A2:I:append?valueInputOption=USER_ENTERED&key=${this.apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            values: values
-          })
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
+      const rules = await this.getRules();
+      await this.appendTransactions(expandTransfer(applyRules(transaction, rules)).flatMap(expandSplitTransaction));
     } catch (error) {
       console.error('Error adding transaction:', error);
       throw error;
     }
   }
 
+  /**
+   * Overwrites an existing transaction's row in the Google Sheets document
+   * Rows still addressed by a legacy row-number ID receive a UUID on the way. When the
+   * transaction is or was split or a transfer, its rows are replaced in place by its current lines or legs.
+   * @async
+   * @param {Transaction} transaction - The transaction with updated fields
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is missing or unknown, a split transaction or transfer is not valid, or the API call fails
+   */
+  async updateTransaction(transaction: Transaction): Promise<void> {
+    if (!transaction.id) {
+      throw new Error('Transaction ID is required');
+    }
+    
+    try {
+      const rowNumbers = await this.findTransactionRowNumbers([transaction.id]);
+      const id = LEGACY_ID_PATTERN.test(transaction.id) ? crypto.randomUUID() : transaction.id;
+      
+      // Check the lines and legs before writing anything
+      const rows = expandTransfer({ ...transaction, id }).flatMap(expandSplitTransaction);
+      await this.replaceTransactionRows(rowNumbers, rows);
+    } catch (error) {
+      console.error('Error updating transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a transaction's row from the Google Sheets document, or the rows of every line or leg of a split transaction or transfer
+   * @async
+   * @param {string} transactionId - The ID of the transaction to delete
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async deleteTransaction(transactionId: string): Promise<void> {
+    try {
+      const rowNumbers = await this.findTransactionRowNumbers([transactionId]);
+      await this.deleteRows('Transactions', rowNumbers);
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds several transactions to the Google Sheets document in a single request
+   * @async
+   * @param {Transaction[]} transactions - The transactions to add
+   * @param {boolean} [withRules=true] - Whether categorization rules fill in what they are missing
+   * @returns {Promise<void>}
+   * @throws {Error} If a split transaction or transfer is not valid, or the API call fails
+   */
+  async addTransactions(transactions: Transaction[], withRules: boolean = true): Promise<void> {
+    if (transactions.length === 0) {
+      return;
+    }
+    
+    try {
+      const rules = withRules ? await this.getRules() : [];
+      await this.appendTransactions(transactions
+        .map(transaction => applyRules(transaction, rules))
+        .flatMap(expandTransfer)
+        .flatMap(expandSplitTransaction));
+    } catch (error) {
+      console.error('Error adding transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrites the rows of several stored transactions in a single batch update
+   * Rows still addressed by a legacy row-number ID receive a UUID on the way.
+   * @async
+   * @param {Transaction[]} transactions - The stored transactions with updated fields
+   * @returns {Promise<string[]>} The IDs written to the rows, in the same order
+   * @throws {Error} If an ID is missing or unknown, or the API call fails
+   */
+  async updateTransactions(transactions: Transaction[]): Promise<string[]> {
+    if (transactions.length === 0) {
+      return [];
+    }
+    
+    try {
+      const ids = await this.readIds('Transactions');
+      const writtenIds: string[] = [];
+      
+      const data = transactions.map(transaction => {
+        if (!transaction.id) {
+          throw new Error('Transaction ID is required');
+        }
+        
+        const rowNumber = this.resolveRowNumber('Transactions', ids, transaction.id);
+        const id = LEGACY_ID_PATTERN.test(transaction.id) ? crypto.randomUUID() : transaction.id;
+        writtenIds.push(id);
+        // Null leaves the Category Select column untouched
+        const row: (string | number | null)[] = this.toTransactionRow(transaction, id);
+        row[2] = null;
+        
+        return { range: `Transactions!A${rowNumber}:P${rowNumber}`, values: [row] };
+      });
+      
+      await this.request('/values:batchUpdate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          valueInputOption: 'USER_ENTERED',
+          data
+        })
+      });
+      
+      return writtenIds;
+    } catch (error) {
+      console.error('Error updating transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the rows of several transactions, with every line or leg of split transactions and transfers, in a single request
+   * @async
+   * @param {string[]} transactionIds - The IDs of the transactions to delete
+   * @returns {Promise<void>}
+   * @throws {Error} If an ID is unknown or the API call fails
+   */
+  async deleteTransactions(transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) {
+      return;
+    }
+    
+    try {
+      const rowNumbers = await this.findTransactionRowNumbers(transactionIds);
+      await this.deleteRows('Transactions', rowNumbers);
+    } catch (error) {
+      console.error('Error deleting transactions:', error);
+      throw error;
+    }
+  }
+
   /**
    * Fetches category and subcategory data from the Settings sheet
    * @async
@@ -336,13 +1029,7 @@ export class GoogleSheetsService {
     }
     
     try {
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Settings!A2:B?key=${this.apiKey}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
+      const response = await this.request('/values/Settings!A2:B');
       
       const data = await response.json();
       const rows = data.values || [];
@@ -405,58 +1092,13 @@ export class GoogleSheetsService {
 
   /**
    * Fetches all recurring transactions from the Google Sheets document
+   * Pages can render without templates, so a failed read is logged and yields none.
    * @async
-   * @returns {Promise<RecurringTransaction[]>} Array of recurring transactions
-   * @throws {Error} If API call fails
+   * @returns {Promise<RecurringTransaction[]>} Array of recurring transactions, empty if the read fails
    */
   async getRecurringTransactions(): Promise<RecurringTransaction[]> {
-    if (this.recurringTransactionsCache) {
-      return this.recurringTransactionsCache;
-    }
-
     try {
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Recurring!A2:N?key=${this.apiKey}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const rows = data.values || [];
-      
-      // Convert rows to recurring transactions
-      const recurringTransactions = rows.map((row: any[], index: number) => {
-        // Parse currency values
-        const amountEUR = this.parseCurrencyValue(row[5]);
-        const amountUSD = this.parseCurrencyValue(row[6]);
-        
-        // Parse boolean values
-        const active = row[13] === 'TRUE' || row[13] === 'true' || row[13] === '1';
-        
-        return {
-          id: `recurring-${index + 2}`,
-          description: row[0] || '',
-          category: row[2] || '',
-          subcategory: row[3] || '',
-          amountEUR: amountEUR,
-          amountUSD: amountUSD,
-          account: row[7] || '',
-          notes: row[8] || '',
-          frequency: row[1] || 'monthly',
-          dayOfMonth: row[9] ? parseInt(row[9], 10) : undefined,
-          dayOfWeek: row[10] ? parseInt(row[10], 10) : undefined,
-          startDate: row[4] || '',
-          endDate: row[11] || '',
-          lastProcessed: row[12] || '',
-          nextDue: this.calculateNextDueDate(row[1], row[4], row[9], row[10], row[12]),
-          active: active
-        };
-      });
-      
-      this.recurringTransactionsCache = recurringTransactions;
-      return recurringTransactions;
+      return await this.loadRecurringTransactions();
     } catch (error) {
       console.error('Error fetching recurring transactions:', error);
       return [];
@@ -464,127 +1106,75 @@ export class GoogleSheetsService {
   }
 
   /**
-   * Calculates the next due date for a recurring transaction
-   * @private
-   * @param {string} frequency - Frequency of recurrence
-   * @param {string} startDate - Start date of the recurring transaction
-   * @param {string|undefined} dayOfMonthStr - Day of month (for monthly, quarterly, yearly)
-   * @param {string|undefined} dayOfWeekStr - Day of week (for weekly, biweekly)
-   * @param {string|undefined} lastProcessed - Date when the transaction was last processed
-   * @returns {string|undefined} Next due date in YYYY-MM-DD format or undefined if calculation fails
-   */
-  private calculateNextDueDate(
-    frequency: string, 
-    startDate: string, 
-    dayOfMonthStr?: string, 
-    dayOfWeekStr?: string,
-    lastProcessed?: string
-  ): string | undefined {
-    try {
-      // Parse inputs
-      const baseDate = lastProcessed && new Date(lastProcessed).toString() !== 'Invalid Date' 
-        ? new Date(lastProcessed) 
-        : new Date(startDate);
-      
-      if (baseDate.toString() === 'Invalid Date') {
-        return undefined;
-      }
-      
-      const dayOfMonth = dayOfMonthStr ? parseInt(dayOfMonthStr, 10) : undefined;
-      const dayOfWeek = dayOfWeekStr ? parseInt(dayOfWeekStr, 10) : undefined;
+   * Fetches all recurring transactions from the Google Sheets document, throwing when the read fails
+   * Processing and the command-line scripts use this, so that a failed read is never
+   * mistaken for having no templates.
+   * @async
+   * @returns {Promise<RecurringTransaction[]>} Array of recurring transactions
+   * @throws {Error} If API call fails
+   */
+  async loadRecurringTransactions(): Promise<RecurringTransaction[]> {
+    if (this.recurringTransactionsCache) {
+      return this.recurringTransactionsCache;
+    }
+
+    const columns = await this.getRecurringColumns();
+    const response = await this.request(`/values/Recurring!A2:${lastRecurringColumn(columns)}`);
+    
+    const data = await response.json();
+    const rows: any[][] = data.values || [];
+    
+    // Convert rows to recurring transactions, reading each field from its header's column
+    const templates: RecurringTransaction[] = rows.map((row, index): RecurringTransaction => {
+      const cell = (field: RecurringField) => row[columns[field]] ?? '';
       
-      let nextDate = new Date(baseDate);
-      const today = new Date();
+      // Parse boolean values
+      const activeValue = String(cell('active'));
+      const active = activeValue === 'TRUE' || activeValue === 'true' || activeValue === '1';
       
-      // Ensure we're calculating at least one day in the future
-      if (nextDate < today) {
-        nextDate = today;
-      }
+      const businessDayAdjustment = String(cell('businessDayAdjustment')).trim().toLowerCase();
+      const holidayCalendar = String(cell('holidayCalendar')).trim().toUpperCase();
+      const amountMode = String(cell('amountMode')).trim().toLowerCase();
       
-      switch (frequency) {
-        case 'daily':
-          // Just add one day
-          nextDate.setDate(nextDate.getDate() + 1);
-          break;
-          
-        case 'weekly':
-          // Add 7 days
-          nextDate.setDate(nextDate.getDate() + 7);
-          
-          // If dayOfWeek is specified, adjust to that day
-          if (dayOfWeek !== undefined) {
-            // Calculate days to add to get to the specified day of week
-            const currentDay = nextDate.getDay();
-            const daysToAdd = (dayOfWeek - currentDay + 7) % 7;
-            nextDate.setDate(nextDate.getDate() + daysToAdd);
-          }
-          break;
-          
-        case 'biweekly':
-          // Add 14 days
-          nextDate.setDate(nextDate.getDate() + 14);
-          
-          // If dayOfWeek is specified, adjust to that day
-          if (dayOfWeek !== undefined) {
-            // Calculate days to add to get to the specified day of week
-            const currentDay = nextDate.getDay();
-            const daysToAdd = (dayOfWeek - currentDay + 7) % 7;
-            nextDate.setDate(nextDate.getDate() + daysToAdd);
-          }
-          break;
-          
-        case 'monthly':
-          // Add one month
-          nextDate.setMonth(nextDate.getMonth() + 1);
-          
-          // If dayOfMonth is specified, adjust to that day
-          if (dayOfMonth !== undefined) {
-            nextDate.setDate(Math.min(dayOfMonth, this.getDaysInMonth(nextDate.getFullYear(), nextDate.getMonth())));
-          }
-          break;
-          
-        case 'quarterly':
-          // Add three months
-          nextDate.setMonth(nextDate.getMonth() + 3);
-          
-          // If dayOfMonth is specified, adjust to that day
-          if (dayOfMonth !== undefined) {
-            nextDate.setDate(Math.min(dayOfMonth, this.getDaysInMonth(nextDate.getFullYear(), nextDate.getMonth())));
-          }
-          break;
-          
-        case 'yearly':
-          // Add one year
-          nextDate.setFullYear(nextDate.getFullYear() + 1);
-          
-          // If dayOfMonth is specified, adjust to that day
-          if (dayOfMonth !== undefined) {
-            nextDate.setDate(Math.min(dayOfMonth, this.getDaysInMonth(nextDate.getFullYear(), nextDate.getMonth())));
-          }
-          break;
-          
-        default:
-          // Default to monthly if frequency is unknown
-          nextDate.setMonth(nextDate.getMonth() + 1);
-      }
-      
-      // Format date as YYYY-MM-DD
-      return nextDate.toISOString().split('T')[0];
-    } catch (error) {
-      console.error('Error calculating next due date:', error);
-      return undefined;
-    }
-  }
-
-  /**
-   * Helper function to get the number of days in a month
-   * @private
-   * @param {number} year - The year
-   * @param {number} month - The month (0-11)
-   * @returns {number} Number of days in the month
-   */
-  private getDaysInMonth(year: number, month: number): number {
-    return new Date(year, month + 1, 0).getDate();
+      return {
+        id: cell('id') || `recurring-${index + 2}`,
+        description: cell('description'),
+        category: cell('category'),
+        subcategory: cell('subcategory'),
+        amountEUR: this.parseCurrencyValue(cell('amountEUR')),
+        amountUSD: this.parseCurrencyValue(cell('amountUSD')),
+        account: cell('account'),
+        notes: cell('notes'),
+        amountMode: isAmountMode(amountMode) ? amountMode : undefined,
+        estimateCount: cell('estimateCount') !== '' ? parseInt(cell('estimateCount'), 10) || undefined : undefined,
+        frequency: cell('frequency') || 'monthly',
+        dayOfMonth: cell('dayOfMonth') !== '' ? parseInt(cell('dayOfMonth'), 10) : undefined,
+        dayOfWeek: cell('dayOfWeek') !== '' ? parseInt(cell('dayOfWeek'), 10) : undefined,
+        rrule: cell('rrule') || undefined,
+        businessDayAdjustment: isBusinessDayAdjustment(businessDayAdjustment) ? businessDayAdjustment : undefined,
+        holidayCalendar: isHolidayCalendar(holidayCalendar) ? holidayCalendar : undefined,
+        startDate: cell('startDate'),
+        endDate: cell('endDate'),
+        pausedFrom: cell('pausedFrom') || undefined,
+        pausedUntil: cell('pausedUntil') || undefined,
+        exceptionDates: parseExceptionDates(cell('exceptionDates')),
+        snoozedDates: parseExceptionDates(cell('snoozedDates')),
+        lastProcessed: cell('lastProcessed'),
+        active: active
+      };
+    });
+    
+    // Estimates are averaged from the templates' transactions, which are only loaded when needed
+    const needsEstimates = templates.some(rt => rt.amountMode && rt.amountMode !== 'fixed');
+    const transactions = needsEstimates ? await this.getTransactions() : [];
+    
+    const recurringTransactions = withAmountEstimates(templates, transactions).map(recurringTransaction => ({
+      ...recurringTransaction,
+      nextDue: getNextDueDate(recurringTransaction)
+    }));
+    
+    this.recurringTransactionsCache = recurringTransactions;
+    return recurringTransactions;
   }
 
   /**
@@ -596,37 +1186,13 @@ export class GoogleSheetsService {
    */
   async addRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void> {
     try {
-      // Calculate next due date if not provided
-      if (!recurringTransaction.nextDue) {
-        recurringTransaction.nextDue = this.calculateNextDueDate(
-          recurringTransaction.frequency,
-          recurringTransaction.startDate,
-          recurringTransaction.dayOfMonth?.toString(),
-          recurringTransaction.dayOfWeek?.toString()
-        );
-      }
-      
+      const columns = await this.getRecurringColumns();
       const values = [
-        [
-          recurringTransaction.description,
-          recurringTransaction.frequency,
-          recurringTransaction.category || '',
-          recurringTransaction.subcategory || '',
-          recurringTransaction.startDate,
-          recurringTransaction.amountEUR || '',
-          recurringTransaction.amountUSD || '',
-          recurringTransaction.account,
-          recurringTransaction.notes || '',
-          recurringTransaction.dayOfMonth || '',
-          recurringTransaction.dayOfWeek || '',
-          recurringTransaction.endDate || '',
-          recurringTransaction.lastProcessed || '',
-          recurringTransaction.active ? 'TRUE' : 'FALSE'
-        ]
+        toRecurringRow({ ...recurringTransaction, id: recurringTransaction.id || crypto.randomUUID() }, columns)
       ];
       
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Recurring!A2:N:append?valueInputOption=USER_ENTERED&key=${this.apiKey}`,
+      await this.request(
+        `/values/Recurring!A2:${lastRecurringColumn(columns)}:append?valueInputOption=USER_ENTERED`,
         {
           method: 'POST',
           headers: {
@@ -638,10 +1204,6 @@ export class GoogleSheetsService {
         }
       );
       
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
       // Invalidate cache
       this.recurringTransactionsCache = null;
     } catch (error) {
@@ -651,106 +1213,212 @@ export class GoogleSheetsService {
   }
 
   /**
-   * Updates a recurring transaction's lastProcessed date and generates a real transaction
+   * Updates a recurring transaction's row in the Google Sheets document
+   * The Last Processed column is left untouched so a concurrent processing run is not undone.
    * @async
-   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to process
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction, identified by its ID
    * @returns {Promise<void>}
-   * @throws {Error} If API call fails
+   * @throws {Error} If the ID is unknown or the API call fails
    */
-  async processRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void> {
+  async updateRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void> {
     if (!recurringTransaction.id) {
       throw new Error('Recurring transaction ID is required');
     }
     
     try {
-      // Extract row number from the ID
-      const rowMatch = recurringTransaction.id.match(/recurring-(\d+)/);
-      if (!rowMatch || !rowMatch[1]) {
-        throw new Error('Invalid recurring transaction ID format');
-      }
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransaction.id);
+      const id = LEGACY_ID_PATTERN.test(recurringTransaction.id) ? crypto.randomUUID() : recurringTransaction.id;
+      const columns = await this.getRecurringColumns();
       
-      const rowNumber = parseInt(rowMatch[1], 10);
-      const today = new Date().toISOString().split('T')[0];
-      
-      // 1. Create a real transaction from the template
-      const transaction: Transaction = {
-        date: today,
-        description: recurringTransaction.description,
-        category: recurringTransaction.category,
-        subcategory: recurringTransaction.subcategory,
-        amountEUR: recurringTransaction.amountEUR,
-        amountUSD: recurringTransaction.amountUSD,
-        account: recurringTransaction.account,
-        notes: recurringTransaction.notes 
-          ? `${recurringTransaction.notes} (Recurring: ${recurringTransaction.frequency})` 
-          : `Recurring: ${recurringTransaction.frequency}`,
-        recurringId: recurringTransaction.id
-      };
-      
-      await this.addTransaction(transaction);
-      
-      // 2. Update the recurring transaction's lastProcessed date
-      const nextDueDate = this.calculateNextDueDate(
-        recurringTransaction.frequency,
-        recurringTransaction.startDate,
-        recurringTransaction.dayOfMonth?.toString(),
-        recurringTransaction.dayOfWeek?.toString(),
-        today
-      );
+      const row = toRecurringRow({ ...recurringTransaction, id }, columns);
+      row[columns.lastProcessed] = null;
       
-      const updateResponse = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Recurring!L${rowNumber}:M${rowNumber}?valueInputOption=USER_ENTERED&key=${this.apiKey}`,
+      await this.request(
+        `/values/Recurring!A${rowNumber}:${lastRecurringColumn(columns)}${rowNumber}?valueInputOption=USER_ENTERED`,
         {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            values: [[today, nextDueDate]]
+            values: [row]
           })
         }
       );
       
-      if (!updateResponse.ok) {
-        throw new Error(`API error: ${updateResponse.status}`);
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+    } catch (error) {
+      console.error('Error updating recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies changes to a recurring transaction from a date onwards only
+   * The stored template is ended the day before and a new template with the changes is added.
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction, identified by its ID
+   * @param {string} effectiveDate - First day the changes apply to, in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async updateRecurringTransactionFrom(recurringTransaction: RecurringTransaction, effectiveDate: string): Promise<void> {
+    try {
+      this.recurringTransactionsCache = null;
+      const current = (await this.loadRecurringTransactions()).find(rt => rt.id === recurringTransaction.id);
+      if (!current) {
+        throw new Error(`No Recurring row found with ID ${recurringTransaction.id}`);
+      }
+      
+      const { ended, continued } = splitRecurringTransaction(current, recurringTransaction, effectiveDate);
+      await this.updateRecurringTransaction(ended);
+      await this.addRecurringTransaction(continued);
+    } catch (error) {
+      console.error('Error splitting recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a disabled copy of a recurring transaction to the Google Sheets document
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to copy
+   * @returns {Promise<RecurringTransaction>} The new copy
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async duplicateRecurringTransaction(recurringTransactionId: string): Promise<RecurringTransaction> {
+    try {
+      const original = (await this.loadRecurringTransactions()).find(rt => rt.id === recurringTransactionId);
+      if (!original) {
+        throw new Error(`No Recurring row found with ID ${recurringTransactionId}`);
       }
       
+      const copy = copyRecurringTransaction(original);
+      await this.addRecurringTransaction(copy);
+      return copy;
+    } catch (error) {
+      console.error('Error duplicating recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a recurring transaction's row from the Google Sheets document
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to delete
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async deleteRecurringTransaction(recurringTransactionId: string): Promise<void> {
+    try {
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransactionId);
+      await this.deleteRow('Recurring', rowNumber);
+      
       // Invalidate cache
       this.recurringTransactionsCache = null;
     } catch (error) {
-      console.error('Error processing recurring transaction:', error);
+      console.error('Error deleting recurring transaction:', error);
       throw error;
     }
   }
 
   /**
-   * Processes all due recurring transactions
+   * Lists the transactions that processing would create, without writing anything
    * @async
-   * @returns {Promise<number>} Number of transactions processed
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<DueOccurrence[]>} Due occurrences of all active templates, ordered by date
    * @throws {Error} If API call fails
    */
-  async processDueRecurringTransactions(): Promise<number> {
+  async previewDueRecurringTransactions(asOf: Date = new Date()): Promise<DueOccurrence[]> {
+    const recurringTransactions = await this.loadRecurringTransactions();
+    const bookedIds = new Set(await this.readIds('Transactions'));
+    
+    return recurringTransactions
+      .flatMap(recurringTransaction => getDueOccurrences(recurringTransaction, asOf))
+      .filter(occurrence => !bookedIds.has(occurrence.transaction.id || ''))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Generates one transaction per missed occurrence of a recurring transaction, each on its
+   * scheduled date, then records the last occurrence as its lastProcessed date
+   *
+   * Safe to re-run, including from several devices at once: each occurrence has a
+   * deterministic transaction ID, occurrences whose ID is already in the Transactions
+   * sheet are skipped, a run that loses a race to append the same occurrence deletes
+   * its row again (see bookTransactions), and the Last Processed cursor never moves
+   * backwards. Templates that ask for their amount when posting, and occurrences snoozed in
+   * the review queue, are left for the review queue; the cursor stops before a snoozed occurrence.
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to process
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   * @throws {Error} If API call fails
+   */
+  async processRecurringTransaction(recurringTransaction: RecurringTransaction, asOf: Date = new Date()): Promise<number> {
+    if (!recurringTransaction.id) {
+      throw new Error('Recurring transaction ID is required');
+    }
+    
     try {
-      const recurringTransactions = await this.getRecurringTransactions();
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const occurrences = getDueOccurrences(recurringTransaction, asOf);
+      if (occurrences.length === 0 || recurringTransaction.amountMode === 'prompt') {
+        return 0;
+      }
       
-      // Filter for active transactions that are due
-      const dueTransactions = recurringTransactions.filter(transaction => {
-        if (!transaction.active) return false;
-        if (!transaction.nextDue) return false;
-        
-        const nextDueDate = new Date(transaction.nextDue);
-        nextDueDate.setHours(0, 0, 0, 0);
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransaction.id);
+      
+      // 1. Create one real transaction per occurrence that is neither snoozed nor booked yet
+      const reviewed = reviewWithoutQueue(occurrences);
+      const bookedIds = new Set(await this.readIds('Transactions'));
+      const pending = reviewed
+        .filter(item => item.action === 'approve' && !bookedIds.has(item.occurrence.transaction.id || ''))
+        .map(item => item.occurrence);
+      
+      let createdCount = 0;
+      if (pending.length > 0) {
+        const rules = await this.getRules();
+        createdCount = await this.bookTransactions(pending.map(occurrence => applyRules(occurrence.transaction, rules)));
+      }
+      
+      // 2. Move the Last Processed cursor forward to the last occurrence before any snoozed one,
+      //    re-reading it so a run that finished further ahead elsewhere is not undone
+      const lastDate = getReviewedCursors(reviewed).get(recurringTransaction.id);
+      if (lastDate) {
+        const columns = await this.getRecurringColumns();
+        const cell = `${columnLetter(columns.lastProcessed)}${rowNumber}`;
+        const cursorResponse = await this.request(`/values/Recurring!${cell}:${cell}`);
+        const storedCursor = parseDate(((await cursorResponse.json()).values || [[]])[0][0]);
         
-        return nextDueDate <= today;
-      });
+        if (!storedCursor || storedCursor < (parseDate(lastDate) as Date)) {
+          await this.writeRecurringCell(rowNumber, 'lastProcessed', lastDate);
+        }
+      }
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+      return createdCount;
+    } catch (error) {
+      console.error('Error processing recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Processes all due recurring transactions, catching up on every missed occurrence
+   * @async
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   * @throws {Error} If API call fails
+   */
+  async processDueRecurringTransactions(asOf: Date = new Date()): Promise<number> {
+    try {
+      const recurringTransactions = await this.loadRecurringTransactions();
       
-      // Process each due transaction
       let processedCount = 0;
-      for (const transaction of dueTransactions) {
-        await this.processRecurringTransaction(transaction);
-        processedCount++;
+      for (const transaction of recurringTransactions) {
+        processedCount += await this.processRecurringTransaction(transaction, asOf);
       }
       
       return processedCount;
@@ -760,6 +1428,78 @@ export class GoogleSheetsService {
     }
   }
 
+  /**
+   * Posts the occurrences approved in the review queue, moves the Last Processed cursors
+   * and records the snoozed occurrences
+   *
+   * Approved transactions are appended in a single request, skipping any that were booked
+   * in the meantime, and all cursors and snoozed dates are written in a single batch update.
+   * As in processRecurringTransaction, a cursor never moves backwards.
+   * @async
+   * @param {ReviewedOccurrence[]} reviewed - Every due occurrence of the reviewed templates, with its decision
+   * @returns {Promise<number>} Number of transactions created
+   * @throws {Error} If API call fails
+   */
+  async processReviewedOccurrences(reviewed: ReviewedOccurrence[]): Promise<number> {
+    try {
+      // 1. Append every approved transaction that has not been booked yet, in one request
+      const bookedIds = new Set(await this.readIds('Transactions'));
+      const approved = reviewed
+        .filter(item => item.action === 'approve' && !bookedIds.has(item.occurrence.transaction.id || ''))
+        .map(item => item.occurrence.transaction);
+      
+      let createdCount = 0;
+      if (approved.length > 0) {
+        const rules = await this.getRules();
+        createdCount = await this.bookTransactions(approved.map(transaction => applyRules(transaction, rules)));
+      }
+      
+      // 2. Move the cursors that are behind forward and store the snoozed dates, in one batch update
+      const cursors = getReviewedCursors(reviewed);
+      const snoozes = getReviewedSnoozes(reviewed);
+      if (cursors.size > 0 || snoozes.size > 0) {
+        const columns = await this.getRecurringColumns();
+        const column = columnLetter(columns.lastProcessed);
+        const cursorResponse = await this.request(`/values/Recurring!${column}2:${column}`);
+        const storedCursors: string[][] = (await cursorResponse.json()).values || [];
+        
+        const data: { range: string; values: string[][] }[] = [];
+        for (const [templateId, lastDate] of cursors) {
+          const rowNumber = await this.findRowNumber('Recurring', templateId);
+          const storedCursor = parseDate((storedCursors[rowNumber - 2] || [])[0]);
+          
+          if (!storedCursor || storedCursor < (parseDate(lastDate) as Date)) {
+            data.push({ range: `Recurring!${column}${rowNumber}`, values: [[lastDate]] });
+          }
+        }
+        for (const [templateId, dates] of snoozes) {
+          const rowNumber = await this.findRowNumber('Recurring', templateId);
+          data.push({ range: `Recurring!${columnLetter(columns.snoozedDates)}${rowNumber}`, values: [[formatExceptionDates(dates)]] });
+        }
+        
+        if (data.length > 0) {
+          await this.request('/values:batchUpdate', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+              valueInputOption: 'USER_ENTERED',
+              data
+            })
+          });
+        }
+      }
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+      return createdCount;
+    } catch (error) {
+      console.error('Error processing reviewed occurrences:', error);
+      throw error;
+    }
+  }
+
   /**
    * Toggles the active status of a recurring transaction
    * @async
@@ -770,50 +1510,494 @@ export class GoogleSheetsService {
    */
   async toggleRecurringTransactionStatus(recurringTransactionId: string, activeStatus: boolean): Promise<void> {
     try {
-      // Extract row number from the ID
-      const rowMatch = recurringTransactionId.match(/recurring-(\d+)/);
-      if (!rowMatch || !rowMatch[1]) {
-        throw new Error('Invalid recurring transaction ID format');
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransactionId);
+      await this.writeRecurringCell(rowNumber, 'active', activeStatus ? 'TRUE' : 'FALSE');
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+    } catch (error) {
+      console.error('Error updating recurring transaction status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pauses a recurring transaction until a date, skipping the occurrences scheduled before it
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string|null} pausedUntil - Date the schedule resumes on in YYYY-MM-DD format, or null to resume now
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async pauseRecurringTransaction(recurringTransactionId: string, pausedUntil: string | null): Promise<void> {
+    try {
+      const template = (await this.loadRecurringTransactions()).find(rt => rt.id === recurringTransactionId);
+      if (!template) {
+        throw new Error(`Recurring transaction ${recurringTransactionId} not found`);
       }
       
-      const rowNumber = parseInt(rowMatch[1], 10);
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransactionId);
+      const pause = getPause(template, pausedUntil);
+      await this.writeRecurringCell(rowNumber, 'pausedFrom', pause.pausedFrom || '');
+      await this.writeRecurringCell(rowNumber, 'pausedUntil', pause.pausedUntil || '');
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+    } catch (error) {
+      console.error('Error pausing recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the skipped occurrences (EXDATEs) of a recurring transaction
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string[]} exceptionDates - Scheduled dates of the skipped occurrences in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async setRecurringTransactionExceptions(recurringTransactionId: string, exceptionDates: string[]): Promise<void> {
+    try {
+      const rowNumber = await this.findRowNumber('Recurring', recurringTransactionId);
+      await this.writeRecurringCell(rowNumber, 'exceptionDates', formatExceptionDates([...new Set(exceptionDates)]));
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+    } catch (error) {
+      console.error('Error updating skipped occurrences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invalidates the recurring transactions cache
+   * Forces a refresh of recurring transaction data on next getRecurringTransactions call
+   */
+  invalidateRecurringTransactionsCache(): void {
+    this.recurringTransactionsCache = null;
+  }
+
+  /**
+   * Fetches all loans from the Loans sheet
+   * @async
+   * @returns {Promise<Loan[]>} Array of loans, empty if the spreadsheet has no Loans sheet yet or on error
+   */
+  async getLoans(): Promise<Loan[]> {
+    try {
+      // The Loans sheet is only created when the first loan is added
+      if ((await this.getSheetIds()).Loans === undefined) {
+        return [];
+      }
+      
+      const columns = await this.getLoanColumns();
+      const response = await this.request(`/values/Loans!A2:${lastLoanColumn(columns)}`);
+      const rows: any[][] = (await response.json()).values || [];
+      
+      return rows.map((row, index): Loan => {
+        const cell = (field: LoanField) => row[columns[field]] ?? '';
+        const activeValue = String(cell('active'));
+        const frequency = String(cell('frequency')).trim().toLowerCase();
+        
+        return {
+          id: cell('id') || `loan-${index + 2}`,
+          name: cell('name'),
+          principal: this.parseCurrencyValue(cell('principal')) || 0,
+          annualRate: parseFloat(String(cell('annualRate')).replace('%', '').replace(',', '.')) || 0,
+          term: parseInt(cell('term'), 10) || 0,
+          frequency: isLoanFrequency(frequency) ? frequency : undefined,
+          startDate: cell('startDate'),
+          currency: String(cell('currency')).trim().toUpperCase() === 'USD' ? 'USD' : 'EUR',
+          account: cell('account'),
+          category: cell('category'),
+          subcategory: cell('subcategory'),
+          interestCategory: cell('interestCategory') || undefined,
+          interestSubcategory: cell('interestSubcategory') || undefined,
+          extraPayments: parseExtraPayments(cell('extraPayments')),
+          notes: cell('notes'),
+          lastProcessed: cell('lastProcessed'),
+          active: activeValue === 'TRUE' || activeValue === 'true' || activeValue === '1'
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching loans:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Adds a new loan to the Loans sheet, creating the sheet if needed
+   * @async
+   * @param {Loan} loan - The loan to add
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  async addLoan(loan: Loan): Promise<void> {
+    try {
+      await this.ensureSheet('Loans');
+      const columns = await this.getLoanColumns();
+      
+      await this.request(
+        `/values/Loans!A2:${lastLoanColumn(columns)}:append?valueInputOption=USER_ENTERED`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            values: [toLoanRow({ ...loan, id: loan.id || crypto.randomUUID() }, columns)]
+          })
+        }
+      );
+    } catch (error) {
+      console.error('Error adding loan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a loan's row in the Loans sheet
+   * The Last Processed column is left untouched so a concurrent processing run is not undone.
+   * @async
+   * @param {Loan} loan - The updated loan, identified by its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async updateLoan(loan: Loan): Promise<void> {
+    if (!loan.id) {
+      throw new Error('Loan ID is required');
+    }
+    
+    try {
+      const rowNumber = await this.findRowNumber('Loans', loan.id);
+      const id = LEGACY_ID_PATTERN.test(loan.id) ? crypto.randomUUID() : loan.id;
+      const columns = await this.getLoanColumns();
       
-      const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.spreadsheetId}/values/Recurring!N${rowNumber}:N${rowNumber}?valueInputOption=USER_ENTERED&key=${this.apiKey}`,
+      const row = toLoanRow({ ...loan, id }, columns);
+      row[columns.lastProcessed] = null;
+      
+      await this.request(
+        `/values/Loans!A${rowNumber}:${lastLoanColumn(columns)}${rowNumber}?valueInputOption=USER_ENTERED`,
         {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            values: [[activeStatus ? 'TRUE' : 'FALSE']]
+            values: [row]
           })
         }
       );
+    } catch (error) {
+      console.error('Error updating loan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a loan's row from the Loans sheet
+   * @async
+   * @param {string} loanId - The ID of the loan to delete
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async deleteLoan(loanId: string): Promise<void> {
+    try {
+      const rowNumber = await this.findRowNumber('Loans', loanId);
+      await this.deleteRow('Loans', rowNumber);
+    } catch (error) {
+      console.error('Error deleting loan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Posts the due installments and extra payments of all active loans
+   *
+   * All transactions are appended in a single request, skipping any that were already
+   * booked, and the Last Processed cursors are written in a single batch update. As with
+   * recurring transactions, a cursor never moves backwards.
+   * @async
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   * @throws {Error} If API call fails
+   */
+  async processDueLoanPayments(asOf: Date = new Date()): Promise<number> {
+    try {
+      const loans = await this.getLoans();
+      if (loans.length === 0) {
+        return 0;
+      }
+      
+      // 1. Append every due payment that has not been booked yet, in one request
+      const bookedIds = new Set(await this.readIds('Transactions'));
+      const pending: Transaction[] = [];
+      const cursors = new Map<string, string>();
       
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+      for (const loan of loans) {
+        const { transactions, lastDate } = getDueLoanTransactions(loan, asOf);
+        pending.push(...transactions.filter(transaction => !bookedIds.has(transaction.id || '')));
+        if (loan.id && lastDate) {
+          cursors.set(loan.id, lastDate);
+        }
       }
       
+      const createdCount = pending.length > 0 ? await this.bookTransactions(pending) : 0;
+      
+      // 2. Move the cursors that are behind forward, in one batch update
+      if (cursors.size > 0) {
+        const column = columnLetter((await this.getLoanColumns()).lastProcessed);
+        const cursorResponse = await this.request(`/values/Loans!${column}2:${column}`);
+        const storedCursors: string[][] = (await cursorResponse.json()).values || [];
+        
+        const data: { range: string; values: string[][] }[] = [];
+        for (const [loanId, lastDate] of cursors) {
+          const rowNumber = await this.findRowNumber('Loans', loanId);
+          const storedCursor = parseDate((storedCursors[rowNumber - 2] || [])[0]);
+          
+          if (!storedCursor || storedCursor < (parseDate(lastDate) as Date)) {
+            data.push({ range: `Loans!${column}${rowNumber}`, values: [[lastDate]] });
+          }
+        }
+        
+        if (data.length > 0) {
+          await this.request('/values:batchUpdate', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+              valueInputOption: 'USER_ENTERED',
+              data
+            })
+          });
+        }
+      }
+      
+      return createdCount;
+    } catch (error) {
+      console.error('Error processing due loan payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches all categorization rules from the Rules sheet
+   * A failed read throws, so that transactions are never added as if there were no rules.
+   * @async
+   * @returns {Promise<CategorizationRule[]>} Array of rules, empty if the spreadsheet has no Rules sheet yet
+   * @throws {Error} If API call fails
+   */
+  async getRules(): Promise<CategorizationRule[]> {
+    if (this.rulesCache) {
+      return this.rulesCache;
+    }
+    
+    try {
+      // The Rules sheet is only created when the first rule is added
+      if ((await this.getSheetIds()).Rules === undefined) {
+        return [];
+      }
+      
+      const columns = await this.getRuleColumns();
+      const response = await this.request(`/values/Rules!A2:${lastRuleColumn(columns)}`);
+      const rows: any[][] = (await response.json()).values || [];
+      
+      const rules = rows.map((row, index): CategorizationRule => {
+        const cell = (field: RuleField) => row[columns[field]] ?? '';
+        const activeValue = String(cell('active'));
+        const matchType = String(cell('matchType')).trim();
+        
+        return {
+          id: cell('id') || `rule-${index + 2}`,
+          name: cell('name'),
+          descriptionPattern: cell('descriptionPattern') || undefined,
+          matchType: isRuleMatchType(matchType) ? matchType : 'contains',
+          account: cell('account') || undefined,
+          minAmount: this.parseCurrencyValue(cell('minAmount')),
+          maxAmount: this.parseCurrencyValue(cell('maxAmount')),
+          category: cell('category') || undefined,
+          subcategory: cell('subcategory') || undefined,
+          tags: cell('tags') ? parseTags(String(cell('tags'))) : undefined,
+          notes: cell('notes') || undefined,
+          priority: parseInt(cell('priority'), 10) || 0,
+          active: activeValue === 'TRUE' || activeValue === 'true' || activeValue === '1'
+        };
+      });
+      
+      this.rulesCache = rules;
+      return rules;
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a new categorization rule to the Rules sheet, creating the sheet if needed
+   * @async
+   * @param {CategorizationRule} rule - The rule to add
+   * @returns {Promise<void>}
+   * @throws {Error} If API call fails
+   */
+  async addRule(rule: CategorizationRule): Promise<void> {
+    try {
+      await this.ensureSheet('Rules');
+      const columns = await this.getRuleColumns();
+      
+      await this.request(
+        `/values/Rules!A2:${lastRuleColumn(columns)}:append?valueInputOption=USER_ENTERED`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            values: [toRuleRow({ ...rule, id: rule.id || crypto.randomUUID() }, columns)]
+          })
+        }
+      );
+      
       // Invalidate cache
-      this.recurringTransactionsCache = null;
+      this.rulesCache = null;
     } catch (error) {
-      console.error('Error updating recurring transaction status:', error);
+      console.error('Error adding rule:', error);
       throw error;
     }
   }
 
   /**
-   * Invalidates the recurring transactions cache
-   * Forces a refresh of recurring transaction data on next getRecurringTransactions call
+   * Updates a categorization rule's row in the Rules sheet
+   * @async
+   * @param {CategorizationRule} rule - The updated rule, identified by its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
    */
-  invalidateRecurringTransactionsCache(): void {
-    this.recurringTransactionsCache = null;
+  async updateRule(rule: CategorizationRule): Promise<void> {
+    if (!rule.id) {
+      throw new Error('Rule ID is required');
+    }
+    
+    try {
+      const rowNumber = await this.findRowNumber('Rules', rule.id);
+      const id = LEGACY_ID_PATTERN.test(rule.id) ? crypto.randomUUID() : rule.id;
+      const columns = await this.getRuleColumns();
+      
+      await this.request(
+        `/values/Rules!A${rowNumber}:${lastRuleColumn(columns)}${rowNumber}?valueInputOption=USER_ENTERED`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            values: [toRuleRow({ ...rule, id }, columns)]
+          })
+        }
+      );
+      
+      // Invalidate cache
+      this.rulesCache = null;
+    } catch (error) {
+      console.error('Error updating rule:', error);
+      throw error;
+    }
   }
-}
 
-/** 
- * Singleton instance of GoogleSheetsService
- * @const googleSheets
- */
-export const googleSheets = new GoogleSheetsService();
\ No newline at end of file
+  /**
+   * Deletes a categorization rule's row from the Rules sheet
+   * @async
+   * @param {string} ruleId - The ID of the rule to delete
+   * @returns {Promise<void>}
+   * @throws {Error} If the ID is unknown or the API call fails
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    try {
+      const rowNumber = await this.findRowNumber('Rules', ruleId);
+      await this.deleteRow('Rules', rowNumber);
+      
+      // Invalidate cache
+      this.rulesCache = null;
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies the categorization rules to every uncategorized transaction, writing the changed rows in a single batch update
+   * @async
+   * @returns {Promise<number>} Number of transactions changed
+   * @throws {Error} If API call fails
+   */
+  async applyRulesToUncategorized(): Promise<number> {
+    try {
+      const rules = await this.getRules();
+      if (rules.length === 0) {
+        return 0;
+      }
+      
+      const changed = (await this.getTransactions())
+        .filter(isUncategorized)
+        .flatMap(transaction => {
+          const categorized = applyRules(transaction, rules);
+          return categorized === transaction ? [] : [categorized];
+        });
+      
+      await this.updateTransactions(changed);
+      return changed.length;
+    } catch (error) {
+      console.error('Error applying rules to uncategorized transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assigns a persisted UUID to every Transactions and Recurring row that has none
+   * Also writes the ID column headers. Safe to run repeatedly.
+   * @async
+   * @returns {Promise<number>} Number of rows that received an ID
+   * @throws {Error} If API call fails
+   */
+  async backfillIds(): Promise<number> {
+    try {
+      const data: { range: string; values: string[][] }[] = [];
+      let assigned = 0;
+      
+      for (const sheet of ['Transactions', 'Recurring'] as IdentifiedSheet[]) {
+        const idIndex = await this.getIdColumnIndex(sheet);
+        const column = columnLetter(idIndex);
+        const response = await this.request(`/values/${sheet}!A2:${column}`);
+        const rows: string[][] = (await response.json()).values || [];
+        
+        data.push({ range: `${sheet}!${column}1`, values: [['ID']] });
+        
+        rows.forEach((row, index) => {
+          const isEmpty = !row.some(cell => cell !== '');
+          if (!isEmpty && !row[idIndex]) {
+            data.push({ range: `${sheet}!${column}${index + 2}`, values: [[crypto.randomUUID()]] });
+            assigned++;
+          }
+        });
+      }
+      
+      await this.request('/values:batchUpdate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          valueInputOption: 'RAW',
+          data
+        })
+      });
+      
+      // Invalidate cache
+      this.recurringTransactionsCache = null;
+      return assigned;
+    } catch (error) {
+      console.error('Error backfilling record IDs:', error);
+      throw error;
+    }
+  }
+}
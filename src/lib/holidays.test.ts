@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { adjustToBusinessDay, getHolidayName, getHolidays, isBusinessDay } from './holidays';
+import { formatDate, parseDate } from './recurrence';
+import type { BusinessDayAdjustment, HolidayCalendar } from './types';
+
+const adjust = (date: string, policy?: BusinessDayAdjustment, calendar?: HolidayCalendar): string =>
+  formatDate(adjustToBusinessDay(parseDate(date)!, policy, calendar));
+
+describe('getHolidays', () => {
+  it('places the Easter holidays of Germany', () => {
+    const holidays = getHolidays('DE', 2025).map(holiday => `${holiday.date} ${holiday.name}`);
+
+    expect(holidays).toContain('2025-04-18 Karfreitag');
+    expect(holidays).toContain('2025-04-21 Ostermontag');
+    expect(holidays).toContain('2025-05-29 Christi Himmelfahrt');
+    expect(holidays).toContain('2025-06-09 Pfingstmontag');
+    expect(holidays).toHaveLength(9);
+  });
+
+  it("moves King's Day off Sundays and has Liberation Day in lustrum years only", () => {
+    const dates = (year: number) => getHolidays('NL', year).map(holiday => holiday.date);
+
+    expect(dates(2025)).toContain('2025-04-26');
+    expect(dates(2025)).toContain('2025-05-05');
+    expect(dates(2024)).toContain('2024-04-27');
+    expect(dates(2024)).not.toContain('2024-05-05');
+  });
+
+  it('lists US federal holidays on the day they are observed', () => {
+    expect(getHolidayName(parseDate('2021-12-31')!, 'US')).toBe("New Year's Day");
+    expect(getHolidays('US', 2022).map(holiday => holiday.date)).not.toContain('2022-01-01');
+    expect(getHolidayName(parseDate('2022-12-26')!, 'US')).toBe('Christmas Day');
+    expect(getHolidayName(parseDate('2024-11-28')!, 'US')).toBe('Thanksgiving Day');
+    expect(getHolidays('US', 2020).some(holiday => holiday.name.startsWith('Juneteenth'))).toBe(false);
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('rejects weekends, and holidays of the given calendar only', () => {
+    expect(isBusinessDay(parseDate('2024-06-01')!)).toBe(false);
+    expect(isBusinessDay(parseDate('2024-07-04')!)).toBe(true);
+    expect(isBusinessDay(parseDate('2024-07-04')!, 'US')).toBe(false);
+    expect(isBusinessDay(parseDate('2024-07-04')!, 'DE')).toBe(true);
+  });
+});
+
+describe('adjustToBusinessDay', () => {
+  it('keeps business days and the scheduled day without a policy', () => {
+    expect(adjust('2024-06-03', 'previous')).toBe('2024-06-03');
+    expect(adjust('2024-06-01')).toBe('2024-06-01');
+  });
+
+  it('moves weekends back or forward', () => {
+    expect(adjust('2024-06-02', 'previous')).toBe('2024-05-31');
+    expect(adjust('2024-06-01', 'next')).toBe('2024-06-03');
+  });
+
+  it('picks the nearest business day, preferring the earlier one on a tie', () => {
+    expect(adjust('2024-06-01', 'nearest')).toBe('2024-05-31');
+    expect(adjust('2024-06-02', 'nearest')).toBe('2024-06-03');
+    expect(adjust('2024-07-04', 'nearest', 'US')).toBe('2024-07-03');
+  });
+
+  it('skips several holidays in a row', () => {
+    expect(adjust('2024-12-25', 'next', 'DE')).toBe('2024-12-27');
+  });
+});
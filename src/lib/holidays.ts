@@ -0,0 +1,252 @@
+/**
+ * Bundled public holiday calendars and business-day adjustment
+ *
+ * Holidays are calculated from their rules (fixed dates, Easter offsets and
+ * weekday positions), so the calendars work offline and for any year.
+ */
+
+import { addDays, format } from 'date-fns';
+import type { BusinessDayAdjustment, HolidayCalendar } from './types';
+
+/**
+ * A public holiday
+ * @interface Holiday
+ */
+export interface Holiday {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Name of the holiday */
+  name: string;
+}
+
+/** Display names of the bundled calendars */
+export const HOLIDAY_CALENDARS: Record<HolidayCalendar, string> = {
+  DE: 'Germany',
+  NL: 'Netherlands',
+  US: 'United States'
+};
+
+/** Display names of the adjustment policies */
+export const BUSINESS_DAY_ADJUSTMENTS: Record<BusinessDayAdjustment, string> = {
+  none: 'Keep the scheduled day',
+  previous: 'Previous business day',
+  next: 'Next business day',
+  nearest: 'Nearest business day'
+};
+
+/** Adjustment never searches further than this many days */
+export const MAX_ADJUSTMENT_DAYS = 14;
+
+/** Holidays by calendar and year, keyed by date */
+const holidayCache = new Map<string, Map<string, string>>();
+
+/**
+ * Calculates Easter Sunday with the anonymous Gregorian algorithm
+ * @param {number} year - The year
+ * @returns {Date} Easter Sunday
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Finds the n-th weekday of a month
+ * @param {number} year - The year
+ * @param {number} month - The month (0-11)
+ * @param {number} weekday - Day of week (0-6, 0 is Sunday)
+ * @param {number} n - Position, -1 for the last
+ * @returns {Date} The date
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = new Date(year, month + 1, 0);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+
+  const first = new Date(year, month, 1);
+  return addDays(first, (weekday - first.getDay() + 7) % 7 + (n - 1) * 7);
+}
+
+/**
+ * Moves a US federal holiday on a weekend to the day it is observed
+ * @param {Date} date - The holiday
+ * @returns {Date} Friday for Saturdays, Monday for Sundays, otherwise the date itself
+ */
+function observed(date: Date): Date {
+  if (date.getDay() === 6) return addDays(date, -1);
+  if (date.getDay() === 0) return addDays(date, 1);
+  return date;
+}
+
+/** Holiday rules of each calendar, returning [date, name] pairs for a year */
+const CALENDAR_RULES: Record<HolidayCalendar, (year: number) => [Date, string][]> = {
+  // Nationwide public holidays
+  DE: year => {
+    const easter = easterSunday(year);
+    return [
+      [new Date(year, 0, 1), 'Neujahr'],
+      [addDays(easter, -2), 'Karfreitag'],
+      [addDays(easter, 1), 'Ostermontag'],
+      [new Date(year, 4, 1), 'Tag der Arbeit'],
+      [addDays(easter, 39), 'Christi Himmelfahrt'],
+      [addDays(easter, 50), 'Pfingstmontag'],
+      [new Date(year, 9, 3), 'Tag der Deutschen Einheit'],
+      [new Date(year, 11, 25), '1. Weihnachtstag'],
+      [new Date(year, 11, 26), '2. Weihnachtstag']
+    ];
+  },
+
+  // Official holidays; Liberation Day is a day off in lustrum years only
+  NL: year => {
+    const easter = easterSunday(year);
+    const kingsDay = new Date(year, 3, 27);
+    const holidays: [Date, string][] = [
+      [new Date(year, 0, 1), 'Nieuwjaarsdag'],
+      [addDays(easter, -2), 'Goede Vrijdag'],
+      [easter, 'Eerste Paasdag'],
+      [addDays(easter, 1), 'Tweede Paasdag'],
+      [kingsDay.getDay() === 0 ? addDays(kingsDay, -1) : kingsDay, 'Koningsdag'],
+      [addDays(easter, 39), 'Hemelvaartsdag'],
+      [addDays(easter, 49), 'Eerste Pinksterdag'],
+      [addDays(easter, 50), 'Tweede Pinksterdag'],
+      [new Date(year, 11, 25), 'Eerste Kerstdag'],
+      [new Date(year, 11, 26), 'Tweede Kerstdag']
+    ];
+    if (year % 5 === 0) {
+      holidays.push([new Date(year, 4, 5), 'Bevrijdingsdag']);
+    }
+    return holidays;
+  },
+
+  // Federal holidays, on the day they are observed
+  US: year => {
+    const holidays: [Date, string][] = [
+      [observed(new Date(year, 0, 1)), "New Year's Day"],
+      [nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day'],
+      [nthWeekday(year, 1, 1, 3), "Washington's Birthday"],
+      [nthWeekday(year, 4, 1, -1), 'Memorial Day'],
+      [observed(new Date(year, 6, 4)), 'Independence Day'],
+      [nthWeekday(year, 8, 1, 1), 'Labor Day'],
+      [nthWeekday(year, 9, 1, 2), 'Columbus Day'],
+      [observed(new Date(year, 10, 11)), 'Veterans Day'],
+      [nthWeekday(year, 10, 4, 4), 'Thanksgiving Day'],
+      [observed(new Date(year, 11, 25)), 'Christmas Day'],
+      // Next year's New Year's Day is observed on December 31st when it falls on a Saturday
+      [observed(new Date(year + 1, 0, 1)), "New Year's Day"]
+    ];
+    if (year >= 2021) {
+      holidays.push([observed(new Date(year, 5, 19)), 'Juneteenth National Independence Day']);
+    }
+    return holidays;
+  }
+};
+
+/**
+ * Returns a calendar's holidays in a year, keyed by date
+ * @param {HolidayCalendar} calendar - The calendar
+ * @param {number} year - The year
+ * @returns {Map<string, string>} Holiday names keyed by YYYY-MM-DD date
+ */
+function holidaysByDate(calendar: HolidayCalendar, year: number): Map<string, string> {
+  const key = `${calendar}-${year}`;
+  let holidays = holidayCache.get(key);
+
+  if (!holidays) {
+    holidays = new Map();
+    for (const [date, name] of CALENDAR_RULES[calendar](year)) {
+      if (date.getFullYear() === year) {
+        holidays.set(format(date, 'yyyy-MM-dd'), name);
+      }
+    }
+    holidayCache.set(key, holidays);
+  }
+
+  return holidays;
+}
+
+/**
+ * Lists a calendar's holidays in a year
+ * @param {HolidayCalendar} calendar - The calendar
+ * @param {number} year - The year
+ * @returns {Holiday[]} Holidays in date order
+ */
+export function getHolidays(calendar: HolidayCalendar, year: number): Holiday[] {
+  return Array.from(holidaysByDate(calendar, year), ([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Checks whether a value names a bundled calendar
+ * @param {string} value - The value
+ * @returns {boolean} True for a known calendar code
+ */
+export function isHolidayCalendar(value: string): value is HolidayCalendar {
+  return Object.prototype.hasOwnProperty.call(HOLIDAY_CALENDARS, value);
+}
+
+/**
+ * Checks whether a value names an adjustment policy
+ * @param {string} value - The value
+ * @returns {boolean} True for a known policy
+ */
+export function isBusinessDayAdjustment(value: string): value is BusinessDayAdjustment {
+  return Object.prototype.hasOwnProperty.call(BUSINESS_DAY_ADJUSTMENTS, value);
+}
+
+/**
+ * Returns the name of the holiday on a date
+ * @param {Date} date - The date
+ * @param {HolidayCalendar} [calendar] - The calendar, none for weekends only
+ * @returns {string|undefined} The holiday's name, or undefined if the date is no holiday
+ */
+export function getHolidayName(date: Date, calendar?: HolidayCalendar): string | undefined {
+  return calendar ? holidaysByDate(calendar, date.getFullYear()).get(format(date, 'yyyy-MM-dd')) : undefined;
+}
+
+/**
+ * Checks whether a date is a business day: a weekday that is not a holiday
+ * @param {Date} date - The date
+ * @param {HolidayCalendar} [calendar] - The calendar, none for weekends only
+ * @returns {boolean} True for business days
+ */
+export function isBusinessDay(date: Date, calendar?: HolidayCalendar): boolean {
+  return date.getDay() !== 0 && date.getDay() !== 6 && !getHolidayName(date, calendar);
+}
+
+/**
+ * Moves a date that is not a business day according to an adjustment policy
+ * The nearest policy prefers the earlier day when both are equally far away.
+ * @param {Date} date - The scheduled date
+ * @param {BusinessDayAdjustment} [policy] - The policy, none by default
+ * @param {HolidayCalendar} [calendar] - The calendar, none for weekends only
+ * @returns {Date} The adjusted date, or the date itself if it is a business day or the policy is none
+ */
+export function adjustToBusinessDay(date: Date, policy: BusinessDayAdjustment = 'none', calendar?: HolidayCalendar): Date {
+  if (policy === 'none' || isBusinessDay(date, calendar)) {
+    return date;
+  }
+
+  for (let distance = 1; distance <= MAX_ADJUSTMENT_DAYS; distance++) {
+    const earlier = addDays(date, -distance);
+    const later = addDays(date, distance);
+
+    if (policy !== 'next' && isBusinessDay(earlier, calendar)) return earlier;
+    if (policy !== 'previous' && isBusinessDay(later, calendar)) return later;
+  }
+
+  return date;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildRecurringCalendar } from './icalendar';
+import type { RecurringTransaction } from './types';
+import { buildRecurring } from '../test/fixtures';
+
+const recurring = (fields: Partial<RecurringTransaction> = {}): RecurringTransaction =>
+  buildRecurring({ startDate: '2024-06-01', ...fields });
+
+const NOW = new Date(Date.UTC(2024, 5, 1, 12));
+
+/**
+ * Builds a calendar and returns its content lines, unfolded
+ */
+const calendarLines = (templates: RecurringTransaction[]): string[] =>
+  buildRecurringCalendar(templates, NOW).replace(/\r\n /g, '').split('\r\n');
+
+/**
+ * Returns the value of the first property with a name, e.g. RRULE
+ */
+const property = (lines: string[], name: string): string | undefined =>
+  lines.find(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`))?.replace(/^[^:]*:/, '');
+
+describe('buildRecurringCalendar', () => {
+  it('exports an all-day event per active template with its schedule as an RRULE', () => {
+    const lines = calendarLines([recurring(), recurring({ id: 'old', active: false })]);
+
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(property(lines, 'UID')).toBe('rent@penny-fincher');
+    expect(property(lines, 'DTSTAMP')).toBe('20240601T120000Z');
+    expect(property(lines, 'DTSTART')).toBe('20240601');
+    expect(property(lines, 'DTEND')).toBe('20240602');
+    expect(property(lines, 'RRULE')).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+    expect(property(lines, 'DESCRIPTION')).toBe('Amount: €1\\,200.00\\nAccount: Bank\\nCategory: Housing / Rent');
+    expect(lines[lines.length - 1]).toBe('');
+  });
+
+  it('replaces occurrences moved off weekends with their due dates', () => {
+    const lines = calendarLines([recurring({ businessDayAdjustment: 'next' })]);
+
+    // June 1 and September 1, 2024 fall on a weekend
+    expect(property(lines, 'EXDATE')?.split(',').slice(0, 2)).toEqual(['20240601', '20240901']);
+    expect(property(lines, 'RDATE')?.split(',').slice(0, 2)).toEqual(['20240603', '20240902']);
+  });
+
+  it('leaves out paused occurrences and exception dates', () => {
+    const lines = calendarLines([recurring({ pausedFrom: '2024-07-01', pausedUntil: '2024-09-01', exceptionDates: ['2027-01-01'] })]);
+
+    expect(property(lines, 'EXDATE')).toBe('20240701,20240801,20270101');
+  });
+
+  it('ends a counted series at the end date with UNTIL', () => {
+    const lines = calendarLines([recurring({ startDate: '2024-01-15', rrule: 'FREQ=MONTHLY;COUNT=24', endDate: '2024-03-31' })]);
+
+    expect(property(lines, 'RRULE')).toBe('FREQ=MONTHLY;UNTIL=20240315');
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    const calendar = buildRecurringCalendar([recurring({ description: 'Rent; flat, 2', notes: 'Ünïcode '.repeat(12) })], NOW);
+    const folded = calendar.split('\r\n');
+
+    expect(folded).toContain('SUMMARY:Rent\\; flat\\, 2');
+    expect(folded.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(calendar).not.toContain('�');
+    expect(property(calendarLines([recurring({ notes: 'Ünïcode '.repeat(12) })]), 'DESCRIPTION')).toContain('Ünïcode '.repeat(12));
+  });
+
+  it('leaves out templates without occurrences', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(calendarLines([recurring({ rrule: 'FREQ=HOURLY' })])).not.toContain('BEGIN:VEVENT');
+    expect(calendarLines([recurring({ endDate: '2024-05-31' })])).not.toContain('BEGIN:VEVENT');
+    warn.mockRestore();
+  });
+});
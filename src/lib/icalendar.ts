@@ -0,0 +1,235 @@
+/**
+ * iCalendar (RFC 5545) export of recurring templates
+ *
+ * Every active template becomes an all-day VEVENT whose RRULE is the template's
+ * schedule, so calendar apps show its occurrences without a fixed list of dates.
+ * Occurrences moved by a business-day adjustment cannot be expressed in an RRULE;
+ * within the next few years they are replaced by EXDATE/RDATE pairs instead.
+ * Skipped occurrences, while the template is paused or on its exception dates,
+ * become EXDATEs.
+ */
+
+import { addDays, addYears, format } from 'date-fns';
+import type { RecurringTransaction } from './types';
+import { getRecurrenceRule, isSkippedOccurrence, occurrencesAfter, parseDate } from './recurrence';
+import { getExpectedAmount } from './recurringProcessing';
+import { formatRRule } from './rrule';
+
+/** Product identifier written to exported calendars */
+const PRODUCT_ID = '-//PennyFincher//Recurring Bills//EN';
+
+/** Domain part of event UIDs, which makes them globally unique together with the template ID */
+const UID_DOMAIN = 'penny-fincher';
+
+/** Adjusted occurrences are listed explicitly this many years ahead */
+const ADJUSTMENT_HORIZON_YEARS = 2;
+
+/** Lines longer than this many octets are folded */
+const MAX_LINE_OCTETS = 75;
+
+/** Encodes characters to count their UTF-8 octets */
+const encoder = new TextEncoder();
+
+/**
+ * Escapes a TEXT value
+ * @param {string} value - The value
+ * @returns {string} The escaped value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets, continued with a leading space
+ * Multi-byte characters are never split.
+ * @param {string} line - The content line
+ * @returns {string} The folded line, joined with CRLF
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Formats a date as an iCalendar DATE value
+ * @param {Date} date - The date
+ * @returns {string} Date in YYYYMMDD format
+ */
+function formatIcsDate(date: Date): string {
+  return format(date, 'yyyyMMdd');
+}
+
+/**
+ * Formats an amount for an event description
+ * @param {number} amount - The amount
+ * @param {string} currency - ISO currency code
+ * @returns {string} The formatted amount
+ */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2
+  }).format(amount);
+}
+
+/**
+ * Returns the stable UID of a template's event
+ * @param {string} templateId - ID of the recurring template
+ * @returns {string} The UID
+ */
+export function getEventUid(templateId: string): string {
+  return `${templateId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Builds the description of a template's event: amount, account, category and notes
+ * @param {RecurringTransaction} template - The recurring template
+ * @returns {string} Description lines
+ */
+function describeTemplate(template: RecurringTransaction): string {
+  const { amountEUR, amountUSD } = getExpectedAmount(template);
+  const amounts = [
+    amountEUR !== undefined ? formatAmount(amountEUR, 'EUR') : null,
+    amountUSD !== undefined ? formatAmount(amountUSD, 'USD') : null
+  ].filter(Boolean).join(' / ');
+
+  const lines = [
+    `Amount: ${amounts || '-'}${template.amountMode && template.amountMode !== 'fixed' ? ' (estimate)' : ''}`,
+    `Account: ${template.account}`
+  ];
+  if (template.category) {
+    lines.push(`Category: ${template.category}${template.subcategory ? ` / ${template.subcategory}` : ''}`);
+  }
+  if (template.notes) {
+    lines.push(`Notes: ${template.notes}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds the VEVENT of a template
+ * @param {RecurringTransaction} template - The recurring template
+ * @param {Date} now - Time the calendar is generated, for DTSTAMP and the adjustment horizon
+ * @returns {string[]|null} Content lines, or null if the template has no occurrences
+ */
+function buildEvent(template: RecurringTransaction, now: Date): string[] | null {
+  // The series follows the full schedule; skipped occurrences are excluded below
+  const series = { ...template, pausedFrom: undefined, pausedUntil: undefined, exceptionDates: undefined };
+
+  // Templates with an invalid RRULE have no occurrences, so the rule is valid past this check
+  const first = occurrencesAfter(series, null).next();
+  const schedule = first.done ? null : getRecurrenceRule(series);
+  if (!template.id || !schedule || first.done || occurrencesAfter(template, null).next().done) {
+    return null;
+  }
+
+  // The end date ends the series; an RRULE cannot have both COUNT and UNTIL
+  const rule = { ...schedule.rule };
+  const endDate = parseDate(template.endDate);
+  if (endDate && (!rule.until || endDate < rule.until)) {
+    if (rule.count !== undefined) {
+      let last = first.value.scheduled;
+      for (const occurrence of occurrencesAfter(series, null)) {
+        last = occurrence.scheduled;
+      }
+      rule.count = undefined;
+      rule.until = last;
+    } else {
+      rule.until = endDate;
+    }
+  }
+
+  const start = first.value.scheduled;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(template.id)}`,
+    `DTSTAMP:${now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`,
+    `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+    `DTEND;VALUE=DATE:${formatIcsDate(addDays(start, 1))}`,
+    `RRULE:${formatRRule(rule)}`
+  ];
+
+  // Replace occurrences moved off weekends and holidays by their due dates, and leave
+  // out skipped ones however far ahead they are
+  const horizon = [
+    addYears(now, ADJUSTMENT_HORIZON_YEARS),
+    parseDate(template.pausedUntil),
+    ...(template.exceptionDates || []).map(date => parseDate(date))
+  ].reduce<Date>((latest, date) => (date && date > latest ? date : latest), now);
+  const excluded: string[] = [];
+  const added: string[] = [];
+  for (const occurrence of occurrencesAfter(series, null)) {
+    if (occurrence.scheduled > horizon) break;
+    if (isSkippedOccurrence(template, occurrence.scheduled)) {
+      excluded.push(formatIcsDate(occurrence.scheduled));
+    } else if (occurrence.due.getTime() !== occurrence.scheduled.getTime()) {
+      excluded.push(formatIcsDate(occurrence.scheduled));
+      added.push(formatIcsDate(occurrence.due));
+    }
+  }
+  if (excluded.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${excluded.join(',')}`);
+  }
+  if (added.length > 0) {
+    lines.push(`RDATE;VALUE=DATE:${added.join(',')}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(template.description)}`,
+    `DESCRIPTION:${escapeText(describeTemplate(template))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  );
+
+  return lines;
+}
+
+/**
+ * Builds an iCalendar file with one recurring event per active template
+ * @param {RecurringTransaction[]} templates - The recurring templates; inactive ones are left out
+ * @param {Date} [now] - Time the calendar is generated, defaults to now
+ * @returns {string} The calendar, with CRLF line endings and folded lines
+ */
+export function buildRecurringCalendar(templates: RecurringTransaction[], now: Date = new Date()): string {
+  const events = templates
+    .filter(template => template.active)
+    .map(template => buildEvent(template, now))
+    .filter((event): event is string[] => event !== null);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:PennyFincher Bills',
+    ...events.flat(),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,116 @@
+/**
+ * Layout of the Loans sheet
+ *
+ * Like the Recurring sheet, columns are located by their header name, so they can
+ * be reordered and new ones are appended when missing. Extra payments are kept in a
+ * single cell as "date=amount" pairs separated by semicolons, e.g.
+ * "2024-05-01=1000; 2024-08-01=500".
+ */
+
+import type { ExtraPayment, Loan } from './types';
+import { columnLetter } from './recurringSheet';
+
+/**
+ * Header name of the column storing each loan field
+ * The order is the column order used when the Loans sheet is created.
+ * @const LOAN_HEADERS
+ */
+export const LOAN_HEADERS = {
+  name: 'Name',
+  principal: 'Principal',
+  annualRate: 'Annual Rate (%)',
+  term: 'Term',
+  frequency: 'Frequency',
+  startDate: 'First Installment',
+  currency: 'Currency',
+  account: 'Account',
+  category: 'Category',
+  subcategory: 'Subcategory',
+  interestCategory: 'Interest Category',
+  interestSubcategory: 'Interest Subcategory',
+  extraPayments: 'Extra Payments',
+  notes: 'Notes',
+  lastProcessed: 'Last Processed',
+  active: 'Active',
+  id: 'ID'
+} as const;
+
+/**
+ * Loan fields persisted in the Loans sheet
+ * @type {LoanField}
+ */
+export type LoanField = keyof typeof LOAN_HEADERS;
+
+/**
+ * Zero-based column index of every persisted field
+ * @type {LoanColumns}
+ */
+export type LoanColumns = Record<LoanField, number>;
+
+/**
+ * Returns the letter of the last column used by any field
+ * @param {LoanColumns} columns - Column indices
+ * @returns {string} Column letter
+ */
+export function lastLoanColumn(columns: LoanColumns): string {
+  return columnLetter(Math.max(...Object.values(columns)));
+}
+
+/**
+ * Parses the Extra Payments cell
+ * Pairs that cannot be read are ignored.
+ * @param {string} value - The cell value
+ * @returns {ExtraPayment[]} The extra payments in date order
+ */
+export function parseExtraPayments(value: string): ExtraPayment[] {
+  return String(value || '')
+    .split(';')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([date, amount]) => /^\d{4}-\d{2}-\d{2}$/.test(date || '') && !isNaN(parseFloat(amount)))
+    .map(([date, amount]) => ({ date, amount: parseFloat(amount) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Formats extra payments for the Extra Payments cell
+ * @param {ExtraPayment[]} [payments] - The extra payments
+ * @returns {string} "date=amount" pairs separated by semicolons
+ */
+export function formatExtraPayments(payments: ExtraPayment[] = []): string {
+  return payments.map(payment => `${payment.date}=${payment.amount}`).join('; ');
+}
+
+/**
+ * Converts a loan into a Loans sheet row
+ * Columns that do not belong to a field are null, which leaves them untouched on write.
+ * @param {Loan} loan - The loan to convert
+ * @param {LoanColumns} columns - Column indices
+ * @returns {(string|number|null)[]} Row values
+ */
+export function toLoanRow(loan: Loan, columns: LoanColumns): (string | number | null)[] {
+  const values: Record<LoanField, string | number> = {
+    name: loan.name,
+    principal: loan.principal,
+    annualRate: loan.annualRate,
+    term: loan.term,
+    frequency: loan.frequency || 'monthly',
+    startDate: loan.startDate,
+    currency: loan.currency,
+    account: loan.account,
+    category: loan.category || '',
+    subcategory: loan.subcategory || '',
+    interestCategory: loan.interestCategory || '',
+    interestSubcategory: loan.interestSubcategory || '',
+    extraPayments: formatExtraPayments(loan.extraPayments),
+    notes: loan.notes || '',
+    lastProcessed: loan.lastProcessed || '',
+    active: loan.active ? 'TRUE' : 'FALSE',
+    id: loan.id || ''
+  };
+
+  const row: (string | number | null)[] = new Array(Math.max(...Object.values(columns)) + 1).fill(null);
+  (Object.keys(values) as LoanField[]).forEach(field => {
+    row[columns[field]] = values[field];
+  });
+  return row;
+}
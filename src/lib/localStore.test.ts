@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { LocalFinanceStore } from './localStore';
+import { buildRecurring, buildTransaction } from '../test/fixtures';
+
+describe('LocalFinanceStore', () => {
+  describe('transactions', () => {
+    it('returns added transactions newest first, with IDs and directions', async () => {
+      const store = new LocalFinanceStore();
+      await store.addTransaction(buildTransaction({ date: '2024-01-01', description: 'Older' }));
+      await store.addTransaction(buildTransaction({ date: '2024-02-01', description: 'Newer', amountEUR: -2000 }));
+
+      const transactions = await store.getTransactions();
+
+      expect(transactions.map(stored => stored.description)).toEqual(['Newer', 'Older']);
+      expect(transactions.every(stored => typeof stored.id === 'string' && stored.id.length > 0)).toBe(true);
+      expect(transactions.map(stored => stored.direction)).toEqual(['income', 'expense']);
+      expect(await store.countTransactions()).toBe(2);
+    });
+
+    it('keeps the ID a transaction is added with', async () => {
+      const store = new LocalFinanceStore();
+      await store.addTransaction(buildTransaction({ id: 'fixed-id' }));
+
+      expect((await store.getTransactions())[0].id).toBe('fixed-id');
+    });
+
+    it('updates and deletes a transaction by its ID', async () => {
+      const store = new LocalFinanceStore();
+      await store.addTransaction(buildTransaction({ id: 'coffee' }));
+
+      await store.updateTransaction(buildTransaction({ id: 'coffee', description: 'Espresso' }));
+      expect((await store.getTransactions())[0].description).toBe('Espresso');
+
+      await store.deleteTransaction('coffee');
+      expect(await store.getTransactions()).toEqual([]);
+    });
+
+    it('rejects updates of unknown transactions', async () => {
+      const store = new LocalFinanceStore();
+
+      await expect(store.updateTransaction(buildTransaction({ id: 'missing' }))).rejects.toThrow('Transaction missing not found');
+      await expect(store.updateTransactions([buildTransaction({ id: 'missing' })])).rejects.toThrow('Transaction missing not found');
+    });
+
+    it('keeps separate stores apart', async () => {
+      const first = new LocalFinanceStore();
+      const second = new LocalFinanceStore();
+      await first.addTransaction(buildTransaction());
+
+      expect(await second.countTransactions()).toBe(0);
+    });
+  });
+
+  describe('recurring transactions', () => {
+    it('creates one transaction per missed occurrence and records the last one as processed', async () => {
+      const store = new LocalFinanceStore();
+      await store.addRecurringTransaction(buildRecurring());
+
+      const created = await store.processDueRecurringTransactions(new Date(2024, 2, 15));
+      const transactions = await store.getTransactions();
+
+      expect(created).toBe(3);
+      expect(transactions.map(stored => stored.date)).toEqual(['2024-03-01', '2024-02-01', '2024-01-01']);
+      expect(transactions.every(stored => stored.recurringId === 'rent')).toBe(true);
+      expect((await store.getRecurringTransactions())[0].lastProcessed).toBe('2024-03-01');
+    });
+
+    it('does not book an occurrence twice when processing again', async () => {
+      const store = new LocalFinanceStore();
+      await store.addRecurringTransaction(buildRecurring());
+      const [template] = await store.getRecurringTransactions();
+
+      await store.processRecurringTransaction(template, new Date(2024, 1, 15));
+      // A stale copy of the template still has no Last Processed date
+      const created = await store.processRecurringTransaction(template, new Date(2024, 1, 15));
+
+      expect(created).toBe(0);
+      expect(await store.countTransactions()).toBe(2);
+    });
+
+    it('previews only occurrences that are not booked yet', async () => {
+      const store = new LocalFinanceStore();
+      await store.addRecurringTransaction(buildRecurring());
+      const [template] = await store.getRecurringTransactions();
+      await store.processRecurringTransaction(template, new Date(2024, 0, 15));
+
+      const due = await store.previewDueRecurringTransactions(new Date(2024, 1, 15));
+
+      expect(due.map(occurrence => occurrence.date)).toEqual(['2024-02-01']);
+    });
+
+    it('skips the occurrences of a pause and of exception dates', async () => {
+      const store = new LocalFinanceStore();
+      await store.addRecurringTransaction(buildRecurring({ lastProcessed: '2024-01-01' }));
+
+      await store.pauseRecurringTransaction('rent', '2024-04-01');
+      await store.setRecurringTransactionExceptions('rent', ['2024-05-01', '2024-05-01']);
+      const created = await store.processDueRecurringTransactions(new Date(2024, 5, 15));
+
+      expect(created).toBe(2);
+      expect((await store.getTransactions()).map(stored => stored.date)).toEqual(['2024-06-01', '2024-04-01']);
+      expect((await store.getRecurringTransactions())[0]).toMatchObject({
+        pausedFrom: '2024-01-02',
+        pausedUntil: '2024-04-01',
+        exceptionDates: ['2024-05-01']
+      });
+    });
+
+    it('resumes the schedule when a pause is ended', async () => {
+      const store = new LocalFinanceStore();
+      await store.addRecurringTransaction(buildRecurring({ lastProcessed: '2024-01-01' }));
+      await store.pauseRecurringTransaction('rent', '2024-04-01');
+
+      await store.pauseRecurringTransaction('rent', null);
+
+      expect(await store.processDueRecurringTransactions(new Date(2024, 1, 15))).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,848 @@
+import type { Transaction, RecurringTransaction, CategoryData, Loan, CategorizationRule } from './types';
+import type { FinanceStore } from './financeStore';
+import {
+  copyRecurringTransaction,
+  getDueOccurrences,
+  getNextDueDate,
+  getPause,
+  getReviewedCursors,
+  getReviewedSnoozes,
+  reviewWithoutQueue,
+  splitRecurringTransaction,
+  withAmountEstimates
+} from './recurringProcessing';
+import type { DueOccurrence, ReviewedOccurrence } from './recurringProcessing';
+import { parseDate } from './recurrence';
+import { getDueLoanTransactions } from './amortization';
+import { expandSplitTransaction, groupSplitTransactions } from './splits';
+import { expandTransfer, groupTransfers } from './transfers';
+import { getTransactionDirection } from './cashFlow';
+import { applyRules, isUncategorized } from './rules';
+
+/**
+ * Names of the object stores kept in the local database
+ * @type {string[]}
+ */
+const STORE_NAMES = ['transactions', 'recurring', 'categories', 'loans', 'rules'] as const;
+
+/**
+ * Name of a local object store
+ * @type {LocalStoreName}
+ */
+type LocalStoreName = typeof STORE_NAMES[number];
+
+/**
+ * Schema version of the local IndexedDB database
+ * Bump this whenever an object store is added to STORE_NAMES.
+ * @type {number}
+ */
+const DB_VERSION = 3;
+
+/**
+ * Category row as stored in the local database
+ * @interface LocalCategoryRecord
+ */
+interface LocalCategoryRecord {
+  /** Unique key made of category and subcategory */
+  id: string;
+  /** Primary category */
+  category: string;
+  /** Optional subcategory */
+  subcategory?: string;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param {IDBRequest<T>} request - The request to wait for
+ * @returns {Promise<T>} The request result
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Offline FinanceStore implementation backed by IndexedDB
+ *
+ * Falls back to plain in-memory maps when IndexedDB is not available
+ * (Node scripts, tests), which makes it usable as an in-memory store too.
+ * @class LocalFinanceStore
+ * @implements {FinanceStore}
+ */
+export class LocalFinanceStore implements FinanceStore {
+  /** Name of the IndexedDB database */
+  private databaseName: string;
+  /** Lazily opened database connection, null when IndexedDB is unavailable */
+  private database: Promise<IDBDatabase | null> | null = null;
+  /** In-memory fallback used when IndexedDB is unavailable */
+  private memory: Record<LocalStoreName, Map<string, unknown>> = {
+    transactions: new Map(),
+    recurring: new Map(),
+    categories: new Map(),
+    loans: new Map(),
+    rules: new Map()
+  };
+
+  /**
+   * Creates a local store
+   * @constructor
+   * @param {string} [databaseName='penny-fincher'] - Name of the IndexedDB database
+   */
+  constructor(databaseName: string = 'penny-fincher') {
+    this.databaseName = databaseName;
+  }
+
+  /**
+   * Opens (and creates or upgrades) the IndexedDB database
+   * @private
+   * @async
+   * @returns {Promise<IDBDatabase|null>} The database, or null when IndexedDB is unavailable
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'id' });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Reads every record of an object store
+   * @private
+   * @async
+   * @param {LocalStoreName} storeName - The object store to read
+   * @returns {Promise<T[]>} All records in the store
+   */
+  private async readAll<T>(storeName: LocalStoreName): Promise<T[]> {
+    const db = await this.openDatabase();
+
+    if (!db) {
+      return Array.from(this.memory[storeName].values()) as T[];
+    }
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return requestToPromise(store.getAll() as IDBRequest<T[]>);
+  }
+
+  /**
+   * Reads a single record by key
+   * @private
+   * @async
+   * @param {LocalStoreName} storeName - The object store to read
+   * @param {string} id - Key of the record
+   * @returns {Promise<T|undefined>} The record, or undefined if it does not exist
+   */
+  private async read<T>(storeName: LocalStoreName, id: string): Promise<T | undefined> {
+    const db = await this.openDatabase();
+
+    if (!db) {
+      return this.memory[storeName].get(id) as T | undefined;
+    }
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+  }
+
+  /**
+   * Inserts or replaces a record
+   * @private
+   * @async
+   * @param {LocalStoreName} storeName - The object store to write to
+   * @param {T} record - The record to write, keyed by its id
+   * @returns {Promise<void>}
+   */
+  private async write<T extends { id?: string }>(storeName: LocalStoreName, record: T): Promise<void> {
+    if (!record.id) {
+      throw new Error(`Cannot store a ${storeName} record without an ID`);
+    }
+
+    const db = await this.openDatabase();
+
+    if (!db) {
+      this.memory[storeName].set(record.id, { ...record });
+      return;
+    }
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(store.put(record));
+  }
+
+  /**
+   * Inserts or replaces several records in a single database transaction
+   * @private
+   * @async
+   * @param {LocalStoreName} storeName - The object store to write to
+   * @param {T[]} records - The records to write, keyed by their id
+   * @returns {Promise<void>}
+   */
+  private async writeAll<T extends { id?: string }>(storeName: LocalStoreName, records: T[]): Promise<void> {
+    if (records.some(record => !record.id)) {
+      throw new Error(`Cannot store a ${storeName} record without an ID`);
+    }
+
+    const db = await this.openDatabase();
+
+    if (!db) {
+      records.forEach(record => this.memory[storeName].set(record.id as string, { ...record }));
+      return;
+    }
+
+    const transaction = db.transaction(storeName, 'readwrite');
+    records.forEach(record => transaction.objectStore(storeName).put(record));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Deletes a record by key
+   * @private
+   * @async
+   * @param {LocalStoreName} storeName - The object store to delete from
+   * @param {string} id - Key of the record
+   * @returns {Promise<void>}
+   */
+  private async remove(storeName: LocalStoreName, id: string): Promise<void> {
+    const db = await this.openDatabase();
+
+    if (!db) {
+      this.memory[storeName].delete(id);
+      return;
+    }
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(store.delete(id));
+  }
+
+  /**
+   * Reads a stored recurring transaction
+   * @private
+   * @async
+   * @param {string|undefined} id - ID of the recurring transaction
+   * @returns {Promise<RecurringTransaction>} The stored recurring transaction
+   * @throws {Error} If the ID is missing or unknown
+   */
+  private async getStoredRecurringTransaction(id?: string): Promise<RecurringTransaction> {
+    if (!id) {
+      throw new Error('Recurring transaction ID is required');
+    }
+
+    const stored = await this.read<RecurringTransaction>('recurring', id);
+    if (!stored) {
+      throw new Error(`Recurring transaction ${id} not found`);
+    }
+    return stored;
+  }
+
+  /**
+   * Fetches all transactions from the local database
+   * @async
+   * @returns {Promise<Transaction[]>} Array of transactions sorted by date (newest first)
+   */
+  async getTransactions(): Promise<Transaction[]> {
+    const transactions = await this.readAll<Transaction>('transactions');
+
+    // Transactions stored without a direction follow the sign convention
+    return transactions.map(transaction => ({
+      ...transaction,
+      direction: getTransactionDirection(transaction)
+    })).sort((a, b) => {
+      const dateA = new Date(a.date);
+      const dateB = new Date(b.date);
+      return dateB.getTime() - dateA.getTime();
+    });
+  }
+
+  /**
+   * Counts the total number of transactions in the local database
+   * @async
+   * @returns {Promise<number>} Count of transactions
+   */
+  async countTransactions(): Promise<number> {
+    const transactions = await this.readAll<Transaction>('transactions');
+    return transactions.length;
+  }
+
+  /**
+   * Reads the stored lines of a split transaction or legs of a transfer
+   * @private
+   * @async
+   * @param {string} id - ID of the split transaction or transfer
+   * @returns {Promise<Transaction[]>} The lines or legs, empty for any other transaction
+   */
+  private async readLinkedTransactions(id: string): Promise<Transaction[]> {
+    const transactions = await this.readAll<Transaction>('transactions');
+    return transactions.filter(transaction => transaction.splitId === id || transaction.transferId === id);
+  }
+
+  /**
+   * Adds a new transaction to the local database
+   * Categorization rules fill in what it is missing. A split transaction is stored as one
+   * transaction per line, and a transfer as one per leg.
+   * @async
+   * @param {Transaction} transaction - The transaction to add
+   * @returns {Promise<void>}
+   * @throws {Error} If a split transaction or transfer is not valid
+   */
+  async addTransaction(transaction: Transaction): Promise<void> {
+    const rules = await this.getRules();
+    const records = expandTransfer({
+      ...applyRules(transaction, rules),
+      id: transaction.id || crypto.randomUUID()
+    }).flatMap(expandSplitTransaction);
+
+    for (const record of records) {
+      await this.write('transactions', record);
+    }
+  }
+
+  /**
+   * Replaces an existing transaction in the local database
+   * When the transaction is or was split or a transfer, its stored lines or legs are replaced by its current ones.
+   * @async
+   * @param {Transaction} transaction - The transaction with updated fields
+   * @returns {Promise<void>}
+   * @throws {Error} If the transaction does not exist, or it is a split transaction or transfer that is not valid
+   */
+  async updateTransaction(transaction: Transaction): Promise<void> {
+    if (!transaction.id) {
+      throw new Error('Transaction ID is required');
+    }
+
+    const stored = await this.read<Transaction>('transactions', transaction.id);
+    const lines = await this.readLinkedTransactions(transaction.id);
+    if (!stored && lines.length === 0) {
+      throw new Error(`Transaction ${transaction.id} not found`);
+    }
+
+    const current = stored || groupTransfers(groupSplitTransactions(lines))[0];
+    const records = expandTransfer({ ...current, ...transaction }).flatMap(expandSplitTransaction);
+
+    for (const record of [...lines, ...(stored ? [stored] : [])]) {
+      await this.remove('transactions', record.id as string);
+    }
+    for (const record of records) {
+      await this.write('transactions', record);
+    }
+  }
+
+  /**
+   * Deletes a transaction from the local database, with every line or leg of a split transaction or transfer
+   * @async
+   * @param {string} transactionId - The ID of the transaction to delete
+   * @returns {Promise<void>}
+   */
+  async deleteTransaction(transactionId: string): Promise<void> {
+    const lines = await this.readLinkedTransactions(transactionId);
+
+    for (const line of lines) {
+      await this.remove('transactions', line.id as string);
+    }
+    await this.remove('transactions', transactionId);
+  }
+
+  /**
+   * Adds several transactions to the local database in a single database transaction
+   * @async
+   * @param {Transaction[]} transactions - The transactions to add
+   * @param {boolean} [withRules=true] - Whether categorization rules fill in what they are missing
+   * @returns {Promise<void>}
+   * @throws {Error} If a split transaction or transfer is not valid
+   */
+  async addTransactions(transactions: Transaction[], withRules: boolean = true): Promise<void> {
+    const rules = withRules ? await this.getRules() : [];
+    const records = transactions
+      .map(transaction => applyRules(transaction, rules))
+      .flatMap(transaction => expandTransfer({ ...transaction, id: transaction.id || crypto.randomUUID() }))
+      .flatMap(expandSplitTransaction);
+
+    await this.writeAll('transactions', records);
+  }
+
+  /**
+   * Replaces several stored transactions in the local database in a single database transaction
+   * @async
+   * @param {Transaction[]} transactions - The stored transactions with updated fields
+   * @returns {Promise<string[]>} The IDs of the transactions, which do not change
+   * @throws {Error} If one of the transactions does not exist
+   */
+  async updateTransactions(transactions: Transaction[]): Promise<string[]> {
+    const storedIds = new Set((await this.readAll<Transaction>('transactions')).map(transaction => transaction.id));
+    const unknown = transactions.find(transaction => !transaction.id || !storedIds.has(transaction.id));
+    if (unknown) {
+      throw new Error(`Transaction ${unknown.id} not found`);
+    }
+
+    await this.writeAll('transactions', transactions);
+    return transactions.map(transaction => transaction.id as string);
+  }
+
+  /**
+   * Deletes several transactions from the local database, with every line or leg of split transactions and transfers
+   * @async
+   * @param {string[]} transactionIds - The IDs of the transactions to delete
+   * @returns {Promise<void>}
+   */
+  async deleteTransactions(transactionIds: string[]): Promise<void> {
+    for (const transactionId of transactionIds) {
+      await this.deleteTransaction(transactionId);
+    }
+  }
+
+  /**
+   * Builds category data from the categories stored locally
+   * @async
+   * @returns {Promise<CategoryData>} Structured category data
+   */
+  async fetchCategoryData(): Promise<CategoryData> {
+    const records = await this.readAll<LocalCategoryRecord>('categories');
+    const subcategories: Record<string, string[]> = {};
+    const allSubcategories: string[] = [];
+
+    records.forEach(record => {
+      if (!subcategories[record.category]) {
+        subcategories[record.category] = [];
+      }
+
+      if (record.subcategory) {
+        subcategories[record.category].push(record.subcategory);
+        allSubcategories.push(record.subcategory);
+      }
+    });
+
+    Object.keys(subcategories).forEach(category => {
+      subcategories[category].sort();
+    });
+
+    return {
+      categories: Object.keys(subcategories).sort(),
+      subcategories,
+      allSubcategories: allSubcategories.sort()
+    };
+  }
+
+  /**
+   * No-op: local category data is never cached
+   */
+  invalidateCategoryCache(): void {
+    // Nothing cached locally
+  }
+
+  /**
+   * Fetches all recurring transactions from the local database
+   * @async
+   * @returns {Promise<RecurringTransaction[]>} Array of recurring transactions
+   */
+  async getRecurringTransactions(): Promise<RecurringTransaction[]> {
+    const recurringTransactions = await this.readAll<RecurringTransaction>('recurring');
+    const needsEstimates = recurringTransactions.some(rt => rt.amountMode && rt.amountMode !== 'fixed');
+    const transactions = needsEstimates ? await this.readAll<Transaction>('transactions') : [];
+
+    return withAmountEstimates(recurringTransactions, transactions).map(recurringTransaction => ({
+      ...recurringTransaction,
+      nextDue: getNextDueDate(recurringTransaction)
+    }));
+  }
+
+  /**
+   * Adds a new recurring transaction to the local database
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to add
+   * @returns {Promise<void>}
+   */
+  async addRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void> {
+    await this.write('recurring', {
+      ...recurringTransaction,
+      id: recurringTransaction.id || crypto.randomUUID()
+    });
+  }
+
+  /**
+   * Replaces a recurring transaction in the local database, keeping its lastProcessed date
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction, identified by its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async updateRecurringTransaction(recurringTransaction: RecurringTransaction): Promise<void> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransaction.id);
+
+    await this.write('recurring', {
+      ...recurringTransaction,
+      nextDue: undefined,
+      estimatedAmountEUR: undefined,
+      estimatedAmountUSD: undefined,
+      lastProcessed: stored.lastProcessed
+    });
+  }
+
+  /**
+   * Applies changes to a recurring transaction from a date onwards only
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The updated recurring transaction, identified by its ID
+   * @param {string} effectiveDate - First day the changes apply to, in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async updateRecurringTransactionFrom(recurringTransaction: RecurringTransaction, effectiveDate: string): Promise<void> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransaction.id);
+
+    const { ended, continued } = splitRecurringTransaction(stored, recurringTransaction, effectiveDate);
+    await this.write('recurring', ended);
+    await this.write('recurring', continued);
+  }
+
+  /**
+   * Stores a disabled copy of a recurring transaction
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to copy
+   * @returns {Promise<RecurringTransaction>} The new copy
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async duplicateRecurringTransaction(recurringTransactionId: string): Promise<RecurringTransaction> {
+    const copy = copyRecurringTransaction(await this.getStoredRecurringTransaction(recurringTransactionId));
+    await this.write('recurring', copy);
+    return copy;
+  }
+
+  /**
+   * Deletes a recurring transaction from the local database
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction to delete
+   * @returns {Promise<void>}
+   */
+  async deleteRecurringTransaction(recurringTransactionId: string): Promise<void> {
+    await this.remove('recurring', recurringTransactionId);
+  }
+
+  /**
+   * Lists the transactions that processing would create, without writing anything
+   * @async
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<DueOccurrence[]>} Due occurrences of all active templates, ordered by date
+   */
+  async previewDueRecurringTransactions(asOf: Date = new Date()): Promise<DueOccurrence[]> {
+    const recurringTransactions = await this.getRecurringTransactions();
+    const bookedIds = new Set((await this.readAll<Transaction>('transactions')).map(transaction => transaction.id));
+
+    return recurringTransactions
+      .flatMap(recurringTransaction => getDueOccurrences(recurringTransaction, asOf))
+      .filter(occurrence => !bookedIds.has(occurrence.transaction.id))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Generates one transaction per missed occurrence of a recurring template, each on its
+   * scheduled date, then records the last occurrence as its lastProcessed date
+   *
+   * Safe to re-run: occurrences whose transaction already exists are left untouched,
+   * so edits made to a generated transaction are never overwritten. Templates that ask
+   * for their amount when posting, and occurrences snoozed in the review queue, are left
+   * for the review queue; the cursor stops before a snoozed occurrence.
+   * @async
+   * @param {RecurringTransaction} recurringTransaction - The recurring transaction to process
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async processRecurringTransaction(recurringTransaction: RecurringTransaction, asOf: Date = new Date()): Promise<number> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransaction.id);
+
+    const occurrences = getDueOccurrences(recurringTransaction, asOf);
+    if (occurrences.length === 0 || recurringTransaction.amountMode === 'prompt') {
+      return 0;
+    }
+
+    const reviewed = reviewWithoutQueue(occurrences);
+    let createdCount = 0;
+    for (const { occurrence, action } of reviewed) {
+      if (action === 'approve' && !await this.read<Transaction>('transactions', occurrence.transaction.id as string)) {
+        await this.addTransaction(occurrence.transaction);
+        createdCount++;
+      }
+    }
+
+    // Never move the cursor backwards, e.g. when processing a stale copy of the template
+    const lastDate = getReviewedCursors(reviewed).get(recurringTransaction.id as string);
+    if (lastDate && (!stored.lastProcessed || (parseDate(stored.lastProcessed) as Date) < (parseDate(lastDate) as Date))) {
+      await this.write('recurring', { ...stored, lastProcessed: lastDate });
+    }
+    return createdCount;
+  }
+
+  /**
+   * Processes all due recurring transactions, catching up on every missed occurrence
+   * @async
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   */
+  async processDueRecurringTransactions(asOf: Date = new Date()): Promise<number> {
+    const recurringTransactions = await this.getRecurringTransactions();
+
+    let processedCount = 0;
+    for (const transaction of recurringTransactions) {
+      processedCount += await this.processRecurringTransaction(transaction, asOf);
+    }
+
+    return processedCount;
+  }
+
+  /**
+   * Posts the occurrences approved in the review queue, moves the Last Processed cursors
+   * and records the snoozed occurrences
+   * Approved transactions are written in a single database transaction; occurrences that
+   * were booked in the meantime are skipped, and a cursor never moves backwards.
+   * @async
+   * @param {ReviewedOccurrence[]} reviewed - Every due occurrence of the reviewed templates, with its decision
+   * @returns {Promise<number>} Number of transactions created
+   */
+  async processReviewedOccurrences(reviewed: ReviewedOccurrence[]): Promise<number> {
+    const bookedIds = new Set((await this.readAll<Transaction>('transactions')).map(transaction => transaction.id));
+    const approved = reviewed
+      .filter(item => item.action === 'approve' && !bookedIds.has(item.occurrence.transaction.id))
+      .map(item => item.occurrence.transaction);
+
+    const rules = await this.getRules();
+    await this.writeAll('transactions', approved.map(transaction => applyRules(transaction, rules)));
+
+    for (const [templateId, lastDate] of getReviewedCursors(reviewed)) {
+      const stored = await this.getStoredRecurringTransaction(templateId);
+      if (!stored.lastProcessed || (parseDate(stored.lastProcessed) as Date) < (parseDate(lastDate) as Date)) {
+        await this.write('recurring', { ...stored, lastProcessed: lastDate });
+      }
+    }
+
+    for (const [templateId, dates] of getReviewedSnoozes(reviewed)) {
+      const stored = await this.getStoredRecurringTransaction(templateId);
+      await this.write('recurring', { ...stored, snoozedDates: dates.length > 0 ? dates : undefined });
+    }
+
+    return approved.length;
+  }
+
+  /**
+   * Sets the active status of a recurring transaction
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {boolean} activeStatus - The new active status
+   * @returns {Promise<void>}
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async toggleRecurringTransactionStatus(recurringTransactionId: string, activeStatus: boolean): Promise<void> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransactionId);
+    await this.write('recurring', { ...stored, active: activeStatus });
+  }
+
+  /**
+   * Pauses a recurring transaction until a date, skipping the occurrences scheduled before it
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string|null} pausedUntil - Date the schedule resumes on in YYYY-MM-DD format, or null to resume now
+   * @returns {Promise<void>}
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async pauseRecurringTransaction(recurringTransactionId: string, pausedUntil: string | null): Promise<void> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransactionId);
+    await this.write('recurring', { ...stored, ...getPause(stored, pausedUntil) });
+  }
+
+  /**
+   * Replaces the skipped occurrences (EXDATEs) of a recurring transaction
+   * @async
+   * @param {string} recurringTransactionId - The ID of the recurring transaction
+   * @param {string[]} exceptionDates - Scheduled dates of the skipped occurrences in YYYY-MM-DD format
+   * @returns {Promise<void>}
+   * @throws {Error} If the recurring transaction does not exist
+   */
+  async setRecurringTransactionExceptions(recurringTransactionId: string, exceptionDates: string[]): Promise<void> {
+    const stored = await this.getStoredRecurringTransaction(recurringTransactionId);
+    await this.write('recurring', {
+      ...stored,
+      exceptionDates: exceptionDates.length > 0 ? [...new Set(exceptionDates)].sort() : undefined
+    });
+  }
+
+  /**
+   * No-op: local recurring transactions are never cached
+   */
+  invalidateRecurringTransactionsCache(): void {
+    // Nothing cached locally
+  }
+
+  /**
+   * Fetches all loans from the local database
+   * @async
+   * @returns {Promise<Loan[]>} Array of loans
+   */
+  async getLoans(): Promise<Loan[]> {
+    return this.readAll<Loan>('loans');
+  }
+
+  /**
+   * Adds a new loan to the local database
+   * @async
+   * @param {Loan} loan - The loan to add
+   * @returns {Promise<void>}
+   */
+  async addLoan(loan: Loan): Promise<void> {
+    await this.write('loans', {
+      ...loan,
+      id: loan.id || crypto.randomUUID()
+    });
+  }
+
+  /**
+   * Replaces a loan in the local database, keeping its lastProcessed date
+   * @async
+   * @param {Loan} loan - The updated loan, identified by its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If the loan does not exist
+   */
+  async updateLoan(loan: Loan): Promise<void> {
+    if (!loan.id) {
+      throw new Error('Loan ID is required');
+    }
+
+    const stored = await this.read<Loan>('loans', loan.id);
+    if (!stored) {
+      throw new Error(`Loan ${loan.id} not found`);
+    }
+
+    await this.write('loans', { ...loan, lastProcessed: stored.lastProcessed });
+  }
+
+  /**
+   * Deletes a loan from the local database
+   * @async
+   * @param {string} loanId - The ID of the loan to delete
+   * @returns {Promise<void>}
+   */
+  async deleteLoan(loanId: string): Promise<void> {
+    await this.remove('loans', loanId);
+  }
+
+  /**
+   * Posts the due installments and extra payments of all active loans
+   * Payments whose transaction already exists are skipped, and a cursor never moves backwards.
+   * @async
+   * @param {Date} [asOf] - Processing date, defaults to today
+   * @returns {Promise<number>} Number of transactions created
+   */
+  async processDueLoanPayments(asOf: Date = new Date()): Promise<number> {
+    const bookedIds = new Set((await this.readAll<Transaction>('transactions')).map(transaction => transaction.id));
+
+    let createdCount = 0;
+    for (const loan of await this.getLoans()) {
+      const { transactions, lastDate } = getDueLoanTransactions(loan, asOf);
+      const pending = transactions.filter(transaction => !bookedIds.has(transaction.id));
+
+      await this.writeAll('transactions', pending);
+      createdCount += pending.length;
+
+      if (lastDate && (!loan.lastProcessed || (parseDate(loan.lastProcessed) as Date) < (parseDate(lastDate) as Date))) {
+        await this.write('loans', { ...loan, lastProcessed: lastDate });
+      }
+    }
+
+    return createdCount;
+  }
+
+  /**
+   * Fetches all categorization rules from the local database
+   * @async
+   * @returns {Promise<CategorizationRule[]>} Array of rules
+   */
+  async getRules(): Promise<CategorizationRule[]> {
+    return this.readAll<CategorizationRule>('rules');
+  }
+
+  /**
+   * Adds a new categorization rule to the local database
+   * @async
+   * @param {CategorizationRule} rule - The rule to add
+   * @returns {Promise<void>}
+   */
+  async addRule(rule: CategorizationRule): Promise<void> {
+    await this.write('rules', {
+      ...rule,
+      id: rule.id || crypto.randomUUID()
+    });
+  }
+
+  /**
+   * Replaces a categorization rule in the local database
+   * @async
+   * @param {CategorizationRule} rule - The updated rule, identified by its ID
+   * @returns {Promise<void>}
+   * @throws {Error} If the rule does not exist
+   */
+  async updateRule(rule: CategorizationRule): Promise<void> {
+    if (!rule.id) {
+      throw new Error('Rule ID is required');
+    }
+
+    if (!await this.read<CategorizationRule>('rules', rule.id)) {
+      throw new Error(`Rule ${rule.id} not found`);
+    }
+
+    await this.write('rules', rule);
+  }
+
+  /**
+   * Deletes a categorization rule from the local database
+   * @async
+   * @param {string} ruleId - The ID of the rule to delete
+   * @returns {Promise<void>}
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.remove('rules', ruleId);
+  }
+
+  /**
+   * Applies the categorization rules to every uncategorized transaction in the local database
+   * @async
+   * @returns {Promise<number>} Number of transactions changed
+   */
+  async applyRulesToUncategorized(): Promise<number> {
+    const rules = await this.getRules();
+    const changed = (await this.readAll<Transaction>('transactions'))
+      .filter(isUncategorized)
+      .flatMap(transaction => {
+        const categorized = applyRules(transaction, rules);
+        return categorized === transaction ? [] : [categorized];
+      });
+
+    await this.writeAll('transactions', changed);
+    return changed.length;
+  }
+
+  /**
+   * No-op: local records receive a UUID when they are written
+   * @async
+   * @returns {Promise<number>} Always 0
+   */
+  async backfillIds(): Promise<number> {
+    return 0;
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  dueOccurrencesBetween,
+  formatDate,
+  nextOccurrence,
+  occurrencesBetween,
+  parseDate,
+  RecurrenceTemplate
+} from './recurrence';
+
+const template = (fields: Partial<RecurrenceTemplate>): RecurrenceTemplate => ({
+  frequency: 'monthly',
+  startDate: '2024-01-01',
+  ...fields
+});
+
+const between = (recurrence: RecurrenceTemplate, from: string, to: string): string[] =>
+  occurrencesBetween(recurrence, parseDate(from)!, parseDate(to)!).map(formatDate);
+
+const next = (recurrence: RecurrenceTemplate, after: string): string | null => {
+  const date = nextOccurrence(recurrence, parseDate(after)!);
+  return date ? formatDate(date) : null;
+};
+
+describe('occurrencesBetween', () => {
+  it('clamps a monthly day 31 to the last day of shorter months', () => {
+    const monthly = template({ startDate: '2023-01-31', dayOfMonth: 31 });
+
+    expect(between(monthly, '2023-01-01', '2023-04-30')).toEqual(['2023-01-31', '2023-02-28', '2023-03-31', '2023-04-30']);
+  });
+
+  it('falls on February 29 in leap years', () => {
+    const monthly = template({ startDate: '2024-01-31' });
+
+    expect(between(monthly, '2024-02-01', '2024-03-31')).toEqual(['2024-02-29', '2024-03-31']);
+  });
+
+  it('returns to the original day after clamping', () => {
+    const monthly = template({ startDate: '2023-01-30', dayOfMonth: 30 });
+
+    expect(between(monthly, '2023-02-01', '2023-03-31')).toEqual(['2023-02-28', '2023-03-30']);
+  });
+
+  it('moves a yearly February 29 to February 28 outside leap years', () => {
+    const yearly = template({ frequency: 'yearly', startDate: '2024-02-29' });
+
+    expect(between(yearly, '2024-01-01', '2028-12-31')).toEqual([
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29'
+    ]);
+  });
+
+  it('repeats quarterly from the start month, clamping the day', () => {
+    const quarterly = template({ frequency: 'quarterly', startDate: '2024-01-31' });
+
+    expect(between(quarterly, '2024-01-01', '2024-12-31')).toEqual(['2024-01-31', '2024-04-30', '2024-07-31', '2024-10-31']);
+  });
+
+  it('keeps a biweekly cadence from the first scheduled weekday', () => {
+    const biweekly = template({ frequency: 'biweekly', startDate: '2024-01-01', dayOfWeek: 3 });
+
+    expect(between(biweekly, '2024-01-01', '2024-02-29')).toEqual(['2024-01-03', '2024-01-17', '2024-01-31', '2024-02-14', '2024-02-28']);
+  });
+
+  it('follows an RRULE for the last business day of the month', () => {
+    const lastBusinessDay = template({ rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' });
+
+    expect(between(lastBusinessDay, '2024-01-01', '2024-03-31')).toEqual(['2024-01-31', '2024-02-29', '2024-03-29']);
+    expect(between(lastBusinessDay, '2024-08-01', '2024-08-31')).toEqual(['2024-08-30']);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    const counted = template({ startDate: '2024-01-15', rrule: 'FREQ=MONTHLY;COUNT=3' });
+
+    expect(between(counted, '2024-01-01', '2024-12-31')).toEqual(['2024-01-15', '2024-02-15', '2024-03-15']);
+  });
+
+  it('stops at UNTIL, inclusive', () => {
+    const until = template({ startDate: '2024-01-01', rrule: 'FREQ=WEEKLY;UNTIL=20240122' });
+
+    expect(between(until, '2024-01-01', '2024-12-31')).toEqual(['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22']);
+  });
+
+  it('stops at the end date', () => {
+    const ending = template({ startDate: '2024-01-10', endDate: '2024-03-10' });
+
+    expect(between(ending, '2024-01-01', '2024-12-31')).toEqual(['2024-01-10', '2024-02-10', '2024-03-10']);
+  });
+
+  it('leaves out paused occurrences and exception dates', () => {
+    const paused = template({
+      startDate: '2024-01-15',
+      pausedFrom: '2024-02-01',
+      pausedUntil: '2024-04-01',
+      exceptionDates: ['2024-05-15']
+    });
+
+    expect(between(paused, '2024-01-01', '2024-06-30')).toEqual(['2024-01-15', '2024-04-15', '2024-06-15']);
+  });
+
+  it('has no occurrences for an invalid RRULE', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(between(template({ rrule: 'FREQ=HOURLY' }), '2024-01-01', '2024-12-31')).toEqual([]);
+    warn.mockRestore();
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('finds the clamped date after a month-end occurrence', () => {
+    const monthly = template({ startDate: '2023-01-31' });
+
+    expect(next(monthly, '2023-01-31')).toBe('2023-02-28');
+    expect(next(monthly, '2024-01-31')).toBe('2024-02-29');
+  });
+
+  it('finds the next leap day for a yearly February 29', () => {
+    expect(next(template({ frequency: 'yearly', startDate: '2024-02-29' }), '2027-03-01')).toBe('2028-02-29');
+  });
+
+  it('skips over a pause and exception dates', () => {
+    const paused = template({
+      startDate: '2024-01-15',
+      pausedFrom: '2024-02-01',
+      pausedUntil: '2024-04-01',
+      exceptionDates: ['2024-04-15']
+    });
+
+    expect(next(paused, '2024-01-15')).toBe('2024-05-15');
+  });
+
+  it('returns null once COUNT is reached or the end date has passed', () => {
+    expect(next(template({ startDate: '2024-01-15', rrule: 'FREQ=MONTHLY;COUNT=3' }), '2024-03-15')).toBeNull();
+    expect(next(template({ startDate: '2024-01-10', endDate: '2024-03-10' }), '2024-03-10')).toBeNull();
+  });
+});
+
+describe('dueOccurrencesBetween', () => {
+  it('moves weekend occurrences to the previous business day', () => {
+    const monthly = template({ startDate: '2024-03-31', businessDayAdjustment: 'previous' });
+    const occurrences = dueOccurrencesBetween(monthly, parseDate('2024-03-01')!, parseDate('2024-03-31')!);
+
+    expect(occurrences.map(occurrence => [formatDate(occurrence.scheduled), formatDate(occurrence.due)]))
+      .toEqual([['2024-03-31', '2024-03-29']]);
+  });
+
+  it('moves occurrences past holidays of the template calendar', () => {
+    // Sunday March 31, 2024 is Easter; Monday April 1 is Easter Monday in the Netherlands
+    const monthly = template({ startDate: '2024-03-31', businessDayAdjustment: 'next', holidayCalendar: 'NL' });
+    const occurrences = dueOccurrencesBetween(monthly, parseDate('2024-04-01')!, parseDate('2024-04-05')!);
+
+    expect(occurrences.map(occurrence => formatDate(occurrence.due))).toEqual(['2024-04-02']);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Recurrence engine shared by every FinanceStore implementation
+ *
+ * The single source of schedule calculations: the form preview, the "Next Due"
+ * column and processing all use it, independent of where templates are stored.
+ * Every schedule is evaluated as an iCalendar recurrence rule: the template's RRULE
+ * if it has one, otherwise the rule equivalent to its frequency. Occurrences are
+ * anchored to the template's start date, so the schedule does not drift with the
+ * date it happens to be processed on.
+ */
+
+import { addDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import type { RecurringTransaction } from './types';
+import { iterateRRule, parseRRule } from './rrule';
+import { adjustToBusinessDay, MAX_ADJUSTMENT_DAYS } from './holidays';
+import type { RRule } from './rrule';
+
+/**
+ * Template fields that define a recurrence schedule
+ * @type {RecurrenceTemplate}
+ */
+export type RecurrenceTemplate = Pick<
+  RecurringTransaction,
+  'frequency' | 'startDate' | 'endDate' | 'dayOfMonth' | 'dayOfWeek' | 'rrule' |
+  'businessDayAdjustment' | 'holidayCalendar' | 'pausedFrom' | 'pausedUntil' | 'exceptionDates'
+>;
+
+/**
+ * A scheduled occurrence and the day it falls due
+ * @interface Occurrence
+ */
+export interface Occurrence {
+  /** Date the schedule places the occurrence on */
+  scheduled: Date;
+  /** Date the occurrence is due, moved off weekends and holidays if the template asks for it */
+  due: Date;
+}
+
+/** Number of months between occurrences for month-based frequencies */
+const MONTH_STEPS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+/**
+ * Parses a stored date into a local date at midnight
+ * ISO dates (YYYY-MM-DD) are read as local dates rather than UTC.
+ * @param {string|undefined} value - The stored date
+ * @returns {Date|null} The parsed date, or null if it is empty or invalid
+ */
+export function parseDate(value?: string): Date | null {
+  if (!value) return null;
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? parseISO(value.trim()) : new Date(value);
+  return isValid(date) ? startOfDay(date) : null;
+}
+
+/**
+ * Formats a date the way recurring dates are stored
+ * @param {Date} date - The date to format
+ * @returns {string} Date in YYYY-MM-DD format
+ */
+export function formatDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Maps a legacy frequency onto its equivalent recurrence rule
+ * Weekly schedules are anchored on their first scheduled date so that biweekly
+ * templates keep their cadence, and monthly days past the end of a month fall on
+ * its last day.
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} start - Parsed start date
+ * @returns {{rule: RRule, start: Date}} The equivalent rule and its start date
+ */
+function frequencyToRule(template: RecurrenceTemplate, start: Date): { rule: RRule; start: Date } {
+  switch (template.frequency) {
+    case 'daily':
+      return { rule: { freq: 'DAILY', interval: 1, weekStart: 1 }, start };
+
+    case 'weekly':
+    case 'biweekly': {
+      const offset = template.dayOfWeek !== undefined
+        ? (template.dayOfWeek - start.getDay() + 7) % 7
+        : 0;
+      const first = addDays(start, offset);
+      return {
+        rule: {
+          freq: 'WEEKLY',
+          interval: template.frequency === 'weekly' ? 1 : 2,
+          byDay: [{ weekday: first.getDay() }],
+          weekStart: 1
+        },
+        start: first
+      };
+    }
+
+    default: {
+      // Unknown frequencies fall back to monthly
+      const day = template.dayOfMonth || start.getDate();
+      const monthDays: Pick<RRule, 'byMonthDay' | 'bySetPos'> = day === 31
+        ? { byMonthDay: [-1] }
+        : day > 28
+          ? { byMonthDay: Array.from({ length: day - 27 }, (_, index) => 28 + index), bySetPos: [-1] }
+          : { byMonthDay: [day] };
+
+      const rule: RRule = template.frequency === 'yearly'
+        ? { freq: 'YEARLY', interval: 1, byMonth: [start.getMonth() + 1], ...monthDays, weekStart: 1 }
+        : { freq: 'MONTHLY', interval: MONTH_STEPS[template.frequency] || 1, ...monthDays, weekStart: 1 };
+      return { rule, start };
+    }
+  }
+}
+
+/**
+ * Resolves the recurrence rule a template follows
+ * Templates without an RRULE follow the rule equivalent to their frequency.
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @returns {{rule: RRule, start: Date}|null} The rule and the date it starts from, or null without a valid start date
+ * @throws {Error} If the template's RRULE is invalid
+ */
+export function getRecurrenceRule(template: RecurrenceTemplate): { rule: RRule; start: Date } | null {
+  const start = parseDate(template.startDate);
+  if (!start) return null;
+
+  return template.rrule ? { rule: parseRRule(template.rrule), start } : frequencyToRule(template, start);
+}
+
+/**
+ * Returns the legacy frequency closest to a rule
+ * Stored next to an RRULE so that the template still reads sensibly without it.
+ * @param {RRule} rule - The rule
+ * @returns {RecurringTransaction['frequency']} The closest frequency
+ */
+export function frequencyForRule(rule: RRule): RecurringTransaction['frequency'] {
+  switch (rule.freq) {
+    case 'DAILY':
+      return 'daily';
+    case 'WEEKLY':
+      return rule.interval === 2 ? 'biweekly' : 'weekly';
+    case 'MONTHLY':
+      return rule.interval === 3 ? 'quarterly' : 'monthly';
+    case 'YEARLY':
+      return 'yearly';
+  }
+}
+
+/**
+ * Checks whether an occurrence is skipped, because the template is paused or the date is an exception
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} scheduled - The scheduled date
+ * @returns {boolean} True if the occurrence is skipped
+ */
+export function isSkippedOccurrence(template: RecurrenceTemplate, scheduled: Date): boolean {
+  const pausedFrom = parseDate(template.pausedFrom);
+  const pausedUntil = parseDate(template.pausedUntil);
+  if (pausedUntil && scheduled < pausedUntil && (!pausedFrom || scheduled >= pausedFrom)) return true;
+
+  const date = formatDate(scheduled);
+  return (template.exceptionDates || []).includes(date);
+}
+
+/**
+ * Yields every scheduled date of a template in ascending order, ending at its end date
+ * Skipped occurrences are left out. A template with an invalid RRULE has no occurrences.
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @yields {Date} Scheduled occurrence dates
+ */
+function* generateOccurrences(template: RecurrenceTemplate): Generator<Date> {
+  let schedule: { rule: RRule; start: Date } | null;
+  try {
+    schedule = getRecurrenceRule(template);
+  } catch (error) {
+    console.warn(`Ignoring recurring schedule with invalid RRULE "${template.rrule}":`, error);
+    return;
+  }
+  if (!schedule) return;
+
+  const end = parseDate(template.endDate);
+
+  for (const date of iterateRRule(schedule.rule, schedule.start)) {
+    if (end && date > end) return;
+    if (!isSkippedOccurrence(template, date)) yield date;
+  }
+}
+
+/**
+ * Lists the scheduled dates of a template within a date range, before business-day adjustment
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} from - First day of the range (inclusive)
+ * @param {Date} to - Last day of the range (inclusive)
+ * @returns {Date[]} Scheduled dates in ascending order
+ */
+export function occurrencesBetween(template: RecurrenceTemplate, from: Date, to: Date): Date[] {
+  const rangeStart = startOfDay(from);
+  const rangeEnd = startOfDay(to);
+  const dates: Date[] = [];
+
+  for (const date of generateOccurrences(template)) {
+    if (date > rangeEnd) break;
+    if (date >= rangeStart) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Finds the first scheduled date of a template after a given day, before business-day adjustment
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} after - The day after which to search (exclusive)
+ * @returns {Date|null} The next scheduled date, or null once the schedule has ended
+ */
+export function nextOccurrence(template: RecurrenceTemplate, after: Date): Date | null {
+  const threshold = startOfDay(after);
+
+  for (const date of generateOccurrences(template)) {
+    if (date > threshold) return date;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the day an occurrence falls due under the template's business-day adjustment
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} scheduled - The scheduled date
+ * @returns {Date} The due date
+ */
+export function adjustOccurrence(template: RecurrenceTemplate, scheduled: Date): Date {
+  return adjustToBusinessDay(scheduled, template.businessDayAdjustment, template.holidayCalendar);
+}
+
+/**
+ * Yields a template's occurrences scheduled after a given day, with their due dates
+ * Adjustment keeps occurrences in order, so due dates never decrease either.
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date|null} after - The scheduled day after which to start (exclusive), null for the whole schedule
+ * @yields {Occurrence} Occurrences in ascending order
+ */
+export function* occurrencesAfter(template: RecurrenceTemplate, after: Date | null): Generator<Occurrence> {
+  const threshold = after ? startOfDay(after) : null;
+
+  for (const scheduled of generateOccurrences(template)) {
+    if (threshold && scheduled <= threshold) continue;
+    yield { scheduled, due: adjustOccurrence(template, scheduled) };
+  }
+}
+
+/**
+ * Lists the occurrences of a template that fall due within a date range
+ * @param {RecurrenceTemplate} template - The recurring template
+ * @param {Date} from - First day of the range (inclusive)
+ * @param {Date} to - Last day of the range (inclusive)
+ * @returns {Occurrence[]} Occurrences in ascending order
+ */
+export function dueOccurrencesBetween(template: RecurrenceTemplate, from: Date, to: Date): Occurrence[] {
+  const rangeStart = startOfDay(from);
+  const rangeEnd = startOfDay(to);
+  const occurrences: Occurrence[] = [];
+
+  // Occurrences scheduled just outside the range may be moved into it
+  for (const occurrence of occurrencesAfter(template, addDays(rangeStart, -MAX_ADJUSTMENT_DAYS - 1))) {
+    if (occurrence.scheduled > addDays(rangeEnd, MAX_ADJUSTMENT_DAYS)) break;
+    if (occurrence.due >= rangeStart && occurrence.due <= rangeEnd) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Helper function to get the number of days in a month
+ * @param {number} year - The year
+ * @param {number} month - The month (0-11)
+ * @returns {number} Number of days in the month
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
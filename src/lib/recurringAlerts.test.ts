@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getRecurringAlerts } from './recurringAlerts';
+import type { RecurringTransaction, Transaction } from './types';
+import { buildRecurring, buildTransaction } from '../test/fixtures';
+
+const rent = buildRecurring();
+
+const charge = (date: string, amountEUR: number = 1200, fields: Partial<Transaction> = {}): Transaction =>
+  buildTransaction({ id: `rent@${date}`, date, description: 'Rent', amountEUR, account: 'Bank', recurringId: 'rent', ...fields });
+
+const alerts = (transactions: Transaction[], template: RecurringTransaction = rent, today: string = '2024-04-10') =>
+  getRecurringAlerts([template], transactions, new Date(`${today}T12:00:00`))
+    .map(alert => [alert.type, alert.date, alert.message]);
+
+describe('getRecurringAlerts', () => {
+  it('reports nothing when every charge arrived at the usual price', () => {
+    expect(alerts([charge('2024-02-01'), charge('2024-03-01'), charge('2024-04-01')])).toEqual([]);
+  });
+
+  it('flags a charge that is higher than the previous one', () => {
+    expect(alerts([charge('2024-02-01'), charge('2024-03-01'), charge('2024-04-01', 1250)])).toEqual([
+      ['priceIncrease', '2024-04-01', 'Went up from €1,200.00 to €1,250.00']
+    ]);
+  });
+
+  it("flags missed occurrences and charges above a fixed template's amount, newest first", () => {
+    expect(alerts([charge('2024-04-01', 1250)])).toEqual([
+      ['priceIncrease', '2024-04-01', "Charged €1,250.00, more than the template's €1,200.00"],
+      ['missed', '2024-03-01', 'No charge recorded for the occurrence due on Mar 01, 2024'],
+      ['missed', '2024-02-01', 'No charge recorded for the occurrence due on Feb 01, 2024']
+    ]);
+  });
+
+  it('accepts charges entered by hand a few days off the due date', () => {
+    const byHand = (date: string) => charge(date, 1200, { id: `manual-${date}` });
+
+    expect(alerts([byHand('2024-02-03'), byHand('2024-02-28'), byHand('2024-04-02')])).toEqual([]);
+  });
+
+  it('flags a second charge in the same period', () => {
+    expect(alerts([charge('2024-02-01'), charge('2024-03-01'), charge('2024-03-01', 1200, { id: 'again' }), charge('2024-04-01')]))
+      .toEqual([['duplicate', '2024-03-01', 'Charged twice on Mar 01, 2024']]);
+  });
+
+  it('ignores unconfirmed estimates and events older than the alert window', () => {
+    const estimated = { ...rent, amountMode: 'estimated' as const };
+
+    expect(alerts([charge('2024-02-01'), charge('2024-03-01'), charge('2024-04-01', 1300, { amountConfirmed: false })], estimated)).toEqual([]);
+    expect(alerts([charge('2024-01-01'), charge('2024-01-01', 1300, { id: 'again' })], { ...rent, active: false }, '2024-06-01')).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Alerts about the transactions linked to recurring templates
+ *
+ * Each template's linked transactions (those whose recurringId points at it) are
+ * compared with the template and with each other to flag price increases, expected
+ * charges without a transaction, and more than one charge for the same period.
+ * Only recent events are reported, so an alert goes away once it is old news.
+ */
+
+import { differenceInCalendarDays, format, startOfDay, subDays } from 'date-fns';
+import type { RecurringTransaction, Transaction } from './types';
+import { dueOccurrencesBetween, formatDate, parseDate } from './recurrence';
+import { getOccurrenceTransactionId } from './recurringProcessing';
+import { groupSplitTransactions } from './splits';
+
+/**
+ * Kind of recurring alert
+ * @type {RecurringAlertType}
+ */
+export type RecurringAlertType = 'priceIncrease' | 'missed' | 'duplicate';
+
+/**
+ * Something about a template's charges that needs attention
+ * @interface RecurringAlert
+ */
+export interface RecurringAlert {
+  /** Kind of alert */
+  type: RecurringAlertType;
+  /** The template the alert is about */
+  template: RecurringTransaction;
+  /** Date of the charge or occurrence the alert is about, in YYYY-MM-DD format */
+  date: string;
+  /** Human-readable explanation */
+  message: string;
+  /** The transactions involved, oldest first; empty for missed charges */
+  transactions: Transaction[];
+}
+
+/** Display names of the alert types */
+export const RECURRING_ALERT_TYPES: Record<RecurringAlertType, string> = {
+  priceIncrease: 'Price increase',
+  missed: 'Missed charge',
+  duplicate: 'Duplicate charge'
+};
+
+/** Only events from this many days back are reported */
+export const ALERT_WINDOW_DAYS = 90;
+
+/** A charge may arrive this many days before or after its due date */
+const GRACE_DAYS = 3;
+
+/** Approximate length of each frequency's period in days */
+const PERIOD_DAYS: Record<RecurringTransaction['frequency'], number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+  quarterly: 91,
+  yearly: 365
+};
+
+/**
+ * A linked transaction with its parsed date
+ * @interface LinkedCharge
+ */
+interface LinkedCharge {
+  transaction: Transaction;
+  date: Date;
+}
+
+/**
+ * Formats an amount for an alert message
+ * @param {number} amount - The amount
+ * @param {string} currency - ISO currency code
+ * @returns {string} The formatted amount
+ */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2
+  }).format(amount);
+}
+
+/**
+ * Formats a date for an alert message
+ * @param {Date} date - The date
+ * @returns {string} Date like "Mar 05, 2024"
+ */
+function formatMessageDate(date: Date): string {
+  return format(date, 'MMM dd, yyyy');
+}
+
+/**
+ * Returns an amount and its currency, preferring euros
+ * @param {Pick<Transaction, 'amountEUR' | 'amountUSD'>} amounts - The amounts
+ * @returns {{currency: 'EUR' | 'USD', amount: number}|null} The amount, or null if there is none
+ */
+function getAmount(amounts: Pick<Transaction, 'amountEUR' | 'amountUSD'>): { currency: 'EUR' | 'USD'; amount: number } | null {
+  if (amounts.amountEUR !== undefined) return { currency: 'EUR', amount: amounts.amountEUR };
+  if (amounts.amountUSD !== undefined) return { currency: 'USD', amount: amounts.amountUSD };
+  return null;
+}
+
+/**
+ * Checks the latest confirmed charge against the one before it, or against a fixed template amount
+ * @param {RecurringTransaction} template - The template
+ * @param {LinkedCharge[]} charges - Its linked transactions, oldest first
+ * @param {Date} windowStart - Earliest date that is reported
+ * @returns {RecurringAlert|null} The alert, or null if the price did not go up
+ */
+function findPriceIncrease(template: RecurringTransaction, charges: LinkedCharge[], windowStart: Date): RecurringAlert | null {
+  // Estimates that were never confirmed say nothing about the price
+  const confirmed = charges
+    .filter(charge => charge.transaction.amountConfirmed !== false)
+    .map(charge => ({ charge, amount: getAmount(charge.transaction) }))
+    .filter((candidate): candidate is { charge: LinkedCharge; amount: { currency: 'EUR' | 'USD'; amount: number } } => candidate.amount !== null);
+  const latest = confirmed[confirmed.length - 1];
+  if (!latest || latest.charge.date < windowStart) return null;
+
+  const current = latest.amount;
+  const previous = confirmed.slice(0, -1).reverse().find(candidate => candidate.amount.currency === current.currency);
+
+  if (previous && Math.abs(current.amount) - Math.abs(previous.amount.amount) > 0.005) {
+    return {
+      type: 'priceIncrease',
+      template,
+      date: formatDate(latest.charge.date),
+      message: `Went up from ${formatAmount(previous.amount.amount, current.currency)} to ${formatAmount(current.amount, current.currency)}`,
+      transactions: [previous.charge.transaction, latest.charge.transaction]
+    };
+  }
+
+  const templateAmount = current.currency === 'EUR' ? template.amountEUR : template.amountUSD;
+  const isFixed = !template.amountMode || template.amountMode === 'fixed';
+  if (isFixed && templateAmount !== undefined && Math.abs(current.amount) - Math.abs(templateAmount) > 0.005) {
+    return {
+      type: 'priceIncrease',
+      template,
+      date: formatDate(latest.charge.date),
+      message: `Charged ${formatAmount(current.amount, current.currency)}, more than the template's ${formatAmount(templateAmount, current.currency)}`,
+      transactions: [latest.charge.transaction]
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds recent occurrences of an active template without a charge near their due date
+ * @param {RecurringTransaction} template - The template
+ * @param {LinkedCharge[]} charges - Its linked transactions
+ * @param {Date} windowStart - Earliest due date that is reported
+ * @param {Date} today - Reference date
+ * @returns {RecurringAlert[]} One alert per missed occurrence
+ */
+function findMissedCharges(template: RecurringTransaction, charges: LinkedCharge[], windowStart: Date, today: Date): RecurringAlert[] {
+  if (!template.active || !template.id) return [];
+
+  const templateId = template.id;
+  return dueOccurrencesBetween(template, windowStart, subDays(today, GRACE_DAYS))
+    .filter(occurrence => {
+      const id = getOccurrenceTransactionId(templateId, formatDate(occurrence.scheduled));
+      return !charges.some(charge =>
+        charge.transaction.id === id ||
+        Math.abs(differenceInCalendarDays(charge.date, occurrence.due)) <= GRACE_DAYS
+      );
+    })
+    .map(occurrence => ({
+      type: 'missed' as const,
+      template,
+      date: formatDate(occurrence.due),
+      message: `No charge recorded for the occurrence due on ${formatMessageDate(occurrence.due)}`,
+      transactions: []
+    }));
+}
+
+/**
+ * Finds charges that follow the previous one within half a period
+ * @param {RecurringTransaction} template - The template
+ * @param {LinkedCharge[]} charges - Its linked transactions, oldest first
+ * @param {Date} windowStart - Earliest date that is reported
+ * @returns {RecurringAlert[]} One alert per duplicate charge
+ */
+function findDuplicateCharges(template: RecurringTransaction, charges: LinkedCharge[], windowStart: Date): RecurringAlert[] {
+  const period = PERIOD_DAYS[template.frequency] || PERIOD_DAYS.monthly;
+
+  return charges.slice(1)
+    .map((charge, index) => ({ previous: charges[index], charge }))
+    .filter(({ previous, charge }) =>
+      charge.date >= windowStart && differenceInCalendarDays(charge.date, previous.date) * 2 < period
+    )
+    .map(({ previous, charge }) => ({
+      type: 'duplicate' as const,
+      template,
+      date: formatDate(charge.date),
+      message: differenceInCalendarDays(charge.date, previous.date) === 0
+        ? `Charged twice on ${formatMessageDate(charge.date)}`
+        : `Charged on ${formatMessageDate(previous.date)} and again on ${formatMessageDate(charge.date)}`,
+      transactions: [previous.transaction, charge.transaction]
+    }));
+}
+
+/**
+ * Lists the recent alerts of every template, newest first
+ * @param {RecurringTransaction[]} templates - The recurring templates
+ * @param {Transaction[]} transactions - All transactions
+ * @param {Date} [today] - Reference date, defaults to today
+ * @returns {RecurringAlert[]} The alerts
+ */
+export function getRecurringAlerts(
+  templates: RecurringTransaction[],
+  transactions: Transaction[],
+  today: Date = new Date()
+): RecurringAlert[] {
+  const referenceDay = startOfDay(today);
+  const windowStart = subDays(referenceDay, ALERT_WINDOW_DAYS);
+
+  // A split charge is still one charge
+  const chargesByTemplate = new Map<string, LinkedCharge[]>();
+  for (const transaction of groupSplitTransactions(transactions)) {
+    const date = parseDate(transaction.date);
+    if (transaction.recurringId && date && date <= referenceDay) {
+      chargesByTemplate.set(transaction.recurringId, [...(chargesByTemplate.get(transaction.recurringId) || []), { transaction, date }]);
+    }
+  }
+
+  return templates
+    .filter(template => template.id)
+    .flatMap(template => {
+      const charges = (chargesByTemplate.get(template.id as string) || [])
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+      const priceIncrease = findPriceIncrease(template, charges, windowStart);
+
+      return [
+        ...(priceIncrease ? [priceIncrease] : []),
+        ...findMissedCharges(template, charges, windowStart, referenceDay),
+        ...findDuplicateCharges(template, charges, windowStart)
+      ];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
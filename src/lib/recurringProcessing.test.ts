@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyReviewedAmount,
+  estimateAmount,
+  getDueOccurrences,
+  getExpectedAmount,
+  getReviewedCursors,
+  getReviewedSnoozes,
+  reviewWithoutQueue,
+  withAmountEstimates
+} from './recurringProcessing';
+import type { DueOccurrence, ReviewAction } from './recurringProcessing';
+import type { RecurringTransaction, Transaction } from './types';
+import { buildRecurring, buildTransaction } from '../test/fixtures';
+
+const charge = (date: string, amountEUR: number, fields: Partial<Transaction> = {}): Transaction =>
+  buildTransaction({ date, amountEUR, account: 'Bank', recurringId: 'rent', ...fields });
+
+const firstOccurrence = (template: RecurringTransaction): DueOccurrence =>
+  getDueOccurrences(template, new Date(2024, 0, 15))[0];
+
+describe('applyReviewedAmount', () => {
+  it('keeps the amount in the other currency', () => {
+    const occurrence = firstOccurrence(buildRecurring({ amountEUR: 100, amountUSD: 110, amountMode: 'prompt' }));
+
+    const transaction = applyReviewedAmount(occurrence, 'EUR', 95);
+
+    expect(transaction.amountEUR).toBe(95);
+    expect(transaction.amountUSD).toBe(110);
+    expect(transaction.amountConfirmed).toBe(true);
+  });
+
+  it('books the expected amount when the field was cleared', () => {
+    const occurrence = firstOccurrence(buildRecurring({ amountMode: 'estimated', estimatedAmountEUR: 80 }));
+
+    const transaction = applyReviewedAmount(occurrence, 'EUR', undefined);
+
+    expect(transaction.amountEUR).toBe(80);
+    expect(transaction.amountConfirmed).toBe(false);
+  });
+
+  it('confirms an estimate only when it was changed', () => {
+    const occurrence = firstOccurrence(buildRecurring({ amountMode: 'estimated', estimatedAmountEUR: 80 }));
+
+    expect(applyReviewedAmount(occurrence, 'EUR', 80).amountConfirmed).toBe(false);
+    expect(applyReviewedAmount(occurrence, 'EUR', 84.5)).toMatchObject({ amountEUR: 84.5, amountConfirmed: true });
+  });
+
+  it('keeps fixed amounts confirmed', () => {
+    const occurrence = firstOccurrence(buildRecurring({ amountEUR: undefined, amountUSD: 15 }));
+
+    expect(applyReviewedAmount(occurrence, 'USD', undefined)).toMatchObject({
+      amountEUR: undefined,
+      amountUSD: 15,
+      amountConfirmed: true
+    });
+  });
+});
+
+describe('getReviewedCursors', () => {
+  const review = (actions: ReviewAction[]) =>
+    getDueOccurrences(buildRecurring(), new Date(2024, 2, 15)).map((occurrence, index) => ({ occurrence, action: actions[index] }));
+
+  it('moves the cursor past approved and skipped occurrences', () => {
+    expect(getReviewedCursors(review(['approve', 'skip', 'approve'])).get('rent')).toBe('2024-03-01');
+  });
+
+  it('stops the cursor before the first snoozed occurrence', () => {
+    expect(getReviewedCursors(review(['approve', 'snooze', 'approve'])).get('rent')).toBe('2024-01-01');
+    expect(getReviewedCursors(review(['snooze', 'approve', 'approve'])).has('rent')).toBe(false);
+  });
+});
+
+describe('getReviewedSnoozes', () => {
+  const review = (actions: ReviewAction[], snoozedDates?: string[]) =>
+    getDueOccurrences(buildRecurring({ snoozedDates }), new Date(2024, 2, 15))
+      .map((occurrence, index) => ({ occurrence, action: actions[index] }));
+
+  it('collects the snoozed dates of each template', () => {
+    expect(getReviewedSnoozes(review(['snooze', 'approve', 'snooze'])).get('rent')).toEqual(['2024-01-01', '2024-03-01']);
+  });
+
+  it('clears snoozes that were approved and leaves unchanged ones alone', () => {
+    expect(getReviewedSnoozes(review(['approve', 'approve', 'approve'], ['2024-02-01'])).get('rent')).toEqual([]);
+    expect(getReviewedSnoozes(review(['approve', 'snooze', 'approve'], ['2024-02-01'])).has('rent')).toBe(false);
+  });
+});
+
+describe('reviewWithoutQueue', () => {
+  it('keeps stored snoozes and approves everything else', () => {
+    const occurrences = getDueOccurrences(buildRecurring({ snoozedDates: ['2024-02-01'] }), new Date(2024, 2, 15));
+
+    expect(reviewWithoutQueue(occurrences).map(item => item.action)).toEqual(['approve', 'snooze', 'approve']);
+  });
+});
+
+describe('estimateAmount', () => {
+  it('averages the most recent confirmed charges, rounded to cents', () => {
+    const history = [
+      charge('2024-01-01', 100),
+      charge('2024-02-01', 90),
+      charge('2024-03-01', 80),
+      charge('2024-04-01', 75.5),
+      charge('2024-05-01', 999, { amountConfirmed: false }),
+      charge('2024-05-01', 999, { recurringId: 'other' })
+    ];
+
+    expect(estimateAmount(buildRecurring(), history)).toEqual({ amountEUR: 81.83, amountUSD: undefined });
+    expect(estimateAmount(buildRecurring({ estimateCount: 2 }), history)?.amountEUR).toBe(77.75);
+  });
+
+  it('has no estimate without history', () => {
+    expect(estimateAmount(buildRecurring(), [])).toBeNull();
+  });
+
+  it('averages the lines of a split charge as one charge', () => {
+    const split = { recurringId: 'rent', splitId: 'march' };
+    const [template] = withAmountEstimates([buildRecurring({ amountMode: 'estimated' })], [
+      charge('2024-02-01', 100),
+      charge('2024-03-01', 60, { ...split, id: 'march#1' }),
+      charge('2024-03-01', 40, { ...split, id: 'march#2' })
+    ]);
+
+    expect(template.estimatedAmountEUR).toBe(100);
+  });
+});
+
+describe('getExpectedAmount', () => {
+  it('uses the estimate, or the template amount until there is one', () => {
+    expect(getExpectedAmount(buildRecurring({ amountMode: 'estimated', estimatedAmountEUR: 80 }))).toEqual({ amountEUR: 80, amountUSD: undefined });
+    expect(getExpectedAmount(buildRecurring({ amountMode: 'estimated' })).amountEUR).toBe(1200);
+    expect(getExpectedAmount(buildRecurring({ estimatedAmountEUR: 80 })).amountEUR).toBe(1200);
+  });
+
+  it('leaves estimates and prompts unconfirmed when booked', () => {
+    expect(firstOccurrence(buildRecurring()).transaction.amountConfirmed).toBe(true);
+    expect(firstOccurrence(buildRecurring({ amountMode: 'estimated' })).transaction.amountConfirmed).toBe(false);
+    expect(firstOccurrence(buildRecurring({ amountMode: 'prompt' })).transaction.amountConfirmed).toBe(false);
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Recurring transaction processing shared by every FinanceStore implementation
+ *
+ * Processing walks a template's schedule from the day after it was last processed
+ * (or from its start date) and generates one transaction per occurrence that is due
+ * by the processing date, dated on its due date. The due date is the scheduled date,
+ * moved off weekends and holidays if the template has a business-day adjustment.
+ * Transaction IDs and the Last Processed cursor use the scheduled date, so they do
+ * not change when the adjustment or holiday calendar does. Skipped occurrences, while
+ * a template is paused or on its exception dates, are never booked.
+ */
+
+import { addDays, startOfDay, subDays } from 'date-fns';
+import type { Transaction, RecurringTransaction, AmountMode } from './types';
+import { formatDate, occurrencesAfter, parseDate } from './recurrence';
+import type { Occurrence } from './recurrence';
+import { groupSplitTransactions } from './splits';
+
+/**
+ * A scheduled occurrence of a recurring template that has not been booked yet
+ * @interface DueOccurrence
+ */
+export interface DueOccurrence {
+  /** The template the occurrence belongs to */
+  template: RecurringTransaction;
+  /** Due date in YYYY-MM-DD format, which the transaction is booked on */
+  date: string;
+  /** Scheduled date in YYYY-MM-DD format, before business-day adjustment */
+  scheduledDate: string;
+  /** The transaction that processing will create */
+  transaction: Transaction;
+}
+
+/**
+ * What the review queue does with a due occurrence: post it, drop it, or keep it for later
+ * @type {ReviewAction}
+ */
+export type ReviewAction = 'approve' | 'skip' | 'snooze';
+
+/**
+ * A due occurrence with the decision taken in the review queue
+ * @interface ReviewedOccurrence
+ */
+export interface ReviewedOccurrence {
+  /** The occurrence; its transaction carries any edits made during review */
+  occurrence: DueOccurrence;
+  /** The decision */
+  action: ReviewAction;
+}
+
+/** Number of recent transactions averaged for an estimate when a template does not say */
+export const DEFAULT_ESTIMATE_COUNT = 3;
+
+/** Display names of the amount modes */
+export const AMOUNT_MODES: Record<AmountMode, string> = {
+  fixed: 'Fixed amount',
+  estimated: 'Estimate from recent transactions',
+  prompt: 'Ask when posting'
+};
+
+/**
+ * Checks whether a value names an amount mode
+ * @param {string} value - The value
+ * @returns {boolean} True for a known mode
+ */
+export function isAmountMode(value: string): value is AmountMode {
+  return Object.prototype.hasOwnProperty.call(AMOUNT_MODES, value);
+}
+
+/**
+ * Averages the amounts of a template's most recent transactions
+ * Only transactions with a confirmed amount count, so estimates are not averaged with themselves.
+ * @param {RecurringTransaction} template - The recurring template
+ * @param {Transaction[]} transactions - All transactions
+ * @returns {Pick<Transaction, 'amountEUR' | 'amountUSD'>|null} Average per currency, rounded to cents, or null without history
+ */
+export function estimateAmount(
+  template: RecurringTransaction,
+  transactions: Transaction[]
+): Pick<Transaction, 'amountEUR' | 'amountUSD'> | null {
+  const history = transactions
+    .filter(transaction =>
+      transaction.recurringId === template.id &&
+      transaction.amountConfirmed !== false &&
+      parseDate(transaction.date)
+    )
+    .sort((a, b) => (parseDate(b.date) as Date).getTime() - (parseDate(a.date) as Date).getTime())
+    .slice(0, template.estimateCount || DEFAULT_ESTIMATE_COUNT);
+
+  if (history.length === 0) {
+    return null;
+  }
+
+  const average = (amounts: (number | undefined)[]): number | undefined => {
+    const values = amounts.filter((amount): amount is number => amount !== undefined);
+    return values.length > 0
+      ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100
+      : undefined;
+  };
+
+  return {
+    amountEUR: average(history.map(transaction => transaction.amountEUR)),
+    amountUSD: average(history.map(transaction => transaction.amountUSD))
+  };
+}
+
+/**
+ * Fills in the estimated amounts of templates that do not have a fixed amount
+ * @param {RecurringTransaction[]} templates - The recurring templates
+ * @param {Transaction[]} transactions - All transactions
+ * @returns {RecurringTransaction[]} The templates with estimatedAmountEUR and estimatedAmountUSD set
+ */
+export function withAmountEstimates(templates: RecurringTransaction[], transactions: Transaction[]): RecurringTransaction[] {
+  // The lines of a split charge are averaged as one charge
+  const charges = groupSplitTransactions(transactions);
+
+  return templates.map(template => {
+    if (!template.amountMode || template.amountMode === 'fixed') {
+      return template;
+    }
+
+    const estimate = estimateAmount(template, charges);
+    return {
+      ...template,
+      estimatedAmountEUR: estimate?.amountEUR,
+      estimatedAmountUSD: estimate?.amountUSD
+    };
+  });
+}
+
+/**
+ * Returns the amount an occurrence of a template is expected to have, for forecasts and posting
+ * Templates without a fixed amount use their estimate, or their own amount until they have history.
+ * @param {RecurringTransaction} template - The recurring template
+ * @returns {Pick<Transaction, 'amountEUR' | 'amountUSD'>} The expected amount per currency
+ */
+export function getExpectedAmount(template: RecurringTransaction): Pick<Transaction, 'amountEUR' | 'amountUSD'> {
+  const hasEstimate = template.estimatedAmountEUR !== undefined || template.estimatedAmountUSD !== undefined;
+
+  if (!template.amountMode || template.amountMode === 'fixed' || !hasEstimate) {
+    return { amountEUR: template.amountEUR, amountUSD: template.amountUSD };
+  }
+
+  return { amountEUR: template.estimatedAmountEUR, amountUSD: template.estimatedAmountUSD };
+}
+
+/**
+ * Returns the first day that has not been processed yet for a template
+ * @param {RecurringTransaction} template - The recurring template
+ * @returns {Date|null} Day after the last processed date, the start date, or null if neither is valid
+ */
+export function getProcessingStart(template: RecurringTransaction): Date | null {
+  const lastProcessed = parseDate(template.lastProcessed);
+  return lastProcessed ? addDays(lastProcessed, 1) : parseDate(template.startDate);
+}
+
+/**
+ * Builds a stable ID for the transaction generated from an occurrence
+ * The same occurrence always maps to the same ID, on any device.
+ * @param {string} templateId - ID of the recurring template
+ * @param {string} date - Scheduled date in YYYY-MM-DD format
+ * @returns {string} The transaction ID
+ */
+export function getOccurrenceTransactionId(templateId: string, date: string): string {
+  return `${templateId}@${date}`;
+}
+
+/**
+ * Creates the transaction for one occurrence of a template
+ * The amount is the expected one; it is marked as confirmed only for fixed-amount templates.
+ * @param {RecurringTransaction} template - The recurring template
+ * @param {string} scheduledDate - Scheduled date in YYYY-MM-DD format
+ * @param {string} [date] - Due date in YYYY-MM-DD format, defaults to the scheduled date
+ * @returns {Transaction} The generated transaction, linked to its template
+ */
+export function createOccurrenceTransaction(
+  template: RecurringTransaction,
+  scheduledDate: string,
+  date: string = scheduledDate
+): Transaction {
+  return {
+    id: template.id ? getOccurrenceTransactionId(template.id, scheduledDate) : undefined,
+    date,
+    description: template.description,
+    category: template.category,
+    subcategory: template.subcategory,
+    ...getExpectedAmount(template),
+    account: template.account,
+    notes: template.notes
+      ? `${template.notes} (Recurring: ${template.frequency})`
+      : `Recurring: ${template.frequency}`,
+    recurringId: template.id,
+    amountConfirmed: !template.amountMode || template.amountMode === 'fixed'
+  };
+}
+
+/**
+ * Applies the amount entered in the review queue to an occurrence's transaction
+ * Only the reviewed currency changes, so an amount in the other currency is kept, and an
+ * empty field keeps the expected amount. The amount is confirmed once it differs from
+ * the expected one, or whenever the template asks for its amount when posting.
+ * @param {DueOccurrence} occurrence - The occurrence, whose transaction has the expected amount
+ * @param {'EUR'|'USD'} currency - The currency the amount was entered in
+ * @param {number} [amount] - The entered amount, or undefined if the field was left empty
+ * @returns {Transaction} The transaction to book
+ */
+export function applyReviewedAmount(
+  occurrence: DueOccurrence,
+  currency: 'EUR' | 'USD',
+  amount?: number
+): Transaction {
+  const { transaction, template } = occurrence;
+  const field = currency === 'USD' ? 'amountUSD' : 'amountEUR';
+  const changed = amount !== undefined && amount !== transaction[field];
+
+  return {
+    ...transaction,
+    [field]: changed ? amount : transaction[field],
+    amountConfirmed: transaction.amountConfirmed || changed || template.amountMode === 'prompt'
+  };
+}
+
+/**
+ * Lists every occurrence of a template that is due by the processing date but not processed yet
+ * @param {RecurringTransaction} template - The recurring template
+ * @param {Date} [asOf] - Processing date, defaults to today
+ * @returns {DueOccurrence[]} Due occurrences in ascending date order, empty for inactive templates
+ */
+export function getDueOccurrences(template: RecurringTransaction, asOf: Date = new Date()): DueOccurrence[] {
+  const from = getProcessingStart(template);
+  if (!template.active || !template.id || !from) {
+    return [];
+  }
+
+  const lastDay = startOfDay(asOf);
+  const occurrences: DueOccurrence[] = [];
+
+  for (const occurrence of occurrencesAfter(template, subDays(from, 1))) {
+    if (occurrence.due > lastDay) break;
+
+    const scheduledDate = formatDate(occurrence.scheduled);
+    const date = formatDate(occurrence.due);
+    occurrences.push({ template, date, scheduledDate, transaction: createOccurrenceTransaction(template, scheduledDate, date) });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Splits a template so that changes only apply from a date onwards
+ *
+ * The current template ends the day before the effective date. The edited copy gets a
+ * new ID and starts on the effective date; if occurrences on or after that date were
+ * already processed, it inherits the processing cursor so they are not booked again.
+ * @param {RecurringTransaction} current - The template as currently stored
+ * @param {RecurringTransaction} edited - The template with the changes applied
+ * @param {string} effectiveDate - First day the changes apply to, in YYYY-MM-DD format
+ * @returns {{ended: RecurringTransaction, continued: RecurringTransaction}} The ended template and its successor
+ * @throws {Error} If the effective date is invalid
+ */
+export function splitRecurringTransaction(
+  current: RecurringTransaction,
+  edited: RecurringTransaction,
+  effectiveDate: string
+): { ended: RecurringTransaction; continued: RecurringTransaction } {
+  const effective = parseDate(effectiveDate);
+  if (!effective) {
+    throw new Error(`Invalid effective date: ${effectiveDate}`);
+  }
+
+  const dayBefore = subDays(effective, 1);
+  const currentEnd = parseDate(current.endDate);
+  const lastProcessed = parseDate(current.lastProcessed);
+
+  return {
+    ended: {
+      ...current,
+      endDate: formatDate(currentEnd && currentEnd < dayBefore ? currentEnd : dayBefore)
+    },
+    continued: {
+      ...edited,
+      id: crypto.randomUUID(),
+      startDate: formatDate(effective),
+      lastProcessed: lastProcessed && lastProcessed >= effective ? current.lastProcessed : undefined,
+      nextDue: undefined
+    }
+  };
+}
+
+/**
+ * Creates a copy of a template under a new ID
+ * The copy starts disabled so it cannot book the same charges twice before it is changed.
+ * Its processing cursor is kept, so enabling it does not catch up on past occurrences.
+ * @param {RecurringTransaction} template - The template to copy
+ * @returns {RecurringTransaction} The copy
+ */
+export function copyRecurringTransaction(template: RecurringTransaction): RecurringTransaction {
+  return {
+    ...template,
+    id: crypto.randomUUID(),
+    description: `${template.description} (Copy)`,
+    active: false,
+    snoozedDates: undefined,
+    nextDue: undefined
+  };
+}
+
+/**
+ * Calculates the date a template is next due, which may lie in the past if processing is behind
+ * @param {RecurringTransaction} template - The recurring template
+ * @returns {string|undefined} Next due date in YYYY-MM-DD format, or undefined once the schedule has ended
+ */
+export function getNextDueDate(template: RecurringTransaction): string | undefined {
+  const next = getNextOccurrence(template);
+  return next ? formatDate(next.due) : undefined;
+}
+
+/**
+ * Works out the pause of a template that stops it until a date
+ * The pause starts where processing would continue, so occurrences that are overdue
+ * but not booked yet are skipped as well, and those already booked stay in the schedule.
+ * @param {RecurringTransaction} template - The recurring template
+ * @param {string|null} pausedUntil - Day the schedule resumes on in YYYY-MM-DD format, or null to end the pause
+ * @returns {Pick<RecurringTransaction, 'pausedFrom' | 'pausedUntil'>} The pause fields to store
+ */
+export function getPause(
+  template: RecurringTransaction,
+  pausedUntil: string | null
+): Pick<RecurringTransaction, 'pausedFrom' | 'pausedUntil'> {
+  const from = getProcessingStart(template);
+  if (!pausedUntil || !from) {
+    return { pausedFrom: undefined, pausedUntil: undefined };
+  }
+
+  return { pausedFrom: formatDate(from), pausedUntil };
+}
+
+/**
+ * Finds the next occurrence processing will book, after skipped ones
+ * @param {RecurringTransaction} template - The recurring template
+ * @returns {Occurrence|null} The occurrence, or null once the schedule has ended
+ */
+export function getNextOccurrence(template: RecurringTransaction): Occurrence | null {
+  const from = getProcessingStart(template);
+  if (!from) return null;
+
+  const next = occurrencesAfter(template, subDays(from, 1)).next();
+  return next.done ? null : next.value;
+}
+
+/**
+ * Works out how far each template's Last Processed cursor may move after a review
+ *
+ * Approved and skipped occurrences are done with. A snoozed occurrence must come back
+ * in the next review, so its template's cursor stops at the last occurrence before it.
+ * Approved occurrences after a snoozed one are booked anyway and are not offered again,
+ * because their transactions already exist.
+ * @param {ReviewedOccurrence[]} reviewed - Every due occurrence of the reviewed templates
+ * @returns {Map<string, string>} New cursor in YYYY-MM-DD format by template ID, for templates whose cursor moves
+ */
+export function getReviewedCursors(reviewed: ReviewedOccurrence[]): Map<string, string> {
+  const byTemplate = new Map<string, ReviewedOccurrence[]>();
+  for (const item of reviewed) {
+    const templateId = item.occurrence.template.id;
+    if (templateId) {
+      byTemplate.set(templateId, [...(byTemplate.get(templateId) || []), item]);
+    }
+  }
+
+  const cursors = new Map<string, string>();
+  byTemplate.forEach((items, templateId) => {
+    let cursor: string | undefined;
+    for (const item of [...items].sort((a, b) => a.occurrence.scheduledDate.localeCompare(b.occurrence.scheduledDate))) {
+      if (item.action === 'snooze') break;
+      cursor = item.occurrence.scheduledDate;
+    }
+    if (cursor) {
+      cursors.set(templateId, cursor);
+    }
+  });
+
+  return cursors;
+}
+
+/**
+ * Collects the occurrences snoozed in a review, for templates whose snoozed occurrences change
+ * They are stored with the template, so that processing without a review leaves them alone.
+ * @param {ReviewedOccurrence[]} reviewed - Every due occurrence of the reviewed templates
+ * @returns {Map<string, string[]>} Sorted scheduled dates in YYYY-MM-DD format by template ID
+ */
+export function getReviewedSnoozes(reviewed: ReviewedOccurrence[]): Map<string, string[]> {
+  const snoozes = new Map<string, string[]>();
+  const templates = new Map<string, RecurringTransaction>();
+  for (const item of reviewed) {
+    const templateId = item.occurrence.template.id;
+    if (templateId) {
+      templates.set(templateId, item.occurrence.template);
+      const dates = snoozes.get(templateId) || [];
+      snoozes.set(templateId, item.action === 'snooze' ? [...dates, item.occurrence.scheduledDate] : dates);
+    }
+  }
+
+  snoozes.forEach((dates, templateId) => {
+    const stored = templates.get(templateId)?.snoozedDates || [];
+    if (dates.sort().join(',') === [...stored].sort().join(',')) {
+      snoozes.delete(templateId);
+    }
+  });
+  return snoozes;
+}
+
+/**
+ * Decides the due occurrences of a template when processing without a review
+ * Occurrences snoozed in an earlier review stay snoozed until they are reviewed again;
+ * every other occurrence is approved.
+ * @param {DueOccurrence[]} occurrences - Due occurrences of the template
+ * @returns {ReviewedOccurrence[]} The occurrences with their decisions
+ */
+export function reviewWithoutQueue(occurrences: DueOccurrence[]): ReviewedOccurrence[] {
+  return occurrences.map(occurrence => ({
+    occurrence,
+    action: (occurrence.template.snoozedDates || []).includes(occurrence.scheduledDate) ? 'snooze' : 'approve'
+  }));
+}
@@ -0,0 +1,190 @@
+/**
+ * Layout of the Recurring sheet
+ *
+ * Columns are located by their header name rather than by a fixed letter, so the
+ * sheet keeps working when columns are reordered or new ones are added. Headers
+ * that are missing from a sheet are appended after the last existing column.
+ */
+
+import type { RecurringTransaction } from './types';
+import { formatDate, parseDate } from './recurrence';
+
+/**
+ * Header name of the column storing each recurring transaction field
+ * The order is the column order used when a new Recurring sheet is created.
+ * @const RECURRING_HEADERS
+ */
+export const RECURRING_HEADERS = {
+  description: 'Description',
+  frequency: 'Frequency',
+  category: 'Category',
+  subcategory: 'Subcategory',
+  startDate: 'Start Date',
+  amountEUR: 'Amount (EUR)',
+  amountUSD: 'Amount (USD)',
+  account: 'Account',
+  notes: 'Notes',
+  dayOfMonth: 'Day of Month',
+  dayOfWeek: 'Day of Week',
+  endDate: 'End Date',
+  lastProcessed: 'Last Processed',
+  active: 'Active',
+  id: 'ID',
+  rrule: 'RRULE',
+  businessDayAdjustment: 'Business Day Adjustment',
+  holidayCalendar: 'Holiday Calendar',
+  amountMode: 'Amount Mode',
+  estimateCount: 'Estimate Count',
+  pausedFrom: 'Paused From',
+  pausedUntil: 'Paused Until',
+  exceptionDates: 'EXDATE',
+  snoozedDates: 'Snoozed'
+} as const;
+
+/**
+ * Recurring transaction fields persisted in the Recurring sheet
+ * @type {RecurringField}
+ */
+export type RecurringField = keyof typeof RECURRING_HEADERS;
+
+/**
+ * Zero-based column index of every persisted field
+ * @type {RecurringColumns}
+ */
+export type RecurringColumns = Record<RecurringField, number>;
+
+/**
+ * Converts a zero-based column index into its A1 column letter
+ * @param {number} index - Zero-based column index
+ * @returns {string} Column letter, e.g. 0 => A, 27 => AB
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((remaining - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Locates every field's column from a sheet's header row
+ * Header names are matched case-insensitively; missing headers are assigned new
+ * columns after the last used one. Shared by every sheet whose columns are located by header.
+ * @param {Record<F, string>} headers - Header name of every field, in the order new columns are added
+ * @param {string[]} headerRow - Values of the sheet's first row
+ * @returns {{columns: Record<F, number>, added: {index: number, header: string}[]}} Column indices and the headers that must be written
+ */
+export function resolveColumns<F extends string>(headers: Record<F, string>, headerRow: string[]): {
+  columns: Record<F, number>;
+  added: { index: number; header: string }[];
+} {
+  const normalized = headerRow.map(header => String(header || '').trim().toLowerCase());
+  const columns = {} as Record<F, number>;
+  const added: { index: number; header: string }[] = [];
+  let nextIndex = headerRow.length;
+
+  (Object.keys(headers) as F[]).forEach(field => {
+    const header = headers[field];
+    const index = normalized.indexOf(header.toLowerCase());
+
+    if (index !== -1) {
+      columns[field] = index;
+    } else {
+      columns[field] = nextIndex;
+      added.push({ index: nextIndex, header });
+      nextIndex++;
+    }
+  });
+
+  return { columns, added };
+}
+
+/**
+ * Locates every recurring transaction field's column from the Recurring sheet's header row
+ * @param {string[]} headerRow - Values of the sheet's first row
+ * @returns {{columns: RecurringColumns, added: {index: number, header: string}[]}} Column indices and the headers that must be written
+ */
+export function resolveRecurringColumns(headerRow: string[]): {
+  columns: RecurringColumns;
+  added: { index: number; header: string }[];
+} {
+  return resolveColumns(RECURRING_HEADERS, headerRow);
+}
+
+/**
+ * Returns the letter of the last column used by any field
+ * @param {RecurringColumns} columns - Column indices
+ * @returns {string} Column letter
+ */
+export function lastRecurringColumn(columns: RecurringColumns): string {
+  return columnLetter(Math.max(...Object.values(columns)));
+}
+
+/**
+ * Parses the EXDATE or Snoozed column, a comma-separated list of dates
+ * @param {string} value - The cell value, e.g. "2024-03-01, 2024-06-01"
+ * @returns {string[]|undefined} Dates in YYYY-MM-DD format, or undefined if there are none
+ */
+export function parseExceptionDates(value: string): string[] | undefined {
+  // A single date may have been turned into a formatted date by the spreadsheet
+  const dates = String(value || '')
+    .split(',')
+    .map(date => parseDate(date))
+    .filter((date): date is Date => date !== null)
+    .map(formatDate);
+  return dates.length > 0 ? dates : undefined;
+}
+
+/**
+ * Formats exception or snoozed dates for the EXDATE or Snoozed column
+ * @param {string[]} [dates] - Dates in YYYY-MM-DD format
+ * @returns {string} Sorted comma-separated dates
+ */
+export function formatExceptionDates(dates?: string[]): string {
+  return [...(dates || [])].sort().join(',');
+}
+
+/**
+ * Converts a recurring transaction into a Recurring sheet row
+ * Columns that do not belong to a field are null, which leaves them untouched on write.
+ * @param {RecurringTransaction} recurringTransaction - The recurring transaction to convert
+ * @param {RecurringColumns} columns - Column indices
+ * @returns {(string|number|null)[]} Row values
+ */
+export function toRecurringRow(
+  recurringTransaction: RecurringTransaction,
+  columns: RecurringColumns
+): (string | number | null)[] {
+  const values: Record<RecurringField, string | number> = {
+    description: recurringTransaction.description,
+    frequency: recurringTransaction.frequency,
+    category: recurringTransaction.category || '',
+    subcategory: recurringTransaction.subcategory || '',
+    startDate: recurringTransaction.startDate,
+    amountEUR: recurringTransaction.amountEUR || '',
+    amountUSD: recurringTransaction.amountUSD || '',
+    account: recurringTransaction.account,
+    notes: recurringTransaction.notes || '',
+    dayOfMonth: recurringTransaction.dayOfMonth ?? '',
+    dayOfWeek: recurringTransaction.dayOfWeek ?? '',
+    endDate: recurringTransaction.endDate || '',
+    lastProcessed: recurringTransaction.lastProcessed || '',
+    active: recurringTransaction.active ? 'TRUE' : 'FALSE',
+    id: recurringTransaction.id || '',
+    rrule: recurringTransaction.rrule || '',
+    businessDayAdjustment: recurringTransaction.businessDayAdjustment || '',
+    holidayCalendar: recurringTransaction.holidayCalendar || '',
+    amountMode: recurringTransaction.amountMode || '',
+    estimateCount: recurringTransaction.estimateCount ?? '',
+    pausedFrom: recurringTransaction.pausedFrom || '',
+    pausedUntil: recurringTransaction.pausedUntil || '',
+    exceptionDates: formatExceptionDates(recurringTransaction.exceptionDates),
+    snoozedDates: formatExceptionDates(recurringTransaction.snoozedDates)
+  };
+
+  const row: (string | number | null)[] = new Array(Math.max(...Object.values(columns)) + 1).fill(null);
+  (Object.keys(values) as RecurringField[]).forEach(field => {
+    row[columns[field]] = values[field];
+  });
+  return row;
+}
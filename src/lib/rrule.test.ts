@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { describeRRule, formatOrdinal, formatRRule, iterateRRule, parseRRule } from './rrule';
+import { formatDate, parseDate } from './recurrence';
+
+/**
+ * Returns the first occurrences of a rule from a start date
+ */
+const take = (value: string, start: string, limit: number = 6): string[] => {
+  const dates: string[] = [];
+  for (const date of iterateRRule(parseRRule(value), parseDate(start)!)) {
+    dates.push(formatDate(date));
+    if (dates.length >= limit) break;
+  }
+  return dates;
+};
+
+describe('parseRRule', () => {
+  it('reads every supported part, with or without the RRULE: prefix', () => {
+    const rule = parseRRule('RRULE:freq=monthly;interval=2;byday=2TU,-1FR;bymonth=1,7;bysetpos=1;wkst=SU');
+
+    expect(rule).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      byMonth: [1, 7],
+      bySetPos: [1],
+      weekStart: 0
+    });
+  });
+
+  it('rejects unsupported or contradictory rules', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow('Unsupported RRULE frequency: HOURLY');
+    expect(() => parseRRule('INTERVAL=2')).toThrow('(missing)');
+    expect(() => parseRRule('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported RRULE part: BYHOUR');
+    expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20240101')).toThrow('both COUNT and UNTIL');
+    expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=32')).toThrow();
+  });
+
+  it('reads back what formatRRule writes', () => {
+    const value = 'FREQ=YEARLY;INTERVAL=2;UNTIL=20301231;BYMONTH=3;BYMONTHDAY=-1';
+
+    expect(formatRRule(parseRRule(value))).toBe(value);
+    expect(formatRRule(parseRRule('FREQ=WEEKLY;INTERVAL=1;WKST=MO'))).toBe('FREQ=WEEKLY');
+  });
+});
+
+describe('iterateRRule', () => {
+  it('finds the second Tuesday of every month', () => {
+    expect(take('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01', 3)).toEqual(['2024-01-09', '2024-02-13', '2024-03-12']);
+  });
+
+  it('repeats every four weeks on the weekday of the start date', () => {
+    expect(take('FREQ=WEEKLY;INTERVAL=4', '2024-01-05', 3)).toEqual(['2024-01-05', '2024-02-02', '2024-03-01']);
+  });
+
+  it('counts negative month days from the end of the month', () => {
+    expect(take('FREQ=MONTHLY;BYMONTHDAY=-1', '2024-01-15', 3)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+  });
+
+  it('skips months without the day instead of clamping it', () => {
+    expect(take('FREQ=MONTHLY;BYMONTHDAY=31', '2024-01-01', 3)).toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+  });
+
+  it('only yields the start date when the rule matches it', () => {
+    expect(take('FREQ=WEEKLY;BYDAY=MO', '2024-01-03', 2)).toEqual(['2024-01-08', '2024-01-15']);
+  });
+
+  it('stops for rules that can never match', () => {
+    expect(take('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2024-01-01')).toEqual([]);
+  });
+});
+
+describe('describeRRule', () => {
+  it('describes rules in plain English', () => {
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU'))).toBe('Monthly on the 2nd Tue');
+    expect(describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=4'))).toBe('Every 4 weeks');
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'))).toBe('Monthly on the last weekday');
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;COUNT=12'))).toBe('Monthly for 12 occurrences');
+  });
+
+  it('formats ordinals, counting from the end for negative ones', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, -1, -2].map(formatOrdinal))
+      .toEqual(['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', 'last', '2nd last']);
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * iCalendar (RFC 5545) recurrence rules
+ *
+ * Parses, formats and evaluates the part of RRULE that describes date-based schedules:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY,
+ * BYMONTH, BYSETPOS and WKST. Times of day are not supported; every occurrence is a date.
+ */
+
+import { addDays, addMonths, format, getDayOfYear, getDaysInYear, startOfDay } from 'date-fns';
+
+/**
+ * Supported RRULE frequencies
+ * @type {RRuleFrequency}
+ */
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * A BYDAY entry, e.g. TU (every Tuesday) or -1FR (the last Friday)
+ * @interface RRuleWeekday
+ */
+export interface RRuleWeekday {
+  /** Day of week (0-6, 0 is Sunday) */
+  weekday: number;
+  /** Position within the month or year, negative to count from the end */
+  ordinal?: number;
+}
+
+/**
+ * A parsed recurrence rule
+ * @interface RRule
+ */
+export interface RRule {
+  freq: RRuleFrequency;
+  /** Number of periods between occurrences, at least 1 */
+  interval: number;
+  /** Total number of occurrences */
+  count?: number;
+  /** Last day an occurrence may fall on (inclusive) */
+  until?: Date;
+  byDay?: RRuleWeekday[];
+  /** Days of the month (1-31), negative to count from the end */
+  byMonthDay?: number[];
+  /** Months of the year (1-12) */
+  byMonth?: number[];
+  /** Positions within each period's set of matching days, negative to count from the end */
+  bySetPos?: number[];
+  /** First day of the week (0-6, 0 is Sunday), Monday by default */
+  weekStart: number;
+}
+
+/** RRULE weekday codes indexed by day of week, 0 is Sunday */
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+/** Frequencies in the order they are offered */
+export const RRULE_FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Rules that stop matching, e.g. February 30th, are given up on after this many years without an occurrence */
+const MAX_GAP_YEARS = 10;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const PERIOD_NAMES: Record<RRuleFrequency, [string, string]> = {
+  DAILY: ['Daily', 'days'],
+  WEEKLY: ['Weekly', 'weeks'],
+  MONTHLY: ['Monthly', 'months'],
+  YEARLY: ['Yearly', 'years']
+};
+
+/**
+ * Parses a comma-separated list of non-zero integers
+ * @param {string} name - Rule part name, for error messages
+ * @param {string} value - The list
+ * @param {number} max - Largest allowed absolute value
+ * @param {boolean} allowNegative - Whether values may count from the end
+ * @returns {number[]} The parsed values
+ * @throws {Error} If a value is out of range
+ */
+function parseNumberList(name: string, value: string, max: number, allowNegative: boolean): number[] {
+  return value.split(',').map(part => {
+    const number = Number(part);
+    if (!Number.isInteger(number) || number === 0 || Math.abs(number) > max || (number < 0 && !allowNegative)) {
+      throw new Error(`Invalid ${name} value: ${part}`);
+    }
+    return number;
+  });
+}
+
+/**
+ * Parses a positive integer rule part
+ * @param {string} name - Rule part name, for error messages
+ * @param {string} value - The value
+ * @returns {number} The parsed value
+ * @throws {Error} If the value is not a positive integer
+ */
+function parsePositiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name} value: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Parses a weekday code
+ * @param {string} code - Two-letter weekday code, e.g. MO
+ * @returns {number} Day of week (0-6, 0 is Sunday)
+ * @throws {Error} If the code is unknown
+ */
+function parseWeekdayCode(code: string): number {
+  const weekday = (WEEKDAY_CODES as readonly string[]).indexOf(code);
+  if (weekday === -1) {
+    throw new Error(`Invalid weekday: ${code}`);
+  }
+  return weekday;
+}
+
+/**
+ * Parses a BYDAY entry such as TU, 2TU or -1FR
+ * @param {string} value - The entry
+ * @returns {RRuleWeekday} The parsed entry
+ * @throws {Error} If the entry is invalid
+ */
+function parseWeekday(value: string): RRuleWeekday {
+  const match = value.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value: ${value}`);
+  }
+
+  const weekday = parseWeekdayCode(match[2]);
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+
+  const ordinal = parseInt(match[1], 10);
+  if (ordinal === 0 || Math.abs(ordinal) > 53) {
+    throw new Error(`Invalid BYDAY value: ${value}`);
+  }
+  return { weekday, ordinal };
+}
+
+/**
+ * Parses an UNTIL value; only its date is used
+ * @param {string} value - Date in YYYYMMDD format, optionally followed by a time
+ * @returns {Date} The local date at midnight
+ * @throws {Error} If the value is invalid
+ */
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+/**
+ * Parses an RRULE string
+ * @param {string} value - The rule, with or without the "RRULE:" prefix, e.g. FREQ=MONTHLY;BYDAY=2TU
+ * @returns {RRule} The parsed rule
+ * @throws {Error} If the rule is invalid or uses unsupported parts
+ */
+export function parseRRule(value: string): RRule {
+  const parts = new Map<string, string>();
+
+  value.trim().replace(/^RRULE:/i, '').split(';').forEach(part => {
+    if (!part) return;
+
+    const [name, partValue] = part.split('=');
+    if (!name || !partValue) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    parts.set(name.trim().toUpperCase(), partValue.trim().toUpperCase());
+  });
+
+  const freq = parts.get('FREQ') as RRuleFrequency;
+  if (!RRULE_FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported RRULE frequency: ${parts.get('FREQ') || '(missing)'}`);
+  }
+
+  const rule: RRule = { freq, interval: 1, weekStart: 1 };
+
+  parts.forEach((partValue, name) => {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInteger(name, partValue);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInteger(name, partValue);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseNumberList(name, partValue, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseNumberList(name, partValue, 12, false);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseNumberList(name, partValue, 366, true);
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekdayCode(partValue);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${name}`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) {
+    throw new Error('RRULE cannot have both COUNT and UNTIL');
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a rule as an RRULE string, without the "RRULE:" prefix
+ * @param {RRule} rule - The rule
+ * @returns {string} The rule, e.g. FREQ=WEEKLY;INTERVAL=4
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, 'yyyyMMdd')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Fills in the BY* parts that RFC 5545 derives from the start date when they are omitted
+ * @param {RRule} rule - The rule
+ * @param {Date} start - The start date
+ * @returns {RRule} The rule with its implicit parts made explicit
+ */
+function withStartDefaults(rule: RRule, start: Date): RRule {
+  const month = start.getMonth() + 1;
+  const day = start.getDate();
+
+  switch (rule.freq) {
+    case 'WEEKLY':
+      return rule.byDay ? rule : { ...rule, byDay: [{ weekday: start.getDay() }] };
+
+    case 'MONTHLY':
+      return rule.byDay || rule.byMonthDay ? rule : { ...rule, byMonthDay: [day] };
+
+    case 'YEARLY':
+      if (rule.byDay || rule.byMonthDay) return rule;
+      return { ...rule, byMonth: rule.byMonth || [month], byMonthDay: [day] };
+
+    default:
+      return rule;
+  }
+}
+
+/**
+ * Returns the first and last day of the n-th period after the start date
+ * @param {RRule} rule - The rule
+ * @param {Date} start - The start date
+ * @param {number} index - Zero-based period index
+ * @returns {{first: Date, last: Date}} The period's days (inclusive)
+ */
+function periodAt(rule: RRule, start: Date, index: number): { first: Date; last: Date } {
+  const step = index * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(start, step);
+      return { first: day, last: day };
+    }
+
+    case 'WEEKLY': {
+      const weekStart = addDays(start, -((start.getDay() - rule.weekStart + 7) % 7));
+      const first = addDays(weekStart, step * 7);
+      return { first, last: addDays(first, 6) };
+    }
+
+    case 'MONTHLY': {
+      const first = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), step);
+      return { first, last: new Date(first.getFullYear(), first.getMonth() + 1, 0) };
+    }
+
+    case 'YEARLY':
+      return {
+        first: new Date(start.getFullYear() + step, 0, 1),
+        last: new Date(start.getFullYear() + step, 11, 31)
+      };
+  }
+}
+
+/**
+ * Checks whether a BYDAY ordinal matches a date
+ * Ordinals count within the month for monthly rules and yearly rules with BYMONTH,
+ * and within the year for other yearly rules.
+ * @param {RRule} rule - The rule
+ * @param {Date} date - The date, already known to fall on the entry's weekday
+ * @param {number} ordinal - The ordinal, negative to count from the end
+ * @returns {boolean} True if the date is at that position
+ */
+function matchesOrdinal(rule: RRule, date: Date, ordinal: number): boolean {
+  if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+    return true;
+  }
+
+  const inMonth = rule.freq === 'MONTHLY' || Boolean(rule.byMonth);
+  const dayIndex = inMonth ? date.getDate() - 1 : getDayOfYear(date) - 1;
+  const scopeLength = inMonth
+    ? new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+    : getDaysInYear(date);
+
+  return ordinal > 0
+    ? Math.floor(dayIndex / 7) + 1 === ordinal
+    : Math.floor((scopeLength - 1 - dayIndex) / 7) + 1 === -ordinal;
+}
+
+/**
+ * Checks whether a date matches a rule's BYMONTH, BYMONTHDAY and BYDAY parts
+ * @param {RRule} rule - The rule, with its implicit parts made explicit
+ * @param {Date} date - The date
+ * @returns {boolean} True if the date matches every part
+ */
+function matchesDate(rule: RRule, date: Date): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) {
+    return false;
+  }
+
+  if (rule.byMonthDay) {
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    const day = date.getDate();
+    if (!rule.byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === day)) {
+      return false;
+    }
+  }
+
+  if (rule.byDay) {
+    return rule.byDay.some(entry =>
+      entry.weekday === date.getDay() &&
+      (entry.ordinal === undefined || matchesOrdinal(rule, date, entry.ordinal))
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Yields every occurrence of a rule in ascending order
+ * The start date is a lower bound: it is only an occurrence if the rule matches it.
+ * Infinite rules yield forever, so callers must stop iterating themselves.
+ * @param {RRule} rule - The rule
+ * @param {Date} start - The start date
+ * @yields {Date} Occurrence dates at local midnight
+ */
+export function* iterateRRule(rule: RRule, start: Date): Generator<Date> {
+  const first = startOfDay(start);
+  const expanded = withStartDefaults(rule, first);
+  let lastMatch = first;
+  let emitted = 0;
+
+  for (let index = 0; ; index++) {
+    const period = periodAt(expanded, first, index);
+    if (rule.until && period.first > rule.until) return;
+    if (period.first.getFullYear() - lastMatch.getFullYear() > MAX_GAP_YEARS) return;
+
+    let matches: Date[] = [];
+    for (let date = period.first; date <= period.last; date = addDays(date, 1)) {
+      if (matchesDate(expanded, date)) matches.push(date);
+    }
+
+    if (expanded.bySetPos) {
+      const positions = expanded.bySetPos;
+      matches = matches.filter((_, position) =>
+        positions.includes(position + 1) || positions.includes(position - matches.length)
+      );
+    }
+
+    for (const date of matches) {
+      if (date < first) continue;
+      if (rule.until && date > rule.until) return;
+
+      yield date;
+      lastMatch = date;
+      emitted++;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Formats an ordinal for display
+ * @param {number} ordinal - The ordinal, negative to count from the end
+ * @returns {string} E.g. 1st, 2nd, last, 2nd last
+ */
+export function formatOrdinal(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+
+  const value = Math.abs(ordinal);
+  const suffix = value % 100 >= 11 && value % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] || 'th';
+  return ordinal < 0 ? `${value}${suffix} last` : `${value}${suffix}`;
+}
+
+/**
+ * Describes a rule in plain English
+ * @param {RRule} rule - The rule
+ * @returns {string} E.g. "Monthly on the 2nd Tue" or "Every 4 weeks"
+ */
+export function describeRRule(rule: RRule): string {
+  const [single, plural] = PERIOD_NAMES[rule.freq];
+  const parts = [rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`];
+
+  if (rule.byMonth) {
+    parts.push(`in ${rule.byMonth.map(month => MONTH_NAMES[month - 1]).join(', ')}`);
+  }
+
+  const isWorkweek = rule.byDay?.length === 5 &&
+    [1, 2, 3, 4, 5].every(weekday => rule.byDay?.some(day => day.weekday === weekday && day.ordinal === undefined));
+
+  if (isWorkweek && rule.bySetPos?.length === 1) {
+    parts.push(`on the ${formatOrdinal(rule.bySetPos[0])} weekday`);
+  } else {
+    if (rule.byMonthDay) {
+      const days = rule.byMonthDay.map(day => (day > 0 ? formatOrdinal(day) : `${formatOrdinal(day)} day`));
+      parts.push(`on the ${days.join(', ')}`);
+    }
+    if (rule.byDay) {
+      const days = isWorkweek
+        ? ['weekdays']
+        : rule.byDay.map(day =>
+          `${day.ordinal !== undefined ? `the ${formatOrdinal(day.ordinal)} ` : ''}${WEEKDAY_NAMES[day.weekday]}`
+        );
+      parts.push(`on ${days.join(', ')}`);
+    }
+    if (rule.bySetPos) {
+      parts.push(`(${rule.bySetPos.map(formatOrdinal).join(', ')} match)`);
+    }
+  }
+
+  if (rule.count !== undefined) parts.push(`for ${rule.count} occurrences`);
+  if (rule.until) parts.push(`until ${format(rule.until, 'MMM d, yyyy')}`);
+
+  return parts.join(' ');
+}
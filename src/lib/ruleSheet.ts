@@ -0,0 +1,84 @@
+/**
+ * Layout of the Rules sheet
+ *
+ * Like the Recurring and Loans sheets, columns are located by their header name, so
+ * they can be reordered and new ones are appended when missing. Tags are kept in a
+ * single cell, comma-separated as in the Transactions sheet.
+ */
+
+import type { CategorizationRule } from './types';
+import { columnLetter } from './recurringSheet';
+import { formatTags } from './tags';
+
+/**
+ * Header name of the column storing each rule field
+ * The order is the column order used when the Rules sheet is created.
+ * @const RULE_HEADERS
+ */
+export const RULE_HEADERS = {
+  name: 'Name',
+  descriptionPattern: 'Description',
+  matchType: 'Match',
+  account: 'Account',
+  minAmount: 'Min Amount',
+  maxAmount: 'Max Amount',
+  category: 'Category',
+  subcategory: 'Subcategory',
+  tags: 'Tags',
+  notes: 'Notes',
+  priority: 'Priority',
+  active: 'Active',
+  id: 'ID'
+} as const;
+
+/**
+ * Rule fields persisted in the Rules sheet
+ * @type {RuleField}
+ */
+export type RuleField = keyof typeof RULE_HEADERS;
+
+/**
+ * Zero-based column index of every persisted field
+ * @type {RuleColumns}
+ */
+export type RuleColumns = Record<RuleField, number>;
+
+/**
+ * Returns the letter of the last column used by any field
+ * @param {RuleColumns} columns - Column indices
+ * @returns {string} Column letter
+ */
+export function lastRuleColumn(columns: RuleColumns): string {
+  return columnLetter(Math.max(...Object.values(columns)));
+}
+
+/**
+ * Converts a rule into a Rules sheet row
+ * Columns that do not belong to a field are null, which leaves them untouched on write.
+ * @param {CategorizationRule} rule - The rule to convert
+ * @param {RuleColumns} columns - Column indices
+ * @returns {(string|number|null)[]} Row values
+ */
+export function toRuleRow(rule: CategorizationRule, columns: RuleColumns): (string | number | null)[] {
+  const values: Record<RuleField, string | number> = {
+    name: rule.name,
+    descriptionPattern: rule.descriptionPattern || '',
+    matchType: rule.matchType || 'contains',
+    account: rule.account || '',
+    minAmount: rule.minAmount ?? '',
+    maxAmount: rule.maxAmount ?? '',
+    category: rule.category || '',
+    subcategory: rule.subcategory || '',
+    tags: formatTags(rule.tags),
+    notes: rule.notes || '',
+    priority: rule.priority,
+    active: rule.active ? 'TRUE' : 'FALSE',
+    id: rule.id || ''
+  };
+
+  const row: (string | number | null)[] = new Array(Math.max(...Object.values(columns)) + 1).fill(null);
+  (Object.keys(values) as RuleField[]).forEach(field => {
+    row[columns[field]] = values[field];
+  });
+  return row;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { applyRules, findMatchingRule, isUncategorized, matchesRule, validateRule } from './rules';
+import type { CategorizationRule } from './types';
+import { buildTransaction } from '../test/fixtures';
+
+const rule = (fields: Partial<CategorizationRule>): CategorizationRule => ({
+  name: 'Groceries',
+  descriptionPattern: 'albert heijn',
+  category: 'Food & Dining',
+  subcategory: 'Groceries',
+  priority: 1,
+  active: true,
+  ...fields
+});
+
+const groceries = buildTransaction({ description: 'ALBERT HEIJN 1234 AMSTERDAM', category: '', subcategory: '', amountEUR: 42.5 });
+
+describe('validateRule', () => {
+  it('needs a condition, an action and a sensible amount range', () => {
+    expect(() => validateRule(rule({}))).not.toThrow();
+    expect(() => validateRule(rule({ descriptionPattern: '' }))).toThrow('description, account or amount condition');
+    expect(() => validateRule(rule({ category: '' }))).toThrow('category, tags or notes');
+    expect(() => validateRule(rule({ minAmount: 10, maxAmount: 5 }))).toThrow('minimum amount is larger');
+    expect(() => validateRule(rule({ matchType: 'regex', descriptionPattern: '(' }))).toThrow('Invalid regular expression');
+  });
+});
+
+describe('matchesRule', () => {
+  it('compares the description in every match mode, ignoring case', () => {
+    const description = (matchType: CategorizationRule['matchType'], descriptionPattern: string) =>
+      matchesRule(rule({ matchType, descriptionPattern }), groceries);
+
+    expect(description('contains', 'heijn')).toBe(true);
+    expect(description('startsWith', 'Albert')).toBe(true);
+    expect(description('startsWith', 'Heijn')).toBe(false);
+    expect(description('equals', 'albert heijn')).toBe(false);
+    expect(description('equals', 'albert heijn 1234 amsterdam')).toBe(true);
+    expect(description('regex', '^albert heijn \\d+')).toBe(true);
+    expect(description('regex', '(')).toBe(false);
+  });
+
+  it('checks the account and the amount without its sign', () => {
+    const refund = { ...groceries, amountEUR: -42.5 };
+
+    expect(matchesRule(rule({ account: 'Card', minAmount: 40, maxAmount: 50 }), refund)).toBe(true);
+    expect(matchesRule(rule({ account: 'Bank' }), refund)).toBe(false);
+    expect(matchesRule(rule({ maxAmount: 40 }), refund)).toBe(false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('picks the first active rule by priority', () => {
+    const rules = [
+      rule({ name: 'Late', priority: 5 }),
+      rule({ name: 'Disabled', priority: 0, active: false }),
+      rule({ name: 'Early', priority: 2 })
+    ];
+
+    expect(findMatchingRule(rules, groceries)?.name).toBe('Early');
+  });
+});
+
+describe('applyRules', () => {
+  it('fills in the category, notes and tags a transaction is missing', () => {
+    const rules = [rule({ notes: 'Weekly shop', tags: ['household', 'Food'] })];
+
+    expect(applyRules({ ...groceries, tags: ['food'] }, rules)).toMatchObject({
+      category: 'Food & Dining',
+      subcategory: 'Groceries',
+      notes: 'Weekly shop',
+      tags: ['food', 'household']
+    });
+  });
+
+  it('never overwrites what the transaction already has', () => {
+    const categorized = { ...groceries, category: 'Household', subcategory: 'Supplies', notes: 'Detergent', tags: ['household'] };
+
+    expect(applyRules(categorized, [rule({ notes: 'Weekly shop', tags: ['Household'] })])).toBe(categorized);
+  });
+
+  it('leaves split transactions and transfers alone', () => {
+    const line = { ...groceries, splitId: 'groceries' };
+    const transfer = { ...groceries, transferAccount: 'Savings' };
+
+    expect(applyRules(line, [rule({})])).toBe(line);
+    expect(applyRules(transfer, [rule({})])).toBe(transfer);
+    expect([line, transfer, groceries].map(isUncategorized)).toEqual([false, false, true]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Rule-based categorization shared by every FinanceStore implementation
+ *
+ * Rules are tried from the lowest priority up and only the first active rule whose
+ * conditions all hold applies. A rule fills in what a transaction is missing: its
+ * category only when it has none, its notes only when they are empty, and its tags
+ * on top of the transaction's own. Rules therefore never overwrite what a user or a
+ * recurring template chose. Split transactions and transfers are left alone, since
+ * their lines and legs carry their own categories.
+ */
+
+import type { CategorizationRule, RuleMatchType, Transaction } from './types';
+import { isTransfer } from './transfers';
+import { addTag } from './tags';
+
+/** Display names of the ways a rule's text is compared with the description */
+export const RULE_MATCH_TYPES: Record<RuleMatchType, string> = {
+  contains: 'Contains',
+  startsWith: 'Starts with',
+  equals: 'Is exactly',
+  regex: 'Matches regular expression'
+};
+
+/**
+ * Checks whether a value names a way of comparing a rule's text with the description
+ * @param {string} value - The value
+ * @returns {boolean} True for a known match type
+ */
+export function isRuleMatchType(value: string): value is RuleMatchType {
+  return Object.prototype.hasOwnProperty.call(RULE_MATCH_TYPES, value);
+}
+
+/**
+ * Checks whether a transaction has no category yet and can be given one by a rule
+ * @param {Transaction} transaction - The transaction
+ * @returns {boolean} True for uncategorized transactions that are neither split nor a transfer
+ */
+export function isUncategorized(transaction: Transaction): boolean {
+  return !transaction.category &&
+    !transaction.splits?.length &&
+    !transaction.splitId &&
+    !isTransfer(transaction);
+}
+
+/**
+ * Checks that a rule has a condition and something to apply
+ * @param {CategorizationRule} rule - The rule
+ * @returns {void}
+ * @throws {Error} If the rule has no condition or action, its amount range is empty, or its regular expression is invalid
+ */
+export function validateRule(rule: CategorizationRule): void {
+  if (!rule.descriptionPattern && !rule.account && rule.minAmount === undefined && rule.maxAmount === undefined) {
+    throw new Error('A rule needs a description, account or amount condition');
+  }
+  if (!rule.category && !rule.tags?.length && !rule.notes) {
+    throw new Error('A rule needs a category, tags or notes to apply');
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+    throw new Error('The minimum amount is larger than the maximum amount');
+  }
+  if (rule.matchType === 'regex' && rule.descriptionPattern) {
+    try {
+      new RegExp(rule.descriptionPattern, 'i');
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${rule.descriptionPattern}`);
+    }
+  }
+}
+
+/**
+ * Orders rules the way they are tried, leaving out inactive ones
+ * @param {CategorizationRule[]} rules - The rules
+ * @returns {CategorizationRule[]} Active rules from the lowest priority up, keeping their order on ties
+ */
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return rules
+    .filter(rule => rule.active)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Compares a rule's text with a description, ignoring case
+ * An invalid regular expression matches nothing.
+ * @param {CategorizationRule} rule - The rule
+ * @param {string} description - The transaction's description
+ * @returns {boolean} True when the description matches, or the rule has no text
+ */
+function matchesDescription(rule: CategorizationRule, description: string): boolean {
+  const pattern = (rule.descriptionPattern || '').trim();
+  if (!pattern) return true;
+
+  const text = description.toLowerCase();
+  switch (rule.matchType) {
+    case 'startsWith':
+      return text.startsWith(pattern.toLowerCase());
+    case 'equals':
+      return text.trim() === pattern.toLowerCase();
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(description);
+      } catch (error) {
+        return false;
+      }
+    default:
+      return text.includes(pattern.toLowerCase());
+  }
+}
+
+/**
+ * Checks whether a transaction meets every condition of a rule
+ * The amount range is compared with the EUR amount, or the USD amount when there
+ * is none, without its sign.
+ * @param {CategorizationRule} rule - The rule
+ * @param {Transaction} transaction - The transaction
+ * @returns {boolean} True when the rule applies to the transaction
+ */
+export function matchesRule(rule: CategorizationRule, transaction: Transaction): boolean {
+  const amount = Math.abs(transaction.amountEUR || transaction.amountUSD || 0);
+
+  return matchesDescription(rule, transaction.description || '') &&
+    (!rule.account || rule.account === transaction.account) &&
+    (rule.minAmount === undefined || amount >= rule.minAmount) &&
+    (rule.maxAmount === undefined || amount <= rule.maxAmount);
+}
+
+/**
+ * Finds the rule that applies to a transaction
+ * @param {CategorizationRule[]} rules - The rules, in any order
+ * @param {Transaction} transaction - The transaction
+ * @returns {CategorizationRule|undefined} The first active matching rule by priority
+ */
+export function findMatchingRule(rules: CategorizationRule[], transaction: Transaction): CategorizationRule | undefined {
+  return sortRules(rules).find(rule => matchesRule(rule, transaction));
+}
+
+/**
+ * Fills in a transaction's missing category, notes and tags from the rule that applies to it
+ * @param {Transaction} transaction - The transaction
+ * @param {CategorizationRule[]} rules - The rules, in any order
+ * @returns {Transaction} The completed transaction, or the same transaction when nothing changes
+ */
+export function applyRules(transaction: Transaction, rules: CategorizationRule[]): Transaction {
+  if (transaction.splits?.length || transaction.splitId || isTransfer(transaction)) {
+    return transaction;
+  }
+
+  const rule = findMatchingRule(rules, transaction);
+  if (!rule) return transaction;
+
+  let result = transaction;
+  if (!transaction.category && rule.category) {
+    result = { ...result, category: rule.category, subcategory: rule.subcategory || '' };
+  }
+  if (!transaction.notes && rule.notes) {
+    result = { ...result, notes: rule.notes };
+  }
+
+  const currentTags = transaction.tags || [];
+  const tags = (rule.tags || []).reduce((current, tag) => addTag(current, tag), currentTags);
+  if (tags !== currentTags) {
+    result = { ...result, tags };
+  }
+
+  return result;
+}
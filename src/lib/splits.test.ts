@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { expandSplitTransaction, getUnallocatedAmount, groupSplitTransactions, validateSplits } from './splits';
+import type { Transaction } from './types';
+import { buildTransaction } from '../test/fixtures';
+
+const groceries = buildTransaction({
+  id: 'groceries',
+  description: 'Supermarket',
+  category: '',
+  subcategory: '',
+  amountEUR: 60,
+  notes: 'Weekly shop',
+  splits: [
+    { category: 'Food & Dining', subcategory: 'Groceries', amountEUR: 40.1 },
+    { category: 'Household', subcategory: 'Supplies', amountEUR: 19.9, notes: 'Detergent' }
+  ]
+});
+
+describe('validateSplits', () => {
+  it('accepts lines that add up to the total', () => {
+    expect(() => validateSplits(groceries)).not.toThrow();
+    expect(getUnallocatedAmount(groceries, 'amountEUR')).toBe(0);
+  });
+
+  it('rejects lines that do not add up, or a single line', () => {
+    const short = { ...groceries, amountEUR: 65 };
+
+    expect(getUnallocatedAmount(short, 'amountEUR')).toBe(5);
+    expect(() => validateSplits(short)).toThrow('The split lines add up to 60 instead of 65 EUR');
+    expect(() => validateSplits({ ...groceries, splits: groceries.splits!.slice(0, 1) })).toThrow('at least two lines');
+  });
+});
+
+describe('expandSplitTransaction', () => {
+  it('stores one transaction per line under the split ID', () => {
+    const lines = expandSplitTransaction(groceries);
+
+    expect(lines.map(line => [line.id, line.splitId, line.category, line.amountEUR, line.notes])).toEqual([
+      ['groceries#1', 'groceries', 'Food & Dining', 40.1, 'Weekly shop'],
+      ['groceries#2', 'groceries', 'Household', 19.9, 'Detergent']
+    ]);
+    expect(lines.every(line => line.splits === undefined && line.date === groceries.date)).toBe(true);
+  });
+
+  it('stores other transactions as they are', () => {
+    const coffee = { ...groceries, splits: undefined };
+
+    expect(expandSplitTransaction(coffee)).toEqual([coffee]);
+  });
+});
+
+describe('groupSplitTransactions', () => {
+  it('groups the lines back into the transaction they were expanded from', () => {
+    const before: Transaction = { ...groceries, id: 'coffee', splits: undefined, amountEUR: 3 };
+    const plain: Transaction = { ...groceries, splits: groceries.splits!.map(split => ({ ...split, notes: undefined })) };
+    const stored = [before, ...expandSplitTransaction(plain).reverse()];
+
+    expect(groupSplitTransactions(stored)).toEqual([before, {
+      ...plain,
+      category: undefined,
+      subcategory: undefined,
+      amountUSD: undefined,
+      splits: plain.splits!.map(split => ({ ...split, amountUSD: undefined }))
+    }]);
+  });
+
+  it('keeps notes that differ between lines on the lines', () => {
+    const [grouped] = groupSplitTransactions(expandSplitTransaction(groceries));
+
+    expect(grouped.notes).toBe('');
+    expect(grouped.splits!.map(split => split.notes)).toEqual(['Weekly shop', 'Detergent']);
+  });
+
+  it('orders more than nine lines by their number', () => {
+    const many: Transaction = {
+      ...groceries,
+      amountEUR: 10,
+      splits: Array.from({ length: 10 }, (_, index) => ({ category: `Category ${index + 1}`, subcategory: '', amountEUR: 1 }))
+    };
+
+    const [grouped] = groupSplitTransactions(expandSplitTransaction(many));
+
+    expect(grouped.splits!.map(split => split.category)).toEqual(many.splits!.map(split => split.category));
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Split transactions shared by every FinanceStore implementation
+ *
+ * A split transaction is stored as one transaction per line, each with its own
+ * category, amount and note and the ID of the split in splitId. Aggregations by
+ * category therefore count every line on its own, while the Transactions page
+ * groups the lines back into one transaction to show and edit.
+ */
+
+import type { Transaction, TransactionSplit } from './types';
+
+/** Largest difference between the lines and the total that is put down to rounding */
+const SPLIT_TOLERANCE = 0.005;
+
+/**
+ * Rounds an amount to cents
+ * @param {number} amount - The amount
+ * @returns {number} The rounded amount
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Adds up one currency of a list of amounts
+ * @param {TransactionSplit[]} items - Lines or transactions
+ * @param {'amountEUR'|'amountUSD'} field - The currency field
+ * @returns {number|undefined} The total, undefined when no item has an amount in the currency
+ */
+function sumField(items: TransactionSplit[], field: 'amountEUR' | 'amountUSD'): number | undefined {
+  const amounts = items
+    .map(item => item[field])
+    .filter((amount): amount is number => amount !== undefined && !isNaN(amount));
+  return amounts.length > 0 ? roundCents(amounts.reduce((sum, amount) => sum + amount, 0)) : undefined;
+}
+
+/**
+ * Builds the ID of a stored line of a split transaction
+ * @param {string} splitId - ID of the split transaction
+ * @param {number} index - Zero-based index of the line
+ * @returns {string} The line ID
+ */
+export function getSplitLineId(splitId: string, index: number): string {
+  return `${splitId}#${index + 1}`;
+}
+
+/**
+ * Works out how much of a split transaction's total is not assigned to a line yet
+ * @param {Transaction} transaction - The split transaction
+ * @param {'amountEUR'|'amountUSD'} field - The currency field
+ * @returns {number} The unassigned amount, negative when the lines exceed the total
+ */
+export function getUnallocatedAmount(transaction: Transaction, field: 'amountEUR' | 'amountUSD'): number {
+  return roundCents((transaction[field] || 0) - (sumField(transaction.splits || [], field) || 0));
+}
+
+/**
+ * Checks that the lines of a split transaction add up to its total in every currency
+ * @param {Transaction} transaction - The split transaction
+ * @returns {void}
+ * @throws {Error} If there are fewer than two lines or the lines do not add up to the total
+ */
+export function validateSplits(transaction: Transaction): void {
+  const splits = transaction.splits || [];
+  if (splits.length < 2) {
+    throw new Error('A split transaction needs at least two lines');
+  }
+
+  (['amountEUR', 'amountUSD'] as const).forEach(field => {
+    const unallocated = getUnallocatedAmount(transaction, field);
+    if (Math.abs(unallocated) > SPLIT_TOLERANCE) {
+      throw new Error(
+        `The split lines add up to ${sumField(splits, field) || 0} instead of ${transaction[field] || 0} ${field.slice(-3)}`
+      );
+    }
+  });
+}
+
+/**
+ * Turns a transaction into the transactions to store
+ * A split transaction becomes one transaction per line, sharing its date, description
+ * and account; any other transaction is stored as it is.
+ * @param {Transaction} transaction - The transaction
+ * @returns {Transaction[]} The transactions to store
+ * @throws {Error} If the lines of a split transaction do not add up to its total
+ */
+export function expandSplitTransaction(transaction: Transaction): Transaction[] {
+  if (!transaction.splits || transaction.splits.length === 0) {
+    return [transaction];
+  }
+
+  validateSplits(transaction);
+
+  const { splits, ...parent } = transaction;
+  const splitId = parent.id || crypto.randomUUID();
+
+  return splits.map((split, index) => ({
+    ...parent,
+    id: getSplitLineId(splitId, index),
+    category: split.category,
+    subcategory: split.subcategory,
+    amountEUR: split.amountEUR,
+    amountUSD: split.amountUSD,
+    notes: split.notes || parent.notes,
+    splitId
+  }));
+}
+
+/**
+ * Groups the stored lines of split transactions back into one transaction each
+ * The transaction takes the place of its first line, keeps the line amounts in
+ * splits and totals them. Notes shared by every line become the transaction's notes.
+ * @param {Transaction[]} transactions - Transactions as stored
+ * @returns {Transaction[]} Transactions with split lines grouped, in the same order
+ */
+export function groupSplitTransactions(transactions: Transaction[]): Transaction[] {
+  const linesBySplit = new Map<string, Transaction[]>();
+  transactions.forEach(transaction => {
+    if (transaction.splitId) {
+      linesBySplit.set(transaction.splitId, [...(linesBySplit.get(transaction.splitId) || []), transaction]);
+    }
+  });
+
+  const grouped: Transaction[] = [];
+  transactions.forEach(transaction => {
+    if (!transaction.splitId) {
+      grouped.push(transaction);
+      return;
+    }
+
+    const lines = linesBySplit.get(transaction.splitId);
+    if (!lines) return; // Already grouped at its first line
+    linesBySplit.delete(transaction.splitId);
+
+    const notes = lines.every(line => (line.notes || '') === (lines[0].notes || '')) ? lines[0].notes : '';
+    const splits: TransactionSplit[] = lines
+      .sort((a, b) => (a.id || '').localeCompare(b.id || '', undefined, { numeric: true }))
+      .map(line => ({
+        category: line.category,
+        subcategory: line.subcategory,
+        amountEUR: line.amountEUR,
+        amountUSD: line.amountUSD,
+        notes: line.notes && line.notes !== notes ? line.notes : undefined
+      }));
+
+    const { splitId, ...first } = lines[0];
+    grouped.push({
+      ...first,
+      id: splitId,
+      category: undefined,
+      subcategory: undefined,
+      amountEUR: sumField(splits, 'amountEUR'),
+      amountUSD: sumField(splits, 'amountUSD'),
+      notes,
+      splits
+    });
+  });
+
+  return grouped;
+}
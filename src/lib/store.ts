@@ -0,0 +1,48 @@
+import type { FinanceStore } from './financeStore';
+import { GoogleSheetsService } from './googleSheets';
+import { GoogleAuth } from './googleAuth';
+import { LocalFinanceStore } from './localStore';
+
+/**
+ * Storage backends that can be selected with VITE_STORAGE_BACKEND
+ * @type {StorageBackend}
+ */
+export type StorageBackend = 'sheets' | 'local';
+
+/**
+ * Storage backend configured for this build, defaults to Google Sheets
+ * @const storageBackend
+ */
+export const storageBackend: StorageBackend =
+  import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'sheets';
+
+/**
+ * Application-wide Google OAuth2 session
+ * @const googleAuth
+ */
+export const googleAuth = new GoogleAuth({
+  clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID
+});
+
+/**
+ * Creates the FinanceStore for the configured storage backend
+ * @returns {FinanceStore} The store used by the application
+ * @throws {Error} If the Google Sheets backend is selected without credentials
+ */
+function createFinanceStore(): FinanceStore {
+  if (storageBackend === 'local') {
+    return new LocalFinanceStore();
+  }
+
+  return new GoogleSheetsService({
+    apiKey: import.meta.env.VITE_GOOGLE_API_KEY,
+    spreadsheetId: import.meta.env.VITE_SPREADSHEET_ID,
+    getAccessToken: googleAuth.isConfigured() ? () => googleAuth.getAccessToken() : undefined
+  });
+}
+
+/**
+ * Application-wide FinanceStore instance, chosen at startup
+ * @const financeStore
+ */
+export const financeStore: FinanceStore = createFinanceStore();
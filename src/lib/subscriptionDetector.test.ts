@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { detectRecurringTransactions, normalizeDescription } from './subscriptionDetector';
+import type { RecurringTransaction, Transaction } from './types';
+import { buildTransaction } from '../test/fixtures';
+
+const transaction = (date: string, description: string, amountEUR: number, fields: Partial<Transaction> = {}): Transaction =>
+  buildTransaction({ id: `${description}@${date}`, date, description, category: 'Entertainment', subcategory: 'Streaming', amountEUR, ...fields });
+
+const netflix = [
+  transaction('2024-01-15', 'NETFLIX.COM 1001', 12.99),
+  transaction('2024-02-15', 'NETFLIX.COM 1002', 12.99),
+  transaction('2024-03-14', 'NETFLIX.COM 1003', 12.99),
+  transaction('2024-04-15', 'NETFLIX.COM 1004', 12.99)
+];
+
+const detect = (transactions: Transaction[], templates: RecurringTransaction[] = [], today: string = '2024-04-20') =>
+  detectRecurringTransactions(transactions, templates, new Date(`${today}T12:00:00`));
+
+describe('normalizeDescription', () => {
+  it('ignores case, digits and punctuation', () => {
+    expect(normalizeDescription('NETFLIX.COM #1001')).toBe('netflix com');
+    expect(normalizeDescription('Café  Müller 2024-01')).toBe('café müller');
+  });
+});
+
+describe('detectRecurringTransactions', () => {
+  it('proposes a monthly template starting after the last charge', () => {
+    const [suggestion, ...others] = detect(netflix);
+
+    expect(others).toEqual([]);
+    expect(suggestion.key).toBe('netflix com|Card|EUR');
+    expect(suggestion.transactions).toHaveLength(4);
+    expect(suggestion.template).toMatchObject({
+      description: 'NETFLIX.COM',
+      amountEUR: 12.99,
+      frequency: 'monthly',
+      dayOfMonth: 15,
+      startDate: '2024-05-01',
+      active: true
+    });
+    expect(suggestion.template.amountMode).toBeUndefined();
+  });
+
+  it('estimates amounts that change and leaves out one-off charges of a different size', () => {
+    const [suggestion] = detect([
+      transaction('2024-01-03', 'City Power', 80, { category: 'Utilities' }),
+      transaction('2024-02-02', 'City Power', 86, { category: 'Utilities' }),
+      transaction('2024-02-20', 'City Power', 250, { category: 'Utilities' }),
+      transaction('2024-03-04', 'City Power', 78, { category: 'Utilities' })
+    ], [], '2024-03-10');
+
+    expect(suggestion.transactions.map(charge => charge.amountEUR)).toEqual([80, 86, 78]);
+    expect(suggestion.template.amountMode).toBe('estimated');
+  });
+
+  it('proposes weekly templates on the usual weekday', () => {
+    const [suggestion] = detect([
+      transaction('2024-04-01', 'Cleaner', 40),
+      transaction('2024-04-08', 'Cleaner', 40),
+      transaction('2024-04-15', 'Cleaner', 40)
+    ]);
+
+    expect(suggestion.template).toMatchObject({ frequency: 'weekly', dayOfWeek: 1, startDate: '2024-04-19' });
+  });
+
+  it('ignores irregular, ended, known and already linked series', () => {
+    const irregular = [
+      transaction('2024-01-02', 'Hardware store', 30),
+      transaction('2024-01-20', 'Hardware store', 30),
+      transaction('2024-03-30', 'Hardware store', 30)
+    ];
+    const linked = netflix.map(charge => ({ ...charge, recurringId: 'netflix' }));
+    const template = { description: 'Netflix.com', frequency: 'monthly' } as RecurringTransaction;
+
+    expect(detect(irregular)).toEqual([]);
+    expect(detect(netflix, [], '2024-07-01')).toEqual([]);
+    expect(detect(netflix, [template])).toEqual([]);
+    expect(detect(linked)).toEqual([]);
+  });
+});
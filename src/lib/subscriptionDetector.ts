@@ -0,0 +1,229 @@
+/**
+ * Detection of recurring payments in the transaction history
+ *
+ * Transactions that were entered by hand, before their subscription had a recurring
+ * template, are grouped into series by account, currency and description (ignoring
+ * digits and punctuation, which often carry references). A series whose amounts are
+ * similar and whose dates follow a regular interval is proposed as a template.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, startOfDay, startOfMonth } from 'date-fns';
+import type { RecurringTransaction, Transaction } from './types';
+import { formatDate, parseDate } from './recurrence';
+import { groupSplitTransactions } from './splits';
+
+/**
+ * A recurring template proposed from a series of transactions
+ * @interface SuggestedRecurringTransaction
+ */
+export interface SuggestedRecurringTransaction {
+  /** Stable key of the series, used to dismiss the suggestion */
+  key: string;
+  /** The proposed template; its schedule starts after the last transaction of the series */
+  template: RecurringTransaction;
+  /** The transactions of the series, oldest first */
+  transactions: Transaction[];
+}
+
+/**
+ * Interval ranges, in days, that are recognized as a frequency
+ * Weekly and biweekly series are expected to the day; monthly and longer ones may
+ * drift a few days, for example around weekends and month ends.
+ */
+const FREQUENCY_INTERVALS: { frequency: RecurringTransaction['frequency']; min: number; max: number }[] = [
+  { frequency: 'weekly', min: 6, max: 8 },
+  { frequency: 'biweekly', min: 13, max: 15 },
+  { frequency: 'monthly', min: 26, max: 35 },
+  { frequency: 'quarterly', min: 84, max: 98 },
+  { frequency: 'yearly', min: 350, max: 380 }
+];
+
+/** Months per period of the monthly-based frequencies */
+const FREQUENCY_MONTHS: Partial<Record<RecurringTransaction['frequency'], number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+/** A series needs at least this many transactions */
+const MIN_OCCURRENCES = 3;
+
+/** Share of the intervals that must match the frequency */
+const MIN_REGULAR_SHARE = 0.8;
+
+/** Amounts may differ this much from the series' median amount */
+const AMOUNT_TOLERANCE = 0.2;
+
+/** A series counts as ended once this many periods passed without a transaction */
+const MAX_MISSED_PERIODS = 2;
+
+/**
+ * Reduces a description to the part that stays the same between charges
+ * @param {string} description - The description
+ * @returns {string} Lowercase words without digits or punctuation
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-zÀ-ɏ]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Returns the median of some numbers
+ * @param {number[]} values - The numbers, at least one
+ * @returns {number} The median
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Returns the most frequent value, preferring the latest one on ties
+ * @param {number[]} values - The values, at least one
+ * @returns {number} The most frequent value
+ */
+function mostFrequent(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return values.reduce((best, value) => ((counts.get(value) as number) >= (counts.get(best) as number) ? value : best));
+}
+
+/**
+ * Returns a transaction's amount and its currency, preferring euros
+ * @param {Transaction} transaction - The transaction
+ * @returns {{currency: 'EUR' | 'USD', amount: number}|null} The amount, or null if it has none
+ */
+function getAmount(transaction: Transaction): { currency: 'EUR' | 'USD'; amount: number } | null {
+  if (transaction.amountEUR !== undefined) return { currency: 'EUR', amount: transaction.amountEUR };
+  if (transaction.amountUSD !== undefined) return { currency: 'USD', amount: transaction.amountUSD };
+  return null;
+}
+
+/**
+ * Finds the frequency that matches the intervals of a series
+ * @param {number[]} intervals - Days between consecutive transactions
+ * @returns {RecurringTransaction['frequency']|null} The frequency, or null if the series is not regular
+ */
+function inferFrequency(intervals: number[]): RecurringTransaction['frequency'] | null {
+  const typical = median(intervals);
+  const match = FREQUENCY_INTERVALS.find(range => typical >= range.min && typical <= range.max);
+  if (!match) return null;
+
+  const regular = intervals.filter(interval => interval >= match.min && interval <= match.max).length;
+  return regular / intervals.length >= MIN_REGULAR_SHARE ? match.frequency : null;
+}
+
+/**
+ * Builds the template proposed for a regular series
+ * The schedule starts in the period after the last transaction, so creating the
+ * template never books a charge that is already in the history.
+ * @param {Transaction[]} series - The transactions, oldest first
+ * @param {Date[]} dates - Their parsed dates
+ * @param {RecurringTransaction['frequency']} frequency - The inferred frequency
+ * @returns {RecurringTransaction} The template
+ */
+function buildTemplate(series: Transaction[], dates: Date[], frequency: RecurringTransaction['frequency']): RecurringTransaction {
+  const latest = series[series.length - 1];
+  const lastDate = dates[dates.length - 1];
+  const amounts = series.map(transaction => (getAmount(transaction) as { amount: number }).amount);
+  const months = FREQUENCY_MONTHS[frequency];
+
+  // Descriptions that differ between charges usually do so in a reference number
+  const description = series.every(transaction => transaction.description === latest.description)
+    ? latest.description
+    : latest.description.replace(/[\s#:-]*\d+[\d/.-]*/g, ' ').replace(/\s+/g, ' ').trim() || latest.description;
+
+  const template: RecurringTransaction = {
+    description,
+    category: latest.category,
+    subcategory: latest.subcategory,
+    amountEUR: latest.amountEUR,
+    amountUSD: latest.amountEUR === undefined ? latest.amountUSD : undefined,
+    account: latest.account,
+    frequency,
+    startDate: formatDate(months
+      ? startOfMonth(addMonths(lastDate, months))
+      // Weekly schedules move forward to their weekday, which lands within a few days of the period
+      : addDays(lastDate, (frequency === 'weekly' ? 7 : 14) - 3)),
+    active: true
+  };
+
+  if (months) {
+    template.dayOfMonth = mostFrequent(dates.map(date => date.getDate()));
+  } else {
+    template.dayOfWeek = mostFrequent(dates.map(date => date.getDay()));
+  }
+
+  // Amounts that change between charges are estimated from the linked transactions later on
+  if (Math.max(...amounts) - Math.min(...amounts) > 0.005) {
+    template.amountMode = 'estimated';
+  }
+
+  return template;
+}
+
+/**
+ * Finds series of transactions that look like recurring payments without a template
+ *
+ * Transactions generated from a template, transfers between accounts, and series
+ * whose description matches an existing template, are left out. So are series that stopped: those without a
+ * transaction in the last two periods.
+ * @param {Transaction[]} transactions - All transactions
+ * @param {RecurringTransaction[]} templates - The existing recurring templates
+ * @param {Date} [today] - Reference date for ended series, defaults to today
+ * @returns {SuggestedRecurringTransaction[]} Suggestions, most recently charged first
+ */
+export function detectRecurringTransactions(
+  transactions: Transaction[],
+  templates: RecurringTransaction[],
+  today: Date = new Date()
+): SuggestedRecurringTransaction[] {
+  const known = new Set(templates.map(template => normalizeDescription(template.description)));
+  const groups = new Map<string, Transaction[]>();
+
+  // A split payment is still one payment
+  for (const transaction of groupSplitTransactions(transactions)) {
+    const amount = getAmount(transaction);
+    const description = normalizeDescription(transaction.description);
+    if (transaction.recurringId || transaction.transferId || !amount || !description || known.has(description) || !parseDate(transaction.date)) {
+      continue;
+    }
+
+    const key = `${description}|${transaction.account}|${amount.currency}`;
+    groups.set(key, [...(groups.get(key) || []), transaction]);
+  }
+
+  const suggestions: SuggestedRecurringTransaction[] = [];
+  groups.forEach((group, key) => {
+    // Leave out charges of a different size, such as a one-off purchase from the same merchant
+    const typical = median(group.map(transaction => (getAmount(transaction) as { amount: number }).amount));
+    const series = group
+      .filter(transaction => {
+        const { amount } = getAmount(transaction) as { amount: number };
+        return Math.abs(amount - typical) <= Math.abs(typical) * AMOUNT_TOLERANCE;
+      })
+      .sort((a, b) => (parseDate(a.date) as Date).getTime() - (parseDate(b.date) as Date).getTime())
+      // Several charges on one day count once
+      .filter((transaction, index, sorted) => index === 0 || transaction.date !== sorted[index - 1].date);
+
+    if (series.length < MIN_OCCURRENCES) return;
+
+    const dates = series.map(transaction => parseDate(transaction.date) as Date);
+    const intervals = dates.slice(1).map((date, index) => differenceInCalendarDays(date, dates[index]));
+    const frequency = inferFrequency(intervals);
+    if (!frequency) return;
+
+    const sinceLast = differenceInCalendarDays(startOfDay(today), dates[dates.length - 1]);
+    if (sinceLast > median(intervals) * MAX_MISSED_PERIODS) return;
+
+    suggestions.push({ key, template: buildTemplate(series, dates, frequency), transactions: series });
+  });
+
+  return suggestions.sort((a, b) =>
+    (parseDate(b.transactions[b.transactions.length - 1].date) as Date).getTime() -
+    (parseDate(a.transactions[a.transactions.length - 1].date) as Date).getTime()
+  );
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { addTag, formatTags, normalizeTag, parseTags } from './tags';
+
+describe('normalizeTag', () => {
+  it('drops a leading # and tidies whitespace and commas', () => {
+    expect(normalizeTag('  #summer   trip ')).toBe('summer trip');
+    expect(normalizeTag('# tax')).toBe('tax');
+    expect(normalizeTag('a,b')).toBe('a b');
+    expect(normalizeTag(' # ')).toBe('');
+  });
+});
+
+describe('parseTags', () => {
+  it('reads a list without blanks and case-insensitive duplicates', () => {
+    expect(parseTags('vacation, , Tax-deductible,VACATION')).toEqual(['vacation', 'Tax-deductible']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('reads what formatTags writes', () => {
+    expect(parseTags(formatTags(['trip 2024', 'work']))).toEqual(['trip 2024', 'work']);
+  });
+});
+
+describe('addTag', () => {
+  it('returns the same list when nothing is added', () => {
+    const tags = ['Work'];
+
+    expect(addTag(tags, 'work')).toBe(tags);
+    expect(addTag(tags, '#')).toBe(tags);
+    expect(addTag(tags, '#travel')).toEqual(['Work', 'travel']);
+  });
+});
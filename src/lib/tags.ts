@@ -0,0 +1,49 @@
+/**
+ * Transaction tags shared by every FinanceStore implementation
+ *
+ * Tags are free-form labels that cut across categories, such as a trip or a tax
+ * year. They are stored comma-separated, so a tag never contains a comma, and two
+ * tags that differ only in case are the same tag.
+ */
+
+/**
+ * Cleans up a tag typed by the user
+ * A leading # is dropped, commas become spaces and whitespace is collapsed.
+ * @param {string} tag - The tag as typed
+ * @returns {string} The tag, empty when nothing is left of it
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/,/g, ' ').replace(/^\s*#/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads a comma-separated list of tags
+ * @param {string} value - The list, e.g. "vacation, tax-deductible"
+ * @returns {string[]} The tags in order, without blanks and duplicates
+ */
+export function parseTags(value: string): string[] {
+  return value.split(',').reduce<string[]>((tags, tag) => addTag(tags, tag), []);
+}
+
+/**
+ * Writes tags as a comma-separated list
+ * @param {string[]} [tags] - The tags
+ * @returns {string} The list, empty without tags
+ */
+export function formatTags(tags: string[] = []): string {
+  return tags.join(', ');
+}
+
+/**
+ * Adds a tag to a list of tags unless it is blank or already in it
+ * @param {string[]} tags - The current tags
+ * @param {string} tag - The tag to add
+ * @returns {string[]} The tags with the new one at the end, or the same list when nothing was added
+ */
+export function addTag(tags: string[], tag: string): string[] {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.some(existing => existing.toLowerCase() === normalized.toLowerCase())) {
+    return tags;
+  }
+  return [...tags, normalized];
+}
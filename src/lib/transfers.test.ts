@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { expandTransfer, getAccountBalances, groupTransfers, isTransfer, validateTransfer } from './transfers';
+import type { Transaction } from './types';
+import { buildTransaction } from '../test/fixtures';
+
+const transfer = buildTransaction({
+  id: 'savings',
+  date: '2024-01-31',
+  description: 'Monthly savings',
+  category: '',
+  subcategory: '',
+  amountEUR: 500,
+  account: 'Bank',
+  transferAccount: 'Savings'
+});
+
+const expense = (account: string, amountEUR: number, fields: Partial<Transaction> = {}): Transaction =>
+  buildTransaction({ description: 'Groceries', subcategory: 'Groceries', amountEUR, account, ...fields });
+
+describe('validateTransfer', () => {
+  it('needs two different accounts and no split', () => {
+    expect(() => validateTransfer(transfer)).not.toThrow();
+    expect(() => validateTransfer({ ...transfer, transferAccount: 'Bank' })).toThrow('two different accounts');
+    expect(() => validateTransfer({ ...transfer, transferAccount: '' })).toThrow('an account to move the money from');
+    expect(() => validateTransfer({ ...transfer, splits: [{ category: 'Savings', subcategory: '', amountEUR: 500 }] }))
+      .toThrow('cannot be split');
+  });
+});
+
+describe('expandTransfer', () => {
+  it('stores a debit leg and a credit leg linked by the transfer ID', () => {
+    expect(expandTransfer({ ...transfer, amountEUR: -500 }).map(leg => [leg.id, leg.account, leg.amountEUR, leg.transferId, leg.direction]))
+      .toEqual([
+        ['savings#from', 'Bank', 500, 'savings', 'transfer'],
+        ['savings#to', 'Savings', -500, 'savings', 'transfer']
+      ]);
+  });
+
+  it('stores other transactions as they are', () => {
+    const groceries = expense('Bank', 50);
+
+    expect(expandTransfer(groceries)).toEqual([groceries]);
+    expect(isTransfer(groceries)).toBe(false);
+  });
+});
+
+describe('groupTransfers', () => {
+  it('groups both legs back into the transfer, whichever comes first', () => {
+    const [from, to] = expandTransfer(transfer);
+    const groceries = expense('Bank', 50);
+
+    const grouped = groupTransfers([to, groceries, from]);
+
+    const { transferId, ...debit } = from;
+    expect(grouped).toEqual([{ ...debit, id: transferId, transferAccount: 'Savings' }, groceries]);
+    expect(isTransfer(grouped[0])).toBe(true);
+  });
+
+  it('leaves a leg whose other half is missing as it is', () => {
+    const [from] = expandTransfer(transfer);
+
+    expect(groupTransfers([from])).toEqual([from]);
+  });
+});
+
+describe('getAccountBalances', () => {
+  it('moves transfers between accounts and takes expenses and income into account', () => {
+    const balances = getAccountBalances([
+      expense('Bank', -2000, { description: 'Salary', category: 'Income' }),
+      expense('Bank', 50),
+      expense('Bank', 20, { direction: 'refund' }),
+      expense('Card', 10, { amountEUR: undefined, amountUSD: 10 }),
+      ...expandTransfer(transfer)
+    ]);
+
+    expect(balances).toEqual([
+      { account: 'Bank', balanceEUR: 1470, balanceUSD: 0 },
+      { account: 'Card', balanceEUR: 0, balanceUSD: -10 },
+      { account: 'Savings', balanceEUR: 500, balanceUSD: 0 }
+    ]);
+  });
+});
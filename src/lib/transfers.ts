@@ -0,0 +1,186 @@
+/**
+ * Transfers between accounts shared by every FinanceStore implementation
+ *
+ * A transfer is stored as two legs linked by their transferId: a debit leg in the
+ * account the money leaves, with a positive amount like any other outgoing money,
+ * and a credit leg in the account it goes to, with the negative amount. Transfers
+ * are left out of spending and income, but count towards account balances.
+ */
+
+import type { Transaction } from './types';
+import { getBalanceChange } from './cashFlow';
+
+/** Which leg of a transfer a stored transaction is */
+type TransferLeg = 'from' | 'to';
+
+/**
+ * Balance of an account per currency
+ * @interface AccountBalance
+ */
+export interface AccountBalance {
+  /** Name of the account */
+  account: string;
+  /** Money in minus money out in Euros */
+  balanceEUR: number;
+  /** Money in minus money out in US Dollars */
+  balanceUSD: number;
+}
+
+/**
+ * Rounds an amount to cents
+ * @param {number} amount - The amount
+ * @returns {number} The rounded amount
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Negates an optional amount
+ * @param {number|undefined} amount - The amount
+ * @returns {number|undefined} The negated amount, undefined when there is none
+ */
+function negate(amount: number | undefined): number | undefined {
+  return amount === undefined ? undefined : -amount;
+}
+
+/**
+ * Builds the ID of a stored leg of a transfer
+ * @param {string} transferId - ID of the transfer
+ * @param {TransferLeg} leg - Which leg
+ * @returns {string} The leg ID
+ */
+export function getTransferLegId(transferId: string, leg: TransferLeg): string {
+  return `${transferId}#${leg}`;
+}
+
+/**
+ * Checks whether a transaction is a transfer, or one of its legs
+ * @param {Pick<Transaction, 'transferId' | 'transferAccount' | 'direction'>} transaction - The transaction
+ * @returns {boolean} True for transfers, which are neither spending nor income
+ */
+export function isTransfer(transaction: Pick<Transaction, 'transferId' | 'transferAccount' | 'direction'>): boolean {
+  return Boolean(transaction.transferId || transaction.transferAccount || transaction.direction === 'transfer');
+}
+
+/**
+ * Checks that a transfer moves money between two different accounts
+ * @param {Transaction} transaction - The transfer
+ * @returns {void}
+ * @throws {Error} If the accounts are missing or the same, or the transfer is split
+ */
+export function validateTransfer(transaction: Transaction): void {
+  if (!transaction.account || !transaction.transferAccount) {
+    throw new Error('A transfer needs an account to move the money from and one to move it to');
+  }
+  if (transaction.account === transaction.transferAccount) {
+    throw new Error('A transfer needs two different accounts');
+  }
+  if (transaction.splits && transaction.splits.length > 0) {
+    throw new Error('A transfer cannot be split across categories');
+  }
+}
+
+/**
+ * Turns a transfer into its two legs
+ * Any other transaction is returned as it is.
+ * @param {Transaction} transaction - The transaction
+ * @returns {Transaction[]} The transactions to store
+ * @throws {Error} If the transfer is not valid
+ */
+export function expandTransfer(transaction: Transaction): Transaction[] {
+  if (!transaction.transferAccount) {
+    return [transaction];
+  }
+
+  validateTransfer(transaction);
+
+  const { transferAccount, ...transfer } = transaction;
+  const transferId = transfer.id || crypto.randomUUID();
+  const amountEUR = transfer.amountEUR === undefined ? undefined : Math.abs(transfer.amountEUR);
+  const amountUSD = transfer.amountUSD === undefined ? undefined : Math.abs(transfer.amountUSD);
+
+  return [
+    {
+      ...transfer,
+      id: getTransferLegId(transferId, 'from'),
+      amountEUR,
+      amountUSD,
+      transferId,
+      direction: 'transfer'
+    },
+    {
+      ...transfer,
+      id: getTransferLegId(transferId, 'to'),
+      account: transferAccount,
+      amountEUR: negate(amountEUR),
+      amountUSD: negate(amountUSD),
+      transferId,
+      direction: 'transfer'
+    }
+  ];
+}
+
+/**
+ * Groups the stored legs of transfers back into one transaction each
+ * The transfer takes the place of its first leg and the amounts of its debit leg.
+ * Legs whose other half is missing are left as they are.
+ * @param {Transaction[]} transactions - Transactions as stored
+ * @returns {Transaction[]} Transactions with transfer legs grouped, in the same order
+ */
+export function groupTransfers(transactions: Transaction[]): Transaction[] {
+  const legsByTransfer = new Map<string, Transaction[]>();
+  transactions.forEach(transaction => {
+    if (transaction.transferId) {
+      legsByTransfer.set(transaction.transferId, [...(legsByTransfer.get(transaction.transferId) || []), transaction]);
+    }
+  });
+
+  const grouped: Transaction[] = [];
+  const groupedIds = new Set<string>();
+  transactions.forEach(transaction => {
+    const legs = transaction.transferId ? legsByTransfer.get(transaction.transferId) : undefined;
+    if (!legs || legs.length !== 2) {
+      grouped.push(transaction);
+      return;
+    }
+    if (groupedIds.has(transaction.transferId as string)) return; // Already grouped at its first leg
+    groupedIds.add(transaction.transferId as string);
+
+    // The debit leg is the one money leaves, with a positive amount
+    const isDebit = (leg: Transaction) => (leg.amountEUR ?? leg.amountUSD ?? 0) >= 0;
+    const from = legs.find(isDebit) || legs[0];
+    const to = legs.find(leg => leg !== from) as Transaction;
+
+    const { transferId, ...transfer } = from;
+    grouped.push({
+      ...transfer,
+      id: transferId,
+      transferAccount: to.account
+    });
+  });
+
+  return grouped;
+}
+
+/**
+ * Works out the balance of every account from its transactions
+ * Income and refunds add to a balance and expenses take from it. Transfers count on
+ * both accounts: the debit leg's positive amount leaves one, the credit leg's negative amount enters the other.
+ * @param {Transaction[]} transactions - Transactions as stored
+ * @returns {AccountBalance[]} Balances sorted by account name
+ */
+export function getAccountBalances(transactions: Transaction[]): AccountBalance[] {
+  const balances = new Map<string, AccountBalance>();
+
+  transactions.forEach(transaction => {
+    if (!transaction.account) return;
+
+    const balance = balances.get(transaction.account) || { account: transaction.account, balanceEUR: 0, balanceUSD: 0 };
+    balance.balanceEUR = roundCents(balance.balanceEUR + getBalanceChange(transaction, 'amountEUR'));
+    balance.balanceUSD = roundCents(balance.balanceUSD + getBalanceChange(transaction, 'amountUSD'));
+    balances.set(transaction.account, balance);
+  });
+
+  return Array.from(balances.values()).sort((a, b) => a.account.localeCompare(b.account));
+}
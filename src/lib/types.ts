@@ -0,0 +1,257 @@
+/**
+ * Represents a financial transaction record
+ * @interface Transaction
+ */
+export interface Transaction {
+  /** Unique identifier for the transaction */
+  id?: string;
+  /** Date of the transaction (MM/DD/YYYY format) */
+  date: string;
+  /** Description of the transaction */
+  description: string;
+  /** Primary category of the transaction */
+  category?: string;
+  /** Subcategory of the transaction */
+  subcategory?: string;
+  /** Amount in Euros */
+  amountEUR?: number;
+  /** Amount in US Dollars */
+  amountUSD?: number;
+  /** Account associated with the transaction */
+  account: string;
+  /** Additional notes about the transaction */
+  notes?: string;
+  /** Free-form labels, e.g. "vacation-2024" or "tax-deductible" */
+  tags?: string[];
+  /** Optional reference to a recurring transaction that generated this transaction */
+  recurringId?: string;
+  /** For generated transactions, whether the amount is the actual one rather than an estimate */
+  amountConfirmed?: boolean;
+  /** Lines of a split transaction, whose amounts add up to the transaction's total */
+  splits?: TransactionSplit[];
+  /** For a stored line of a split transaction, the ID of the transaction it belongs to */
+  splitId?: string;
+  /** For a transfer between accounts, the account the money goes to; it leaves from account */
+  transferAccount?: string;
+  /** For a stored leg of a transfer, the ID of the transfer it belongs to */
+  transferId?: string;
+  /** Whether the money comes in, goes out, is refunded or moves between accounts */
+  direction?: TransactionDirection;
+}
+
+/**
+ * Direction of a transaction's money
+ * Transactions without one are transfers when they are a leg of a transfer, income
+ * when their amount is negative, and expenses otherwise.
+ * @type {TransactionDirection}
+ */
+export type TransactionDirection = 'income' | 'expense' | 'transfer' | 'refund';
+
+/**
+ * One line of a split transaction, with its own category, amount and note
+ * @interface TransactionSplit
+ */
+export interface TransactionSplit {
+  /** Primary category of the line */
+  category?: string;
+  /** Subcategory of the line */
+  subcategory?: string;
+  /** Amount of the line in Euros */
+  amountEUR?: number;
+  /** Amount of the line in US Dollars */
+  amountUSD?: number;
+  /** Note of the line, defaults to the transaction's notes */
+  notes?: string;
+}
+
+/**
+ * Where the amount of a recurring transaction comes from: the template itself, the
+ * average of its recent transactions, or the user when the transaction is posted
+ * @type {AmountMode}
+ */
+export type AmountMode = 'fixed' | 'estimated' | 'prompt';
+
+/**
+ * How a due date that falls on a weekend or holiday is moved:
+ * not at all, to the previous or next business day, or to the nearest one
+ * @type {BusinessDayAdjustment}
+ */
+export type BusinessDayAdjustment = 'none' | 'previous' | 'next' | 'nearest';
+
+/**
+ * Country whose public holidays are not business days
+ * @type {HolidayCalendar}
+ */
+export type HolidayCalendar = 'DE' | 'NL' | 'US';
+
+/**
+ * Represents a recurring transaction template
+ * @interface RecurringTransaction
+ */
+export interface RecurringTransaction {
+  /** Unique identifier for the recurring transaction */
+  id?: string;
+  /** Description of the transaction */
+  description: string;
+  /** Primary category of the transaction */
+  category?: string;
+  /** Subcategory of the transaction */
+  subcategory?: string;
+  /** Amount in Euros */
+  amountEUR?: number;
+  /** Amount in US Dollars */
+  amountUSD?: number;
+  /** Account associated with the transaction */
+  account: string;
+  /** Additional notes about the transaction */
+  notes?: string;
+  /** Where the amount comes from; defaults to fixed */
+  amountMode?: AmountMode;
+  /** Number of recent transactions averaged for an estimate; defaults to 3 */
+  estimateCount?: number;
+  /** Estimated amount in Euros, calculated from the template's transactions and not stored */
+  estimatedAmountEUR?: number;
+  /** Estimated amount in US Dollars, calculated from the template's transactions and not stored */
+  estimatedAmountUSD?: number;
+  /** Frequency of recurrence: daily, weekly, biweekly, monthly, quarterly, yearly */
+  frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+  /** Day of month (1-31) for monthly/quarterly/yearly frequencies */
+  dayOfMonth?: number;
+  /** Day of week (0-6, 0 is Sunday) for weekly/biweekly frequencies */
+  dayOfWeek?: number;
+  /** Optional iCalendar RRULE, e.g. FREQ=MONTHLY;BYMONTHDAY=1,15; overrides frequency and day fields when set */
+  rrule?: string;
+  /** How due dates on weekends and holidays are moved; defaults to none */
+  businessDayAdjustment?: BusinessDayAdjustment;
+  /** Holidays that count as non-business days besides weekends */
+  holidayCalendar?: HolidayCalendar;
+  /** Start date for the recurring transaction */
+  startDate: string;
+  /** Optional end date for the recurring transaction */
+  endDate?: string;
+  /** First day of a pause; occurrences scheduled from it until pausedUntil are skipped */
+  pausedFrom?: string;
+  /** Day the schedule resumes after a pause */
+  pausedUntil?: string;
+  /** Scheduled dates of single occurrences that are skipped (EXDATEs), in YYYY-MM-DD format */
+  exceptionDates?: string[];
+  /** Scheduled dates of occurrences snoozed in the review queue, in YYYY-MM-DD format */
+  snoozedDates?: string[];
+  /** Date when this recurring transaction was last processed */
+  lastProcessed?: string;
+  /** Date when this recurring transaction is next due */
+  nextDue?: string;
+  /** Whether this recurring transaction is active */
+  active: boolean;
+}
+
+/**
+ * How often a loan's installments are due
+ * @type {LoanFrequency}
+ */
+export type LoanFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+/**
+ * A payment on a loan on top of its regular installments, which goes to the principal
+ * @interface ExtraPayment
+ */
+export interface ExtraPayment {
+  /** Date of the payment in YYYY-MM-DD format */
+  date: string;
+  /** Amount paid */
+  amount: number;
+}
+
+/**
+ * Represents a loan or installment plan repaid in equal installments
+ * @interface Loan
+ */
+export interface Loan {
+  /** Unique identifier for the loan */
+  id?: string;
+  /** Name of the loan, used in the descriptions of its transactions */
+  name: string;
+  /** Amount borrowed */
+  principal: number;
+  /** Nominal annual interest rate in percent; 0 for interest-free plans */
+  annualRate: number;
+  /** Number of installments */
+  term: number;
+  /** How often installments are due; defaults to monthly */
+  frequency?: LoanFrequency;
+  /** Date of the first installment in YYYY-MM-DD format */
+  startDate: string;
+  /** Currency of the loan */
+  currency: 'EUR' | 'USD';
+  /** Account the installments are paid from */
+  account: string;
+  /** Category of the principal part of each installment */
+  category?: string;
+  /** Subcategory of the principal part of each installment */
+  subcategory?: string;
+  /** Category of the interest part of each installment; defaults to the principal's category */
+  interestCategory?: string;
+  /** Subcategory of the interest part of each installment */
+  interestSubcategory?: string;
+  /** Payments on top of the installments, which shorten the schedule */
+  extraPayments?: ExtraPayment[];
+  /** Additional notes about the loan */
+  notes?: string;
+  /** Date of the last installment that was posted */
+  lastProcessed?: string;
+  /** Whether installments of this loan are posted */
+  active: boolean;
+}
+
+/**
+ * How a rule's text is compared with a transaction's description, ignoring case
+ * @type {RuleMatchType}
+ */
+export type RuleMatchType = 'contains' | 'startsWith' | 'equals' | 'regex';
+
+/**
+ * A rule that fills in the category, tags and notes of the transactions it matches
+ * A transaction matches when every condition that is set holds.
+ * @interface CategorizationRule
+ */
+export interface CategorizationRule {
+  /** Unique identifier for the rule */
+  id?: string;
+  /** Name of the rule */
+  name: string;
+  /** Text the description is compared with, e.g. "ALBERT HEIJN" */
+  descriptionPattern?: string;
+  /** How descriptionPattern is compared with the description; defaults to contains */
+  matchType?: RuleMatchType;
+  /** Account the transaction must be on */
+  account?: string;
+  /** Smallest amount matched, compared with the transaction's amount without its sign */
+  minAmount?: number;
+  /** Largest amount matched, compared with the transaction's amount without its sign */
+  maxAmount?: number;
+  /** Category given to uncategorized transactions */
+  category?: string;
+  /** Subcategory given along with the category */
+  subcategory?: string;
+  /** Tags added to the transaction */
+  tags?: string[];
+  /** Notes given to transactions without notes */
+  notes?: string;
+  /** Rules are tried from the lowest priority up, and only the first that matches applies */
+  priority: number;
+  /** Whether the rule is applied */
+  active: boolean;
+}
+
+/**
+ * Structure containing category and subcategory data
+ * @interface CategoryData
+ */
+export interface CategoryData {
+  /** List of all available categories */
+  categories: string[];
+  /** Map of categories to their subcategories */
+  subcategories: Record<string, string[]>;
+  /** Flat list of all subcategories */
+  allSubcategories: string[];
+}
@@ -1,8 +1,12 @@
 import { useEffect, useState } from 'react'
-import { googleSheets } from '../lib/googleSheets'
+import { financeStore } from '../lib/store'
+import { isTransfer } from '../lib/transfers'
+import { CashFlow, getCashFlow, getExpenseAmount } from '../lib/cashFlow'
+import { TransactionDirection } from '../lib/types'
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend } from 'chart.js'
 import { Bar } from 'react-chartjs-2'
 import { CardSkeleton, ChartSkeleton, TableSkeleton } from '../components/SkeletonLoader'
+import CashFlowSummary from '../components/CashFlowSummary'
 import 'react-loading-skeleton/dist/skeleton.css'
 
 // Register ChartJS components
@@ -22,6 +26,8 @@ interface Transaction {
   amountUSD?: number
   account: string
   notes?: string
+  transferId?: string
+  direction?: TransactionDirection
 }
 
 /**
@@ -59,6 +65,7 @@ const SAMPLE_BUDGETS = {
  * Features:
  * - Displays monthly budget vs. actual spending
  * - Shows summary statistics (total budgeted, spent, remaining)
+ * - Shows the month's income, expenses and net
  * - Visualizes budget vs. actual with bar chart
  * - Lists all budget categories with progress bars
  * 
@@ -73,6 +80,7 @@ function Budget() {
   const [budgetItems, setBudgetItems] = useState<BudgetItem[]>([])
   const [totalBudgeted, setTotalBudgeted] = useState(0)
   const [totalSpent, setTotalSpent] = useState(0)
+  const [cashFlow, setCashFlow] = useState<CashFlow>({ income: 0, expenses: 0, net: 0 })
   
   useEffect(() => {
     /**
@@ -89,10 +97,11 @@ function Budget() {
         const currentMonth = now.getMonth()
         const currentYear = now.getFullYear()
         
-        const data = await googleSheets.getTransactions()
+        const data = await financeStore.getTransactions()
         
-        // Filter to current month's transactions
+        // Filter to current month's transactions, leaving out transfers between accounts
         const thisMonthTransactions = data.filter(transaction => {
+          if (isTransfer(transaction)) return false
           try {
             const txDate = new Date(transaction.date)
             return txDate.getMonth() === currentMonth && txDate.getFullYear() === currentYear
@@ -102,14 +111,15 @@ function Budget() {
         })
         
         setTransactions(thisMonthTransactions)
+        setCashFlow(getCashFlow(thisMonthTransactions))
         
         // Calculate spending by category
         const spendingByCategory = {}
         thisMonthTransactions.forEach(transaction => {
           const category = transaction.category || 'Uncategorized'
-          const amount = transaction.amountEUR || transaction.amountUSD || 0
+          const amount = getExpenseAmount(transaction) // Refunds reduce their category
           
-          if (amount > 0) { // Only count expenses
+          if (amount !== 0) { // Only count expenses and refunds
             if (spendingByCategory[category]) {
               spendingByCategory[category] += amount
             } else {
@@ -279,6 +289,11 @@ function Budget() {
         </div>
       </div>
       
+      {/* Income and Expenses */}
+      <div className="mb-8">
+        <CashFlowSummary cashFlow={cashFlow} periodLabel="this month" />
+      </div>
+      
       {/* Budget vs. Actual Chart */}
       <div className="bg-white rounded-lg shadow p-6 mb-8">
         <h2 className="text-lg font-medium text-gray-900 mb-4">Budget vs. Actual</h2>
@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+  subMonths
+} from 'date-fns'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { financeStore } from '../lib/store'
+import { RecurringTransaction } from '../lib/types'
+import { dueOccurrencesBetween, formatDate, parseDate } from '../lib/recurrence'
+import { getExpectedAmount } from '../lib/recurringProcessing'
+import { CardSkeleton } from '../components/SkeletonLoader'
+import 'react-loading-skeleton/dist/skeleton.css'
+
+/**
+ * An occurrence of a recurring template placed on the calendar
+ * @interface CalendarEntry
+ */
+interface CalendarEntry {
+  template: RecurringTransaction
+  /** Due date in YYYY-MM-DD format */
+  date: string
+  /** Scheduled date in YYYY-MM-DD format, before business-day adjustment */
+  scheduledDate: string
+  amountEUR?: number
+  amountUSD?: number
+  /** Whether processing has already reached the occurrence */
+  processed: boolean
+}
+
+/**
+ * Amounts summed per currency
+ * @interface Totals
+ */
+interface Totals {
+  EUR: number
+  USD: number
+}
+
+/**
+ * Sums the amounts of calendar entries per currency
+ * @param {CalendarEntry[]} entries - The entries
+ * @returns {Totals} The totals
+ */
+const sumEntries = (entries: CalendarEntry[]): Totals =>
+  entries.reduce((totals, entry) => ({
+    EUR: totals.EUR + (entry.amountEUR || 0),
+    USD: totals.USD + (entry.amountUSD || 0)
+  }), { EUR: 0, USD: 0 })
+
+/**
+ * Upcoming bills calendar page component
+ *
+ * Features:
+ * - Month grid with every occurrence of the active recurring templates on its due day
+ * - Totals per day, per week and for the month, per currency
+ * - Month navigation that projects occurrences as far as each template's end date
+ * - Clicking an occurrence opens its template in the Recurring Transactions tab
+ *
+ * Occurrences use the same recurrence engine as processing, including business-day
+ * adjustment, and the expected amount of templates with an estimated amount.
+ *
+ * @returns {JSX.Element} The calendar page
+ */
+function Calendar() {
+  const navigate = useNavigate()
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+
+  useEffect(() => {
+    financeStore.getRecurringTransactions()
+      .then(data => setTemplates(data.filter(template => template.active)))
+      .catch(err => {
+        console.error('Error loading recurring transactions:', err)
+        setError('Failed to load recurring transactions')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  // The grid covers whole weeks, so it starts and ends outside the month
+  const gridStart = startOfWeek(startOfMonth(month))
+  const gridEnd = endOfWeek(endOfMonth(month))
+
+  const entries: CalendarEntry[] = templates.flatMap(template => {
+    const lastProcessed = parseDate(template.lastProcessed)
+    const amount = getExpectedAmount(template)
+
+    return dueOccurrencesBetween(template, gridStart, gridEnd).map(occurrence => ({
+      template,
+      date: formatDate(occurrence.due),
+      scheduledDate: formatDate(occurrence.scheduled),
+      amountEUR: amount.amountEUR,
+      amountUSD: amount.amountUSD,
+      processed: lastProcessed !== null && occurrence.scheduled <= lastProcessed
+    }))
+  })
+
+  const weeks: Date[][] = []
+  for (let day = gridStart; day <= gridEnd; day = addDays(day, 1)) {
+    if (weeks.length === 0 || weeks[weeks.length - 1].length === 7) {
+      weeks.push([])
+    }
+    weeks[weeks.length - 1].push(day)
+  }
+
+  /**
+   * Returns the entries due on a day, largest amount first
+   * @param {Date} day - The day
+   * @returns {CalendarEntry[]} The entries
+   */
+  const entriesOn = (day: Date): CalendarEntry[] => {
+    const date = formatDate(day)
+    return entries
+      .filter(entry => entry.date === date)
+      .sort((a, b) => ((b.amountEUR || 0) + (b.amountUSD || 0)) - ((a.amountEUR || 0) + (a.amountUSD || 0)))
+  }
+
+  const monthTotals = sumEntries(entries.filter(entry => isSameMonth(parseDate(entry.date) as Date, month)))
+
+  /**
+   * Opens a template in the Recurring Transactions tab
+   * @param {RecurringTransaction} template - The template
+   */
+  const openTemplate = (template: RecurringTransaction) => {
+    navigate(`/transactions?tab=recurring&template=${encodeURIComponent(template.id || '')}`)
+  }
+
+  // Format currency
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 2
+    }).format(amount)
+  }
+
+  /**
+   * Formats totals, leaving out currencies without any amount
+   * @param {Totals} totals - The totals
+   * @returns {string} Formatted totals, or an empty string if both are zero
+   */
+  const formatTotals = (totals: Totals) => {
+    return (['EUR', 'USD'] as const)
+      .filter(currency => totals[currency] !== 0)
+      .map(currency => formatCurrency(totals[currency], currency))
+      .join(' · ')
+  }
+
+  if (loading) {
+    return (
+      <div className="animate-fade-in">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Upcoming Bills</h1>
+        <CardSkeleton count={3} />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold text-gray-900 mb-6">Upcoming Bills</h1>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        {/* Month navigation */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setMonth(prev => subMonths(prev, 1))}
+              className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+              aria-label="Previous month"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <h2 className="text-lg font-medium text-gray-900 w-40 text-center">
+              {format(month, 'MMMM yyyy')}
+            </h2>
+            <button
+              type="button"
+              onClick={() => setMonth(prev => addMonths(prev, 1))}
+              className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+              aria-label="Next month"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setMonth(startOfMonth(new Date()))}
+              className="ml-2 px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Today
+            </button>
+          </div>
+          <div className="text-sm text-gray-500">
+            Month total: <span className="font-medium text-gray-900">{formatTotals(monthTotals) || formatCurrency(0, 'EUR')}</span>
+          </div>
+        </div>
+
+        {/* Month grid with a totals column per week */}
+        <div className="overflow-x-auto">
+          <div className="min-w-[56rem]">
+            <div className="grid grid-cols-8 border-b border-gray-200 bg-gray-50">
+              {weeks[0].map(day => (
+                <div key={day.getDay()} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {format(day, 'EEE')}
+                </div>
+              ))}
+              <div className="px-2 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider text-right">
+                Week
+              </div>
+            </div>
+
+            {weeks.map(week => {
+              const weekTotals = sumEntries(week.flatMap(entriesOn))
+
+              return (
+                <div key={formatDate(week[0])} className="grid grid-cols-8 border-b border-gray-200 last:border-b-0">
+                  {week.map(day => {
+                    const dayEntries = entriesOn(day)
+                    const dayTotals = sumEntries(dayEntries)
+
+                    return (
+                      <div
+                        key={formatDate(day)}
+                        className={`min-h-[7rem] p-2 border-r border-gray-200 flex flex-col ${
+                          isSameMonth(day, month) ? '' : 'bg-gray-50 text-gray-400'
+                        }`}
+                      >
+                        <div className={`text-xs font-medium ${
+                          isSameDay(day, new Date())
+                            ? 'inline-flex items-center justify-center h-6 w-6 rounded-full bg-green-600 text-white'
+                            : ''
+                        }`}>
+                          {format(day, 'd')}
+                        </div>
+                        <ul className="mt-1 space-y-1 flex-1">
+                          {dayEntries.map(entry => (
+                            <li key={`${entry.template.id}@${entry.scheduledDate}`}>
+                              <button
+                                type="button"
+                                onClick={() => openTemplate(entry.template)}
+                                title={entry.date !== entry.scheduledDate
+                                  ? `${entry.template.description}, moved from ${format(parseDate(entry.scheduledDate) as Date, 'MMM dd')}`
+                                  : entry.template.description}
+                                className={`w-full text-left px-1 py-0.5 rounded text-xs truncate ${
+                                  entry.processed
+                                    ? 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                                    : 'bg-green-100 text-green-800 hover:bg-green-200'
+                                }`}
+                              >
+                                <span className="font-medium">{entry.template.description}</span>
+                                <span className="block">
+                                  {entry.template.amountMode ? '~' : ''}
+                                  {formatTotals(sumEntries([entry]))}
+                                </span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                        {dayEntries.length > 1 && (
+                          <div className="mt-1 text-xs text-right text-gray-500">
+                            {formatTotals(dayTotals)}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                  <div className="p-2 text-xs text-right font-medium text-gray-700 bg-gray-50">
+                    {formatTotals(weekTotals)}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Grey entries have already been processed. Amounts marked with ~ are estimates. Click an entry to open its recurring transaction.
+      </p>
+    </div>
+  )
+}
+
+export default Calendar
\ No newline at end of file
@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react'
-import { googleSheets } from '../lib/googleSheets'
+import { financeStore } from '../lib/store'
 import { format } from 'date-fns'
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, CategoryScale, LinearScale, BarElement, Title } from 'chart.js'
 import { Pie, Bar } from 'react-chartjs-2'
+import { getRecurringAlerts, RecurringAlert } from '../lib/recurringAlerts'
+import { AccountBalance, getAccountBalances, isTransfer } from '../lib/transfers'
+import { CashFlow, getCashFlow, getExpenseAmount, getIncomeAmount, getTransactionDirection } from '../lib/cashFlow'
+import { TransactionDirection } from '../lib/types'
 import { CardSkeleton, ChartSkeleton, TableSkeleton } from '../components/SkeletonLoader'
+import RecurringAlertsPanel from '../components/RecurringAlertsPanel'
+import CashFlowSummary from '../components/CashFlowSummary'
 import 'react-loading-skeleton/dist/skeleton.css'
 
 // Register ChartJS components
@@ -23,25 +29,31 @@ interface Transaction {
   amountUSD?: number
   account: string
   notes?: string
+  transferId?: string
+  direction?: TransactionDirection
 }
 
 /**
  * Dashboard page component
  * 
  * Displays financial overview including:
- * - Summary statistics (totals and averages)
+ * - Income, expenses and net, with the number and average of transactions, leaving out transfers between accounts
+ * - Account balances, including transfers
  * - Category breakdown pie chart
- * - Monthly spending bar chart
+ * - Monthly income and expenses bar chart
+ * - Alerts about price increases, missed charges and duplicate charges of recurring transactions
  * - Recent transactions table
  * 
  * @returns {JSX.Element} The dashboard view
  */
 function Dashboard() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [recurringAlerts, setRecurringAlerts] = useState<RecurringAlert[]>([])
+  const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([])
   const [loading, setLoading] = useState(true)
+  const [cashFlow, setCashFlow] = useState<CashFlow>({ income: 0, expenses: 0, net: 0 })
   const [stats, setStats] = useState({
     totalTransactions: 0,
-    totalSpent: 0,
     avgTransaction: 0
   })
   
@@ -52,26 +64,23 @@ function Dashboard() {
      */
     async function loadData() {
       try {
-        const data = await googleSheets.getTransactions()
+        const [data, recurringTransactions] = await Promise.all([
+          financeStore.getTransactions(),
+          financeStore.getRecurringTransactions()
+        ])
         setTransactions(data)
+        setRecurringAlerts(getRecurringAlerts(recurringTransactions, data))
+        setAccountBalances(getAccountBalances(data))
         
-        // Calculate stats
-        const totalTransactions = data.length
-        let totalSpent = 0
-        
-        // Use EUR amount if available, otherwise USD
-        data.forEach(transaction => {
-          const amount = transaction.amountEUR || transaction.amountUSD || 0
-          if (amount > 0) { // Only count positive amounts as expenses
-            totalSpent += amount
-          }
-        })
-        
-        const avgTransaction = totalTransactions > 0 ? totalSpent / totalTransactions : 0
+        // Calculate stats, leaving out transfers between accounts
+        const totals = getCashFlow(data)
+        const totalTransactions = data.filter(transaction => !isTransfer(transaction)).length
+        const expenseCount = data.filter(transaction => getTransactionDirection(transaction) === 'expense').length
+        const avgTransaction = expenseCount > 0 ? totals.expenses / expenseCount : 0
         
+        setCashFlow(totals)
         setStats({
           totalTransactions,
-          totalSpent,
           avgTransaction
         })
       } catch (error) {
@@ -112,13 +121,16 @@ function Dashboard() {
     ],
   }
   
+  // Transfers between accounts are neither spending nor income
+  const spendingTransactions = transactions.filter(transaction => !isTransfer(transaction))
+  
   // Calculate category totals for pie chart
   const categoryTotals: Record<string, number> = {}
-  transactions.forEach(transaction => {
+  spendingTransactions.forEach(transaction => {
     const category = transaction.category || 'Uncategorized'
-    const amount = transaction.amountEUR || transaction.amountUSD || 0
+    const amount = getExpenseAmount(transaction) // Refunds reduce their category
     
-    if (amount > 0) { // Only count expenses
+    if (amount !== 0) { // Only count expenses and refunds
       if (categoryTotals[category]) {
         categoryTotals[category] += amount
       } else {
@@ -127,13 +139,13 @@ function Dashboard() {
     }
   })
   
-  // Add data to category chart
-  Object.keys(categoryTotals).forEach(category => {
+  // Add data to category chart, leaving out categories refunded in full
+  Object.keys(categoryTotals).filter(category => categoryTotals[category] > 0).forEach(category => {
     categoryData.labels.push(category)
     categoryData.datasets[0].data.push(categoryTotals[category])
   })
   
-  // Prepare monthly spending data
+  // Prepare monthly income and expenses data
   const monthlyData: {
     labels: string[];
     datasets: {
@@ -145,7 +157,12 @@ function Dashboard() {
     labels: [],
     datasets: [
       {
-        label: 'Monthly Spending',
+        label: 'Income',
+        data: [],
+        backgroundColor: '#2196F3',
+      },
+      {
+        label: 'Expenses',
         data: [],
         backgroundColor: '#4CAF50',
       },
@@ -153,19 +170,18 @@ function Dashboard() {
   }
   
   // Calculate monthly totals
+  const monthlyIncome: Record<string, number> = {}
   const monthlyTotals: Record<string, number> = {}
-  transactions.forEach(transaction => {
+  spendingTransactions.forEach(transaction => {
     try {
       const date = new Date(transaction.date)
       const monthYear = format(date, 'MMM yyyy')
-      const amount = transaction.amountEUR || transaction.amountUSD || 0
+      const income = getIncomeAmount(transaction)
+      const amount = getExpenseAmount(transaction)
       
-      if (amount > 0) { // Only count expenses
-        if (monthlyTotals[monthYear]) {
-          monthlyTotals[monthYear] += amount
-        } else {
-          monthlyTotals[monthYear] = amount
-        }
+      if (income !== 0 || amount !== 0) {
+        monthlyIncome[monthYear] = (monthlyIncome[monthYear] || 0) + income
+        monthlyTotals[monthYear] = (monthlyTotals[monthYear] || 0) + amount
       }
     } catch (e) {
       // Skip entries with invalid dates
@@ -179,7 +195,8 @@ function Dashboard() {
   
   sortedMonths.forEach(month => {
     monthlyData.labels.push(month)
-    monthlyData.datasets[0].data.push(monthlyTotals[month])
+    monthlyData.datasets[0].data.push(monthlyIncome[month])
+    monthlyData.datasets[1].data.push(monthlyTotals[month])
   })
   
   // Get recent transactions for dashboard
@@ -216,21 +233,40 @@ function Dashboard() {
       <h1 className="text-2xl font-semibold text-gray-900 mb-6">Dashboard</h1>
       
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-sm font-medium text-gray-500 mb-1">Total Transactions</h2>
-          <p className="text-3xl font-bold text-gray-900">{stats.totalTransactions}</p>
-        </div>
-        
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-sm font-medium text-gray-500 mb-1">Total Spent</h2>
-          <p className="text-3xl font-bold text-gray-900">{formatCurrency(stats.totalSpent)}</p>
-        </div>
-        
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-sm font-medium text-gray-500 mb-1">Avg. Transaction</h2>
-          <p className="text-3xl font-bold text-gray-900">{formatCurrency(stats.avgTransaction)}</p>
+      <div className="mb-8">
+        <CashFlowSummary
+          cashFlow={cashFlow}
+          expensesNote={`${stats.totalTransactions} transactions, avg. expense ${formatCurrency(stats.avgTransaction)}`}
+        />
+      </div>
+      
+      {/* Account Balances */}
+      {accountBalances.length > 0 && (
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Account Balances</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {accountBalances.map(balance => (
+              <li key={balance.account} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span className="text-gray-900">{balance.account}</span>
+                <span className="font-medium text-gray-900">
+                  {balance.balanceEUR !== 0 || balance.balanceUSD === 0 ? formatCurrency(balance.balanceEUR) : ''}
+                  {balance.balanceUSD !== 0 && (
+                    <span className={balance.balanceEUR !== 0 ? 'ml-3' : ''}>
+                      {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(balance.balanceUSD)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
         </div>
+      )}
+      
+      {/* Recurring Alerts */}
+      <div className="mb-8">
+        <RecurringAlertsPanel alerts={recurringAlerts} />
       </div>
       
       {/* Charts */}
@@ -243,7 +279,7 @@ function Dashboard() {
         </div>
         
         <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-4">Monthly Spending</h2>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Monthly Income and Expenses</h2>
           <div className="h-80">
             <Bar 
               data={monthlyData} 
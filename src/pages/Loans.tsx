@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { ChevronDownIcon, ChevronRightIcon, PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { financeStore } from '../lib/store'
+import { Loan } from '../lib/types'
+import { LOAN_FREQUENCIES, getLoanSummary } from '../lib/amortization'
+import { parseDate } from '../lib/recurrence'
+import LoanFormModal from '../components/LoanFormModal'
+import ConfirmDialog from '../components/ConfirmDialog'
+import Notification from '../components/Notification'
+import { CardSkeleton } from '../components/SkeletonLoader'
+import 'react-loading-skeleton/dist/skeleton.css'
+
+/**
+ * Loans page component
+ *
+ * Features:
+ * - Every loan with its installment, remaining balance, payoff date and total interest
+ * - Expandable amortization schedule per loan, with paid installments greyed out
+ * - Extra payments towards the principal, with the interest they save
+ * - Posting the due installments as principal and interest transactions
+ * - Adding, editing and deleting loans
+ *
+ * @returns {JSX.Element} The loans page
+ */
+function Loans() {
+  const [loans, setLoans] = useState<Loan[]>([])
+  const [accounts, setAccounts] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedLoanId, setExpandedLoanId] = useState<string | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingLoan, setEditingLoan] = useState<Loan | null>(null)
+  const [deletingLoan, setDeletingLoan] = useState<Loan | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [extraPaymentLoanId, setExtraPaymentLoanId] = useState<string | null>(null)
+  const [extraPayment, setExtraPayment] = useState({ date: format(new Date(), 'yyyy-MM-dd'), amount: '' })
+  const [notification, setNotification] = useState({
+    message: '',
+    type: 'success' as 'success' | 'error',
+    isVisible: false
+  })
+
+  /**
+   * Loads the loans, and the accounts known from the transactions
+   * @async
+   */
+  const loadData = async () => {
+    try {
+      const [loanData, transactions] = await Promise.all([
+        financeStore.getLoans(),
+        financeStore.getTransactions()
+      ])
+      setLoans(loanData)
+      setAccounts(Array.from(new Set(transactions.map(transaction => transaction.account).filter(Boolean))).sort())
+    } catch (error) {
+      console.error('Error loading loans:', error)
+      setNotification({
+        message: 'Failed to load loans',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  /**
+   * Posts the installments and extra payments that are due as transactions
+   * @async
+   */
+  const handleProcessDue = async () => {
+    try {
+      setIsProcessing(true)
+      const created = await financeStore.processDueLoanPayments()
+      setNotification({
+        message: created > 0 ? `Posted ${created} loan transactions` : 'No loan payments are due',
+        type: 'success',
+        isVisible: true
+      })
+      await loadData()
+    } catch (error) {
+      console.error('Error processing due loan payments:', error)
+      setNotification({
+        message: 'Failed to post due loan payments',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  /**
+   * Adds the extra payment being entered to its loan
+   * @async
+   * @param {Loan} loan - The loan
+   */
+  const handleAddExtraPayment = async (loan: Loan) => {
+    const amount = parseFloat(extraPayment.amount)
+    if (!extraPayment.date || !(amount > 0)) {
+      setNotification({
+        message: 'Enter a date and a positive amount',
+        type: 'error',
+        isVisible: true
+      })
+      return
+    }
+
+    try {
+      await financeStore.updateLoan({
+        ...loan,
+        extraPayments: [...(loan.extraPayments || []), { date: extraPayment.date, amount }]
+      })
+      setExtraPaymentLoanId(null)
+      setExtraPayment({ date: format(new Date(), 'yyyy-MM-dd'), amount: '' })
+      setNotification({
+        message: 'Extra payment added',
+        type: 'success',
+        isVisible: true
+      })
+      await loadData()
+    } catch (error) {
+      console.error('Error adding extra payment:', error)
+      setNotification({
+        message: 'Failed to add extra payment',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Deletes the loan awaiting confirmation
+   * @async
+   */
+  const handleDeleteConfirmed = async () => {
+    if (!deletingLoan?.id) return
+
+    try {
+      setIsDeleting(true)
+      await financeStore.deleteLoan(deletingLoan.id)
+      setDeletingLoan(null)
+      setNotification({
+        message: 'Loan deleted',
+        type: 'success',
+        isVisible: true
+      })
+      await loadData()
+    } catch (error) {
+      console.error('Error deleting loan:', error)
+      setNotification({
+        message: 'Failed to delete loan',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  // Format currency
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 2
+    }).format(amount)
+  }
+
+  // Format a YYYY-MM-DD date for display
+  const formatDisplayDate = (date?: string) => {
+    const parsed = parseDate(date)
+    return parsed ? format(parsed, 'MMM dd, yyyy') : '-'
+  }
+
+  if (loading) {
+    return (
+      <div className="animate-fade-in">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Loans</h1>
+        <CardSkeleton count={3} />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900">Loans</h1>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={handleProcessDue}
+            disabled={isProcessing || loans.length === 0}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isProcessing ? 'Posting...' : 'Post Due Installments'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setEditingLoan(null)
+              setIsFormOpen(true)
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+          >
+            <PlusIcon className="h-5 w-5 mr-1" />
+            Add Loan
+          </button>
+        </div>
+      </div>
+
+      {loans.length === 0 ? (
+        <div className="bg-white rounded-lg shadow px-6 py-8 text-center text-sm text-gray-500">
+          No loans yet. Add a loan to see its amortization schedule and post its installments automatically.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {loans.map(loan => {
+            const summary = getLoanSummary(loan)
+            const isExpanded = expandedLoanId === loan.id
+
+            return (
+              <div key={loan.id} className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-4 flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center">
+                      <h2 className="text-lg font-medium text-gray-900">{loan.name}</h2>
+                      {!loan.active && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {formatCurrency(loan.principal, loan.currency)} at {loan.annualRate}% · {loan.term} {LOAN_FREQUENCIES[loan.frequency || 'monthly'].toLowerCase()} installments · {loan.account}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingLoan(loan)
+                        setIsFormOpen(true)
+                      }}
+                      className="p-1 text-gray-500 hover:text-gray-700"
+                      aria-label={`Edit ${loan.name}`}
+                    >
+                      <PencilSquareIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDeletingLoan(loan)}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      aria-label={`Delete ${loan.name}`}
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+
+                <dl className="px-6 pb-4 grid grid-cols-2 gap-4 sm:grid-cols-5">
+                  <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wider">Installment</dt>
+                    <dd className="text-sm font-medium text-gray-900">{formatCurrency(summary.installment, loan.currency)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wider">Remaining</dt>
+                    <dd className="text-sm font-medium text-gray-900">{formatCurrency(summary.remainingBalance, loan.currency)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wider">Next Installment</dt>
+                    <dd className="text-sm font-medium text-gray-900">
+                      {summary.nextInstallment ? formatDisplayDate(summary.nextInstallment.date) : 'Paid off'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wider">Payoff Date</dt>
+                    <dd className="text-sm font-medium text-gray-900">{formatDisplayDate(summary.payoffDate)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wider">Total Interest</dt>
+                    <dd className="text-sm font-medium text-gray-900">
+                      {formatCurrency(summary.totalInterest, loan.currency)}
+                      {summary.interestSaved > 0 && (
+                        <span className="block text-xs font-normal text-green-700">
+                          {formatCurrency(summary.interestSaved, loan.currency)} saved by extra payments
+                        </span>
+                      )}
+                    </dd>
+                  </div>
+                </dl>
+
+                <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex flex-wrap items-center gap-4 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedLoanId(isExpanded ? null : loan.id || null)}
+                    className="inline-flex items-center text-gray-700 hover:text-gray-900"
+                  >
+                    {isExpanded ? <ChevronDownIcon className="h-4 w-4 mr-1" /> : <ChevronRightIcon className="h-4 w-4 mr-1" />}
+                    Amortization schedule ({summary.paidInstallments} of {summary.schedule.length} paid)
+                  </button>
+                  {extraPaymentLoanId === loan.id ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="date"
+                        value={extraPayment.date}
+                        onChange={(e) => setExtraPayment(prev => ({ ...prev, date: e.target.value }))}
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={extraPayment.amount}
+                        onChange={(e) => setExtraPayment(prev => ({ ...prev, amount: e.target.value }))}
+                        placeholder="Amount"
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleAddExtraPayment(loan)}
+                        className="px-3 py-1 rounded-md text-white bg-green-600 hover:bg-green-700"
+                      >
+                        Add
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setExtraPaymentLoanId(null)}
+                        className="px-3 py-1 rounded-md text-gray-700 hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setExtraPaymentLoanId(loan.id || null)}
+                      className="text-green-700 hover:text-green-900"
+                    >
+                      Add Extra Payment
+                    </button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="overflow-x-auto border-t border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Principal</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Extra</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                        {summary.schedule.map(row => (
+                          <tr key={row.number} className={row.number <= summary.paidInstallments ? 'text-gray-400' : 'text-gray-900'}>
+                            <td className="px-6 py-2 whitespace-nowrap">{row.number}</td>
+                            <td className="px-6 py-2 whitespace-nowrap">{formatDisplayDate(row.date)}</td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right">{formatCurrency(row.payment, loan.currency)}</td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right">{formatCurrency(row.principal, loan.currency)}</td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right">{formatCurrency(row.interest, loan.currency)}</td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right">{row.extra > 0 ? formatCurrency(row.extra, loan.currency) : ''}</td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right">{formatCurrency(row.balance, loan.currency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <p className="mt-4 text-sm text-gray-500">
+        Installments are posted as a principal and an interest transaction on their due date, together with any extra payments.
+      </p>
+
+      <LoanFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onLoanSaved={() => {
+          setNotification({
+            message: editingLoan ? 'Loan updated successfully' : 'Loan added successfully',
+            type: 'success',
+            isVisible: true
+          })
+          loadData()
+        }}
+        loanToEdit={editingLoan}
+        accounts={accounts}
+      />
+
+      <ConfirmDialog
+        isOpen={deletingLoan !== null}
+        title="Delete Loan"
+        message={deletingLoan
+          ? `Delete the loan "${deletingLoan.name}"? Transactions already posted from it are kept.`
+          : ''}
+        isConfirming={isDeleting}
+        onConfirm={handleDeleteConfirmed}
+        onCancel={() => setDeletingLoan(null)}
+      />
+
+      <Notification
+        message={notification.message}
+        type={notification.type}
+        isVisible={notification.isVisible}
+        onClose={() => setNotification(prev => ({ ...prev, isVisible: false }))}
+      />
+    </div>
+  )
+}
+
+export default Loans
\ No newline at end of file
@@ -1,9 +1,13 @@
 import { useEffect, useState } from 'react'
-import { googleSheets } from '../lib/googleSheets'
+import { financeStore } from '../lib/store'
+import { isTransfer } from '../lib/transfers'
+import { getCashFlow, getExpenseAmount } from '../lib/cashFlow'
+import { TransactionDirection } from '../lib/types'
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns'
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, CategoryScale, LinearScale, PointElement, LineElement, Title } from 'chart.js'
 import { Pie, Line } from 'react-chartjs-2'
 import { CardSkeleton, ChartSkeleton, TableSkeleton } from '../components/SkeletonLoader'
+import CashFlowSummary from '../components/CashFlowSummary'
 import 'react-loading-skeleton/dist/skeleton.css'
 
 // Register ChartJS components
@@ -23,13 +27,15 @@ interface Transaction {
   amountUSD?: number
   account: string
   notes?: string
+  transferId?: string
+  direction?: TransactionDirection
 }
 
 /**
  * Spending reports page component
  * 
  * Features:
- * - Displays spending summary for selected time period (3, 6, or 12 months)
+ * - Displays income, expenses and net for selected time period (3, 6, or 12 months)
  * - Shows spending breakdown by category in a pie chart
  * - Displays monthly spending trends in a line chart
  * - Lists top spending categories with percentages
@@ -71,8 +77,9 @@ function Reports() {
      */
     async function loadData() {
       try {
-        const data = await googleSheets.getTransactions()
-        setTransactions(data)
+        const data = await financeStore.getTransactions()
+        // Transfers between accounts are neither spending nor income
+        setTransactions(data.filter(transaction => !isTransfer(transaction)))
       } catch (error) {
         console.error('Error loading reports data:', error)
       } finally {
@@ -143,7 +150,7 @@ function Reports() {
    * @param {Transaction[]} transactions - The transactions to analyze
    */
   const prepareCategoryData = (transactions: Transaction[]) => {
-    const categoryTotals = {}
+    const categoryTotals: Record<string, number> = {}
     const colors = [
       '#4CAF50', // Green
       '#2196F3', // Blue
@@ -159,9 +166,9 @@ function Reports() {
     
     transactions.forEach(transaction => {
       const category = transaction.category || 'Uncategorized'
-      const amount = transaction.amountEUR || transaction.amountUSD || 0
+      const amount = getExpenseAmount(transaction) // Refunds reduce their category
       
-      if (amount > 0) { // Only count expenses
+      if (amount !== 0) { // Only count expenses and refunds
         if (categoryTotals[category]) {
           categoryTotals[category] += amount
         } else {
@@ -170,8 +177,8 @@ function Reports() {
       }
     })
     
-    // Sort categories by total amount (descending)
-    const sortedCategories = Object.keys(categoryTotals).sort((a, b) => {
+    // Sort categories by total amount (descending), leaving out categories refunded in full
+    const sortedCategories = Object.keys(categoryTotals).filter(category => categoryTotals[category] > 0).sort((a, b) => {
       return categoryTotals[b] - categoryTotals[a]
     })
     
@@ -242,9 +249,9 @@ function Reports() {
       try {
         const txDate = new Date(transaction.date)
         const monthKey = format(txDate, 'yyyy-MM')
-        const amount = transaction.amountEUR || transaction.amountUSD || 0
+        const amount = getExpenseAmount(transaction)
         
-        if (amount > 0 && monthlyTotals[monthKey] !== undefined) {
+        if (amount !== 0 && monthlyTotals[monthKey] !== undefined) {
           monthlyTotals[monthKey] += amount
         }
       } catch (e) {
@@ -304,17 +311,13 @@ function Reports() {
     }
   }
   
-  // Calculate total spent in the period
+  // Calculate income and expenses in the period
   /**
-   * Calculates the total amount spent in the selected period
-   * @returns {number} Total amount spent
+   * Calculates the income, expenses and net of the selected period
+   * @returns {CashFlow} Income, expenses (less refunds) and net
    */
-  const calculateTotalSpent = () => {
-    const filteredTransactions = filterTransactionsByPeriod(transactions, periodFilter)
-    return filteredTransactions.reduce((total, transaction) => {
-      const amount = transaction.amountEUR || transaction.amountUSD || 0
-      return total + (amount > 0 ? amount : 0)
-    }, 0)
+  const calculateCashFlow = () => {
+    return getCashFlow(filterTransactionsByPeriod(transactions, periodFilter))
   }
 
   if (loading) {
@@ -324,7 +327,7 @@ function Reports() {
         <div className="bg-white rounded-lg shadow p-4 mb-6">
           <h2 className="text-lg font-medium text-gray-900">Spending Summary</h2>
         </div>
-        <CardSkeleton count={1} />
+        <CardSkeleton count={3} />
         <ChartSkeleton count={2} />
         <TableSkeleton />
       </div>
@@ -356,10 +359,9 @@ function Reports() {
         </div>
       </div>
       
-      {/* Summary Card */}
-      <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h3 className="text-sm font-medium text-gray-500 mb-1">Total Spent ({getPeriodLabel()})</h3>
-        <p className="text-3xl font-bold text-gray-900">{formatCurrency(calculateTotalSpent())}</p>
+      {/* Summary Cards */}
+      <div className="mb-6">
+        <CashFlowSummary cashFlow={calculateCashFlow()} periodLabel={getPeriodLabel()} />
       </div>
       
       {/* Charts */}
@@ -433,7 +435,7 @@ function Reports() {
           <tbody className="bg-white divide-y divide-gray-200">
             {categoryData.labels.map((category, index) => {
               const amount = categoryData.datasets[0].data[index] as number
-              const totalSpent = calculateTotalSpent()
+              const totalSpent = calculateCashFlow().expenses
               const percentage = totalSpent > 0 ? (amount / totalSpent) * 100 : 0
               
               return (
@@ -1,6 +1,10 @@
 import { useState } from 'react'
 import Skeleton from 'react-loading-skeleton'
 import CategoryManager from '../components/CategoryManager'
+import RulesManager from '../components/RulesManager'
+import Notification from '../components/Notification'
+import { financeStore, googleAuth, storageBackend } from '../lib/store'
+import type { GoogleSession } from '../lib/googleAuth'
 import 'react-loading-skeleton/dist/skeleton.css'
 
 /**
@@ -9,8 +13,9 @@ import 'react-loading-skeleton/dist/skeleton.css'
  * Features:
  * - Multiple settings tabs (general, account, data, about)
  * - User preferences for currency, date format, and theme
- * - Google Sheets connection management
+ * - Google Sheets connection management with OAuth2 sign-in
  * - Category management via CategoryManager component
+ * - Categorization rules via RulesManager component
  * - Data import/export options
  * - Application information
  * 
@@ -22,6 +27,77 @@ function Settings() {
   const [dateFormat, setDateFormat] = useState('MM/DD/YYYY')
   const [theme, setTheme] = useState('light')
   const [loading, setLoading] = useState(false)
+  const [session, setSession] = useState<GoogleSession | null>(() => googleAuth.getSession())
+  const [connecting, setConnecting] = useState(false)
+  const [backfilling, setBackfilling] = useState(false)
+  const [notification, setNotification] = useState({
+    message: '',
+    type: 'success' as 'success' | 'error',
+    isVisible: false
+  })
+  
+  /**
+   * Signs in with Google in a popup
+   * @async
+   */
+  const handleReconnect = async () => {
+    try {
+      setConnecting(true)
+      setSession(await googleAuth.signIn())
+      setNotification({
+        message: 'Connected to Google Sheets successfully!',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error signing in with Google:', error)
+      setNotification({
+        message: error instanceof Error ? error.message : 'Failed to connect to Google Sheets',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setConnecting(false)
+    }
+  }
+  
+  /**
+   * Signs out of Google and forgets the stored tokens
+   */
+  const handleSignOut = () => {
+    googleAuth.signOut()
+    setSession(null)
+    setNotification({
+      message: 'Signed out of Google Sheets',
+      type: 'success',
+      isVisible: true
+    })
+  }
+  
+  /**
+   * Assigns stable IDs to spreadsheet rows that were created before IDs existed
+   * @async
+   */
+  const handleBackfillIds = async () => {
+    try {
+      setBackfilling(true)
+      const assigned = await financeStore.backfillIds()
+      setNotification({
+        message: assigned > 0 ? `Assigned IDs to ${assigned} records` : 'All records already have IDs',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error backfilling record IDs:', error)
+      setNotification({
+        message: 'Failed to assign record IDs',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setBackfilling(false)
+    }
+  }
   
   /**
    * Handles the form submission for general settings
@@ -46,6 +122,13 @@ function Settings() {
     <div>
       <h1 className="text-2xl font-semibold text-gray-900 mb-6">Settings</h1>
       
+      <Notification
+        message={notification.message}
+        type={notification.type}
+        isVisible={notification.isVisible}
+        onClose={() => setNotification(prev => ({ ...prev, isVisible: false }))}
+      />
+      
       <div className="bg-white rounded-lg shadow">
         {/* Tabs */}
         <div className="border-b border-gray-200">
@@ -186,17 +269,47 @@ function Settings() {
             <div className="space-y-6">
               <div>
                 <h3 className="text-lg font-medium text-gray-900">Google Sheets Connection</h3>
-                <p className="mt-1 text-sm text-gray-500">
-                  PennyFincher is currently connected to your Google Sheets document.
-                </p>
-                <div className="mt-4">
-                  <button
-                    type="button"
-                    className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-                  >
-                    Reconnect to Google Sheets
-                  </button>
-                </div>
+                {storageBackend === 'local' ? (
+                  <p className="mt-1 text-sm text-gray-500">
+                    PennyFincher is storing your data locally in this browser. Set VITE_STORAGE_BACKEND to "sheets" to use Google Sheets.
+                  </p>
+                ) : session ? (
+                  <div className="mt-1 text-sm text-gray-500 space-y-1">
+                    <p>
+                      Signed in as <span className="font-medium text-gray-900">{session.email || session.name || 'Google user'}</span>
+                      {session.name && session.email ? ` (${session.name})` : ''}
+                    </p>
+                    <p>
+                      Access is renewed automatically while you stay signed in to Google in this browser.
+                    </p>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-500">
+                    PennyFincher is reading your Google Sheets document with an API key. Sign in with Google to add and edit transactions.
+                  </p>
+                )}
+                {storageBackend === 'sheets' && (
+                  <div className="mt-4 flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={handleReconnect}
+                      disabled={connecting || !googleAuth.isConfigured()}
+                      title={googleAuth.isConfigured() ? undefined : 'Set VITE_GOOGLE_CLIENT_ID to enable sign-in'}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+                    >
+                      {connecting ? 'Connecting...' : 'Reconnect to Google Sheets'}
+                    </button>
+                    {session && (
+                      <button
+                        type="button"
+                        onClick={handleSignOut}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                      >
+                        Sign out
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               
               <div className="pt-6 border-t border-gray-200">
@@ -244,6 +357,10 @@ function Settings() {
             <div className="space-y-6">
               <CategoryManager />
               
+              <div className="pt-6 border-t border-gray-200">
+                <RulesManager />
+              </div>
+              
               <div className="pt-6 border-t border-gray-200">
                 <h3 className="text-lg font-medium text-gray-900">Data Management</h3>
                 <p className="mt-1 text-sm text-gray-500">
@@ -269,6 +386,22 @@ function Settings() {
                     </button>
                   </div>
                 </div>
+                
+                {storageBackend === 'sheets' && (
+                  <div className="mt-6">
+                    <button
+                      type="button"
+                      onClick={handleBackfillIds}
+                      disabled={backfilling}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+                    >
+                      {backfilling ? 'Assigning IDs...' : 'Assign Missing Record IDs'}
+                    </button>
+                    <p className="mt-2 text-sm text-gray-500">
+                      Gives every transaction and recurring transaction created before this version a stable ID, so editing still works after rows are sorted or deleted.
+                    </p>
+                  </div>
+                )}
               </div>
               
               <div className="pt-6 border-t border-gray-200">
@@ -1,11 +1,19 @@
 import { useEffect, useState } from 'react'
-import { googleSheets } from '../lib/googleSheets'
+import { useSearchParams } from 'react-router-dom'
+import { financeStore } from '../lib/store'
+import { RecurringTransaction, TransactionDirection, TransactionSplit } from '../lib/types'
+import { groupSplitTransactions } from '../lib/splits'
+import { groupTransfers } from '../lib/transfers'
+import { getCashFlow, getTransactionDirection, TRANSACTION_DIRECTIONS } from '../lib/cashFlow'
+import { applyBulkEdit, BulkEdit, getStoredTransactions } from '../lib/bulkEdit'
 import { format } from 'date-fns'
 import { FiltersSkeleton, TableSkeleton } from '../components/SkeletonLoader'
 import TransactionFormModal from '../components/TransactionFormModal'
 import RecurringTransactions from '../components/RecurringTransactions'
 import RecurringTransactionFormModal from '../components/RecurringTransactionFormModal'
-import Notification from '../components/Notification'
+import BulkActionsBar from '../components/BulkActionsBar'
+import Notification, { NotificationAction } from '../components/Notification'
+import ConfirmDialog from '../components/ConfirmDialog'
 import 'react-loading-skeleton/dist/skeleton.css'
 
 type TabType = 'transactions' | 'recurring'
@@ -24,35 +32,105 @@ interface Transaction {
   amountUSD?: number
   account: string
   notes?: string
+  tags?: string[]
+  recurringId?: string
+  amountConfirmed?: boolean
+  splits?: TransactionSplit[]
+  splitId?: string
+  transferAccount?: string
+  transferId?: string
+  direction?: TransactionDirection
 }
 
+/**
+ * Notification shown at the top of the page
+ * @interface NotificationState
+ */
+interface NotificationState {
+  message: string
+  type: 'success' | 'error' | 'info'
+  isVisible: boolean
+  duration?: number
+  action?: NotificationAction
+}
+
+/**
+ * Lists the categories of a transaction, one per line for a split transaction
+ * @param {Transaction} transaction - The transaction
+ * @returns {TransactionSplit[]} The category and subcategory of the transaction or of each of its lines
+ */
+const getCategoryLines = (transaction: Transaction): TransactionSplit[] => transaction.splits || [transaction]
+
+/**
+ * Labels transactions that bring money in, so they stand out from expenses
+ * @param {Transaction} transaction - The transaction
+ * @returns {string|null} The direction's display name for income and refunds, null otherwise
+ */
+const getMoneyInLabel = (transaction: Transaction): string | null => {
+  const direction = getTransactionDirection(transaction)
+  return direction === 'income' || direction === 'refund' ? TRANSACTION_DIRECTIONS[direction] : null
+}
+
+/**
+ * Counts transactions as the table shows them, with the lines of a split transaction and the legs of a transfer counting once
+ * @param {Transaction[]} transactions - Transactions as stored
+ * @returns {number} Number of transactions
+ */
+const countTransactions = (transactions: Transaction[]): number =>
+  new Set(transactions.map(transaction => transaction.splitId || transaction.transferId || transaction.id)).size
+
+/**
+ * Describes a number of transactions
+ * @param {number} count - Number of transactions
+ * @returns {string} E.g. "1 transaction" or "40 transactions"
+ */
+const pluralizeTransactions = (count: number): string => `${count} transaction${count === 1 ? '' : 's'}`
+
 /**
  * Transactions page component for displaying and filtering transaction history
  * 
  * Features:
- * - Displays all transactions in a table format
- * - Provides filtering by search term, category, and account
+ * - Displays all transactions in a table format, with the lines of split transactions and the legs of transfers grouped
+ * - Provides filtering by search term, category, account, and originating recurring template
+ * - Totals the income, expenses and net of the filtered transactions
  * - Allows adding new transactions through a modal form
- * - Shows success/error notifications
+ * - Allows editing and deleting transactions from the table
+ * - Selects rows with checkboxes, shift-click ranges or all filtered rows at once, to
+ *   re-categorize, move, annotate, tag or delete them in a single request that can be undone
+ * - Opens the Recurring Transactions tab, and a template in it, from the URL (?tab=recurring&template=<id>)
+ * - Shows success/error notifications, and progress notifications for bulk actions
  * 
  * @returns {JSX.Element} The transactions page
  */
 function Transactions() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [storedTransactions, setStoredTransactions] = useState<Transaction[]>([])
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
   const [categoryFilter, setCategoryFilter] = useState('')
   const [accountFilter, setAccountFilter] = useState('')
+  const [templateFilter, setTemplateFilter] = useState('')
   const [categories, setCategories] = useState<string[]>([])
   const [accounts, setAccounts] = useState<string[]>([])
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([])
   const [isModalOpen, setIsModalOpen] = useState(false)
-  const [notification, setNotification] = useState({
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
+  const [deletingTransaction, setDeletingTransaction] = useState<Transaction | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null)
+  const [isBulkWorking, setIsBulkWorking] = useState(false)
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false)
+  const [notification, setNotification] = useState<NotificationState>({
     message: '',
-    type: 'success' as const,
+    type: 'success',
     isVisible: false
   })
-  const [activeTab, setActiveTab] = useState<TabType>('transactions')
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [activeTab, setActiveTab] = useState<TabType>(
+    searchParams.get('tab') === 'recurring' ? 'recurring' : 'transactions'
+  )
 
   /**
    * Loads transaction data and extracts unique categories and accounts for filters
@@ -61,17 +139,26 @@ function Transactions() {
   const loadData = async () => {
     try {
       setLoading(true)
-      const data = await googleSheets.getTransactions()
+      const [stored, recurringTemplates] = await Promise.all([
+        financeStore.getTransactions(),
+        financeStore.getRecurringTransactions()
+      ])
+      const data = groupTransfers(groupSplitTransactions(stored))
+      setStoredTransactions(stored)
       setTransactions(data)
       setFilteredTransactions(data)
+      setTemplates(recurringTemplates)
 
       // Extract unique categories and accounts for filters
       const uniqueCategories = new Set<string>()
       const uniqueAccounts = new Set<string>()
 
       data.forEach(transaction => {
-        if (transaction.category) uniqueCategories.add(transaction.category)
+        getCategoryLines(transaction).forEach(line => {
+          if (line.category) uniqueCategories.add(line.category)
+        })
         if (transaction.account) uniqueAccounts.add(transaction.account)
+        if (transaction.transferAccount) uniqueAccounts.add(transaction.transferAccount)
       })
 
       setCategories(Array.from(uniqueCategories).sort())
@@ -105,6 +192,215 @@ function Transactions() {
     }
   }
 
+  /**
+   * Handles the event when a transaction is edited
+   * Reloads data and shows a success notification
+   * @async
+   */
+  const handleTransactionUpdated = async () => {
+    try {
+      await loadData()
+      setNotification({
+        message: 'Transaction updated successfully!',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      setNotification({
+        message: 'Failed to refresh transactions. Please try again.',
+        type: 'error',
+        isVisible: true
+      })
+    }
+  }
+
+  /**
+   * Deletes the transaction awaiting confirmation
+   * @async
+   */
+  const handleDeleteConfirmed = async () => {
+    if (!deletingTransaction?.id) return
+
+    try {
+      setIsDeleting(true)
+      await financeStore.deleteTransaction(deletingTransaction.id)
+      setDeletingTransaction(null)
+      await loadData()
+      setNotification({
+        message: 'Transaction deleted successfully',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error deleting transaction:', error)
+      setDeletingTransaction(null)
+      setNotification({
+        message: 'Failed to delete transaction',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  /**
+   * Runs a bulk action, showing its progress and then a notification that can undo it
+   * @async
+   * @param {string} progressMessage - Message shown while the action runs
+   * @param {() => Promise<void>} action - Writes the change
+   * @param {string} successMessage - Message shown once the change is written
+   * @param {() => Promise<void>} undo - Reverts the change
+   */
+  const runBulkAction = async (
+    progressMessage: string,
+    action: () => Promise<void>,
+    successMessage: string,
+    undo: () => Promise<void>
+  ) => {
+    try {
+      setIsBulkWorking(true)
+      setNotification({ message: progressMessage, type: 'info', isVisible: true, duration: 0 })
+      await action()
+      setSelectedIds(new Set())
+      setLastSelectedId(null)
+      await loadData()
+      setNotification({
+        message: successMessage,
+        type: 'success',
+        isVisible: true,
+        duration: 10000,
+        action: { label: 'Undo', onClick: () => handleUndo(undo) }
+      })
+    } catch (error) {
+      console.error('Error running bulk action:', error)
+      setNotification({
+        message: 'Failed to update the selected transactions',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsBulkWorking(false)
+    }
+  }
+
+  /**
+   * Reverts the last bulk action
+   * @async
+   * @param {() => Promise<void>} undo - Reverts the change
+   */
+  const handleUndo = async (undo: () => Promise<void>) => {
+    try {
+      setIsBulkWorking(true)
+      setNotification({ message: 'Undoing...', type: 'info', isVisible: true, duration: 0 })
+      await undo()
+      await loadData()
+      setNotification({
+        message: 'Changes undone',
+        type: 'success',
+        isVisible: true
+      })
+    } catch (error) {
+      console.error('Error undoing bulk action:', error)
+      setNotification({
+        message: 'Failed to undo the changes',
+        type: 'error',
+        isVisible: true
+      })
+    } finally {
+      setIsBulkWorking(false)
+    }
+  }
+
+  /**
+   * Applies a bulk edit to the selected transactions
+   * Transfers are left out of category and account edits, split transactions out of
+   * category edits, and transactions the edit would not change are not written.
+   * @async
+   * @param {BulkEdit} edit - The edit
+   */
+  const handleBulkEdit = async (edit: BulkEdit) => {
+    const { updated, previous, skipped } = applyBulkEdit(getStoredTransactions(storedTransactions, selectedIds), edit)
+    const skippedReason = edit.type === 'category'
+      ? 'transfers have no category and split transactions keep the categories of their lines'
+      : 'transfers keep their accounts'
+    const skippedNote = skipped > 0 ? ` (${pluralizeTransactions(skipped)} skipped: ${skippedReason})` : ''
+
+    if (updated.length === 0) {
+      setNotification({
+        message: `Nothing to change${skippedNote}`,
+        type: 'error',
+        isVisible: true
+      })
+      return
+    }
+
+    const count = pluralizeTransactions(countTransactions(updated))
+    // Rows with a legacy row-number ID are stored under a new ID by the edit, which the undo must use
+    let writtenIds: string[] = []
+    await runBulkAction(
+      `Updating ${count}...`,
+      async () => {
+        writtenIds = await financeStore.updateTransactions(updated)
+      },
+      `Updated ${count}${skippedNote}`,
+      async () => {
+        await financeStore.updateTransactions(previous.map((transaction, index) => ({ ...transaction, id: writtenIds[index] })))
+      }
+    )
+  }
+
+  /**
+   * Deletes the selected transactions once the deletion is confirmed
+   * @async
+   */
+  const handleBulkDeleteConfirmed = async () => {
+    const deleted = getStoredTransactions(storedTransactions, selectedIds)
+    const count = pluralizeTransactions(selectedIds.size)
+    setIsBulkDeleteOpen(false)
+
+    await runBulkAction(
+      `Deleting ${count}...`,
+      () => financeStore.deleteTransactions(Array.from(selectedIds)),
+      `Deleted ${count}`,
+      () => financeStore.addTransactions(deleted, false)
+    )
+  }
+
+  /**
+   * Selects or unselects a row
+   * With a range, every row between the previously clicked one and this one follows
+   * the clicked row's new state.
+   * @param {string} transactionId - ID of the clicked row
+   * @param {boolean} isRange - Whether shift was held while clicking
+   */
+  const handleSelect = (transactionId: string, isRange: boolean) => {
+    const ids = filteredTransactions.map(transaction => transaction.id as string)
+    const index = ids.indexOf(transactionId)
+    const anchor = isRange && lastSelectedId ? ids.indexOf(lastSelectedId) : -1
+    const range = anchor === -1
+      ? [transactionId]
+      : ids.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      const isSelecting = !prev.has(transactionId)
+      range.forEach(id => isSelecting ? next.add(id) : next.delete(id))
+      return next
+    })
+    setLastSelectedId(transactionId)
+  }
+
+  /**
+   * Selects every filtered row, or clears the selection when they are all selected
+   */
+  const handleSelectAll = () => {
+    setSelectedIds(areAllSelected
+      ? new Set()
+      : new Set(filteredTransactions.map(transaction => transaction.id as string)))
+    setLastSelectedId(null)
+  }
+
   useEffect(() => {
     loadData()
   }, [])
@@ -119,26 +415,47 @@ function Transactions() {
       filtered = filtered.filter(transaction => {
         return (
           transaction.description?.toLowerCase().includes(searchLower) ||
-          transaction.category?.toLowerCase().includes(searchLower) ||
-          transaction.subcategory?.toLowerCase().includes(searchLower) ||
+          getCategoryLines(transaction).some(line =>
+            line.category?.toLowerCase().includes(searchLower) ||
+            line.subcategory?.toLowerCase().includes(searchLower) ||
+            line.notes?.toLowerCase().includes(searchLower)
+          ) ||
           transaction.account?.toLowerCase().includes(searchLower) ||
-          transaction.notes?.toLowerCase().includes(searchLower)
+          transaction.transferAccount?.toLowerCase().includes(searchLower) ||
+          transaction.notes?.toLowerCase().includes(searchLower) ||
+          transaction.tags?.some(tag => tag.toLowerCase().includes(searchLower))
         )
       })
     }
 
     // Apply category filter
     if (categoryFilter) {
-      filtered = filtered.filter(transaction => transaction.category === categoryFilter)
+      filtered = filtered.filter(transaction =>
+        getCategoryLines(transaction).some(line => line.category === categoryFilter)
+      )
     }
 
     // Apply account filter
     if (accountFilter) {
-      filtered = filtered.filter(transaction => transaction.account === accountFilter)
+      filtered = filtered.filter(transaction =>
+        transaction.account === accountFilter || transaction.transferAccount === accountFilter
+      )
+    }
+
+    // Apply recurring template filter
+    if (templateFilter) {
+      filtered = filtered.filter(transaction => transaction.recurringId === templateFilter)
     }
 
     setFilteredTransactions(filtered)
-  }, [search, categoryFilter, accountFilter, transactions])
+
+    // Rows hidden by the filters are no longer selected, so bulk actions only touch what is shown
+    const visibleIds = new Set(filtered.map(transaction => transaction.id))
+    setSelectedIds(prev => {
+      const next = new Set(Array.from(prev).filter(id => visibleIds.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [search, categoryFilter, accountFilter, templateFilter, transactions])
 
   // Format date for display
   /**
@@ -172,6 +489,9 @@ function Transactions() {
     }).format(amount)
   }
 
+  const filteredCashFlow = getCashFlow(filteredTransactions)
+  const areAllSelected = filteredTransactions.length > 0 && selectedIds.size === filteredTransactions.length
+
   if (loading) {
     return (
       <div className="animate-fade-in">
@@ -197,7 +517,10 @@ function Transactions() {
           )}
           {activeTab === 'transactions' && (
             <button
-              onClick={() => setIsModalOpen(true)}
+              onClick={() => {
+                setEditingTransaction(null)
+                setIsModalOpen(true)
+              }}
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
             >
               Add Transaction
@@ -211,17 +534,45 @@ function Transactions() {
         message={notification.message}
         type={notification.type}
         isVisible={notification.isVisible}
+        duration={notification.duration}
+        action={notification.action}
         onClose={() => setNotification(prev => ({ ...prev, isVisible: false }))}
       />
       
       {/* Transaction Form Modal */}
       <TransactionFormModal
         isOpen={isModalOpen && activeTab === 'transactions'}
-        onClose={() => setIsModalOpen(false)}
+        onClose={() => {
+          setIsModalOpen(false)
+          setEditingTransaction(null)
+        }}
         onTransactionAdded={handleTransactionAdded}
+        onTransactionUpdated={handleTransactionUpdated}
+        transactionToEdit={editingTransaction}
         accounts={accounts}
       />
       
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        isOpen={deletingTransaction !== null}
+        title="Delete Transaction"
+        message={deletingTransaction
+          ? `Delete "${deletingTransaction.description}" from ${formatDate(deletingTransaction.date)}? This cannot be undone.`
+          : ''}
+        isConfirming={isDeleting}
+        onConfirm={handleDeleteConfirmed}
+        onCancel={() => setDeletingTransaction(null)}
+      />
+      
+      {/* Bulk Delete Confirmation */}
+      <ConfirmDialog
+        isOpen={isBulkDeleteOpen}
+        title="Delete Transactions"
+        message={`Delete ${pluralizeTransactions(selectedIds.size)}? You can undo this from the notification that follows.`}
+        onConfirm={handleBulkDeleteConfirmed}
+        onCancel={() => setIsBulkDeleteOpen(false)}
+      />
+      
       {/* Import the RecurringTransactionFormModal */}
       {activeTab === 'recurring' && (
         <RecurringTransactionFormModal
@@ -265,7 +616,7 @@ function Transactions() {
         <>
           {/* Filters */}
           <div className="bg-white rounded-lg shadow p-6 mb-6">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div>
                 <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">Search</label>
                 <input
@@ -322,12 +673,35 @@ function Transactions() {
                 </div>
               </div>
               
+              <div>
+                <label htmlFor="template" className="block text-sm font-medium text-gray-700 mb-1">Recurring Template</label>
+                <div className="relative">
+                  <select
+                    id="template"
+                    value={templateFilter}
+                    onChange={(e) => setTemplateFilter(e.target.value)}
+                    className="appearance-none w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="">All Transactions</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.description}</option>
+                    ))}
+                  </select>
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                    <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                  </div>
+                </div>
+              </div>
+              
               <div className="flex items-end">
                 <button
                   onClick={() => {
                     setSearch('')
                     setCategoryFilter('')
                     setAccountFilter('')
+                    setTemplateFilter('')
                   }}
                   className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
                 >
@@ -337,12 +711,39 @@ function Transactions() {
             </div>
           </div>
           
+          {/* Bulk Actions */}
+          {selectedIds.size > 0 && (
+            <BulkActionsBar
+              selectedCount={selectedIds.size}
+              accounts={accounts}
+              isWorking={isBulkWorking}
+              onApply={handleBulkEdit}
+              onDelete={() => setIsBulkDeleteOpen(true)}
+              onClearSelection={() => {
+                setSelectedIds(new Set())
+                setLastSelectedId(null)
+              }}
+            />
+          )}
+          
           {/* Transactions Table */}
           <div className="bg-white rounded-lg shadow overflow-hidden">
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all filtered transactions"
+                        checked={areAllSelected}
+                        ref={(el) => {
+                          if (el) el.indeterminate = selectedIds.size > 0 && !areAllSelected
+                        }}
+                        onChange={handleSelectAll}
+                        className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
@@ -351,39 +752,114 @@ function Transactions() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount (USD)</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredTransactions.map((transaction) => (
-                    <tr key={transaction.id} className={transaction.recurringId ? 'bg-green-50' : ''}>
+                    <tr
+                      key={transaction.id}
+                      className={selectedIds.has(transaction.id as string) ? 'bg-blue-50' : transaction.recurringId ? 'bg-green-50' : ''}
+                    >
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${transaction.description}`}
+                          checked={selectedIds.has(transaction.id as string)}
+                          onChange={(e) => handleSelect(transaction.id as string, (e.nativeEvent as MouseEvent).shiftKey)}
+                          className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {formatDate(transaction.date)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {transaction.description}
                         {transaction.recurringId && (
-                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          <button
+                            onClick={() => setTemplateFilter(transaction.recurringId || '')}
+                            title="Show all transactions from this recurring template"
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 hover:bg-green-200"
+                          >
                             Recurring
+                          </button>
+                        )}
+                        {transaction.splits && (
+                          <span
+                            title={`Split into ${transaction.splits.length} lines`}
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800"
+                          >
+                            Split
+                          </span>
+                        )}
+                        {getMoneyInLabel(transaction) && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                            {getMoneyInLabel(transaction)}
+                          </span>
+                        )}
+                        {transaction.transferAccount && (
+                          <span
+                            title="Transfer between accounts, left out of spending and income"
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800"
+                          >
+                            Transfer
                           </span>
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {transaction.category || '-'}
+                        {getCategoryLines(transaction).map((line, index) => (
+                          <div key={index}>{line.category || '-'}</div>
+                        ))}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {transaction.subcategory || '-'}
+                        {getCategoryLines(transaction).map((line, index) => (
+                          <div key={index}>{line.subcategory || '-'}</div>
+                        ))}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {formatCurrency(transaction.amountEUR, 'EUR')}
+                        {transaction.amountConfirmed === false && transaction.amountEUR !== undefined && (
+                          <span title="Estimated amount, not confirmed yet" className="ml-1 text-xs text-yellow-700">est.</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {formatCurrency(transaction.amountUSD, 'USD')}
+                        {transaction.amountConfirmed === false && transaction.amountUSD !== undefined && (
+                          <span title="Estimated amount, not confirmed yet" className="ml-1 text-xs text-yellow-700">est.</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {transaction.account}
+                        {transaction.transferAccount
+                          ? `${transaction.account} → ${transaction.transferAccount}`
+                          : transaction.account}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {transaction.notes || '-'}
+                        {transaction.tags?.map(tag => (
+                          <span
+                            key={tag}
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <button
+                          onClick={() => {
+                            setEditingTransaction(transaction)
+                            setIsModalOpen(true)
+                          }}
+                          className="text-sm px-2 py-1 rounded text-gray-700 hover:bg-gray-100"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setDeletingTransaction(transaction)}
+                          className="ml-1 text-sm px-2 py-1 rounded text-red-700 hover:bg-red-100"
+                        >
+                          Delete
+                        </button>
                       </td>
                     </tr>
                   ))}
@@ -401,6 +877,16 @@ function Transactions() {
               <p className="text-sm text-gray-700">
                 Showing <span className="font-medium">{filteredTransactions.length}</span> of{' '}
                 <span className="font-medium">{transactions.length}</span> transactions
+                {selectedIds.size > 0 && (
+                  <> · <span className="font-medium">{selectedIds.size}</span> selected</>
+                )}
+                {filteredTransactions.length > 0 && (
+                  <>
+                    {' '}· Income <span className="font-medium">{formatCurrency(filteredCashFlow.income, 'EUR')}</span>
+                    {' '}· Expenses <span className="font-medium">{formatCurrency(filteredCashFlow.expenses, 'EUR')}</span>
+                    {' '}· Net <span className={`font-medium ${filteredCashFlow.net >= 0 ? 'text-green-700' : 'text-red-700'}`}>{formatCurrency(filteredCashFlow.net, 'EUR')}</span>
+                  </>
+                )}
               </p>
             </div>
           </div>
@@ -412,6 +898,8 @@ function Transactions() {
         <RecurringTransactions 
           accounts={accounts} 
           onProcessDue={loadData} 
+          templateToOpen={searchParams.get('template') || undefined}
+          onTemplateOpened={() => setSearchParams({ tab: 'recurring' }, { replace: true })}
         />
       )}
     </div>
@@ -0,0 +1,50 @@
+/**
+ * Script to backfill stable IDs in the Google Sheets spreadsheet
+ *
+ * Older spreadsheets identify transactions and recurring templates by their row
+ * number, which breaks as soon as rows are inserted, sorted or deleted. This
+ * script writes a UUID into the ID column of every Transactions and Recurring
+ * row that does not have one yet. It is safe to run more than once.
+ *
+ * Usage:
+ * 1. Configure a service account (see googleServiceAccount.ts) with edit access
+ * 2. Set the VITE_SPREADSHEET_ID environment variable
+ * 3. Run using npm: npm run backfill-ids
+ */
+
+// Import required libraries
+import dotenv from 'dotenv';
+import { GoogleSheetsService } from '../lib/googleSheets';
+import { createServiceAccountTokenProvider, hasServiceAccount } from './googleServiceAccount';
+
+// Load environment variables
+dotenv.config();
+
+const SPREADSHEET_ID = process.env.VITE_SPREADSHEET_ID;
+
+if (!SPREADSHEET_ID || !hasServiceAccount()) {
+  console.error('Missing required environment variables: VITE_SPREADSHEET_ID and a service account');
+  process.exit(1);
+}
+
+/**
+ * Backfills missing record IDs
+ */
+async function backfillIds() {
+  try {
+    const service = new GoogleSheetsService({
+      spreadsheetId: SPREADSHEET_ID || '',
+      getAccessToken: createServiceAccountTokenProvider()
+    });
+
+    console.log('Backfilling record IDs...');
+    const assigned = await service.backfillIds();
+    console.log(`Assigned IDs to ${assigned} rows.`);
+  } catch (error) {
+    console.error('Error backfilling record IDs:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillIds();
@@ -0,0 +1,66 @@
+/**
+ * Script to export the recurring transactions as an iCalendar (.ics) file
+ *
+ * Every active recurring template becomes a recurring all-day event, with its
+ * amount and account in the description, so upcoming bills can be subscribed to
+ * or imported in calendar apps. Event UIDs are derived from template IDs, so
+ * re-importing an updated export replaces the events instead of duplicating them.
+ *
+ * Usage:
+ * 1. Ensure you have the necessary Google Sheets API credentials: an API key or
+ *    a service account (see googleServiceAccount.ts)
+ * 2. Set the VITE_SPREADSHEET_ID environment variable
+ * 3. Run using npm: npm run export-ics -- [output file]
+ *    The output file defaults to penny-fincher-bills.ics
+ *
+ * The process exits with status 1 when the recurring transactions cannot be read,
+ * leaving an existing output file untouched.
+ */
+
+// Import required libraries
+import dotenv from 'dotenv';
+import { renameSync, writeFileSync } from 'fs';
+import { GoogleSheetsService } from '../lib/googleSheets';
+import { buildRecurringCalendar } from '../lib/icalendar';
+import { createServiceAccountTokenProvider, hasServiceAccount } from './googleServiceAccount';
+
+// Load environment variables
+dotenv.config();
+
+const SPREADSHEET_ID = process.env.VITE_SPREADSHEET_ID;
+const API_KEY = process.env.VITE_GOOGLE_API_KEY;
+const OUTPUT_FILE = process.argv[2] || 'penny-fincher-bills.ics';
+
+if (!SPREADSHEET_ID || (!API_KEY && !hasServiceAccount())) {
+  console.error('Missing required environment variables: VITE_SPREADSHEET_ID and either VITE_GOOGLE_API_KEY or a service account');
+  process.exit(1);
+}
+
+/**
+ * Writes the iCalendar file of the active recurring transactions
+ * The calendar is written next to the output file first and then moved over it, so
+ * a failed write never leaves a truncated file behind.
+ */
+async function exportRecurringCalendar() {
+  try {
+    const service = new GoogleSheetsService({
+      spreadsheetId: SPREADSHEET_ID || '',
+      apiKey: API_KEY,
+      getAccessToken: hasServiceAccount() ? createServiceAccountTokenProvider() : undefined
+    });
+
+    const recurringTransactions = await service.loadRecurringTransactions();
+    const active = recurringTransactions.filter(rt => rt.active);
+
+    const temporaryFile = `${OUTPUT_FILE}.tmp`;
+    writeFileSync(temporaryFile, buildRecurringCalendar(recurringTransactions));
+    renameSync(temporaryFile, OUTPUT_FILE);
+    console.log(`Exported ${active.length} recurring transactions to ${OUTPUT_FILE}.`);
+  } catch (error) {
+    console.error('Error exporting recurring transactions:', error);
+    process.exit(1);
+  }
+}
+
+// Run the export
+exportRecurringCalendar();
@@ -0,0 +1,162 @@
+/**
+ * Google service-account authentication for the Node scripts
+ *
+ * Signs a JWT with the service account's private key and exchanges it for an
+ * OAuth2 access token. Share the spreadsheet with the service account's email
+ * address so the scripts can write to it.
+ *
+ * Configure either:
+ * - GOOGLE_APPLICATION_CREDENTIALS: path to the service-account JSON key file, or
+ * - GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY
+ */
+
+import { createSign } from 'crypto';
+import { readFileSync } from 'fs';
+
+/** Default OAuth2 token endpoint */
+const TOKEN_URI = 'https://oauth2.googleapis.com/token';
+/** Scope granting read/write access to spreadsheets */
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+/**
+ * Fields of a service-account key used for signing
+ * @interface ServiceAccountKey
+ */
+interface ServiceAccountKey {
+  /** Service account email address */
+  client_email: string;
+  /** PEM-encoded private key */
+  private_key: string;
+  /** Token endpoint, defaults to Google's */
+  token_uri?: string;
+}
+
+/**
+ * Loads the service-account key from the environment
+ * @returns {ServiceAccountKey|null} The key, or null if no service account is configured
+ */
+function loadServiceAccountKey(): ServiceAccountKey | null {
+  const keyFile = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (keyFile) {
+    return JSON.parse(readFileSync(keyFile, 'utf8')) as ServiceAccountKey;
+  }
+
+  const email = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY;
+  if (email && privateKey) {
+    // .env files usually store the PEM key with escaped newlines
+    return { client_email: email, private_key: privateKey.replace(/\\n/g, '\n') };
+  }
+
+  return null;
+}
+
+/**
+ * Encodes a string or buffer as base64url
+ * @param {string|Buffer} value - Value to encode
+ * @returns {string} base64url string without padding
+ */
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Creates the signed JWT assertion for the token request
+ * @param {ServiceAccountKey} key - The service-account key
+ * @param {string} scope - Space-separated scopes
+ * @returns {string} Signed JWT
+ */
+function createAssertion(key: ServiceAccountKey, scope: string): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64Url(JSON.stringify({
+    iss: key.client_email,
+    scope,
+    aud: key.token_uri || TOKEN_URI,
+    iat: issuedAt,
+    exp: issuedAt + 3600
+  }));
+
+  const signer = createSign('RSA-SHA256');
+  signer.update(`${header}.${claims}`);
+  return `${header}.${claims}.${base64Url(signer.sign(key.private_key))}`;
+}
+
+/**
+ * Whether a service account is configured in the environment
+ * @returns {boolean} True if service-account credentials are present
+ */
+export function hasServiceAccount(): boolean {
+  return Boolean(
+    process.env.GOOGLE_APPLICATION_CREDENTIALS ||
+    (process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY)
+  );
+}
+
+/**
+ * Creates a cached access-token provider for the configured service account
+ * @param {string} [scope] - Space-separated scopes, defaults to the Sheets scope
+ * @returns {() => Promise<string|null>} Provider returning a valid access token, or null without a service account
+ */
+export function createServiceAccountTokenProvider(scope: string = SHEETS_SCOPE): () => Promise<string | null> {
+  let cached: { token: string; expiresAt: number } | null = null;
+
+  return async () => {
+    const key = loadServiceAccountKey();
+    if (!key) {
+      return null;
+    }
+
+    if (cached && cached.expiresAt - 60 * 1000 > Date.now()) {
+      return cached.token;
+    }
+
+    const response = await fetch(key.token_uri || TOKEN_URI, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: createAssertion(key, scope)
+      }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Service account token error: ${response.status}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in?: number };
+    cached = {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in || 3600) * 1000
+    };
+    return cached.token;
+  };
+}
+
+/** Shared token provider used by authorizedFetch */
+const defaultTokenProvider = createServiceAccountTokenProvider();
+
+/**
+ * Sends an authorized request to a Google API
+ * Uses the service-account bearer token when configured, otherwise appends the API key.
+ * @async
+ * @param {string} url - Request URL without credentials
+ * @param {RequestInit} [init] - Fetch options
+ * @param {string} [apiKey] - API key used when no service account is configured
+ * @returns {Promise<Response>} The raw response
+ */
+export async function authorizedFetch(url: string, init: RequestInit = {}, apiKey?: string): Promise<Response> {
+  const accessToken = await defaultTokenProvider();
+  const headers = new Headers(init.headers);
+  const target = new URL(url);
+
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
+  } else if (apiKey) {
+    target.searchParams.set('key', apiKey);
+  }
+
+  return fetch(target.toString(), { ...init, headers });
+}
@@ -0,0 +1,170 @@
+/**
+ * Command-line interface for running PennyFincher tasks without the browser
+ *
+ * Commands:
+ *   process-due [--dry-run] [--as-of YYYY-MM-DD]
+ *     Books every due occurrence of the active recurring transactions, exactly like
+ *     "Process Due Transactions" in the app. With --dry-run it only lists the
+ *     transactions it would create. --as-of processes as if it were that day.
+ *     Templates that ask for their amount when posting, and occurrences snoozed in the
+ *     app's review queue, are left for the review queue.
+ *
+ * Processing is idempotent, so the command can run from cron as often as you like,
+ * e.g. daily at 6am:
+ *   0 6 * * * cd /path/to/penny-fincher && npm run --silent penny -- process-due
+ *
+ * The process exits with status 1 on invalid arguments or when processing fails.
+ *
+ * Usage:
+ * 1. Configure a service account (see googleServiceAccount.ts) with edit access
+ * 2. Set the VITE_SPREADSHEET_ID environment variable
+ * 3. Run using npm: npm run penny -- process-due [options]
+ */
+
+// Import required libraries
+import dotenv from 'dotenv';
+import { GoogleSheetsService } from '../lib/googleSheets';
+import { formatDate, parseDate } from '../lib/recurrence';
+import { reviewWithoutQueue } from '../lib/recurringProcessing';
+import type { DueOccurrence } from '../lib/recurringProcessing';
+import { createServiceAccountTokenProvider, hasServiceAccount } from './googleServiceAccount';
+
+// Load environment variables
+dotenv.config();
+
+const SPREADSHEET_ID = process.env.VITE_SPREADSHEET_ID;
+
+/** Help text printed for unknown commands and options */
+const USAGE = `Usage: penny <command> [options]
+
+Commands:
+  process-due   Book the due occurrences of all active recurring transactions
+
+Options:
+  --dry-run          List the transactions that would be created without writing them
+  --as-of YYYY-MM-DD Process as of this date instead of today`;
+
+/**
+ * Parsed options of the process-due command
+ * @interface ProcessDueOptions
+ */
+interface ProcessDueOptions {
+  /** Only list what would be created */
+  dryRun: boolean;
+  /** Processing date */
+  asOf: Date;
+}
+
+/**
+ * Prints an error with the usage and exits with status 1
+ * @param {string} message - The error
+ * @returns {never}
+ */
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+/**
+ * Parses the options of the process-due command
+ * @param {string[]} args - Arguments after the command name
+ * @returns {ProcessDueOptions} The options
+ */
+function parseProcessDueOptions(args: string[]): ProcessDueOptions {
+  const options: ProcessDueOptions = { dryRun: false, asOf: new Date() };
+
+  for (let i = 0; i < args.length; i++) {
+    const [name, inlineValue] = args[i].split('=', 2);
+
+    if (name === '--dry-run') {
+      options.dryRun = true;
+    } else if (name === '--as-of') {
+      const value = inlineValue ?? args[++i];
+      const asOf = value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDate(value) : null;
+      if (!asOf) {
+        fail(`Invalid --as-of date: ${value ?? '(missing)'}, expected YYYY-MM-DD`);
+      }
+      options.asOf = asOf;
+    } else {
+      fail(`Unknown option: ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Formats the amounts of a due occurrence's transaction
+ * @param {DueOccurrence} occurrence - The occurrence
+ * @returns {string} Amounts per currency, or "-" if it has none
+ */
+function formatAmounts(occurrence: DueOccurrence): string {
+  const { amountEUR, amountUSD } = occurrence.transaction;
+  return [
+    amountEUR !== undefined ? `EUR ${amountEUR.toFixed(2)}` : null,
+    amountUSD !== undefined ? `USD ${amountUSD.toFixed(2)}` : null
+  ].filter(Boolean).join(' / ') || '-';
+}
+
+/**
+ * Books the due recurring transactions, or lists them on a dry run
+ * @param {ProcessDueOptions} options - The command's options
+ */
+async function processDue(options: ProcessDueOptions) {
+  if (!SPREADSHEET_ID || !hasServiceAccount()) {
+    console.error('Missing required environment variables: VITE_SPREADSHEET_ID and a service account');
+    process.exit(1);
+  }
+
+  try {
+    const service = new GoogleSheetsService({
+      spreadsheetId: SPREADSHEET_ID,
+      getAccessToken: createServiceAccountTokenProvider()
+    });
+    const asOf = formatDate(options.asOf);
+
+    if (options.dryRun) {
+      const occurrences = await service.previewDueRecurringTransactions(options.asOf);
+      const pending = reviewWithoutQueue(occurrences)
+        .filter(item => item.action === 'approve' && item.occurrence.template.amountMode !== 'prompt')
+        .map(item => item.occurrence);
+
+      console.log(`Due as of ${asOf}: ${pending.length} transactions would be created.`);
+      for (const occurrence of pending) {
+        console.log(`  ${occurrence.date}  ${occurrence.template.description}  ${formatAmounts(occurrence)}  (${occurrence.template.account})`);
+      }
+      if (pending.length < occurrences.length) {
+        console.log(`${occurrences.length - pending.length} occurrences ask for their amount or are snoozed, and are left for the review queue.`);
+      }
+      return;
+    }
+
+    const created = await service.processDueRecurringTransactions(options.asOf);
+    console.log(`Processed recurring transactions as of ${asOf}: created ${created} transactions.`);
+  } catch (error) {
+    console.error('Error processing due recurring transactions:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs the command given on the command line
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'process-due':
+      await processDue(parseProcessDueOptions(args));
+      break;
+    case undefined:
+    case '--help':
+      console.log(USAGE);
+      break;
+    default:
+      fail(`Unknown command: ${command}`);
+  }
+}
+
+// Run the command
+main();
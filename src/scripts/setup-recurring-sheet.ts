@@ -5,14 +5,17 @@
  * for storing recurring transaction data.
  * 
  * Usage:
- * 1. Ensure you have the necessary Google Sheets API credentials
+ * 1. Ensure you have the necessary Google Sheets API credentials. Writes need a
+ *    service account (see googleServiceAccount.ts); an API key only works for
+ *    spreadsheets that are publicly editable.
  * 2. Set the SPREADSHEET_ID environment variable
- * 3. Run using ts-node: npx ts-node src/scripts/setup-recurring-sheet.ts
+ * 3. Run using npm: npm run setup-recurring
  */
 
 // Import required libraries
-import fetch from 'node-fetch';
 import dotenv from 'dotenv';
+import { authorizedFetch, hasServiceAccount } from './googleServiceAccount';
+import { RECURRING_HEADERS, columnLetter } from '../lib/recurringSheet';
 
 // Load environment variables
 dotenv.config();
@@ -20,8 +23,8 @@ dotenv.config();
 const SPREADSHEET_ID = process.env.VITE_SPREADSHEET_ID;
 const API_KEY = process.env.VITE_GOOGLE_API_KEY;
 
-if (!SPREADSHEET_ID || !API_KEY) {
-  console.error('Missing required environment variables: VITE_SPREADSHEET_ID or VITE_GOOGLE_API_KEY');
+if (!SPREADSHEET_ID || (!API_KEY && !hasServiceAccount())) {
+  console.error('Missing required environment variables: VITE_SPREADSHEET_ID and either VITE_GOOGLE_API_KEY or a service account');
   process.exit(1);
 }
 
@@ -31,8 +34,10 @@ if (!SPREADSHEET_ID || !API_KEY) {
 async function setupRecurringSheet() {
   try {
     // Check if the Recurring sheet already exists
-    const sheetsResponse = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}?key=${API_KEY}`
+    const sheetsResponse = await authorizedFetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}`,
+      {},
+      API_KEY
     );
     
     if (!sheetsResponse.ok) {
@@ -54,8 +59,8 @@ async function setupRecurringSheet() {
       console.log('Creating Recurring sheet...');
       
       // Add the sheet
-      const addSheetResponse = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}:batchUpdate?key=${API_KEY}`,
+      const addSheetResponse = await authorizedFetch(
+        `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}:batchUpdate`,
         {
           method: 'POST',
           headers: {
@@ -68,13 +73,14 @@ async function setupRecurringSheet() {
                   title: 'Recurring',
                   gridProperties: {
                     rowCount: 1000,
-                    columnCount: 14
+                    columnCount: Object.keys(RECURRING_HEADERS).length
                   }
                 }
               }
             }]
           })
-        }
+        },
+        API_KEY
       );
       
       if (!addSheetResponse.ok) {
@@ -87,25 +93,11 @@ async function setupRecurringSheet() {
     // Add the header row
     console.log('Setting up header row...');
     
-    const headers = [
-      'Description',
-      'Frequency',
-      'Category',
-      'Subcategory',
-      'Start Date',
-      'Amount (EUR)',
-      'Amount (USD)',
-      'Account',
-      'Notes',
-      'Day of Month',
-      'Day of Week',
-      'End Date',
-      'Last Processed',
-      'Active'
-    ];
+    // Header names are shared with the app, which locates every column by its header
+    const headers: string[] = Object.values(RECURRING_HEADERS);
     
-    const updateHeadersResponse = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/Recurring!A1:N1?valueInputOption=RAW&key=${API_KEY}`,
+    const updateHeadersResponse = await authorizedFetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/Recurring!A1:${columnLetter(headers.length - 1)}1?valueInputOption=RAW`,
       {
         method: 'PUT',
         headers: {
@@ -114,7 +106,8 @@ async function setupRecurringSheet() {
         body: JSON.stringify({
           values: [headers]
         })
-      }
+      },
+      API_KEY
     );
     
     if (!updateHeadersResponse.ok) {
@@ -126,8 +119,8 @@ async function setupRecurringSheet() {
     // Format the header row (bold, center align, background color)
     console.log('Formatting headers...');
     
-    const formatHeadersResponse = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}:batchUpdate?key=${API_KEY}`,
+    const formatHeadersResponse = await authorizedFetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}:batchUpdate`,
       {
         method: 'POST',
         headers: {
@@ -172,7 +165,8 @@ async function setupRecurringSheet() {
             }
           ]
         })
-      }
+      },
+      API_KEY
     );
     
     if (!formatHeadersResponse.ok) {
@@ -0,0 +1,199 @@
+/**
+ * In-memory stand-in for the parts of the Google Sheets REST API that
+ * GoogleSheetsService uses, for tests
+ *
+ * Install it as the global fetch. Every sheet is a list of rows starting with its
+ * header row, and requests are applied in the order they arrive, like the real API
+ * applies them one at a time.
+ */
+
+import { vi } from 'vitest';
+
+/** A request as the fake received it */
+export interface RecordedRequest {
+  /** HTTP method */
+  method: string;
+  /** Path relative to the spreadsheet, decoded */
+  path: string;
+  /** Parsed JSON body, if any */
+  body?: any;
+}
+
+/**
+ * Converts column letters into a zero-based index
+ * @param {string} letters - Column letters, e.g. "AB"
+ * @returns {number} The column index
+ */
+function columnIndex(letters: string): number {
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Fake spreadsheet serving Sheets API requests from memory
+ * @class FakeSheetsApi
+ */
+export class FakeSheetsApi {
+  /** Rows of every sheet by title, including the header row */
+  sheets: Record<string, string[][]>;
+  /** Every request received, in order */
+  requests: RecordedRequest[] = [];
+  /** Called before a request is applied; throw from it to make the request fail */
+  beforeRequest?: (request: RecordedRequest) => void | Promise<void>;
+
+  /**
+   * Creates a fake spreadsheet
+   * @param {Record<string, string[][]>} sheets - Rows of every sheet by title, including the header row
+   */
+  constructor(sheets: Record<string, string[][]>) {
+    this.sheets = sheets;
+  }
+
+  /**
+   * Installs the fake as the global fetch
+   * @returns {FakeSheetsApi} The fake itself
+   */
+  install(): FakeSheetsApi {
+    vi.stubGlobal('fetch', vi.fn((url: string, init: RequestInit = {}) => this.handle(url, init)));
+    return this;
+  }
+
+  /**
+   * Returns the data rows of a sheet, without its header row
+   * @param {string} title - The sheet title
+   * @returns {string[][]} The rows
+   */
+  rows(title: string): string[][] {
+    return this.sheets[title].slice(1);
+  }
+
+  /**
+   * Serves a request
+   * @param {string} url - The request URL
+   * @param {RequestInit} init - The fetch options
+   * @returns {Promise<Response>} The response
+   */
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsed = new URL(url);
+    const path = decodeURIComponent(parsed.pathname.replace(/^\/v4\/spreadsheets\/[^/:]+/, '')) + parsed.search;
+    const request: RecordedRequest = {
+      method: init.method || 'GET',
+      path,
+      body: init.body ? JSON.parse(String(init.body)) : undefined
+    };
+    this.requests.push(request);
+
+    // Let other requests in flight run first, as they would against the real API
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await this.beforeRequest?.(request);
+
+    return new Response(JSON.stringify(this.apply(request)));
+  }
+
+  /**
+   * Applies a request to the sheets
+   * @param {RecordedRequest} request - The request
+   * @returns {any} The response body
+   */
+  private apply({ method, path, body }: RecordedRequest): any {
+    if (path.startsWith('?fields=')) {
+      return {
+        sheets: Object.keys(this.sheets).map((title, sheetId) => ({ properties: { sheetId, title } }))
+      };
+    }
+
+    if (path === ':batchUpdate') {
+      const titles = Object.keys(this.sheets);
+      (body.requests as any[]).forEach(item => {
+        if (item.deleteDimension) {
+          const { sheetId, startIndex, endIndex } = item.deleteDimension.range;
+          this.sheets[titles[sheetId]].splice(startIndex, endIndex - startIndex);
+        } else if (item.insertDimension) {
+          const { sheetId, startIndex, endIndex } = item.insertDimension.range;
+          const rows = Array.from({ length: endIndex - startIndex }, () => [] as string[]);
+          this.sheets[titles[sheetId]].splice(startIndex, 0, ...rows);
+        } else if (item.addSheet) {
+          this.sheets[item.addSheet.properties.title] = [[]];
+        }
+      });
+      return {};
+    }
+
+    if (path === '/values:batchUpdate') {
+      (body.data as { range: string; values: string[][] }[]).forEach(({ range, values }) => this.write(range, values));
+      return {};
+    }
+
+    const append = path.match(/^\/values\/(\w+)!A2:[A-Z]+:append/);
+    if (append) {
+      const rows = this.sheets[append[1]];
+      const firstRow = rows.length + 1;
+      rows.push(...body.values.map((row: unknown[]) => row.map(value => value === null ? '' : String(value))));
+      return { updates: { updatedRange: `${append[1]}!A${firstRow}:P${rows.length}` } };
+    }
+
+    const range = path.replace(/^\/values\//, '').split('?')[0];
+    if (method === 'PUT') {
+      this.write(range, body.values);
+      return {};
+    }
+    // Like the real API, an empty range has no values at all
+    const values = this.read(range);
+    return values.length > 0 ? { values } : {};
+  }
+
+  /**
+   * Parses an A1 range such as Transactions!A2:P, Recurring!1:1 or Loans!K5:K5
+   * @param {string} range - The range
+   * @returns {{title: string, firstRow: number, lastRow: number, firstColumn: number, lastColumn: number}} Zero-based bounds
+   */
+  private parseRange(range: string) {
+    const match = range.match(/^(\w+)!([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?$/);
+    if (!match) {
+      throw new Error(`Unsupported range: ${range}`);
+    }
+    const [, title, startColumn, startRow, endColumn, endRow] = match;
+    const firstRow = startRow ? parseInt(startRow, 10) - 1 : 0;
+    const firstColumn = startColumn ? columnIndex(startColumn) : 0;
+    const isCell = endColumn === undefined && endRow === undefined;
+    return {
+      title,
+      firstRow,
+      lastRow: isCell ? firstRow : endRow ? parseInt(endRow, 10) - 1 : Infinity,
+      firstColumn,
+      lastColumn: isCell ? firstColumn : endColumn ? columnIndex(endColumn) : Infinity
+    };
+  }
+
+  /**
+   * Reads a range, trimming empty trailing rows like the real API
+   * @param {string} range - The range
+   * @returns {string[][]} The values
+   */
+  private read(range: string): string[][] {
+    const { title, firstRow, lastRow, firstColumn, lastColumn } = this.parseRange(range);
+    const rows = (this.sheets[title] || []).slice(firstRow, lastRow + 1)
+      .map(row => row.slice(firstColumn, lastColumn + 1));
+    while (rows.length > 0 && rows[rows.length - 1].every(value => !value)) {
+      rows.pop();
+    }
+    return rows;
+  }
+
+  /**
+   * Writes values into a range; null values leave their cell untouched
+   * @param {string} range - The range
+   * @param {unknown[][]} values - The values
+   */
+  private write(range: string, values: unknown[][]): void {
+    const { title, firstRow, firstColumn } = this.parseRange(range);
+    const rows = this.sheets[title];
+    values.forEach((row, rowOffset) => {
+      const target = rows[firstRow + rowOffset] || (rows[firstRow + rowOffset] = []);
+      row.forEach((value, columnOffset) => {
+        if (value !== null) {
+          target[firstColumn + columnOffset] = String(value);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Builders for the records that tests work with
+ *
+ * Each builder returns a complete record with plain defaults, so a test only
+ * spells out the fields it is about.
+ */
+
+import type { RecurringTransaction, Transaction } from '../lib/types';
+
+/**
+ * Builds a transaction, by default a 3.50 EUR coffee paid by card
+ * @param {Partial<Transaction>} [fields] - Fields that differ from the default
+ * @returns {Transaction} The transaction
+ */
+export const buildTransaction = (fields: Partial<Transaction> = {}): Transaction => ({
+  date: '2024-01-15',
+  description: 'Coffee',
+  category: 'Food & Dining',
+  subcategory: 'Coffee Shops',
+  amountEUR: 3.5,
+  account: 'Card',
+  ...fields
+});
+
+/**
+ * Builds a recurring template, by default the monthly rent of 1200 EUR from January 1, 2024
+ * @param {Partial<RecurringTransaction>} [fields] - Fields that differ from the default
+ * @returns {RecurringTransaction} The template
+ */
+export const buildRecurring = (fields: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+  id: 'rent',
+  description: 'Rent',
+  category: 'Housing',
+  subcategory: 'Rent',
+  amountEUR: 1200,
+  account: 'Bank',
+  frequency: 'monthly',
+  startDate: '2024-01-01',
+  active: true,
+  ...fields
+});